@@ -9,6 +9,7 @@ import 'express-async-errors';
 // Routes and middleware
 import routes from './routes';
 import stripeWebhookRouter from './webhooks/stripeWebhook';
+import clerkWebhookRouter from './webhooks/clerkWebhook';
 
 // Enhanced middleware
 import { errorHandler, notFoundHandler } from './shared/middleware/error-handler.middleware';
@@ -24,6 +25,9 @@ import {
 import config from './config';
 import logger from './shared/utils/logger.util';
 import { setupSwagger } from './infrastructure/swagger/setup';
+import { eventBus } from './infrastructure/events/event-bus';
+import { entitlementCache } from './modules/access/entitlement-cache.service';
+import { entitlementTokenService } from './modules/access/entitlement-token.service';
 
 const app = express();
 
@@ -67,7 +71,9 @@ app.use(cors({
     'X-Request-ID',
     'X-Trace-ID',
     'X-User-ID',
-    'X-Session-ID'
+    'X-Session-ID',
+    'X-Organization-Id',
+    'X-Application-Slug'
   ]
 }));
 
@@ -126,6 +132,7 @@ if (config.healthChecks.enabled) {
 
 // Stripe webhook must receive raw body: mount BEFORE the general JSON parser
 app.use('/api/webhooks/stripe', stripeWebhookRouter);
+app.use('/api/webhooks/clerk', clerkWebhookRouter);
 
 // API Documentation (development only)
 if (config.nodeEnv !== 'production') {
@@ -138,6 +145,10 @@ if (config.rateLimiting.enabled) {
   app.use('/api', rateLimiters.user);
 }
 
+// Domain event handlers
+entitlementCache.registerInvalidationHandlers(eventBus);
+entitlementTokenService.registerRevocationHandlers(eventBus);
+
 // API routes with enhanced middleware
 app.use('/api', routes);
 
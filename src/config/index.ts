@@ -66,9 +66,27 @@ interface AppConfig {
     clerkPublishableKey: string;
     clerkSecretKey: string;
     clerkWebhookSecret: string;
+    // Clerk session token verification
+    clerkJwksUrl?: string; // Overrides the JWKS endpoint (e.g. a local stub server)
+    clerkJwks?: string; // Inline JWKS JSON or path to a JWKS file, used instead of fetching
+    clerkIssuer?: string; // Expected iss claim, derived from the publishable key when unset
+    clerkAuthorizedParties: string[]; // Allowed azp claims (origins); empty allows any
+    clerkJwksCacheTtl: number; // seconds
+    platformAdminUserIds: string[]; // Clerk user IDs allowed to manage applications and plans
     jwtSecret: string;
     jwtExpiresIn: string;
     bcryptRounds: number;
+    apiKeyRotationGracePeriod: number; // seconds the previous key stays valid after rotation
+    invitationTtl: number; // seconds an organization invitation stays valid
+    // Offline entitlement tokens issued to product apps
+    entitlementToken: {
+      algorithm: 'HS256' | 'RS256';
+      privateKey?: string;
+      keyId: string;
+      issuer: string;
+      audience: string;
+      ttl: number; // seconds
+    };
   };
   
   // Stripe
@@ -178,6 +196,9 @@ interface AppConfig {
     dataRetentionDays: number;
     invoiceReminderDays: number[];
     maxRetryAttempts: number;
+    seatExpiryNoticeDays: number;
+    seatScheduleInterval: number;
+    seatReservationDays: number;
   };
   
   // Email
@@ -206,6 +227,7 @@ interface AppConfig {
     timeout: number;
     retryAttempts: number;
     retryDelay: number;
+    retryInterval: number;
     maxPayloadSize: number;
     signatureValidation: boolean;
   };
@@ -287,9 +309,25 @@ const getConfig = (): AppConfig => {
       clerkPublishableKey: process.env.CLERK_PUBLISHABLE_KEY || '',
       clerkSecretKey: process.env.CLERK_SECRET_KEY || '',
       clerkWebhookSecret: process.env.CLERK_WEBHOOK_SECRET || '',
+      clerkJwksUrl: process.env.CLERK_JWKS_URL,
+      clerkJwks: process.env.CLERK_JWKS,
+      clerkIssuer: process.env.CLERK_ISSUER,
+      clerkAuthorizedParties: process.env.CLERK_AUTHORIZED_PARTIES?.split(',') || [],
+      clerkJwksCacheTtl: parseInt(process.env.CLERK_JWKS_CACHE_TTL || '3600'), // 1 hour
+      platformAdminUserIds: process.env.PLATFORM_ADMIN_USER_IDS?.split(',') || [],
       jwtSecret: process.env.JWT_SECRET || generateSecretIfNeeded('jwt'),
       jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
-      bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12')
+      bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12'),
+      apiKeyRotationGracePeriod: parseInt(process.env.API_KEY_ROTATION_GRACE_PERIOD || '86400'), // 24 hours
+      invitationTtl: parseInt(process.env.INVITATION_TTL || '604800'), // 7 days
+      entitlementToken: {
+        algorithm: process.env.ENTITLEMENT_TOKEN_ALGORITHM === 'RS256' ? 'RS256' : 'HS256',
+        privateKey: process.env.ENTITLEMENT_TOKEN_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+        keyId: process.env.ENTITLEMENT_TOKEN_KEY_ID || 'billing-entitlements-1',
+        issuer: process.env.ENTITLEMENT_TOKEN_ISSUER || process.env.SERVICE_NAME || 'billing-service',
+        audience: process.env.ENTITLEMENT_TOKEN_AUDIENCE || 'product-apps',
+        ttl: parseInt(process.env.ENTITLEMENT_TOKEN_TTL || '300') // 5 minutes
+      }
     },
     
     // Stripe
@@ -398,7 +436,10 @@ const getConfig = (): AppConfig => {
       trialReminderDays: parseInt(process.env.TRIAL_REMINDER_DAYS || '3'),
       dataRetentionDays: parseInt(process.env.DATA_RETENTION_DAYS || '2555'), // 7 years
       invoiceReminderDays: JSON.parse(process.env.INVOICE_REMINDER_DAYS || '[7, 3, 1]'),
-      maxRetryAttempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3')
+      maxRetryAttempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3'),
+      seatExpiryNoticeDays: parseInt(process.env.SEAT_EXPIRY_NOTICE_DAYS || '7'),
+      seatScheduleInterval: parseInt(process.env.SEAT_SCHEDULE_INTERVAL || '60000'), // How often seat starts and expiries are processed, in ms
+      seatReservationDays: parseInt(process.env.SEAT_RESERVATION_DAYS || '7') // How long a seat stays reserved for an invitee
     },
     
     // Email
@@ -426,7 +467,8 @@ const getConfig = (): AppConfig => {
     webhooks: {
       timeout: parseInt(process.env.WEBHOOK_TIMEOUT || '30000'),
       retryAttempts: parseInt(process.env.WEBHOOK_RETRY_ATTEMPTS || '3'),
-      retryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY || '1000'),
+      retryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY || '60000'), // Base delay, doubled after each failure
+      retryInterval: parseInt(process.env.WEBHOOK_RETRY_INTERVAL || '30000'), // How often the retry worker polls
       maxPayloadSize: parseInt(process.env.WEBHOOK_MAX_PAYLOAD_SIZE || '1048576'), // 1MB
       signatureValidation: process.env.WEBHOOK_SIGNATURE_VALIDATION !== 'false'
     },
@@ -501,6 +543,11 @@ const validateConfig = (config: AppConfig): void => {
     console.warn('DATABASE_URL should be a valid PostgreSQL connection string');
   }
   
+  // Validate entitlement token signing key
+  if (config.auth.entitlementToken.algorithm === 'RS256' && !config.auth.entitlementToken.privateKey) {
+    throw new Error('ENTITLEMENT_TOKEN_PRIVATE_KEY is required when ENTITLEMENT_TOKEN_ALGORITHM is RS256');
+  }
+  
   // Validate Stripe configuration
   if (config.stripe.secretKey && !config.stripe.secretKey.startsWith('sk_')) {
     throw new Error('STRIPE_SECRET_KEY must be a valid Stripe secret key');
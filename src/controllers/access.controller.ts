@@ -0,0 +1,145 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  AccessCheck,
+  AccessDenialReason,
+  accessService,
+  BatchAccessVerificationResultDto,
+  entitlementTokenService
+} from '../modules/access';
+import { externalOrgMappingService } from '../modules/organizations';
+import { ErrorCode, ForbiddenError, NotFoundError } from '../shared/errors/custom-errors';
+import { logger } from '../shared/utils/logger.util';
+
+/**
+ * A batch check may name the organization by the application's own ID
+ */
+type BatchAccessCheck = Omit<AccessCheck, 'organizationId'> & { organizationId?: string; externalOrgId?: string };
+
+/**
+ * Map each externalOrgId used in place of organizationId to our
+ * organization ID, or to undefined when it is not mapped so that only the
+ * checks using it fail
+ */
+const resolveExternalOrganizations = async (
+  applicationSlug: string,
+  checks: BatchAccessCheck[]
+): Promise<Map<string, string | undefined>> => {
+  const externalOrgIds = Array.from(new Set(
+    checks.filter((check) => !check.organizationId).map((check) => check.externalOrgId!)
+  ));
+
+  return new Map(await Promise.all(
+    externalOrgIds.map(async (externalOrgId) => {
+      try {
+        return [
+          externalOrgId,
+          await externalOrgMappingService.resolveOrganizationId(applicationSlug, externalOrgId)
+        ] as const;
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return [externalOrgId, undefined] as const;
+        }
+        throw error;
+      }
+    })
+  ));
+};
+
+class AccessController {
+  static async verify(req: AuthenticatedRequest, res: Response) {
+    const organizationId = req.header('X-Organization-Id') as string;
+
+    // Outsiders learn nothing about the organization's subscription
+    if (organizationId !== req.user!.organizationId) {
+      logger.logSecurityEvent('organization_access_denied', {
+        userId: req.user!.id,
+        targetOrganizationId: organizationId,
+        path: req.originalUrl
+      });
+      return res.status(403).json({
+        hasAccess: false,
+        reason: AccessDenialReason.NO_ACTIVE_SEAT,
+        message: 'You are not a member of this organization'
+      });
+    }
+
+    const result = await accessService.verifyAccess({
+      userId: req.user!.id,
+      organizationId,
+      applicationSlug: req.header('X-Application-Slug') as string
+    });
+
+    res.status(result.hasAccess ? 200 : 403).json(result);
+  }
+
+  static async batchVerify(req: AuthenticatedRequest, res: Response) {
+    const foreign = (req.body.checks as BatchAccessCheck[]).find(
+      (check) => check.applicationSlug !== req.application!.slug
+    );
+
+    if (foreign) {
+      throw new ForbiddenError(
+        `API key for '${req.application!.slug}' cannot verify access to '${foreign.applicationSlug}'`,
+        ErrorCode.INSUFFICIENT_SCOPE
+      );
+    }
+
+    const checks = req.body.checks as BatchAccessCheck[];
+    const resolved = await resolveExternalOrganizations(req.application!.slug, checks);
+    const organizationIdOf = (check: BatchAccessCheck) => check.organizationId ?? resolved.get(check.externalOrgId!);
+
+    const results = await accessService.verifyAccessBatch(
+      checks
+        .filter((check) => organizationIdOf(check))
+        .map((check): AccessCheck => ({
+          userId: check.userId,
+          organizationId: organizationIdOf(check)!,
+          applicationSlug: check.applicationSlug
+        }))
+    );
+
+    // Put the unmapped checks back in request order
+    let next = 0;
+    const ordered = checks.map((check): BatchAccessVerificationResultDto => {
+      const external = check.organizationId ? {} : { externalOrgId: check.externalOrgId };
+
+      if (!organizationIdOf(check)) {
+        return {
+          userId: check.userId,
+          applicationSlug: check.applicationSlug,
+          ...external,
+          hasAccess: false,
+          reason: AccessDenialReason.NOT_SUBSCRIBED,
+          message: `No organization is mapped to external ID '${check.externalOrgId}'`
+        };
+      }
+
+      return { ...results[next++], ...external };
+    });
+
+    res.status(200).json(ordered);
+  }
+
+  static async issueToken(req: AuthenticatedRequest, res: Response) {
+    const token = await entitlementTokenService.issue(
+      req.user!.id,
+      req.header('X-Organization-Id') as string
+    );
+
+    res.status(201).json(token);
+  }
+
+  static async introspectToken(req: AuthenticatedRequest, res: Response) {
+    const result = await entitlementTokenService.introspect(req.body.token);
+
+    res.status(200).json(result);
+  }
+
+  static async jwks(req: AuthenticatedRequest, res: Response) {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.status(200).json(entitlementTokenService.getJwks());
+  }
+}
+
+export default AccessController;
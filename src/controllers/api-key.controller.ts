@@ -0,0 +1,37 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { apiKeyService } from '../modules/applications';
+import { auditActorFromRequest } from '../modules/audit';
+
+class ApiKeyController {
+  static async create(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await apiKeyService.create(req.params.applicationId, req.body, auditActorFromRequest(req));
+
+    res.status(201).json(apiKey);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const apiKeys = await apiKeyService.list(req.params.applicationId);
+
+    res.status(200).json(apiKeys);
+  }
+
+  static async rotate(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await apiKeyService.rotate(
+      req.params.applicationId,
+      req.params.keyId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(201).json(apiKey);
+  }
+
+  static async revoke(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await apiKeyService.revoke(req.params.applicationId, req.params.keyId, auditActorFromRequest(req));
+
+    res.status(200).json(apiKey);
+  }
+}
+
+export default ApiKeyController;
@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { applicationService, ListApplicationsQueryDto } from '../modules/applications';
+import { auditActorFromRequest } from '../modules/audit';
+
+class ApplicationController {
+  static async create(req: AuthenticatedRequest, res: Response) {
+    const application = await applicationService.create(req.body, auditActorFromRequest(req));
+
+    res.status(201).json(application);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const applications = await applicationService.list(req.query as unknown as ListApplicationsQueryDto);
+
+    res.status(200).json(applications);
+  }
+
+  static async get(req: AuthenticatedRequest, res: Response) {
+    const application = await applicationService.getById(req.params.applicationId);
+
+    res.status(200).json(application);
+  }
+
+  static async getBySlug(req: AuthenticatedRequest, res: Response) {
+    const application = await applicationService.getBySlug(req.params.slug);
+
+    res.status(200).json(application);
+  }
+
+  static async update(req: AuthenticatedRequest, res: Response) {
+    const application = await applicationService.update(
+      req.params.applicationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(application);
+  }
+
+  static async changeStatus(req: AuthenticatedRequest, res: Response) {
+    const application = await applicationService.changeStatus(
+      req.params.applicationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(application);
+  }
+
+  static async remove(req: AuthenticatedRequest, res: Response) {
+    await applicationService.remove(req.params.applicationId, auditActorFromRequest(req));
+
+    res.status(204).send();
+  }
+}
+
+export default ApplicationController;
@@ -0,0 +1,33 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { externalOrgMappingService } from '../modules/organizations';
+import { auditActorFromRequest } from '../modules/audit';
+
+class ExternalOrgMappingController {
+  static async attach(req: AuthenticatedRequest, res: Response) {
+    const mapping = await externalOrgMappingService.attach(
+      req.params.organizationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(201).json(mapping);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const mappings = await externalOrgMappingService.list(
+      req.params.organizationId,
+      req.query.applicationSlug as string | undefined
+    );
+
+    res.status(200).json(mappings);
+  }
+
+  static async remove(req: AuthenticatedRequest, res: Response) {
+    await externalOrgMappingService.remove(req.params.organizationId, req.params.mappingId, auditActorFromRequest(req));
+
+    res.status(204).send();
+  }
+}
+
+export default ExternalOrgMappingController;
@@ -0,0 +1,43 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { InvitationStatus, invitationService } from '../modules/users';
+import { auditActorFromRequest } from '../modules/audit';
+
+class InvitationController {
+  static async invite(req: AuthenticatedRequest, res: Response) {
+    const invitation = await invitationService.invite(
+      req.params.organizationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(201).json(invitation);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const invitations = await invitationService.list(
+      req.params.organizationId,
+      req.query.status as InvitationStatus | undefined
+    );
+
+    res.status(200).json(invitations);
+  }
+
+  static async revoke(req: AuthenticatedRequest, res: Response) {
+    const invitation = await invitationService.revoke(
+      req.params.organizationId,
+      req.params.invitationId,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(invitation);
+  }
+
+  static async accept(req: AuthenticatedRequest, res: Response) {
+    const invitation = await invitationService.accept(req.body.token, req.user!.id, auditActorFromRequest(req));
+
+    res.status(200).json(invitation);
+  }
+}
+
+export default InvitationController;
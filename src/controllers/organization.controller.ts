@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ListOrganizationsQueryDto, organizationService } from '../modules/organizations';
+import { auditActorFromRequest } from '../modules/audit';
+import { ErrorCode, ForbiddenError } from '../shared/errors/custom-errors';
+
+class OrganizationController {
+  static async create(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.create(req.body, req.user!.id, auditActorFromRequest(req));
+
+    res.status(201).json(organization);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const organizations = await organizationService.list(req.query as unknown as ListOrganizationsQueryDto);
+
+    res.status(200).json(organizations);
+  }
+
+  static async get(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.getById(req.params.organizationId);
+
+    res.status(200).json(organization);
+  }
+
+  static async getBySlug(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.getBySlug(req.params.slug);
+
+    // The slug only resolves to an ID here, after requirePermission has run
+    if (organization.id !== req.user!.organizationId) {
+      throw new ForbiddenError('You are not a member of this organization', ErrorCode.ORGANIZATION_ACCESS_DENIED);
+    }
+
+    res.status(200).json(organization);
+  }
+
+  static async update(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.update(
+      req.params.organizationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(organization);
+  }
+
+  static async remove(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.softDelete(req.params.organizationId, auditActorFromRequest(req));
+
+    res.status(200).json(organization);
+  }
+
+  static async transferOwnership(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.transferOwnership(
+      req.params.organizationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(organization);
+  }
+
+  static async suspend(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.suspend(
+      req.params.organizationId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(organization);
+  }
+
+  static async reactivate(req: AuthenticatedRequest, res: Response) {
+    const organization = await organizationService.reactivate(req.params.organizationId, auditActorFromRequest(req));
+
+    res.status(200).json(organization);
+  }
+}
+
+export default OrganizationController;
@@ -0,0 +1,38 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ListSubscriptionPlansQueryDto, planService } from '../modules/subscriptions';
+import { auditActorFromRequest } from '../modules/audit';
+
+class PlanController {
+  static async create(req: AuthenticatedRequest, res: Response) {
+    const plan = await planService.create(req.body, auditActorFromRequest(req));
+
+    res.status(201).json(plan);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const plans = await planService.list(req.query as unknown as ListSubscriptionPlansQueryDto);
+
+    res.status(200).json(plans);
+  }
+
+  static async get(req: AuthenticatedRequest, res: Response) {
+    const plan = await planService.getById(req.params.planId);
+
+    res.status(200).json(plan);
+  }
+
+  static async update(req: AuthenticatedRequest, res: Response) {
+    const plan = await planService.update(req.params.planId, req.body, auditActorFromRequest(req));
+
+    res.status(200).json(plan);
+  }
+
+  static async remove(req: AuthenticatedRequest, res: Response) {
+    const result = await planService.remove(req.params.planId, auditActorFromRequest(req));
+
+    res.status(200).json(result);
+  }
+}
+
+export default PlanController;
@@ -0,0 +1,102 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ListSeatsQueryDto, seatBulkService, seatService } from '../modules/seats';
+import { auditActorFromRequest } from '../modules/audit';
+import { hasPermission, Permission } from '../modules/auth/permissions';
+import { BadRequestError, ErrorCode } from '../shared/errors/custom-errors';
+import { parseCsv } from '../shared/utils/csv.util';
+
+class SeatController {
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const seats = await seatService.list(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.query as unknown as ListSeatsQueryDto
+    );
+
+    res.status(200).json(seats);
+  }
+
+  static async assign(req: AuthenticatedRequest, res: Response) {
+    const seat = await seatService.assign(
+      req.user!.organizationId!,
+      { ...req.body, subscriptionId: req.params.subscriptionId },
+      auditActorFromRequest(req)
+    );
+
+    res.status(201).json(seat);
+  }
+
+  static async reserve(req: AuthenticatedRequest, res: Response) {
+    const reservation = await seatService.reserve(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(201).json(reservation);
+  }
+
+  static async update(req: AuthenticatedRequest, res: Response) {
+    const seat = await seatService.update(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.params.seatId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(seat);
+  }
+
+  static async unassign(req: AuthenticatedRequest, res: Response) {
+    const seat = await seatService.unassign(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.params.seatId,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(seat);
+  }
+
+  static async reassign(req: AuthenticatedRequest, res: Response) {
+    const seat = await seatService.reassign(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.params.seatId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(seat);
+  }
+
+  static async bulk(req: AuthenticatedRequest, res: Response) {
+    let rows: Record<string, unknown>[];
+    if (req.is('text/csv')) {
+      try {
+        rows = parseCsv(typeof req.body === 'string' ? req.body : '');
+      } catch (error) {
+        throw new BadRequestError(`Invalid CSV: ${(error as Error).message}`, ErrorCode.INVALID_FORMAT);
+      }
+    } else {
+      rows = req.body.rows;
+    }
+
+    const report = await seatBulkService.importRows(
+      req.user!.organizationId!,
+      rows,
+      {
+        dryRun: String(req.body?.dryRun ?? req.query.dryRun) === 'true',
+        canInvite: hasPermission(req.user!.role, Permission.USERS_MANAGE),
+      },
+      auditActorFromRequest(req)
+    );
+
+    res.status(report.dryRun ? 200 : 201).json(report);
+  }
+}
+
+export default SeatController;
@@ -0,0 +1,32 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { auditActorFromRequest } from '../modules/audit';
+import { ListStripeWebhookEventsQueryDto, stripeWebhookEventService } from '../modules/webhooks';
+
+class StripeWebhookEventController {
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const events = await stripeWebhookEventService.list(req.query as unknown as ListStripeWebhookEventsQueryDto);
+
+    res.status(200).json(events);
+  }
+
+  static async get(req: AuthenticatedRequest, res: Response) {
+    const event = await stripeWebhookEventService.getById(req.params.eventId);
+
+    res.status(200).json(event);
+  }
+
+  static async replay(req: AuthenticatedRequest, res: Response) {
+    const event = await stripeWebhookEventService.replay(req.params.eventId, auditActorFromRequest(req));
+
+    res.status(200).json(event);
+  }
+
+  static async replayRange(req: AuthenticatedRequest, res: Response) {
+    const summary = await stripeWebhookEventService.replayRange(req.body, auditActorFromRequest(req));
+
+    res.status(200).json(summary);
+  }
+}
+
+export default StripeWebhookEventController;
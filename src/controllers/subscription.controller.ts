@@ -0,0 +1,60 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { subscriptionService } from '../modules/subscriptions';
+import { auditActorFromRequest } from '../modules/audit';
+
+class SubscriptionController {
+  static async checkout(req: AuthenticatedRequest, res: Response) {
+    const session = await subscriptionService.startCheckout(
+      req.user!.organizationId!,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(201).json(session);
+  }
+
+  static async previewQuantity(req: AuthenticatedRequest, res: Response) {
+    const preview = await subscriptionService.previewQuantityChange(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.body
+    );
+
+    res.status(200).json(preview);
+  }
+
+  static async changeQuantity(req: AuthenticatedRequest, res: Response) {
+    const result = await subscriptionService.changeQuantity(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(result);
+  }
+
+  static async cancel(req: AuthenticatedRequest, res: Response) {
+    const result = await subscriptionService.cancel(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(result);
+  }
+
+  static async reactivate(req: AuthenticatedRequest, res: Response) {
+    const result = await subscriptionService.reactivate(
+      req.user!.organizationId!,
+      req.params.subscriptionId,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(result);
+  }
+}
+
+export default SubscriptionController;
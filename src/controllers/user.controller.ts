@@ -0,0 +1,72 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ListUsersQueryDto, userService } from '../modules/users';
+import { auditActorFromRequest } from '../modules/audit';
+
+class UserController {
+  static async create(req: AuthenticatedRequest, res: Response) {
+    const user = await userService.create(req.params.organizationId, req.body, auditActorFromRequest(req));
+
+    res.status(201).json(user);
+  }
+
+  static async list(req: AuthenticatedRequest, res: Response) {
+    const users = await userService.list(
+      req.params.organizationId,
+      req.query as unknown as ListUsersQueryDto
+    );
+
+    res.status(200).json(users);
+  }
+
+  static async get(req: AuthenticatedRequest, res: Response) {
+    const user = await userService.getById(req.params.organizationId, req.params.userId);
+
+    res.status(200).json(user);
+  }
+
+  static async update(req: AuthenticatedRequest, res: Response) {
+    const user = await userService.update(
+      req.params.organizationId,
+      req.params.userId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(user);
+  }
+
+  static async changeRole(req: AuthenticatedRequest, res: Response) {
+    const user = await userService.changeRole(
+      req.params.organizationId,
+      req.params.userId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(user);
+  }
+
+  static async changeStatus(req: AuthenticatedRequest, res: Response) {
+    const user = await userService.changeStatus(
+      req.params.organizationId,
+      req.params.userId,
+      req.body,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(user);
+  }
+
+  static async remove(req: AuthenticatedRequest, res: Response) {
+    const user = await userService.softDelete(
+      req.params.organizationId,
+      req.params.userId,
+      auditActorFromRequest(req)
+    );
+
+    res.status(200).json(user);
+  }
+}
+
+export default UserController;
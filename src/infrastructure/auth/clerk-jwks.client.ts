@@ -0,0 +1,168 @@
+/**
+ * Clerk JWKS Client
+ *
+ * Resolves the public keys Clerk signs session tokens with. Keys come from,
+ * in order of precedence:
+ * - A local stub (config.auth.clerkJwks): inline JWKS JSON or a file path,
+ *   so the auth flow can run offline in development and tests
+ * - An explicit JWKS URL (config.auth.clerkJwksUrl)
+ * - Clerk's Backend API, authenticated with config.auth.clerkSecretKey
+ * - The Frontend API derived from config.auth.clerkPublishableKey
+ *
+ * Keys are cached in memory for config.auth.clerkJwksCacheTtl seconds. An
+ * unknown key ID triggers one refetch (at most once per minute) so Clerk
+ * key rotation is picked up without a restart.
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import fs from 'fs';
+import config from '../../config';
+import { ErrorCode, ServiceUnavailableError, UnauthorizedError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+
+/**
+ * Clerk Backend API JWKS endpoint
+ */
+const CLERK_BACKEND_JWKS_URL = 'https://api.clerk.com/v1/jwks';
+
+/**
+ * Minimum interval between refetches triggered by unknown key IDs
+ */
+const MIN_REFETCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * JSON Web Key Set document
+ */
+export interface Jwks {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+/**
+ * Decode the Clerk Frontend API host from a publishable key
+ * (pk_test_<base64("<host>$")>)
+ */
+export const getClerkFrontendApi = (publishableKey: string): string | undefined => {
+  const match = /^pk_(test|live)_(.+)$/.exec(publishableKey);
+  if (!match) {
+    return undefined;
+  }
+
+  const decoded = Buffer.from(match[2], 'base64').toString('utf8');
+  return decoded.endsWith('$') ? decoded.slice(0, -1) : undefined;
+};
+
+/**
+ * Clerk JWKS Client
+ */
+class ClerkJwksClient {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private inflight?: Promise<void>;
+
+  /**
+   * Get the public key for a key ID
+   */
+  public async getSigningKey(kid: string): Promise<KeyObject> {
+    const expired = Date.now() - this.fetchedAt > config.auth.clerkJwksCacheTtl * 1000;
+    const canRefetch = Date.now() - this.fetchedAt > MIN_REFETCH_INTERVAL_MS;
+
+    if (expired || (!this.keys.has(kid) && canRefetch)) {
+      await this.refresh();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new UnauthorizedError('Unknown token signing key', ErrorCode.INVALID_TOKEN, {
+        additionalInfo: { kid },
+      });
+    }
+
+    return key;
+  }
+
+  /**
+   * Drop cached keys (used by tests and after configuration changes)
+   */
+  public reset(): void {
+    this.keys.clear();
+    this.fetchedAt = 0;
+    this.inflight = undefined;
+  }
+
+  /**
+   * Reload keys, sharing one request between concurrent callers
+   */
+  private async refresh(): Promise<void> {
+    if (!this.inflight) {
+      this.inflight = this.load().finally(() => {
+        this.inflight = undefined;
+      });
+    }
+
+    return this.inflight;
+  }
+
+  private async load(): Promise<void> {
+    const jwks = await this.fetchJwks();
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of jwks.keys) {
+      if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        logger.warn('Skipping unreadable Clerk JWK', { kid: jwk.kid, error: (error as Error).message });
+      }
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    logger.debug('Clerk JWKS loaded', { keyCount: keys.size });
+  }
+
+  private async fetchJwks(): Promise<Jwks> {
+    const { clerkJwks, clerkJwksUrl, clerkSecretKey, clerkPublishableKey } = config.auth;
+
+    if (clerkJwks) {
+      const raw = clerkJwks.trim().startsWith('{') ? clerkJwks : fs.readFileSync(clerkJwks, 'utf8');
+      return JSON.parse(raw) as Jwks;
+    }
+
+    let url = clerkJwksUrl;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (!url && clerkSecretKey) {
+      url = CLERK_BACKEND_JWKS_URL;
+      headers.Authorization = `Bearer ${clerkSecretKey}`;
+    }
+
+    if (!url) {
+      const frontendApi = getClerkFrontendApi(clerkPublishableKey);
+      url = frontendApi ? `https://${frontendApi}/.well-known/jwks.json` : undefined;
+    }
+
+    if (!url) {
+      throw new ServiceUnavailableError('Clerk authentication is not configured');
+    }
+
+    try {
+      const response = await fetch(url, { headers });
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with status ${response.status}`);
+      }
+
+      return (await response.json()) as Jwks;
+    } catch (error) {
+      throw new ServiceUnavailableError('Unable to fetch Clerk signing keys', undefined, {}, error as Error);
+    }
+  }
+}
+
+// Export singleton instance
+export const clerkJwksClient = new ClerkJwksClient();
+
+// Export class for dependency injection
+export { ClerkJwksClient };
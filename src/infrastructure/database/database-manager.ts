@@ -12,7 +12,7 @@
 import { PrismaClient } from '@prisma/client';
 import config from '../../config';
 import logger from '../../shared/utils/logger.util';
-import { DatabaseError } from '../../shared/errors/custom-errors';
+import { BaseError, DatabaseError } from '../../shared/errors/custom-errors';
 
 /**
  * Database connection pool configuration
@@ -217,6 +217,10 @@ class DatabaseManager {
     try {
       return await operation(this.masterClient);
     } catch (error) {
+      // Business errors raised inside the operation pass through unchanged
+      if (error instanceof BaseError) {
+        throw error;
+      }
       logger.error('Write operation failed', { error });
       throw new DatabaseError('Write operation failed', { error });
     }
@@ -233,6 +237,10 @@ class DatabaseManager {
         return await operations(client);
       });
     } catch (error) {
+      // Business errors roll the transaction back and pass through unchanged
+      if (error instanceof BaseError) {
+        throw error;
+      }
       logger.error('Transaction failed', { error });
       throw new DatabaseError('Transaction failed', { error });
     }
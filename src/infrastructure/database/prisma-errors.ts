@@ -0,0 +1,25 @@
+/**
+ * Prisma error helpers
+ *
+ * Recognise Prisma known-request errors so services can turn constraint
+ * violations into domain errors instead of generic DatabaseErrors.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Whether an error is a unique constraint violation (P2002), optionally on
+ * a specific field
+ */
+export const isUniqueConstraintError = (error: unknown, field?: string): boolean => {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+    return false;
+  }
+
+  if (!field) {
+    return true;
+  }
+
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.includes(field) : typeof target === 'string' && target.includes(field);
+};
@@ -0,0 +1,155 @@
+/**
+ * Domain Event Bus
+ *
+ * In-process publish/subscribe bus for billing domain events. Services
+ * publish after a state change commits; handlers (cache invalidation,
+ * notifications, product webhooks) subscribe by event type.
+ *
+ * Features:
+ * - Typed event names shared across modules
+ * - Event envelope with id, timestamp and correlation metadata
+ * - Handler failures are logged and never propagate to the publisher
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { logger } from '../../shared/utils/logger.util';
+
+/**
+ * Billing domain event types
+ */
+export enum BillingEvents {
+  // Subscription lifecycle
+  SUBSCRIPTION_CREATED = 'subscription.created',
+  SUBSCRIPTION_UPDATED = 'subscription.updated',
+  SUBSCRIPTION_CANCELED = 'subscription.canceled',
+  SUBSCRIPTION_REACTIVATED = 'subscription.reactivated',
+  SUBSCRIPTION_QUANTITY_UPDATED = 'subscription.quantity_updated',
+
+  // Seat management
+  SEAT_ASSIGNED = 'seat.assigned',
+  SEAT_REMOVED = 'seat.removed',
+  SEAT_EXPIRING = 'seat.expiring',
+  SEATS_BULK_ASSIGNED = 'seats.bulk_assigned',
+  SEATS_BULK_REMOVED = 'seats.bulk_removed',
+
+  // Payment
+  PAYMENT_SUCCEEDED = 'payment.succeeded',
+  PAYMENT_FAILED = 'payment.failed',
+
+  // Organization
+  ORGANIZATION_CREATED = 'organization.created',
+  ORGANIZATION_SUSPENDED = 'organization.suspended',
+  ORGANIZATION_REACTIVATED = 'organization.reactivated',
+  ORGANIZATION_DELETED = 'organization.deleted',
+
+  // Application
+  APPLICATION_STATUS_CHANGED = 'application.status_changed',
+
+  // User
+  USER_ADDED_TO_ORG = 'user.added_to_org',
+  USER_REMOVED_FROM_ORG = 'user.removed_from_org',
+  USER_SUSPENDED = 'user.suspended',
+  USER_DEACTIVATED = 'user.deactivated',
+  USER_REACTIVATED = 'user.reactivated',
+  USER_INVITED = 'user.invited',
+}
+
+/**
+ * Event metadata
+ */
+export interface DomainEventMetadata {
+  correlationId?: string;
+  causationId?: string;
+  userId?: string;
+  organizationId?: string;
+  applicationId?: string;
+}
+
+/**
+ * Event envelope delivered to handlers
+ */
+export interface DomainEvent<T = unknown> {
+  id: string;
+  type: BillingEvents;
+  timestamp: Date;
+  version: string;
+  data: T;
+  metadata: DomainEventMetadata;
+}
+
+/**
+ * Event handler signature
+ */
+export type DomainEventHandler<T = unknown> = (event: DomainEvent<T>) => Promise<void> | void;
+
+/**
+ * Domain Event Bus
+ */
+class EventBus {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(50);
+  }
+
+  /**
+   * Publish an event and wait for every handler to settle
+   */
+  public async publish<T>(
+    type: BillingEvents,
+    data: T,
+    metadata: DomainEventMetadata = {}
+  ): Promise<DomainEvent<T>> {
+    const event: DomainEvent<T> = {
+      id: randomUUID(),
+      type,
+      timestamp: new Date(),
+      version: 'v1',
+      data,
+      metadata: {
+        ...metadata,
+        correlationId: metadata.correlationId || randomUUID(),
+      },
+    };
+
+    const handlers = this.emitter.listeners(type) as DomainEventHandler<T>[];
+
+    await Promise.all(
+      handlers.map(async (handler) => {
+        try {
+          await handler(event);
+        } catch (error) {
+          logger.error('Domain event handler failed', {
+            eventId: event.id,
+            eventType: type,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      })
+    );
+
+    return event;
+  }
+
+  /**
+   * Register a handler for an event type
+   */
+  public subscribe<T>(type: BillingEvents, handler: DomainEventHandler<T>): void {
+    this.emitter.on(type, handler);
+  }
+
+  /**
+   * Remove a previously registered handler
+   */
+  public unsubscribe<T>(type: BillingEvents, handler: DomainEventHandler<T>): void {
+    this.emitter.off(type, handler);
+  }
+}
+
+// Export singleton instance
+export const eventBus = new EventBus();
+
+// Export class for dependency injection
+export { EventBus };
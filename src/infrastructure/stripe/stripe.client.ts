@@ -0,0 +1,59 @@
+/**
+ * Stripe Client
+ *
+ * Shared Stripe SDK instance, created on first use from config.stripe so
+ * that modules which never call Stripe do not require a secret key.
+ * Calls made through withStripe surface SDK errors as a StripeError
+ * carrying Stripe's code.
+ */
+
+import Stripe from 'stripe';
+import config from '../../config';
+import { ErrorFactory, ServiceUnavailableError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+
+let instance: Stripe | undefined;
+
+/**
+ * Get the shared Stripe SDK instance
+ */
+export const getStripe = (): Stripe => {
+  if (!instance) {
+    if (!config.stripe.secretKey) {
+      logger.error('Stripe call attempted but STRIPE_SECRET_KEY is not configured');
+      throw new ServiceUnavailableError('Stripe is not configured');
+    }
+
+    instance = new Stripe(config.stripe.secretKey, {
+      apiVersion: config.stripe.apiVersion as Stripe.LatestApiVersion,
+      timeout: config.stripe.timeout,
+      maxNetworkRetries: config.stripe.maxRetries,
+    });
+  }
+
+  return instance;
+};
+
+/**
+ * Convert an error thrown by the Stripe SDK into a StripeError; anything
+ * else is returned unchanged
+ */
+export const toStripeError = (error: unknown): unknown => {
+  if (error instanceof Stripe.errors.StripeError) {
+    return ErrorFactory.fromStripeError(error);
+  }
+
+  return error;
+};
+
+/**
+ * Run an operation against the shared Stripe instance, converting SDK
+ * errors with toStripeError
+ */
+export const withStripe = async <T>(operation: (stripe: Stripe) => Promise<T>): Promise<T> => {
+  try {
+    return await operation(getStripe());
+  } catch (error) {
+    throw toStripeError(error);
+  }
+};
@@ -38,6 +38,12 @@ export function setupSwagger(app: Express): void {
             scheme: 'bearer',
             bearerFormat: 'JWT',
             description: 'Enter JWT token'
+          },
+          ApiKeyAuth: {
+            type: 'apiKey',
+            in: 'header',
+            name: 'X-API-Key',
+            description: 'Application API key (bk_...) for service-to-service calls'
           }
         },
         schemas: {
@@ -186,6 +192,24 @@ export function setupSwagger(app: Express): void {
               }
             }
           },
+          ForbiddenError: {
+            description: 'The caller lacks the required role or permission, or is not a member of the organization',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    code: {
+                      type: 'string',
+                      enum: ['INSUFFICIENT_ROLE', 'INSUFFICIENT_PERMISSIONS', 'ORGANIZATION_ACCESS_DENIED'],
+                      example: 'INSUFFICIENT_PERMISSIONS'
+                    },
+                    message: { type: 'string', example: 'Missing permission: subscriptions:manage' }
+                  }
+                }
+              }
+            }
+          },
           ValidationError: {
             description: 'Input validation failed',
             content: {
@@ -208,6 +232,9 @@ export function setupSwagger(app: Express): void {
         { name: 'Organizations', description: 'Organization management endpoints' },
         { name: 'Users', description: 'User management and authentication' },
         { name: 'Subscriptions', description: 'Subscription management endpoints' },
+        { name: 'Seats', description: 'Seat assignment on subscriptions' },
+        { name: 'Access', description: 'Seat access verification for product applications' },
+        { name: 'Applications', description: 'Product application catalog and API keys' },
         { name: 'Payments', description: 'Payment processing and history' },
         { name: 'Webhooks', description: 'Webhook management and processing' },
         { name: 'Analytics', description: 'Revenue and usage analytics' }
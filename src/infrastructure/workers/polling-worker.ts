@@ -0,0 +1,78 @@
+/**
+ * Polling Worker
+ *
+ * Runs a background task every intervalMs milliseconds. Runs never
+ * overlap, a failed run is logged and retried on the next tick, and the
+ * timer does not keep the process alive on shutdown.
+ */
+
+import { logger } from '../../shared/utils/logger.util';
+
+/**
+ * What a worker runs and how often
+ */
+export interface PollingWorkerOptions {
+  /** Name used in log messages, e.g. 'Seat schedule worker' */
+  name: string;
+  /** Milliseconds between runs, read when the worker starts */
+  interval: () => number;
+  /** One pass of the work */
+  run: () => Promise<unknown>;
+}
+
+/**
+ * Polling Worker
+ */
+class PollingWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly options: PollingWorkerOptions) {}
+
+  /**
+   * Start polling; calling it again while started does nothing
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = this.options.interval();
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalMs);
+    this.timer.unref();
+
+    logger.info(`${this.options.name} started`, { intervalMs });
+  }
+
+  /**
+   * Stop polling. A run already in progress is left to finish.
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run one pass unless the previous one is still going
+   */
+  public async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.options.run();
+    } catch (error) {
+      logger.error(`${this.options.name} run failed`, { error: (error as Error).message });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export { PollingWorker };
@@ -0,0 +1,57 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { apiKeyService, extractApiKey } from '../modules/applications/api-key.service';
+import { ApiKeyScope } from '../modules/applications/dto/api-key.dto';
+import { ErrorCode, ForbiddenError, UnauthorizedError } from '../shared/errors/custom-errors';
+import { logger } from '../shared/utils/logger.util';
+
+/**
+ * Authenticate a product backend by its Application API key (X-API-Key or
+ * Authorization: Bearer bk_...) and attach the calling Application
+ */
+const apiKeyAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const key = extractApiKey(req);
+
+  if (!key) {
+    return next(new UnauthorizedError('API key required', ErrorCode.INVALID_API_KEY));
+  }
+
+  try {
+    const principal = await apiKeyService.authenticate(key, req.ip);
+
+    req.application = principal.application;
+    req.apiKey = { ...principal.apiKey, scopes: principal.scopes };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Allow only API keys granted every given scope
+ */
+export const requireScope = (scopes: ApiKeyScope | ApiKeyScope[]): RequestHandler => {
+  const required = Array.isArray(scopes) ? scopes : [scopes];
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.apiKey) {
+      throw new UnauthorizedError('API key required', ErrorCode.INVALID_API_KEY);
+    }
+
+    const missing = required.filter((scope) => !req.apiKey!.scopes.includes(scope));
+
+    if (missing.length > 0) {
+      logger.logSecurityEvent('api_key_scope_denied', {
+        applicationId: req.application?.id,
+        keyPrefix: req.apiKey.keyPrefix,
+        missing,
+        path: req.originalUrl,
+      });
+      throw new ForbiddenError(`API key is missing scope: ${missing.join(', ')}`, ErrorCode.INSUFFICIENT_SCOPE);
+    }
+
+    next();
+  };
+};
+
+export default apiKeyAuth;
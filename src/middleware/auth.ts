@@ -1,42 +1,50 @@
 import { Request, Response, NextFunction } from 'express';
-import logger from '../utils/logger';
+import { UserRole } from '@prisma/client';
+import {
+  AuthenticatedOrganization,
+  AuthenticatedUser,
+  ClerkSessionClaims,
+  clerkAuthService
+} from '../modules/auth';
+import { ApiKeyPrincipal } from '../modules/applications/api-key.service';
+import { ErrorCode, UnauthorizedError } from '../shared/errors/custom-errors';
 
-interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    organizationId: string;
+export interface AuthenticatedRequest extends Request {
+  user?: AuthenticatedUser;
+  organization?: AuthenticatedOrganization;
+  role?: UserRole;
+  auth?: {
+    sessionId?: string;
+    claims: ClerkSessionClaims;
   };
+  // Set by apiKeyAuth for service-to-service calls
+  application?: ApiKeyPrincipal['application'];
+  apiKey?: ApiKeyPrincipal['apiKey'] & { scopes: ApiKeyPrincipal['scopes'] };
 }
 
+/**
+ * Verify the Clerk session token in the Authorization header and attach the
+ * local user, their organization and role to the request
+ */
 const auth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
+  const header = req.header('Authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
 
-    if (!token) {
-      return res.status(401).json({
-        success: false,
-        error: 'No token, authorization denied'
-      });
-    }
+  if (!token) {
+    return next(new UnauthorizedError('No token, authorization denied', ErrorCode.INVALID_TOKEN));
+  }
 
-    // For now, we'll create a mock implementation
-    // In production, this would validate JWT tokens with Clerk
-    const mockUser = {
-      id: 'user_123',
-      email: 'test@example.com',
-      organizationId: 'org_123'
-    };
+  try {
+    const result = await clerkAuthService.authenticate(token);
 
-    req.user = mockUser;
+    req.user = result.user;
+    req.organization = result.organization;
+    req.role = result.role;
+    req.auth = { sessionId: result.sessionId, claims: result.claims };
     next();
   } catch (error) {
-    logger.error('Auth middleware error:', error);
-    res.status(401).json({
-      success: false,
-      error: 'Token is not valid'
-    });
+    next(error);
   }
 };
 
-export default auth;
\ No newline at end of file
+export default auth;
@@ -0,0 +1,108 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest } from './auth';
+import config from '../config';
+import { hasPermission, Permission } from '../modules/auth/permissions';
+import { ErrorCode, ForbiddenError, UnauthorizedError } from '../shared/errors/custom-errors';
+import { logger } from '../shared/utils/logger.util';
+
+/**
+ * Resolves the organization a request acts on
+ */
+export type OrganizationResolver = (req: AuthenticatedRequest) => string | undefined;
+
+export interface AuthorizeOptions {
+  /**
+   * Where to find the target organization. Defaults to the organizationId
+   * route param, the X-Organization-Id header, then organizationId in the
+   * body or query string. When none is present the actor's own
+   * organization is the target.
+   */
+  organization?: OrganizationResolver;
+}
+
+export const defaultOrganizationResolver: OrganizationResolver = (req) =>
+  req.params?.organizationId ||
+  req.header('X-Organization-Id') ||
+  req.body?.organizationId ||
+  (typeof req.query?.organizationId === 'string' ? req.query.organizationId : undefined);
+
+/**
+ * Ensure the actor is authenticated and belongs to the target organization
+ */
+const assertMembership = (req: AuthenticatedRequest, options: AuthorizeOptions) => {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  const targetOrganizationId = (options.organization ?? defaultOrganizationResolver)(req);
+
+  if (!req.user.organizationId || (targetOrganizationId && targetOrganizationId !== req.user.organizationId)) {
+    logger.logSecurityEvent('organization_access_denied', {
+      userId: req.user.id,
+      organizationId: req.user.organizationId ?? undefined,
+      targetOrganizationId,
+      path: req.originalUrl,
+    });
+    throw new ForbiddenError('You are not a member of this organization', ErrorCode.ORGANIZATION_ACCESS_DENIED);
+  }
+
+  return req.user;
+};
+
+/**
+ * Allow only the given roles within the target organization
+ */
+export const requireRole = (roles: UserRole | UserRole[], options: AuthorizeOptions = {}): RequestHandler => {
+  const allowed = Array.isArray(roles) ? roles : [roles];
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const user = assertMembership(req, options);
+
+    if (!allowed.includes(user.role)) {
+      logger.logSecurityEvent('role_denied', { userId: user.id, role: user.role, required: allowed, path: req.originalUrl });
+      throw new ForbiddenError(`Requires role: ${allowed.join(' or ')}`, ErrorCode.INSUFFICIENT_ROLE);
+    }
+
+    next();
+  };
+};
+
+/**
+ * Allow only roles granted every given permission within the target organization
+ */
+export const requirePermission = (
+  permissions: Permission | Permission[],
+  options: AuthorizeOptions = {}
+): RequestHandler => {
+  const required = Array.isArray(permissions) ? permissions : [permissions];
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const user = assertMembership(req, options);
+    const missing = required.filter((permission) => !hasPermission(user.role, permission));
+
+    if (missing.length > 0) {
+      logger.logSecurityEvent('permission_denied', { userId: user.id, role: user.role, missing, path: req.originalUrl });
+      throw new ForbiddenError(`Missing permission: ${missing.join(', ')}`, ErrorCode.INSUFFICIENT_PERMISSIONS);
+    }
+
+    next();
+  };
+};
+
+/**
+ * Allow only platform administrators (config.auth.platformAdminUserIds),
+ * who manage the application catalog rather than a single organization
+ */
+export const requirePlatformAdmin: RequestHandler = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  if (!config.auth.platformAdminUserIds.includes(req.user.clerkUserId)) {
+    logger.logSecurityEvent('platform_admin_denied', { userId: req.user.id, path: req.originalUrl });
+    throw new ForbiddenError('Requires platform administrator access', ErrorCode.PLATFORM_ADMIN_REQUIRED);
+  }
+
+  next();
+};
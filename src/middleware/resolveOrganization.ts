@@ -0,0 +1,42 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { externalOrgMappingService } from '../modules/organizations/external-org-mapping.service';
+import { BadRequestError, ErrorCode } from '../shared/errors/custom-errors';
+
+/**
+ * Let product-facing endpoints accept the product's own organization ID.
+ *
+ * When X-External-Org-Id is sent without X-Organization-Id, it is resolved
+ * through the application's ExternalOrgMapping and X-Organization-Id is set
+ * to our organization ID, so validation, authorization and controllers
+ * downstream see an ordinary request. The application is the calling API
+ * key's application, or X-Application-Slug for session-authenticated calls.
+ */
+const resolveOrganization = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const externalOrgId = req.header('X-External-Org-Id');
+
+  if (!externalOrgId || req.header('X-Organization-Id')) {
+    return next();
+  }
+
+  const applicationSlug = req.application?.slug ?? req.header('X-Application-Slug');
+
+  if (!applicationSlug) {
+    return next(new BadRequestError(
+      'X-Application-Slug header required with X-External-Org-Id',
+      ErrorCode.MISSING_REQUIRED_FIELD
+    ));
+  }
+
+  try {
+    req.headers['x-organization-id'] = await externalOrgMappingService.resolveOrganizationId(
+      applicationSlug,
+      externalOrgId
+    );
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default resolveOrganization;
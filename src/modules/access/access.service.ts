@@ -0,0 +1,292 @@
+/**
+ * Access Verification Service
+ *
+ * Answers the question product applications ask on every request:
+ * "may this user use this application on behalf of this organization?"
+ *
+ * Reads go through the database manager so they are served by the read
+ * replica when one is configured. Single checks are cached through the
+ * entitlement cache. An unknown application is denied as NOT_SUBSCRIBED,
+ * for single and batch checks alike, and a suspended or deleted
+ * organization as ORGANIZATION_INACTIVE whatever its subscription says.
+ */
+
+import { Organization, OrganizationStatus, OrganizationSubscription, SeatStatus, SubscriptionSeat, SubscriptionStatus, UserStatus } from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { logger } from '../../shared/utils/logger.util';
+import { entitlementCache } from './entitlement-cache.service';
+import {
+  AccessDenialReason,
+  AccessVerificationResponseDto,
+  BatchAccessVerificationResultDto
+} from './dto';
+
+/**
+ * Subscription statuses that grant access to seat holders
+ */
+export const ACCESS_GRANTING_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+];
+
+/**
+ * Seat holders that may be granted access: only ACTIVE, non-deleted users
+ */
+export const ACTIVE_USER_FILTER = { status: UserStatus.ACTIVE, deletedAt: null } as const;
+
+/**
+ * Maximum number of checks accepted by a single batch verification
+ */
+export const MAX_BATCH_VERIFY_SIZE = 500;
+
+/**
+ * Identifies a single access check
+ */
+export interface AccessCheck {
+  userId: string;
+  organizationId: string;
+  applicationSlug: string;
+}
+
+/**
+ * Subscription fields needed to evaluate a check
+ */
+type SubscriptionSnapshot = Pick<
+  OrganizationSubscription,
+  'id' | 'status' | 'quantity' | 'currentPeriodEnd'
+> & { seatsUsed: number; organization: Pick<Organization, 'status' | 'deletedAt'> };
+
+/**
+ * Organization fields needed to evaluate a check
+ */
+const ORGANIZATION_STATE_SELECT = { select: { status: true, deletedAt: true } } as const;
+
+/**
+ * Seat fields needed to evaluate a check
+ */
+type SeatSnapshot = Pick<SubscriptionSeat, 'id' | 'status' | 'assignedAt' | 'expiresAt'>;
+
+/**
+ * Access Verification Service
+ */
+class AccessService {
+  /**
+   * Verify that a user holds an ACTIVE seat on an ACTIVE or TRIALING
+   * subscription of the given organization and application
+   */
+  public async verifyAccess(check: AccessCheck): Promise<AccessVerificationResponseDto> {
+    return entitlementCache.getOrLoad(check, () => this.loadAccess(check));
+  }
+
+  /**
+   * Evaluate a single check against the database
+   */
+  private async loadAccess(check: AccessCheck): Promise<AccessVerificationResponseDto> {
+    const { userId, organizationId, applicationSlug } = check;
+
+    const { subscription, applicationFound } = await databaseManager.executeRead(async (client) => {
+      const found = await client.organizationSubscription.findFirst({
+        where: {
+          organizationId,
+          application: { slug: applicationSlug },
+        },
+        include: {
+          seats: { where: { userId, user: ACTIVE_USER_FILTER }, take: 1 },
+          organization: ORGANIZATION_STATE_SELECT,
+          _count: { select: { seats: { where: { status: SeatStatus.ACTIVE } } } },
+        },
+      });
+
+      const application = found ? null : await client.application.findUnique({
+        where: { slug: applicationSlug },
+        select: { id: true },
+      });
+
+      return { subscription: found, applicationFound: Boolean(found || application) };
+    });
+
+    if (!applicationFound) {
+      return unknownApplication(applicationSlug);
+    }
+
+    const result = this.evaluate(
+      subscription ? { ...subscription, seatsUsed: subscription._count.seats } : null,
+      subscription?.seats[0]
+    );
+
+    if (result.hasAccess) {
+      logger.debug('Access granted', { userId, organizationId, applicationSlug, seatId: result.seat?.id });
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify many checks at once using a fixed number of grouped queries
+   * (applications, subscriptions, seat counts, seats) regardless of batch size.
+   * Results are returned in the same order as the checks.
+   */
+  public async verifyAccessBatch(checks: AccessCheck[]): Promise<BatchAccessVerificationResultDto[]> {
+    if (checks.length === 0) {
+      return [];
+    }
+
+    const slugs = unique(checks.map((check) => check.applicationSlug));
+    const organizationIds = unique(checks.map((check) => check.organizationId));
+    const userIds = unique(checks.map((check) => check.userId));
+
+    const { applications, subscriptions, seatCounts, seats } = await databaseManager.executeRead(async (client) => {
+      const applications = await client.application.findMany({
+        where: { slug: { in: slugs } },
+        select: { id: true, slug: true },
+      });
+
+      const subscriptions = applications.length === 0 ? [] : await client.organizationSubscription.findMany({
+        where: {
+          organizationId: { in: organizationIds },
+          applicationId: { in: applications.map((application) => application.id) },
+        },
+        select: {
+          id: true,
+          organizationId: true,
+          applicationId: true,
+          status: true,
+          quantity: true,
+          currentPeriodEnd: true,
+          organization: ORGANIZATION_STATE_SELECT,
+        },
+      });
+
+      const subscriptionIds = subscriptions.map((subscription) => subscription.id);
+
+      const [seatCounts, seats] = subscriptionIds.length === 0 ? [[], []] : await Promise.all([
+        client.subscriptionSeat.groupBy({
+          by: ['subscriptionId'],
+          where: { subscriptionId: { in: subscriptionIds }, status: SeatStatus.ACTIVE },
+          _count: { _all: true },
+        }),
+        client.subscriptionSeat.findMany({
+          where: { subscriptionId: { in: subscriptionIds }, userId: { in: userIds }, user: ACTIVE_USER_FILTER },
+          select: { id: true, subscriptionId: true, userId: true, status: true, assignedAt: true, expiresAt: true },
+        }),
+      ]);
+
+      return { applications, subscriptions, seatCounts, seats };
+    });
+
+    const applicationIdBySlug = new Map(applications.map((application) => [application.slug, application.id]));
+    const seatsUsedBySubscription = new Map(seatCounts.map((count) => [count.subscriptionId, count._count._all]));
+    const subscriptionByKey = new Map(
+      subscriptions.map((subscription) => [
+        `${subscription.organizationId}:${subscription.applicationId}`,
+        { ...subscription, seatsUsed: seatsUsedBySubscription.get(subscription.id) ?? 0 },
+      ])
+    );
+    const seatByKey = new Map(seats.map((seat) => [`${seat.subscriptionId}:${seat.userId}`, seat]));
+
+    return checks.map((check) => {
+      const applicationId = applicationIdBySlug.get(check.applicationSlug);
+      const identity = {
+        userId: check.userId,
+        organizationId: check.organizationId,
+        applicationSlug: check.applicationSlug,
+      };
+
+      if (!applicationId) {
+        return { ...identity, ...unknownApplication(check.applicationSlug) };
+      }
+
+      const subscription = subscriptionByKey.get(`${check.organizationId}:${applicationId}`) ?? null;
+      const seat = subscription ? seatByKey.get(`${subscription.id}:${check.userId}`) : undefined;
+
+      return { ...identity, ...this.evaluate(subscription, seat) };
+    });
+  }
+
+  /**
+   * Turn a subscription and the user's seat (if any) into a verification result
+   */
+  private evaluate(
+    subscription: SubscriptionSnapshot | null,
+    seat: SeatSnapshot | undefined
+  ): AccessVerificationResponseDto {
+    if (!subscription) {
+      return {
+        hasAccess: false,
+        reason: AccessDenialReason.NOT_SUBSCRIBED,
+        message: 'Organization does not have a subscription to this application',
+      };
+    }
+
+    const summary = {
+      id: subscription.id,
+      status: subscription.status,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      seatsUsed: subscription.seatsUsed,
+      totalSeats: subscription.quantity,
+    };
+
+    const { organization } = subscription;
+    if (organization.status !== OrganizationStatus.ACTIVE || organization.deletedAt) {
+      return {
+        hasAccess: false,
+        reason: AccessDenialReason.ORGANIZATION_INACTIVE,
+        message: organization.deletedAt ? 'Organization has been deleted' : `Organization status: ${organization.status}`,
+        subscription: summary,
+      };
+    }
+
+    if (!ACCESS_GRANTING_STATUSES.includes(subscription.status)) {
+      return {
+        hasAccess: false,
+        reason: AccessDenialReason.SUBSCRIPTION_INACTIVE,
+        message: `Subscription status: ${subscription.status}`,
+        subscription: summary,
+      };
+    }
+
+    // An expired seat grants nothing even before the scheduler releases it
+    if (!seat || seat.status !== SeatStatus.ACTIVE || (seat.expiresAt && seat.expiresAt <= new Date())) {
+      return {
+        hasAccess: false,
+        reason: AccessDenialReason.NO_ACTIVE_SEAT,
+        message: 'You do not have an assigned seat. Contact your administrator.',
+        subscription: summary,
+      };
+    }
+
+    return {
+      hasAccess: true,
+      subscription: summary,
+      seat: {
+        id: seat.id,
+        assignedAt: seat.assignedAt,
+        expiresAt: seat.expiresAt,
+      },
+    };
+  }
+}
+
+/**
+ * Result for a check naming an application that does not exist
+ */
+function unknownApplication(applicationSlug: string): AccessVerificationResponseDto {
+  return {
+    hasAccess: false,
+    reason: AccessDenialReason.NOT_SUBSCRIBED,
+    message: `Application '${applicationSlug}' not found`,
+  };
+}
+
+/**
+ * De-duplicate a list of strings
+ */
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// Export singleton instance
+export const accessService = new AccessService();
+
+// Export class for dependency injection
+export { AccessService };
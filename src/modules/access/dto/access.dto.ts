@@ -0,0 +1,131 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { BaseDto } from '../../../shared/dto/base.dto';
+import { SubscriptionStatus } from '@prisma/client';
+
+export enum AccessDenialReason {
+  NOT_SUBSCRIBED = 'NOT_SUBSCRIBED',
+  SUBSCRIPTION_INACTIVE = 'SUBSCRIPTION_INACTIVE',
+  ORGANIZATION_INACTIVE = 'ORGANIZATION_INACTIVE',
+  NO_ACTIVE_SEAT = 'NO_ACTIVE_SEAT',
+}
+
+export class AccessSubscriptionSummaryDto extends BaseDto {
+  @ApiProperty({
+    description: 'Organization subscription ID',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Subscription status',
+    enum: SubscriptionStatus,
+    example: SubscriptionStatus.ACTIVE,
+  })
+  status: SubscriptionStatus;
+
+  @ApiProperty({
+    description: 'Current period end date',
+    example: '2024-02-15T00:00:00.000Z',
+    required: false,
+  })
+  currentPeriodEnd?: Date | null;
+
+  @ApiProperty({
+    description: 'Number of ACTIVE seats on the subscription',
+    example: 3,
+  })
+  seatsUsed: number;
+
+  @ApiProperty({
+    description: 'Number of paid seats on the subscription',
+    example: 5,
+  })
+  totalSeats: number;
+}
+
+export class AccessSeatSummaryDto extends BaseDto {
+  @ApiProperty({
+    description: 'Seat unique identifier',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Seat assignment date',
+    example: '2024-01-15T00:00:00.000Z',
+  })
+  assignedAt: Date;
+
+  @ApiProperty({
+    description: 'When the seat expires, if it is time-boxed',
+    example: '2024-06-30T00:00:00.000Z',
+    required: false,
+    nullable: true,
+  })
+  expiresAt?: Date | null;
+}
+
+export class AccessVerificationResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'Whether the user may use the application',
+    example: true,
+  })
+  hasAccess: boolean;
+
+  @ApiProperty({
+    description: 'Reason access was denied',
+    enum: AccessDenialReason,
+    example: AccessDenialReason.NO_ACTIVE_SEAT,
+    required: false,
+  })
+  reason?: AccessDenialReason;
+
+  @ApiProperty({
+    description: 'Human-readable explanation of a denial',
+    example: 'You do not have an assigned seat. Contact your administrator.',
+    required: false,
+  })
+  message?: string;
+
+  @ApiProperty({
+    description: 'Subscription summary (omitted when not subscribed)',
+    type: () => AccessSubscriptionSummaryDto,
+    required: false,
+  })
+  subscription?: AccessSubscriptionSummaryDto;
+
+  @ApiProperty({
+    description: 'Seat held by the user (only when access is granted)',
+    type: () => AccessSeatSummaryDto,
+    required: false,
+  })
+  seat?: AccessSeatSummaryDto;
+}
+
+export class BatchAccessVerificationResultDto extends AccessVerificationResponseDto {
+  @ApiProperty({
+    description: 'User ID from the check',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Organization ID from the check, or the one its externalOrgId maps to; absent when it is not mapped',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  organizationId?: string;
+
+  @ApiProperty({
+    description: 'External organization ID from the check, when it used one',
+    example: 'acme-42',
+    required: false,
+  })
+  externalOrgId?: string;
+
+  @ApiProperty({
+    description: 'Application slug from the check',
+    example: 'healos',
+  })
+  applicationSlug: string;
+}
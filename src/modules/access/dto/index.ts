@@ -0,0 +1 @@
+export * from './access.dto';
\ No newline at end of file
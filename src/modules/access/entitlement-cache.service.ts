@@ -0,0 +1,221 @@
+/**
+ * Entitlement Cache Service
+ *
+ * Cache-aside layer for access verification results stored in Redis under
+ * a versioned key per (organization, application, user):
+ *
+ *   entitlement:v2:{organizationId}:{applicationSlug}:{userId}
+ *
+ * Bumping ENTITLEMENT_CACHE_VERSION orphans every cached entry when the
+ * cached payload shape changes. Entries are invalidated from domain events
+ * (seat, subscription and quantity changes) and otherwise expire after
+ * config.redis.ttl seconds. A grant is never cached past the seat's expiry
+ * or the end of the billing period, since no event marks either.
+ *
+ * Redis failures never fail a verification: the loader result is returned
+ * and the failure is counted as an error.
+ */
+
+import config from '../../config';
+import { redisClient } from '../../infrastructure/cache/redis.client';
+import { BillingEvents, DomainEvent, EventBus } from '../../infrastructure/events/event-bus';
+import { logger } from '../../shared/utils/logger.util';
+import { AccessVerificationResponseDto } from './dto';
+
+/**
+ * Cache key format version
+ */
+export const ENTITLEMENT_CACHE_VERSION = 'v2';
+
+/**
+ * Cache key prefix
+ */
+const KEY_PREFIX = `entitlement:${ENTITLEMENT_CACHE_VERSION}`;
+
+/**
+ * Identifies the entitlements affected by a domain event. The narrowest
+ * scope that can be derived is invalidated: a single user, a whole
+ * subscription, or every application of the organization.
+ */
+export interface EntitlementChange {
+  organizationId: string;
+  applicationSlug?: string;
+  userId?: string;
+  userIds?: string[];
+}
+
+/**
+ * Cache hit/miss counters
+ */
+export interface EntitlementCacheMetrics {
+  hits: number;
+  misses: number;
+  errors: number;
+  invalidations: number;
+  hitRate: number;
+}
+
+/**
+ * Events that change entitlements
+ */
+const INVALIDATING_EVENTS: BillingEvents[] = [
+  BillingEvents.SEAT_ASSIGNED,
+  BillingEvents.SEAT_REMOVED,
+  BillingEvents.SEATS_BULK_ASSIGNED,
+  BillingEvents.SEATS_BULK_REMOVED,
+  BillingEvents.SUBSCRIPTION_CREATED,
+  BillingEvents.SUBSCRIPTION_UPDATED,
+  BillingEvents.SUBSCRIPTION_CANCELED,
+  BillingEvents.SUBSCRIPTION_REACTIVATED,
+  BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+  BillingEvents.ORGANIZATION_SUSPENDED,
+  BillingEvents.ORGANIZATION_REACTIVATED,
+  BillingEvents.ORGANIZATION_DELETED,
+  BillingEvents.USER_REMOVED_FROM_ORG,
+  BillingEvents.USER_SUSPENDED,
+  BillingEvents.USER_DEACTIVATED,
+  BillingEvents.USER_REACTIVATED,
+];
+
+/**
+ * Entitlement Cache Service
+ */
+class EntitlementCacheService {
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+  private invalidations = 0;
+
+  /**
+   * Build the cache key for a single check
+   */
+  public buildKey(organizationId: string, applicationSlug: string, userId: string): string {
+    return `${KEY_PREFIX}:${organizationId}:${applicationSlug}:${userId}`;
+  }
+
+  /**
+   * Return the cached result for a check, or load, cache and return it
+   */
+  public async getOrLoad(
+    check: { organizationId: string; applicationSlug: string; userId: string },
+    loader: () => Promise<AccessVerificationResponseDto>
+  ): Promise<AccessVerificationResponseDto> {
+    if (!config.features.enableCaching) {
+      return loader();
+    }
+
+    const key = this.buildKey(check.organizationId, check.applicationSlug, check.userId);
+    const cached = await redisClient.get(key);
+
+    if (cached.success && cached.data) {
+      try {
+        const result = JSON.parse(cached.data) as AccessVerificationResponseDto;
+        this.hits++;
+        return result;
+      } catch {
+        this.errors++;
+        logger.warn('Discarding unreadable entitlement cache entry', { key });
+      }
+    } else if (!cached.success) {
+      this.errors++;
+    }
+
+    this.misses++;
+    const result = await loader();
+
+    const ttl = this.ttlFor(result);
+    if (ttl > 0) {
+      const stored = await redisClient.set(key, result, ttl);
+      if (!stored.success) {
+        this.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Invalidate the entries affected by an entitlement change
+   */
+  public async invalidate(change: EntitlementChange): Promise<void> {
+    const { organizationId, applicationSlug } = change;
+    const userIds = [...(change.userIds ?? []), ...(change.userId ? [change.userId] : [])];
+
+    if (applicationSlug && userIds.length > 0) {
+      await Promise.all(
+        userIds.map((userId) => redisClient.delete(this.buildKey(organizationId, applicationSlug, userId)))
+      );
+    } else if (applicationSlug) {
+      await redisClient.invalidate(`${KEY_PREFIX}:${organizationId}:${applicationSlug}:*`);
+    } else {
+      await redisClient.invalidate(`${KEY_PREFIX}:${organizationId}:*`);
+    }
+
+    this.invalidations++;
+    logger.logCacheOperation('entitlement_invalidated', {
+      organizationId,
+      applicationSlug,
+      userCount: userIds.length,
+    });
+  }
+
+  /**
+   * Subscribe cache invalidation to entitlement-changing domain events
+   */
+  public registerInvalidationHandlers(bus: EventBus): void {
+    const handler = (event: DomainEvent<EntitlementChange>) => this.invalidate(event.data);
+
+    for (const type of INVALIDATING_EVENTS) {
+      bus.subscribe(type, handler);
+    }
+  }
+
+  /**
+   * Seconds a result may be cached: config.redis.ttl, capped for a grant
+   * at the seat's expiry and the end of the billing period
+   */
+  private ttlFor(result: AccessVerificationResponseDto): number {
+    let ttl = config.redis.ttl;
+
+    if (result.hasAccess) {
+      for (const end of [result.seat?.expiresAt, result.subscription?.currentPeriodEnd]) {
+        if (end) {
+          ttl = Math.min(ttl, Math.floor((new Date(end).getTime() - Date.now()) / 1000));
+        }
+      }
+    }
+
+    return ttl;
+  }
+
+  /**
+   * Get cache hit/miss metrics
+   */
+  public getMetrics(): EntitlementCacheMetrics {
+    const lookups = this.hits + this.misses;
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      errors: this.errors,
+      invalidations: this.invalidations,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  /**
+   * Reset metrics counters
+   */
+  public resetMetrics(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.errors = 0;
+    this.invalidations = 0;
+  }
+}
+
+// Export singleton instance
+export const entitlementCache = new EntitlementCacheService();
+
+// Export class for dependency injection
+export { EntitlementCacheService };
@@ -0,0 +1,311 @@
+/**
+ * Entitlement Token Service
+ *
+ * Issues short-lived signed JWTs listing the applications a user holds an
+ * ACTIVE seat for, so product apps can authorize requests locally instead of
+ * calling the verify endpoint on every request.
+ *
+ * Tokens follow the seat lifecycle:
+ * - Only unexpired ACTIVE seats on ACTIVE or TRIALING subscriptions are listed
+ * - Expiry is capped by the earliest seat expiry and period (or trial) end
+ * - Seat removal, cancellation and suspension events record a revocation
+ *   watermark in Redis; tokens issued before it fail introspection
+ *
+ * Tokens are signed with HS256 (config.auth.jwtSecret) by default, or RS256
+ * with a private key whose public half is published as a JWKS document.
+ */
+
+import { createPublicKey, createSecretKey, JsonWebKey, KeyObject, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OrganizationStatus, SeatStatus, SubscriptionStatus } from '@prisma/client';
+import config from '../../config';
+import { redisClient } from '../../infrastructure/cache/redis.client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { BillingEvents, DomainEvent, EventBus } from '../../infrastructure/events/event-bus';
+import { ErrorCode, UnauthorizedError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { ACCESS_GRANTING_STATUSES, ACTIVE_USER_FILTER } from './access.service';
+import { EntitlementChange } from './entitlement-cache.service';
+
+/**
+ * Revocation watermark key prefix
+ */
+const REVOCATION_PREFIX = 'entitlement-token:revoked';
+
+/**
+ * A single application entitlement carried in the token
+ */
+export interface TokenEntitlement {
+  app: string;
+  subscriptionId: string;
+  seatId: string;
+  status: SubscriptionStatus;
+}
+
+/**
+ * Entitlement token claims
+ */
+export interface EntitlementTokenClaims {
+  sub: string;
+  org: string;
+  ent: TokenEntitlement[];
+  iat: number;
+  exp: number;
+  iss: string;
+  aud: string;
+  jti: string;
+}
+
+/**
+ * Issued token
+ */
+export interface IssuedEntitlementToken {
+  token: string;
+  tokenType: 'Bearer';
+  expiresAt: Date;
+  entitlements: TokenEntitlement[];
+}
+
+/**
+ * Token introspection result
+ */
+export interface EntitlementTokenIntrospection {
+  active: boolean;
+  claims?: EntitlementTokenClaims;
+  reason?: string;
+}
+
+/**
+ * Events that revoke previously issued tokens
+ */
+const REVOKING_EVENTS: BillingEvents[] = [
+  BillingEvents.SEAT_REMOVED,
+  BillingEvents.SEATS_BULK_REMOVED,
+  BillingEvents.SUBSCRIPTION_UPDATED,
+  BillingEvents.SUBSCRIPTION_CANCELED,
+  BillingEvents.ORGANIZATION_SUSPENDED,
+  BillingEvents.ORGANIZATION_DELETED,
+  BillingEvents.USER_REMOVED_FROM_ORG,
+  BillingEvents.USER_SUSPENDED,
+  BillingEvents.USER_DEACTIVATED,
+];
+
+/**
+ * Entitlement Token Service
+ */
+class EntitlementTokenService {
+  private publicKey?: KeyObject;
+
+  /**
+   * Issue a token for the user's current entitlements in an organization
+   */
+  public async issue(userId: string, organizationId: string): Promise<IssuedEntitlementToken> {
+    const issuedAt = new Date();
+    const seats = await databaseManager.executeRead((client) =>
+      client.subscriptionSeat.findMany({
+        where: {
+          userId,
+          status: SeatStatus.ACTIVE,
+          // The expiry scheduler may not have released a seat that is due yet
+          OR: [{ expiresAt: null }, { expiresAt: { gt: issuedAt } }],
+          user: ACTIVE_USER_FILTER,
+          subscription: {
+            organizationId,
+            status: { in: ACCESS_GRANTING_STATUSES },
+            organization: { status: OrganizationStatus.ACTIVE, deletedAt: null },
+          },
+        },
+        include: {
+          subscription: {
+            select: {
+              id: true,
+              status: true,
+              currentPeriodEnd: true,
+              trialEnd: true,
+              application: { select: { slug: true } },
+            },
+          },
+        },
+      })
+    );
+
+    const entitlements: TokenEntitlement[] = seats.map((seat) => ({
+      app: seat.subscription.application.slug,
+      subscriptionId: seat.subscription.id,
+      seatId: seat.id,
+      status: seat.subscription.status,
+    }));
+
+    const { ttl, algorithm, keyId, issuer, audience } = config.auth.entitlementToken;
+    const now = Math.floor(issuedAt.getTime() / 1000);
+    let exp = now + ttl;
+
+    // Never outlive any listed seat, or the billing period (or trial) backing it
+    for (const seat of seats) {
+      const { status, currentPeriodEnd, trialEnd } = seat.subscription;
+      const periodEnd = status === SubscriptionStatus.TRIALING ? trialEnd ?? currentPeriodEnd : currentPeriodEnd;
+
+      for (const end of [periodEnd, seat.expiresAt]) {
+        if (end) {
+          exp = Math.min(exp, Math.floor(end.getTime() / 1000));
+        }
+      }
+    }
+
+    // A period that already ended still gets a minimal, immediately expiring token
+    exp = Math.max(exp, now + 1);
+
+    const token = jwt.sign(
+      { sub: userId, org: organizationId, ent: entitlements, iat: now, exp },
+      this.getSigningKey(),
+      { algorithm, keyid: keyId, issuer, audience, jwtid: randomUUID() }
+    );
+
+    logger.logSecurityEvent('entitlement_token_issued', {
+      userId,
+      organizationId,
+      applications: entitlements.map((entitlement) => entitlement.app),
+    });
+
+    return {
+      token,
+      tokenType: 'Bearer',
+      expiresAt: new Date(exp * 1000),
+      entitlements,
+    };
+  }
+
+  /**
+   * Verify a token signature, expiry and revocation state
+   */
+  public async verify(token: string): Promise<EntitlementTokenClaims> {
+    const { algorithm, issuer, audience } = config.auth.entitlementToken;
+    let claims: EntitlementTokenClaims;
+
+    try {
+      claims = jwt.verify(token, this.getVerificationKey(), {
+        algorithms: [algorithm],
+        issuer,
+        audience,
+      }) as EntitlementTokenClaims;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new UnauthorizedError('Entitlement token expired', ErrorCode.TOKEN_EXPIRED, {}, error);
+      }
+      throw new UnauthorizedError('Invalid entitlement token', ErrorCode.INVALID_TOKEN, {}, error as Error);
+    }
+
+    if (await this.isRevoked(claims)) {
+      throw new UnauthorizedError('Entitlement token revoked', ErrorCode.INVALID_TOKEN);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Introspect a token without throwing
+   */
+  public async introspect(token: string): Promise<EntitlementTokenIntrospection> {
+    try {
+      return { active: true, claims: await this.verify(token) };
+    } catch (error) {
+      return { active: false, reason: error instanceof Error ? error.message : 'Invalid entitlement token' };
+    }
+  }
+
+  /**
+   * Revoke tokens issued before now for the given users, or for the whole
+   * organization when no user is given
+   */
+  public async revoke(change: EntitlementChange): Promise<void> {
+    const userIds = [...(change.userIds ?? []), ...(change.userId ? [change.userId] : [])];
+    const keys = userIds.length > 0
+      ? userIds.map((userId) => `${REVOCATION_PREFIX}:${change.organizationId}:${userId}`)
+      : [`${REVOCATION_PREFIX}:${change.organizationId}`];
+    const revokedAt = Date.now();
+
+    // Watermarks only need to outlive the longest token lifetime
+    await Promise.all(
+      keys.map((key) => redisClient.set(key, String(revokedAt), config.auth.entitlementToken.ttl))
+    );
+
+    logger.logSecurityEvent('entitlement_tokens_revoked', {
+      organizationId: change.organizationId,
+      userCount: userIds.length,
+    });
+  }
+
+  /**
+   * Subscribe token revocation to entitlement-removing domain events
+   */
+  public registerRevocationHandlers(bus: EventBus): void {
+    const handler = (event: DomainEvent<EntitlementChange>) => this.revoke(event.data);
+
+    for (const type of REVOKING_EVENTS) {
+      bus.subscribe(type, handler);
+    }
+  }
+
+  /**
+   * Public keys for local verification (empty when using HS256)
+   */
+  public getJwks(): { keys: JsonWebKey[] } {
+    const { algorithm, keyId } = config.auth.entitlementToken;
+
+    if (algorithm !== 'RS256') {
+      return { keys: [] };
+    }
+
+    return {
+      keys: [
+        {
+          ...this.getVerificationKey().export({ format: 'jwk' }),
+          kid: keyId,
+          alg: algorithm,
+          use: 'sig',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Check the user and organization revocation watermarks
+   */
+  private async isRevoked(claims: EntitlementTokenClaims): Promise<boolean> {
+    const [userWatermark, orgWatermark] = await Promise.all([
+      redisClient.get(`${REVOCATION_PREFIX}:${claims.org}:${claims.sub}`),
+      redisClient.get(`${REVOCATION_PREFIX}:${claims.org}`),
+    ]);
+
+    const issuedAtMs = claims.iat * 1000;
+
+    return [userWatermark, orgWatermark].some(
+      (result) => result.success && result.data && issuedAtMs <= Number(result.data)
+    );
+  }
+
+  private getSigningKey(): string {
+    const { algorithm, privateKey } = config.auth.entitlementToken;
+    return algorithm === 'RS256' ? privateKey! : config.auth.jwtSecret;
+  }
+
+  private getVerificationKey(): KeyObject {
+    const { algorithm, privateKey } = config.auth.entitlementToken;
+
+    if (algorithm !== 'RS256') {
+      return createSecretKey(Buffer.from(config.auth.jwtSecret));
+    }
+
+    if (!this.publicKey) {
+      this.publicKey = createPublicKey(privateKey!);
+    }
+
+    return this.publicKey;
+  }
+}
+
+// Export singleton instance
+export const entitlementTokenService = new EntitlementTokenService();
+
+// Export class for dependency injection
+export { EntitlementTokenService };
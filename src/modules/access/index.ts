@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './access.service';
+export * from './entitlement-cache.service';
+export * from './entitlement-token.service';
\ No newline at end of file
@@ -0,0 +1,369 @@
+/**
+ * Application API Key Service
+ *
+ * Issues and verifies per-Application credentials for service-to-service
+ * calls from product backends. Keys have the form
+ *
+ *   bk_<16 hex prefix>_<secret>
+ *
+ * The prefix is stored in clear for lookup; the full key is stored only as
+ * a bcrypt hash. Only applications that are ACTIVE may call. Successful
+ * verifications are memoized in-process for a minute so bcrypt does not
+ * run on every request; revocation and application status changes
+ * therefore take effect on other instances within that window.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Application, ApplicationApiKey, ApplicationStatus, PrismaClient } from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import {
+  ConflictError,
+  ErrorCode,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import { ApiKeyResponseDto, ApiKeyScope, CreateApiKeyDto, CreatedApiKeyResponseDto, RotateApiKeyDto } from './dto';
+
+/**
+ * Key format
+ */
+const KEY_PATTERN = /^(bk_[0-9a-f]{16})_[A-Za-z0-9_-]{32}$/;
+
+/**
+ * How long a successful verification is memoized
+ */
+const VERIFICATION_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Minimum interval between lastUsedAt writes for one key
+ */
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+/**
+ * Application authenticated by an API key
+ */
+export interface ApiKeyPrincipal {
+  application: Pick<Application, 'id' | 'slug' | 'name' | 'status'>;
+  apiKey: Pick<ApplicationApiKey, 'id' | 'keyPrefix' | 'name'>;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Extract the public prefix from a key, or undefined if it is malformed
+ */
+export const parseApiKeyPrefix = (key: string): string | undefined => KEY_PATTERN.exec(key)?.[1];
+
+/**
+ * Read the API key from X-API-Key, or from an Authorization Bearer header
+ * carrying an API key rather than a session token
+ */
+export const extractApiKey = (req: { header(name: string): string | undefined }): string | undefined => {
+  const apiKey = req.header('X-API-Key');
+  if (apiKey) {
+    return apiKey.trim();
+  }
+
+  const authorization = req.header('Authorization');
+  return authorization?.startsWith('Bearer bk_') ? authorization.slice('Bearer '.length).trim() : undefined;
+};
+
+/**
+ * Application API Key Service
+ */
+class ApiKeyService {
+  private verified = new Map<string, { principal: ApiKeyPrincipal; keyId: string; expiresAt: number }>();
+  private lastUsedWrites = new Map<string, number>();
+
+  /**
+   * Create a key for an application. The plaintext key is returned only here.
+   */
+  public async create(applicationId: string, dto: CreateApiKeyDto, actor: AuditActor): Promise<CreatedApiKeyResponseDto> {
+    return databaseManager.executeTransaction(async (client) => {
+      const application = await client.application.findUnique({ where: { id: applicationId }, select: { id: true } });
+      if (!application) {
+        throw new NotFoundError(`Application '${applicationId}' not found`);
+      }
+
+      const { key, keyPrefix, keyHash } = await this.generate();
+      const apiKey = await client.applicationApiKey.create({
+        data: {
+          applicationId,
+          name: dto.name,
+          keyPrefix,
+          keyHash,
+          scopes: unique(dto.scopes),
+          expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+          createdByUserId: actor.actorUserId,
+        },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application_api_key',
+        entityId: apiKey.id,
+        action: 'created',
+        changes: { name: apiKey.name, keyPrefix, scopes: apiKey.scopes },
+        metadata: { applicationId },
+      });
+
+      logger.logSecurityEvent('api_key_created', { applicationId, keyPrefix, scopes: apiKey.scopes });
+
+      return { ...this.toResponse(apiKey), key };
+    });
+  }
+
+  /**
+   * List an application's keys (never including hashes)
+   */
+  public async list(applicationId: string): Promise<ApiKeyResponseDto[]> {
+    const keys = await databaseManager.executeRead((client) =>
+      client.applicationApiKey.findMany({
+        where: { applicationId },
+        orderBy: { createdAt: 'desc' },
+      })
+    );
+
+    return keys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  /**
+   * Replace a key with a new one carrying the same name and scopes. The old
+   * key stays valid for the grace period so callers can roll over.
+   */
+  public async rotate(
+    applicationId: string,
+    keyId: string,
+    dto: RotateApiKeyDto,
+    actor: AuditActor
+  ): Promise<CreatedApiKeyResponseDto> {
+    const gracePeriodSeconds = dto.gracePeriodSeconds ?? config.auth.apiKeyRotationGracePeriod;
+
+    const created = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findActive(client, applicationId, keyId);
+      const now = new Date();
+      const graceEnd = new Date(now.getTime() + gracePeriodSeconds * 1000);
+
+      await client.applicationApiKey.update({
+        where: { id: current.id },
+        data: gracePeriodSeconds === 0
+          ? { revokedAt: now }
+          : { expiresAt: current.expiresAt && current.expiresAt < graceEnd ? current.expiresAt : graceEnd },
+      });
+
+      const { key, keyPrefix, keyHash } = await this.generate();
+      const apiKey = await client.applicationApiKey.create({
+        data: {
+          applicationId,
+          name: current.name,
+          keyPrefix,
+          keyHash,
+          scopes: current.scopes,
+          createdByUserId: actor.actorUserId,
+        },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application_api_key',
+        entityId: current.id,
+        action: 'rotated',
+        changes: { replacedBy: apiKey.id, keyPrefix, gracePeriodSeconds },
+        metadata: { applicationId },
+      });
+
+      return { ...this.toResponse(apiKey), key };
+    });
+
+    if (gracePeriodSeconds === 0) {
+      this.forget(keyId);
+    }
+
+    logger.logSecurityEvent('api_key_rotated', { applicationId, keyId, gracePeriodSeconds });
+
+    return created;
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  public async revoke(applicationId: string, keyId: string, actor: AuditActor): Promise<ApiKeyResponseDto> {
+    const revoked = await databaseManager.executeTransaction(async (client) => {
+      await this.findActive(client, applicationId, keyId);
+
+      const apiKey = await client.applicationApiKey.update({
+        where: { id: keyId },
+        data: { revokedAt: new Date() },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application_api_key',
+        entityId: keyId,
+        action: 'revoked',
+        metadata: { applicationId },
+      });
+
+      return apiKey;
+    });
+
+    this.forget(keyId);
+    logger.logSecurityEvent('api_key_revoked', { applicationId, keyId });
+
+    return this.toResponse(revoked);
+  }
+
+  /**
+   * Verify a presented key and return the calling application
+   */
+  public async authenticate(key: string, ipAddress?: string): Promise<ApiKeyPrincipal> {
+    const fingerprint = createHash('sha256').update(key).digest('hex');
+    const cached = this.verified.get(fingerprint);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      this.recordUsage(cached.keyId, ipAddress);
+      return cached.principal;
+    }
+
+    const keyPrefix = parseApiKeyPrefix(key);
+    if (!keyPrefix) {
+      throw new UnauthorizedError('Malformed API key', ErrorCode.INVALID_API_KEY);
+    }
+
+    const apiKey = await databaseManager.executeRead((client) =>
+      client.applicationApiKey.findUnique({
+        where: { keyPrefix },
+        include: { application: { select: { id: true, slug: true, name: true, status: true } } },
+      })
+    );
+
+    if (!apiKey || !(await bcrypt.compare(key, apiKey.keyHash))) {
+      logger.logSecurityEvent('api_key_rejected', { keyPrefix, ipAddress });
+      throw new UnauthorizedError('Invalid API key', ErrorCode.INVALID_API_KEY);
+    }
+
+    const now = Date.now();
+    if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now)) {
+      logger.logSecurityEvent('api_key_rejected', { keyPrefix, ipAddress, reason: apiKey.revokedAt ? 'revoked' : 'expired' });
+      throw new UnauthorizedError('API key has been revoked or has expired', ErrorCode.INVALID_API_KEY);
+    }
+
+    if (apiKey.application.status !== ApplicationStatus.ACTIVE) {
+      logger.logSecurityEvent('api_key_rejected', { keyPrefix, ipAddress, reason: 'application_not_active' });
+      throw new ForbiddenError(`Application '${apiKey.application.slug}' is ${apiKey.application.status}`);
+    }
+
+    const principal: ApiKeyPrincipal = {
+      application: apiKey.application,
+      apiKey: { id: apiKey.id, keyPrefix: apiKey.keyPrefix, name: apiKey.name },
+      scopes: apiKey.scopes as ApiKeyScope[],
+    };
+
+    // Never memoize past the key's own expiry
+    const expiresAt = Math.min(now + VERIFICATION_CACHE_TTL_MS, apiKey.expiresAt?.getTime() ?? Infinity);
+    this.verified.set(fingerprint, { principal, keyId: apiKey.id, expiresAt });
+    this.recordUsage(apiKey.id, ipAddress);
+
+    return principal;
+  }
+
+  /**
+   * Drop memoized verifications for an application's keys, e.g. after its
+   * status changed
+   */
+  public forgetApplication(applicationId: string): void {
+    for (const [fingerprint, entry] of this.verified) {
+      if (entry.principal.application.id === applicationId) {
+        this.verified.delete(fingerprint);
+      }
+    }
+  }
+
+  /**
+   * Update lastUsedAt at most once per minute per key, without blocking the request
+   */
+  private recordUsage(keyId: string, ipAddress?: string): void {
+    const now = Date.now();
+    if (now - (this.lastUsedWrites.get(keyId) ?? 0) < LAST_USED_THROTTLE_MS) {
+      return;
+    }
+    this.lastUsedWrites.set(keyId, now);
+
+    databaseManager
+      .executeWrite((client) =>
+        client.applicationApiKey.update({
+          where: { id: keyId },
+          data: { lastUsedAt: new Date(now), lastUsedIp: ipAddress },
+        })
+      )
+      .catch((error) => logger.warn('Failed to record API key usage', { keyId, error: (error as Error).message }));
+  }
+
+  private async findActive(
+    client: PrismaClient,
+    applicationId: string,
+    keyId: string
+  ): Promise<ApplicationApiKey> {
+    const apiKey = await client.applicationApiKey.findFirst({ where: { id: keyId, applicationId } });
+
+    if (!apiKey) {
+      throw new NotFoundError(`API key '${keyId}' not found`);
+    }
+    if (apiKey.revokedAt) {
+      throw new ConflictError('API key is already revoked');
+    }
+
+    return apiKey;
+  }
+
+  private async generate(): Promise<{ key: string; keyPrefix: string; keyHash: string }> {
+    const keyPrefix = `bk_${randomBytes(8).toString('hex')}`;
+    const key = `${keyPrefix}_${randomBytes(24).toString('base64url')}`;
+    const keyHash = await bcrypt.hash(key, config.auth.bcryptRounds);
+
+    return { key, keyPrefix, keyHash };
+  }
+
+  /**
+   * Drop memoized verifications for a key
+   */
+  private forget(keyId: string): void {
+    for (const [fingerprint, entry] of this.verified) {
+      if (entry.keyId === keyId) {
+        this.verified.delete(fingerprint);
+      }
+    }
+  }
+
+  private toResponse(apiKey: ApplicationApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      applicationId: apiKey.applicationId,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      lastUsedAt: apiKey.lastUsedAt,
+      expiresAt: apiKey.expiresAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+      updatedAt: apiKey.updatedAt,
+    };
+  }
+}
+
+/**
+ * De-duplicate a list of scopes
+ */
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
+
+// Export class for dependency injection
+export { ApiKeyService };
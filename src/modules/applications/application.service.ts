@@ -0,0 +1,410 @@
+/**
+ * Application Service
+ *
+ * Manages the product catalog: the applications organizations subscribe
+ * to. Status moves between ACTIVE, MAINTENANCE (temporarily unavailable)
+ * and INACTIVE (closed to new subscriptions) along ALLOWED_TRANSITIONS.
+ *
+ * Responses carry usage counts computed from subscriptions:
+ * totalOrganizations counts distinct organizations with an active,
+ * trialing or past-due subscription, totalActiveSubscriptions counts
+ * active and trialing ones. An application can only be deleted while
+ * nothing references it; otherwise it should be made INACTIVE.
+ */
+
+import { Application, ApplicationStatus, Prisma, PrismaClient, SubscriptionStatus } from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { ConflictError, NotFoundError } from '../../shared/errors/custom-errors';
+import { PaginatedResponseDto } from '../../shared/dto/common.dto';
+import { logger } from '../../shared/utils/logger.util';
+import { slugify } from '../../shared/utils/slug.util';
+import { AuditActor, auditLogService } from '../audit';
+import { apiKeyService } from './api-key.service';
+import {
+  ApplicationResponseDto,
+  ChangeApplicationStatusDto,
+  CreateApplicationDto,
+  ListApplicationsQueryDto,
+  UpdateApplicationDto
+} from './dto';
+
+/**
+ * Status changes an application may go through
+ */
+const ALLOWED_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  [ApplicationStatus.ACTIVE]: [ApplicationStatus.MAINTENANCE, ApplicationStatus.INACTIVE],
+  [ApplicationStatus.MAINTENANCE]: [ApplicationStatus.ACTIVE, ApplicationStatus.INACTIVE],
+  [ApplicationStatus.INACTIVE]: [ApplicationStatus.ACTIVE],
+};
+
+/**
+ * Subscriptions counted towards totalOrganizations
+ */
+const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+  SubscriptionStatus.PAST_DUE,
+];
+
+/**
+ * Subscriptions counted towards totalActiveSubscriptions
+ */
+const ACTIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+/**
+ * Columns that can be sorted on when listing
+ */
+const SORTABLE_FIELDS = ['name', 'slug', 'category', 'status', 'createdAt', 'updatedAt'];
+
+interface ApplicationStats {
+  totalOrganizations: number;
+  totalActiveSubscriptions: number;
+}
+
+/**
+ * Application Service
+ */
+class ApplicationService {
+  /**
+   * Add an application to the catalog
+   */
+  public async create(dto: CreateApplicationDto, actor: AuditActor): Promise<ApplicationResponseDto> {
+    const slug = dto.slug ?? slugify(dto.name);
+
+    const application = await databaseManager.executeTransaction(async (client) => {
+      let application: Application;
+      try {
+        application = await client.application.create({
+          data: {
+            name: dto.name,
+            slug,
+            description: dto.description,
+            version: dto.version,
+            homepage: dto.homepage,
+            logo: dto.logo,
+            category: dto.category,
+            tags: dto.tags,
+            features: dto.features,
+            platforms: dto.platforms,
+            webhookUrl: dto.webhookUrl,
+            config: dto.config as Prisma.InputJsonObject | undefined,
+            metadata: dto.metadata as Prisma.InputJsonObject | undefined,
+          },
+        });
+      } catch (error) {
+        if (isUniqueConstraintError(error, 'slug')) {
+          throw new ConflictError(`Application slug '${slug}' is already taken`);
+        }
+        throw error;
+      }
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application',
+        entityId: application.id,
+        action: 'created',
+        changes: { name: application.name, slug },
+      });
+
+      return application;
+    });
+
+    logger.info('Application created', { applicationId: application.id, slug });
+
+    return this.toResponse(application, { totalOrganizations: 0, totalActiveSubscriptions: 0 });
+  }
+
+  /**
+   * Get an application by ID
+   */
+  public async getById(applicationId: string): Promise<ApplicationResponseDto> {
+    return this.getOne({ id: applicationId }, applicationId);
+  }
+
+  /**
+   * Get an application by slug
+   */
+  public async getBySlug(slug: string): Promise<ApplicationResponseDto> {
+    return this.getOne({ slug }, slug);
+  }
+
+  /**
+   * List the catalog, optionally filtered by status, category or a
+   * name/slug search
+   */
+  public async list(query: ListApplicationsQueryDto): Promise<PaginatedResponseDto<ApplicationResponseDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const sortBy = query.sortBy && SORTABLE_FIELDS.includes(query.sortBy) ? query.sortBy : 'name';
+
+    const where: Prisma.ApplicationWhereInput = {
+      status: query.status,
+      category: query.category,
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { slug: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const { applications, total, stats } = await databaseManager.executeRead(async (client) => {
+      const [applications, total] = await Promise.all([
+        client.application.findMany({
+          where,
+          orderBy: { [sortBy]: query.sortOrder ?? 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        client.application.count({ where }),
+      ]);
+
+      const stats = await this.loadStats(client, applications.map((application) => application.id));
+
+      return { applications, total, stats };
+    });
+
+    return PaginatedResponseDto.of(
+      applications.map((application) => this.toResponse(application, stats.get(application.id))),
+      total,
+      page,
+      limit
+    );
+  }
+
+  /**
+   * Update catalog fields. The slug is fixed once created because product
+   * integrations and API keys refer to it.
+   */
+  public async update(
+    applicationId: string,
+    dto: UpdateApplicationDto,
+    actor: AuditActor
+  ): Promise<ApplicationResponseDto> {
+    const { application, stats } = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, applicationId);
+
+      const updated = await client.application.update({
+        where: { id: applicationId },
+        data: {
+          name: dto.name,
+          description: dto.description,
+          version: dto.version,
+          homepage: dto.homepage,
+          logo: dto.logo,
+          category: dto.category,
+          tags: dto.tags,
+          features: dto.features,
+          platforms: dto.platforms,
+          webhookUrl: dto.webhookUrl,
+          config: dto.config as Prisma.InputJsonObject | undefined,
+          metadata: dto.metadata
+            ? ({ ...(current.metadata as Prisma.JsonObject | null), ...dto.metadata } as Prisma.InputJsonObject)
+            : undefined,
+        },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application',
+        entityId: applicationId,
+        action: 'updated',
+        changes: diff(current, updated),
+      });
+
+      return { application: updated, stats: await this.loadStats(client, [applicationId]) };
+    });
+
+    return this.toResponse(application, stats.get(applicationId));
+  }
+
+  /**
+   * Move an application to another status along ALLOWED_TRANSITIONS
+   */
+  public async changeStatus(
+    applicationId: string,
+    dto: ChangeApplicationStatusDto,
+    actor: AuditActor
+  ): Promise<ApplicationResponseDto> {
+    const { application, previous, stats } = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, applicationId);
+
+      if (!ALLOWED_TRANSITIONS[current.status].includes(dto.status)) {
+        throw new ConflictError(`Application cannot move from ${current.status} to ${dto.status}`);
+      }
+
+      const updated = await client.application.update({
+        where: { id: applicationId },
+        data: { status: dto.status },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application',
+        entityId: applicationId,
+        action: 'status_changed',
+        changes: { status: { from: current.status, to: dto.status } },
+        metadata: { reason: dto.reason ?? null },
+      });
+
+      return { application: updated, previous: current.status, stats: await this.loadStats(client, [applicationId]) };
+    });
+
+    // Keys of an application that is no longer ACTIVE must stop working here now
+    apiKeyService.forgetApplication(applicationId);
+
+    await eventBus.publish(
+      BillingEvents.APPLICATION_STATUS_CHANGED,
+      { applicationId, from: previous, to: application.status, reason: dto.reason },
+      { applicationId, userId: actor.actorUserId }
+    );
+
+    logger.info('Application status changed', { applicationId, from: previous, to: application.status });
+
+    return this.toResponse(application, stats.get(applicationId));
+  }
+
+  /**
+   * Delete an application that has no plans, subscriptions or external
+   * organization mappings. Its API keys are deleted with it.
+   */
+  public async remove(applicationId: string, actor: AuditActor): Promise<void> {
+    await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, applicationId);
+
+      const [plans, subscriptions, mappings] = await Promise.all([
+        client.subscriptionPlan.count({ where: { applicationId } }),
+        client.organizationSubscription.count({ where: { applicationId } }),
+        client.externalOrgMapping.count({ where: { applicationId } }),
+      ]);
+
+      if (plans + subscriptions + mappings > 0) {
+        throw new ConflictError(
+          'Application has plans, subscriptions or organization mappings; set it INACTIVE instead'
+        );
+      }
+
+      await client.application.delete({ where: { id: applicationId } });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'application',
+        entityId: applicationId,
+        action: 'deleted',
+        changes: { name: current.name, slug: current.slug },
+      });
+    });
+
+    logger.info('Application deleted', { applicationId });
+  }
+
+  private async getOne(where: Prisma.ApplicationWhereUniqueInput, label: string): Promise<ApplicationResponseDto> {
+    const result = await databaseManager.executeRead(async (client) => {
+      const application = await client.application.findUnique({ where });
+
+      return application ? { application, stats: await this.loadStats(client, [application.id]) } : null;
+    });
+
+    if (!result) {
+      throw new NotFoundError(`Application '${label}' not found`);
+    }
+
+    return this.toResponse(result.application, result.stats.get(result.application.id));
+  }
+
+  private async findExisting(client: PrismaClient, applicationId: string): Promise<Application> {
+    const application = await client.application.findUnique({ where: { id: applicationId } });
+
+    if (!application) {
+      throw new NotFoundError(`Application '${applicationId}' not found`);
+    }
+
+    return application;
+  }
+
+  /**
+   * Usage counts for the given applications, with two grouped queries
+   */
+  private async loadStats(client: PrismaClient, applicationIds: string[]): Promise<Map<string, ApplicationStats>> {
+    const stats = new Map<string, ApplicationStats>(
+      applicationIds.map((id) => [id, { totalOrganizations: 0, totalActiveSubscriptions: 0 }])
+    );
+
+    if (applicationIds.length === 0) {
+      return stats;
+    }
+
+    const [organizations, subscriptions] = await Promise.all([
+      client.organizationSubscription.groupBy({
+        by: ['applicationId', 'organizationId'],
+        where: { applicationId: { in: applicationIds }, status: { in: LIVE_SUBSCRIPTION_STATUSES } },
+      }),
+      client.organizationSubscription.groupBy({
+        by: ['applicationId'],
+        where: { applicationId: { in: applicationIds }, status: { in: ACTIVE_SUBSCRIPTION_STATUSES } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    for (const row of organizations) {
+      stats.get(row.applicationId)!.totalOrganizations += 1;
+    }
+    for (const row of subscriptions) {
+      stats.get(row.applicationId)!.totalActiveSubscriptions = row._count._all;
+    }
+
+    return stats;
+  }
+
+  private toResponse(application: Application, stats?: ApplicationStats): ApplicationResponseDto {
+    return {
+      id: application.id,
+      name: application.name,
+      slug: application.slug,
+      description: application.description ?? undefined,
+      version: application.version ?? undefined,
+      homepage: application.homepage ?? undefined,
+      logo: application.logo ?? undefined,
+      category: application.category ?? undefined,
+      tags: application.tags,
+      features: application.features,
+      platforms: application.platforms,
+      webhookUrl: application.webhookUrl ?? undefined,
+      status: application.status,
+      isActive: application.status === ApplicationStatus.ACTIVE,
+      config: (application.config as Prisma.JsonObject) ?? undefined,
+      metadata: (application.metadata as Prisma.JsonObject) ?? undefined,
+      createdAt: application.createdAt,
+      updatedAt: application.updatedAt,
+      totalOrganizations: stats?.totalOrganizations ?? 0,
+      totalActiveSubscriptions: stats?.totalActiveSubscriptions ?? 0,
+    };
+  }
+}
+
+/**
+ * Before/after values of the columns an update changed
+ */
+function diff(before: Application, after: Application): Prisma.InputJsonValue {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const fields = [
+    'name', 'description', 'version', 'homepage', 'logo', 'category',
+    'tags', 'features', 'platforms', 'webhookUrl', 'config', 'metadata',
+  ] as const;
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  return changes as Prisma.InputJsonValue;
+}
+
+// Export singleton instance
+export const applicationService = new ApplicationService();
+
+// Export class for dependency injection
+export { ApplicationService };
@@ -0,0 +1,106 @@
+import { IsString, IsOptional, IsArray, IsNotEmpty, IsEnum, IsDateString, IsInt, Min, ArrayNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BaseDto, BaseEntityDto } from '../../../shared/dto/base.dto';
+
+export enum ApiKeyScope {
+  ACCESS_VERIFY = 'access:verify',
+  SEATS_WRITE = 'seats:write',
+  USAGE_REPORT = 'usage:report',
+}
+
+export class CreateApiKeyDto extends BaseDto {
+  @ApiProperty({
+    description: 'Human-readable label for the key',
+    example: 'HealOS production',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.ACCESS_VERIFY],
+    required: true,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    description: 'Optional expiry',
+    example: '2025-01-15T00:00:00.000Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
+
+export class RotateApiKeyDto extends BaseDto {
+  @ApiProperty({
+    description: 'Seconds the previous key stays valid; 0 revokes it immediately',
+    example: 86400,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  gracePeriodSeconds?: number;
+}
+
+export class ApiKeyResponseDto extends BaseEntityDto {
+  @ApiProperty({
+    description: 'Application the key belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  applicationId: string;
+
+  @ApiProperty({
+    description: 'Human-readable label',
+    example: 'HealOS production',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Public key prefix, safe to display',
+    example: 'bk_3f9a1c2e7b4d5a60',
+  })
+  keyPrefix: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key',
+    enum: ApiKeyScope,
+    isArray: true,
+  })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    description: 'Last time the key authenticated a request',
+    required: false,
+  })
+  lastUsedAt?: Date | null;
+
+  @ApiProperty({
+    description: 'Expiry (set on the previous key during rotation)',
+    required: false,
+  })
+  expiresAt?: Date | null;
+
+  @ApiProperty({
+    description: 'Revocation time',
+    required: false,
+  })
+  revokedAt?: Date | null;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'Plaintext key. Shown only once; store it securely.',
+    example: 'bk_3f9a1c2e7b4d5a60_Zk3v...',
+  })
+  key: string;
+}
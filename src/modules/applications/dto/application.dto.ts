@@ -1,6 +1,8 @@
-import { IsString, IsOptional, IsArray, IsObject, IsNotEmpty, IsUrl, IsBoolean } from 'class-validator';
+import { IsString, IsOptional, IsArray, IsObject, IsNotEmpty, IsUrl, IsBoolean, IsEnum } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { ApplicationStatus } from '@prisma/client';
 import { BaseDto } from '../../../shared/dto/base.dto';
+import { PaginationDto } from '../../../shared/dto/common.dto';
 
 export class CreateApplicationDto extends BaseDto {
   @ApiProperty({
@@ -96,6 +98,15 @@ export class CreateApplicationDto extends BaseDto {
   @IsOptional()
   platforms?: string[];
 
+  @ApiProperty({
+    description: 'URL notified of seat changes',
+    example: 'https://api.healos.app/webhooks/billing',
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  webhookUrl?: string;
+
   @ApiProperty({
     description: 'Application configuration settings',
     example: { 
@@ -123,6 +134,159 @@ export class CreateApplicationDto extends BaseDto {
   metadata?: Record<string, any>;
 }
 
+export class UpdateApplicationDto extends BaseDto {
+  @ApiProperty({
+    description: 'Application name',
+    example: 'HealOS',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @ApiProperty({
+    description: 'Application description',
+    example: 'Healthcare Operating System for medical practices',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Application version',
+    example: '1.1.0',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  version?: string;
+
+  @ApiProperty({
+    description: 'Application homepage URL',
+    example: 'https://healos.app',
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  homepage?: string;
+
+  @ApiProperty({
+    description: 'Application logo URL',
+    example: 'https://healos.app/logo.png',
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  logo?: string;
+
+  @ApiProperty({
+    description: 'Application category',
+    example: 'Healthcare',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  @ApiProperty({
+    description: 'Application tags (replaces the stored list)',
+    example: ['healthcare', 'ehr'],
+    required: false,
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Application features list (replaces the stored list)',
+    example: ['Patient Management', 'Appointment Scheduling'],
+    required: false,
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  features?: string[];
+
+  @ApiProperty({
+    description: 'Supported platforms (replaces the stored list)',
+    example: ['web', 'mobile'],
+    required: false,
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  platforms?: string[];
+
+  @ApiProperty({
+    description: 'URL notified of seat changes',
+    example: 'https://api.healos.app/webhooks/billing',
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  webhookUrl?: string;
+
+  @ApiProperty({
+    description: 'Configuration settings (replaces the stored config)',
+    example: { defaultLanding: '/dashboard' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  config?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Metadata keys to merge into the stored metadata',
+    example: { supportEmail: 'help@healos.app' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>;
+}
+
+export class ChangeApplicationStatusDto extends BaseDto {
+  @ApiProperty({
+    description: 'New status',
+    enum: ApplicationStatus,
+    example: ApplicationStatus.MAINTENANCE,
+  })
+  @IsEnum(ApplicationStatus)
+  status: ApplicationStatus;
+
+  @ApiProperty({
+    description: 'Why the status is changing',
+    example: 'Database migration',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class ListApplicationsQueryDto extends PaginationDto {
+  @ApiProperty({
+    description: 'Filter by status',
+    enum: ApplicationStatus,
+    required: false,
+  })
+  @IsEnum(ApplicationStatus)
+  @IsOptional()
+  status?: ApplicationStatus;
+
+  @ApiProperty({
+    description: 'Filter by category',
+    example: 'Healthcare',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  category?: string;
+}
+
 export class ApplicationResponseDto extends BaseDto {
   @ApiProperty({
     description: 'Application unique identifier',
@@ -199,7 +363,21 @@ export class ApplicationResponseDto extends BaseDto {
   platforms?: string[];
 
   @ApiProperty({
-    description: 'Active status',
+    description: 'URL notified of seat changes',
+    example: 'https://api.healos.app/webhooks/billing',
+    required: false,
+  })
+  webhookUrl?: string;
+
+  @ApiProperty({
+    description: 'Application status',
+    enum: ApplicationStatus,
+    example: ApplicationStatus.ACTIVE,
+  })
+  status: ApplicationStatus;
+
+  @ApiProperty({
+    description: 'Whether the application is ACTIVE',
     example: true,
   })
   isActive: boolean;
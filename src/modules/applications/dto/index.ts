@@ -1 +1,2 @@
-export * from './application.dto';
\ No newline at end of file
+export * from './application.dto';
+export * from './api-key.dto';
\ No newline at end of file
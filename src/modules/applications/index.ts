@@ -1 +1,3 @@
-export * from './dto';
\ No newline at end of file
+export * from './dto';
+export * from './application.service';
+export * from './api-key.service';
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * Audit Log Service
+ *
+ * Writes AuditLog rows for mutations. Entries are written with the client
+ * passed in so they commit (or roll back) together with the change they
+ * describe when called inside databaseManager.executeTransaction.
+ */
+
+import { AuditActorType, Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Who performed an audited action
+ */
+export interface AuditActor {
+  actorUserId?: string;
+  actorType?: AuditActorType;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * A single audited change
+ */
+export interface AuditEntry extends AuditActor {
+  entityType: string;
+  entityId: string;
+  action: string;
+  organizationId?: string | null;
+  changes?: Prisma.InputJsonValue;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Minimal request shape needed to derive the actor
+ */
+interface ActorRequest {
+  user?: { id: string };
+  ip?: string;
+  header(name: string): string | undefined;
+}
+
+/**
+ * Derive the audit actor from an authenticated request
+ */
+export const auditActorFromRequest = (req: ActorRequest): AuditActor => ({
+  actorUserId: req.user?.id,
+  actorType: req.user ? AuditActorType.USER : AuditActorType.API,
+  ipAddress: req.ip,
+  userAgent: req.header('User-Agent'),
+});
+
+/**
+ * Audit Log Service
+ */
+class AuditLogService {
+  /**
+   * Record an audit entry using the given (transaction) client
+   */
+  public async record(client: PrismaClient | Prisma.TransactionClient, entry: AuditEntry): Promise<void> {
+    await client.auditLog.create({
+      data: {
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        actorUserId: entry.actorUserId,
+        actorType: entry.actorType ?? AuditActorType.USER,
+        organizationId: entry.organizationId ?? undefined,
+        changes: entry.changes,
+        metadata: entry.metadata,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const auditLogService = new AuditLogService();
+
+// Export class for dependency injection
+export { AuditLogService };
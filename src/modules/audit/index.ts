@@ -0,0 +1 @@
+export * from './audit-log.service';
\ No newline at end of file
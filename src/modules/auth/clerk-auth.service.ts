@@ -0,0 +1,176 @@
+/**
+ * Clerk Authentication Service
+ *
+ * Verifies Clerk session JWTs (RS256, signed with a key from the Clerk JWKS)
+ * and resolves the local User they belong to by clerkUserId.
+ *
+ * Verification checks the signature, exp/nbf (with a small clock
+ * tolerance), the issuer derived from the publishable key and, when
+ * configured, the authorized party (azp) the token was minted for.
+ */
+
+import { Organization, OrganizationStatus, User, UserRole, UserStatus } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import config from '../../config';
+import { clerkJwksClient, getClerkFrontendApi } from '../../infrastructure/auth/clerk-jwks.client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { ErrorCode, UnauthorizedError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+
+/**
+ * Allowed clock skew between Clerk and this service, in seconds
+ */
+const CLOCK_TOLERANCE_SECONDS = 5;
+
+/**
+ * Claims of a Clerk session token
+ */
+export interface ClerkSessionClaims extends jwt.JwtPayload {
+  sub: string;
+  sid?: string;
+  azp?: string;
+}
+
+/**
+ * Authenticated principal attached to the request
+ */
+export interface AuthenticatedUser {
+  id: string;
+  clerkUserId: string;
+  email: string;
+  fullName: string;
+  organizationId: string | null;
+  role: UserRole;
+  status: UserStatus;
+}
+
+/**
+ * Organization of the authenticated user
+ */
+export type AuthenticatedOrganization = Pick<Organization, 'id' | 'name' | 'slug' | 'status'>;
+
+/**
+ * Result of authenticating a session token
+ */
+export interface AuthenticationResult {
+  user: AuthenticatedUser;
+  organization?: AuthenticatedOrganization;
+  role: UserRole;
+  sessionId?: string;
+  claims: ClerkSessionClaims;
+}
+
+/**
+ * Clerk Authentication Service
+ */
+class ClerkAuthService {
+  /**
+   * Verify a Clerk session token and resolve the local user
+   */
+  public async authenticate(token: string): Promise<AuthenticationResult> {
+    const claims = await this.verifySessionToken(token);
+    const user = await this.findUser(claims.sub);
+
+    if (!user) {
+      logger.logSecurityEvent('auth_unknown_user', { clerkUserId: claims.sub });
+      throw new UnauthorizedError('User is not registered', ErrorCode.INVALID_TOKEN);
+    }
+
+    if (user.status === UserStatus.SUSPENDED) {
+      logger.logSecurityEvent('auth_suspended_user', { userId: user.id });
+      throw new UnauthorizedError('User account is suspended', ErrorCode.ACCOUNT_DISABLED);
+    }
+
+    // Deleted organizations are treated as no membership
+    const organization = user.organization && user.organization.status !== OrganizationStatus.DELETED
+      ? {
+          id: user.organization.id,
+          name: user.organization.name,
+          slug: user.organization.slug,
+          status: user.organization.status,
+        }
+      : undefined;
+
+    return {
+      user: {
+        id: user.id,
+        clerkUserId: user.clerkUserId,
+        email: user.email,
+        fullName: user.fullName,
+        organizationId: organization ? user.organizationId : null,
+        role: user.role,
+        status: user.status,
+      },
+      organization,
+      role: user.role,
+      sessionId: claims.sid,
+      claims,
+    };
+  }
+
+  /**
+   * Verify a Clerk session token's signature and standard claims
+   */
+  public async verifySessionToken(token: string): Promise<ClerkSessionClaims> {
+    const decoded = jwt.decode(token, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string' || !decoded.header.kid) {
+      throw new UnauthorizedError('Malformed session token', ErrorCode.INVALID_TOKEN);
+    }
+
+    const key = await clerkJwksClient.getSigningKey(decoded.header.kid);
+    const issuer = this.getIssuer();
+    let claims: ClerkSessionClaims;
+
+    try {
+      claims = jwt.verify(token, key, {
+        algorithms: ['RS256'],
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+        ...(issuer && { issuer }),
+      }) as ClerkSessionClaims;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new UnauthorizedError('Session token expired', ErrorCode.TOKEN_EXPIRED, {}, error);
+      }
+      throw new UnauthorizedError('Invalid session token', ErrorCode.INVALID_TOKEN, {}, error as Error);
+    }
+
+    const { clerkAuthorizedParties } = config.auth;
+    if (clerkAuthorizedParties.length > 0 && claims.azp && !clerkAuthorizedParties.includes(claims.azp)) {
+      throw new UnauthorizedError('Session token issued for an unauthorized party', ErrorCode.INVALID_TOKEN);
+    }
+
+    if (!claims.sub) {
+      throw new UnauthorizedError('Session token has no subject', ErrorCode.INVALID_TOKEN);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Expected issuer: configured explicitly or derived from the publishable key
+   */
+  private getIssuer(): string | undefined {
+    if (config.auth.clerkIssuer) {
+      return config.auth.clerkIssuer;
+    }
+
+    const frontendApi = getClerkFrontendApi(config.auth.clerkPublishableKey);
+    return frontendApi ? `https://${frontendApi}` : undefined;
+  }
+
+  private async findUser(clerkUserId: string): Promise<(User & { organization: Organization | null }) | null> {
+    return databaseManager.executeRead((client) =>
+      client.user.findFirst({
+        where: { clerkUserId, deletedAt: null },
+        include: { organization: true },
+      })
+    );
+  }
+}
+
+// Export singleton instance
+export const clerkAuthService = new ClerkAuthService();
+
+// Export class for dependency injection
+export { ClerkAuthService };
@@ -0,0 +1,2 @@
+export * from './clerk-auth.service';
+export * from './permissions';
\ No newline at end of file
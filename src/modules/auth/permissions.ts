@@ -0,0 +1,56 @@
+/**
+ * Role Permission Matrix
+ *
+ * Maps each UserRole to the actions it may perform within its own
+ * organization:
+ * - OWNER: full control over billing, subscriptions, seats and members
+ * - BILLING_ADMIN: manages seat assignments, reads billing, cannot modify subscriptions
+ * - ADMIN: product administration only, no billing access
+ * - MEMBER: uses assigned seats only
+ */
+
+import { UserRole } from '@prisma/client';
+
+/**
+ * Actions guarded by requirePermission
+ */
+export enum Permission {
+  ORGANIZATION_READ = 'organization:read',
+  ORGANIZATION_MANAGE = 'organization:manage',
+  USERS_READ = 'users:read',
+  USERS_MANAGE = 'users:manage',
+  BILLING_READ = 'billing:read',
+  BILLING_MANAGE = 'billing:manage',
+  SUBSCRIPTIONS_READ = 'subscriptions:read',
+  SUBSCRIPTIONS_MANAGE = 'subscriptions:manage',
+  SEATS_READ = 'seats:read',
+  SEATS_MANAGE = 'seats:manage',
+}
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.OWNER]: Object.values(Permission),
+  [UserRole.BILLING_ADMIN]: [
+    Permission.ORGANIZATION_READ,
+    Permission.USERS_READ,
+    Permission.BILLING_READ,
+    Permission.SUBSCRIPTIONS_READ,
+    Permission.SEATS_READ,
+    Permission.SEATS_MANAGE,
+  ],
+  [UserRole.ADMIN]: [
+    Permission.ORGANIZATION_READ,
+    Permission.USERS_READ,
+  ],
+  [UserRole.MEMBER]: [
+    Permission.ORGANIZATION_READ,
+  ],
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
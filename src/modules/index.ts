@@ -6,6 +6,8 @@ export * from './subscriptions/dto';
 export * from './seats/dto';
 export * from './payments/dto';
 export * from './analytics/dto';
+export * from './access/dto';
+export * from './webhooks/dto';
 
 // Common DTOs
 export * from '../shared/dto';
\ No newline at end of file
@@ -1,28 +1,39 @@
-import { IsString, IsOptional, IsArray, IsObject, ValidateNested, IsNotEmpty, IsEmail, IsUrl } from 'class-validator';
+import { IsString, IsOptional, IsArray, IsObject, ValidateNested, IsNotEmpty, IsEmail, IsUrl, IsEnum } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
-import { BaseDto } from '../../../shared/dto/base.dto';
+import { OrganizationStatus } from '@prisma/client';
+import { BaseDto, BaseEntityDto } from '../../../shared/dto/base.dto';
+import { PaginationDto } from '../../../shared/dto/common.dto';
 
 export class ExternalOrgMappingDto extends BaseDto {
   @ApiProperty({
-    description: 'External organization identifier',
-    example: 'stripe_cus_12345',
+    description: 'Slug of the application that owns the external identifier',
+    example: 'healos',
   })
   @IsString()
   @IsNotEmpty()
-  externalId: string;
+  applicationSlug: string;
 
   @ApiProperty({
-    description: 'External system name',
-    example: 'stripe',
+    description: "The product's own organization identifier",
+    example: 'hosp_48213',
   })
   @IsString()
   @IsNotEmpty()
-  externalSystem: string;
+  externalOrgId: string;
+
+  @ApiProperty({
+    description: 'Name of the identifier in the product',
+    example: 'hospital_id',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  externalOrgKey?: string;
 
   @ApiProperty({
     description: 'Additional mapping metadata',
-    example: { accountType: 'premium', region: 'us' },
+    example: { region: 'us' },
     required: false,
   })
   @IsObject()
@@ -30,6 +41,46 @@ export class ExternalOrgMappingDto extends BaseDto {
   metadata?: Record<string, any>;
 }
 
+export class ExternalOrgMappingResponseDto extends BaseEntityDto {
+  @ApiProperty({
+    description: 'Organization the external identifier maps to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  organizationId: string;
+
+  @ApiProperty({
+    description: 'Application ID',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  applicationId: string;
+
+  @ApiProperty({
+    description: 'Application slug',
+    example: 'healos',
+  })
+  applicationSlug: string;
+
+  @ApiProperty({
+    description: "The product's own organization identifier",
+    example: 'hosp_48213',
+  })
+  externalOrgId: string;
+
+  @ApiProperty({
+    description: 'Name of the identifier in the product',
+    example: 'hospital_id',
+    required: false,
+  })
+  externalOrgKey?: string;
+
+  @ApiProperty({
+    description: 'Additional mapping metadata',
+    example: { region: 'us' },
+    required: false,
+  })
+  metadata?: Record<string, unknown>;
+}
+
 export class CreateOrganizationDto extends BaseDto {
   @ApiProperty({
     description: 'Organization name',
@@ -103,6 +154,33 @@ export class CreateOrganizationDto extends BaseDto {
   @IsOptional()
   contactEmail?: string;
 
+  @ApiProperty({
+    description: 'Email for billing notifications (defaults to contactEmail, then the owner\'s email)',
+    example: 'billing@acme.com',
+    required: false,
+  })
+  @IsEmail()
+  @IsOptional()
+  billingEmail?: string;
+
+  @ApiProperty({
+    description: 'Tax identifier printed on invoices',
+    example: 'US123456789',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  taxId?: string;
+
+  @ApiProperty({
+    description: 'Billing address',
+    example: { line1: '1 Market St', city: 'San Francisco', postalCode: '94105', country: 'US' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  address?: Record<string, unknown>;
+
   @ApiProperty({
     description: 'Additional metadata as key-value pairs',
     example: { region: 'us-west-1', tier: 'enterprise' },
@@ -115,8 +193,8 @@ export class CreateOrganizationDto extends BaseDto {
   @ApiProperty({
     description: 'List of external organization IDs for mapping',
     example: [
-      { externalId: 'stripe_cus_12345', externalSystem: 'stripe' },
-      { externalId: 'sf_001234', externalSystem: 'salesforce' }
+      { applicationSlug: 'healos', externalOrgId: 'hosp_48213', externalOrgKey: 'hospital_id' },
+      { applicationSlug: 'powerdialer', externalOrgId: 'cmp_9921', externalOrgKey: 'company_id' }
     ],
     required: false,
   })
@@ -201,21 +279,40 @@ export class UpdateOrganizationDto extends BaseDto {
   contactEmail?: string;
 
   @ApiProperty({
-    description: 'Additional metadata as key-value pairs',
-    example: { region: 'us-east-1', tier: 'enterprise-plus' },
+    description: 'Email for billing notifications',
+    example: 'billing@acme-updated.com',
+    required: false,
+  })
+  @IsEmail()
+  @IsOptional()
+  billingEmail?: string;
+
+  @ApiProperty({
+    description: 'Tax identifier printed on invoices',
+    example: 'US987654321',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  taxId?: string;
+
+  @ApiProperty({
+    description: 'Billing address',
+    example: { line1: '1 Market St', city: 'San Francisco', postalCode: '94105', country: 'US' },
     required: false,
   })
   @IsObject()
   @IsOptional()
-  metadata?: Record<string, any>;
+  address?: Record<string, unknown>;
 
   @ApiProperty({
-    description: 'Active status',
-    example: true,
+    description: 'Additional metadata as key-value pairs',
+    example: { region: 'us-east-1', tier: 'enterprise-plus' },
     required: false,
   })
+  @IsObject()
   @IsOptional()
-  isActive?: boolean;
+  metadata?: Record<string, any>;
 }
 
 export class OrganizationResponseDto extends BaseDto {
@@ -279,6 +376,39 @@ export class OrganizationResponseDto extends BaseDto {
   })
   contactEmail?: string;
 
+  @ApiProperty({
+    description: 'Email for billing notifications',
+    example: 'billing@acme.com',
+  })
+  billingEmail: string;
+
+  @ApiProperty({
+    description: 'Tax identifier printed on invoices',
+    example: 'US123456789',
+    required: false,
+  })
+  taxId?: string;
+
+  @ApiProperty({
+    description: 'Billing address',
+    example: { line1: '1 Market St', city: 'San Francisco', postalCode: '94105', country: 'US' },
+    required: false,
+  })
+  address?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'User who owns the organization',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  ownerUserId: string;
+
+  @ApiProperty({
+    description: 'Organization status',
+    enum: OrganizationStatus,
+    example: OrganizationStatus.ACTIVE,
+  })
+  status: OrganizationStatus;
+
   @ApiProperty({
     description: 'Active status',
     example: true,
@@ -304,10 +434,39 @@ export class OrganizationResponseDto extends BaseDto {
   })
   updatedAt: Date;
 
+  @ApiProperty({
+    description: 'Soft delete timestamp',
+    example: null,
+    required: false,
+  })
+  deletedAt?: Date | null;
+
   @ApiProperty({
     description: 'List of external organization mappings',
-    type: [ExternalOrgMappingDto],
+    type: [ExternalOrgMappingResponseDto],
     required: false,
   })
-  externalMappings?: ExternalOrgMappingDto[];
+  externalMappings?: ExternalOrgMappingResponseDto[];
+}
+
+export class ListOrganizationsQueryDto extends PaginationDto {
+  @ApiProperty({
+    description: 'Filter by status',
+    enum: OrganizationStatus,
+    required: false,
+  })
+  @IsEnum(OrganizationStatus)
+  @IsOptional()
+  status?: OrganizationStatus;
+}
+
+export class SuspendOrganizationDto extends BaseDto {
+  @ApiProperty({
+    description: 'Why the organization is being suspended',
+    example: 'Unpaid invoices',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reason?: string;
 }
\ No newline at end of file
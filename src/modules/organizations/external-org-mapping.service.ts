@@ -0,0 +1,222 @@
+/**
+ * External Organization Mapping Service
+ *
+ * Maps each product's own organization identifier (hospital_id,
+ * company_id, ...) to our organization. An external ID is unique per
+ * application, so (applicationSlug, externalOrgId) identifies exactly one
+ * organization. Resolutions are cached in Redis under
+ *
+ *   external-org:{applicationSlug}:{externalOrgId}
+ *
+ * and dropped when the mapping is removed.
+ */
+
+import { Application, ExternalOrgMapping, Prisma, PrismaClient } from '@prisma/client';
+import config from '../../config';
+import { redisClient } from '../../infrastructure/cache/redis.client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { ConflictError, NotFoundError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import { ExternalOrgMappingDto, ExternalOrgMappingResponseDto } from './dto';
+
+/**
+ * Cache key prefix
+ */
+const KEY_PREFIX = 'external-org';
+
+export type MappingWithApplication = ExternalOrgMapping & { application: Pick<Application, 'slug'> };
+
+/**
+ * External Organization Mapping Service
+ */
+class ExternalOrgMappingService {
+  /**
+   * Attach an external identifier to an organization
+   */
+  public async attach(
+    organizationId: string,
+    dto: ExternalOrgMappingDto,
+    actor: AuditActor
+  ): Promise<ExternalOrgMappingResponseDto> {
+    return databaseManager.executeTransaction(async (client) => {
+      const organization = await client.organization.findFirst({
+        where: { id: organizationId, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!organization) {
+        throw new NotFoundError(`Organization '${organizationId}' not found`);
+      }
+
+      return this.createMapping(client, organizationId, dto, actor);
+    });
+  }
+
+  /**
+   * Create a mapping with the given (transaction) client. Used by attach and
+   * by organization creation.
+   */
+  public async createMapping(
+    client: PrismaClient,
+    organizationId: string,
+    dto: ExternalOrgMappingDto,
+    actor: AuditActor
+  ): Promise<ExternalOrgMappingResponseDto> {
+    const application = await client.application.findUnique({
+      where: { slug: dto.applicationSlug },
+      select: { id: true, slug: true },
+    });
+
+    if (!application) {
+      throw new NotFoundError(`Application '${dto.applicationSlug}' not found`);
+    }
+
+    let mapping: MappingWithApplication;
+    try {
+      mapping = await client.externalOrgMapping.create({
+        data: {
+          organizationId,
+          applicationId: application.id,
+          externalOrgId: dto.externalOrgId,
+          externalOrgKey: dto.externalOrgKey,
+          metadata: dto.metadata,
+        },
+        include: { application: { select: { slug: true } } },
+      });
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new ConflictError(
+          `External organization '${dto.externalOrgId}' is already mapped for application '${dto.applicationSlug}'`
+        );
+      }
+      throw error;
+    }
+
+    await auditLogService.record(client, {
+      ...actor,
+      entityType: 'external_org_mapping',
+      entityId: mapping.id,
+      action: 'created',
+      organizationId,
+      changes: {
+        applicationSlug: application.slug,
+        externalOrgId: mapping.externalOrgId,
+        externalOrgKey: mapping.externalOrgKey,
+      },
+    });
+
+    return this.toResponse(mapping);
+  }
+
+  /**
+   * List an organization's mappings, optionally for one application
+   */
+  public async list(organizationId: string, applicationSlug?: string): Promise<ExternalOrgMappingResponseDto[]> {
+    const mappings = await databaseManager.executeRead((client) =>
+      client.externalOrgMapping.findMany({
+        where: {
+          organizationId,
+          ...(applicationSlug && { application: { slug: applicationSlug } }),
+        },
+        include: { application: { select: { slug: true } } },
+        orderBy: { createdAt: 'asc' },
+      })
+    );
+
+    return mappings.map((mapping) => this.toResponse(mapping));
+  }
+
+  /**
+   * Remove a mapping
+   */
+  public async remove(organizationId: string, mappingId: string, actor: AuditActor): Promise<void> {
+    const mapping = await databaseManager.executeTransaction(async (client) => {
+      const existing = await client.externalOrgMapping.findFirst({
+        where: { id: mappingId, organizationId },
+        include: { application: { select: { slug: true } } },
+      });
+
+      if (!existing) {
+        throw new NotFoundError(`External organization mapping '${mappingId}' not found`);
+      }
+
+      await client.externalOrgMapping.delete({ where: { id: mappingId } });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'external_org_mapping',
+        entityId: mappingId,
+        action: 'deleted',
+        organizationId,
+        changes: { applicationSlug: existing.application.slug, externalOrgId: existing.externalOrgId },
+      });
+
+      return existing;
+    });
+
+    await redisClient.delete(this.buildKey(mapping.application.slug, mapping.externalOrgId));
+  }
+
+  /**
+   * Resolve a product's organization identifier to our organization ID
+   */
+  public async resolveOrganizationId(applicationSlug: string, externalOrgId: string): Promise<string> {
+    const key = this.buildKey(applicationSlug, externalOrgId);
+    const cached = await redisClient.get(key);
+
+    if (cached.success && cached.data) {
+      return cached.data;
+    }
+
+    const mapping = await databaseManager.executeRead((client) =>
+      client.externalOrgMapping.findFirst({
+        where: {
+          externalOrgId,
+          application: { slug: applicationSlug },
+          organization: { deletedAt: null },
+        },
+        select: { organizationId: true },
+      })
+    );
+
+    if (!mapping) {
+      logger.debug('Unmapped external organization', { applicationSlug, externalOrgId });
+      throw new NotFoundError(
+        `No organization is mapped to external ID '${externalOrgId}' for application '${applicationSlug}'`
+      );
+    }
+
+    await redisClient.set(key, mapping.organizationId, config.redis.ttl);
+
+    return mapping.organizationId;
+  }
+
+  /**
+   * Shape a mapping (with its application slug) for responses
+   */
+  public toResponse(mapping: MappingWithApplication): ExternalOrgMappingResponseDto {
+    return {
+      id: mapping.id,
+      organizationId: mapping.organizationId,
+      applicationId: mapping.applicationId,
+      applicationSlug: mapping.application.slug,
+      externalOrgId: mapping.externalOrgId,
+      externalOrgKey: mapping.externalOrgKey ?? undefined,
+      metadata: (mapping.metadata as Prisma.JsonObject) ?? undefined,
+      createdAt: mapping.createdAt,
+      updatedAt: mapping.updatedAt,
+    };
+  }
+
+  private buildKey(applicationSlug: string, externalOrgId: string): string {
+    return `${KEY_PREFIX}:${applicationSlug}:${externalOrgId}`;
+  }
+}
+
+// Export singleton instance
+export const externalOrgMappingService = new ExternalOrgMappingService();
+
+// Export class for dependency injection
+export { ExternalOrgMappingService };
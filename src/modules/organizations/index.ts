@@ -1 +1,3 @@
-export * from './dto';
\ No newline at end of file
+export * from './dto';
+export * from './organization.service';
+export * from './external-org-mapping.service';
\ No newline at end of file
@@ -0,0 +1,551 @@
+/**
+ * Organization Service
+ *
+ * Manages the billing entity that owns subscriptions: creation (the creating
+ * user becomes OWNER), profile updates, ownership transfer, suspension and
+ * soft deletion.
+ *
+ * The schema stores only billing fields as columns. Profile fields from the
+ * DTOs (description, website, logo, industry, size, contactEmail) are kept
+ * under metadata.profile. Soft-deleted organizations are invisible to every
+ * read here; their slug stays reserved.
+ */
+
+import {
+  Organization,
+  OrganizationStatus,
+  Prisma,
+  PrismaClient,
+  SubscriptionStatus,
+  UserRole,
+  UserStatus
+} from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { ConflictError, ErrorCode, ForbiddenError, NotFoundError } from '../../shared/errors/custom-errors';
+import { PaginatedResponseDto } from '../../shared/dto/common.dto';
+import { logger } from '../../shared/utils/logger.util';
+import { slugify } from '../../shared/utils/slug.util';
+import { AuditActor, auditLogService } from '../audit';
+import { TransferOwnershipDto } from '../users/dto';
+import {
+  CreateOrganizationDto,
+  ExternalOrgMappingResponseDto,
+  ListOrganizationsQueryDto,
+  OrganizationResponseDto,
+  SuspendOrganizationDto,
+  UpdateOrganizationDto
+} from './dto';
+import { externalOrgMappingService, MappingWithApplication } from './external-org-mapping.service';
+
+/**
+ * DTO fields stored under metadata.profile
+ */
+const PROFILE_FIELDS = ['description', 'website', 'logo', 'industry', 'size', 'contactEmail'] as const;
+
+type OrganizationProfile = Partial<Record<(typeof PROFILE_FIELDS)[number], string>>;
+
+/**
+ * Subscription statuses that block deletion
+ */
+const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+  SubscriptionStatus.PAST_DUE,
+];
+
+/**
+ * Include for single-organization reads
+ */
+const WITH_EXTERNAL_MAPPINGS = {
+  externalMappings: { include: { application: { select: { slug: true } } } },
+} satisfies Prisma.OrganizationInclude;
+
+/**
+ * Columns that can be sorted on when listing
+ */
+const SORTABLE_FIELDS = ['name', 'slug', 'status', 'createdAt', 'updatedAt'];
+
+/**
+ * Organization Service
+ */
+class OrganizationService {
+  /**
+   * Create an organization owned by the given user
+   */
+  public async create(
+    dto: CreateOrganizationDto,
+    ownerUserId: string,
+    actor: AuditActor
+  ): Promise<OrganizationResponseDto> {
+    const organization = await databaseManager.executeTransaction(async (client) => {
+      const owner = await client.user.findFirst({
+        where: { id: ownerUserId, deletedAt: null },
+        include: { organization: { select: { id: true, deletedAt: true } } },
+      });
+
+      if (!owner) {
+        throw new NotFoundError(`User '${ownerUserId}' not found`);
+      }
+      if (owner.organization && !owner.organization.deletedAt) {
+        throw new ConflictError('User already belongs to an organization');
+      }
+
+      const slug = dto.slug ?? (await this.generateSlug(client, dto.name));
+
+      let organization: Organization;
+      try {
+        organization = await client.organization.create({
+          data: {
+            name: dto.name,
+            slug,
+            ownerUserId,
+            billingEmail: dto.billingEmail ?? dto.contactEmail ?? owner.email,
+            taxId: dto.taxId,
+            address: dto.address as Prisma.InputJsonObject | undefined,
+            metadata: buildMetadata(null, dto),
+          },
+        });
+      } catch (error) {
+        if (isUniqueConstraintError(error, 'slug')) {
+          throw new ConflictError(`Organization slug '${slug}' is already taken`);
+        }
+        throw error;
+      }
+
+      await client.user.update({
+        where: { id: ownerUserId },
+        data: { organizationId: organization.id, role: UserRole.OWNER },
+      });
+
+      const externalMappings: ExternalOrgMappingResponseDto[] = [];
+      for (const mapping of dto.externalMappings ?? []) {
+        externalMappings.push(await externalOrgMappingService.createMapping(client, organization.id, mapping, actor));
+      }
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'organization',
+        entityId: organization.id,
+        action: 'created',
+        organizationId: organization.id,
+        changes: { name: organization.name, slug, ownerUserId },
+      });
+
+      return { ...this.toResponse(organization), externalMappings };
+    });
+
+    await eventBus.publish(
+      BillingEvents.ORGANIZATION_CREATED,
+      { organizationId: organization.id },
+      { organizationId: organization.id, userId: ownerUserId }
+    );
+
+    logger.info('Organization created', { organizationId: organization.id, slug: organization.slug });
+
+    return organization;
+  }
+
+  /**
+   * Get an organization by ID
+   */
+  public async getById(organizationId: string): Promise<OrganizationResponseDto> {
+    const organization = await databaseManager.executeRead((client) =>
+      client.organization.findFirst({
+        where: { id: organizationId, deletedAt: null },
+        include: WITH_EXTERNAL_MAPPINGS,
+      })
+    );
+
+    if (!organization) {
+      throw new NotFoundError(`Organization '${organizationId}' not found`);
+    }
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * Get an organization by slug
+   */
+  public async getBySlug(slug: string): Promise<OrganizationResponseDto> {
+    const organization = await databaseManager.executeRead((client) =>
+      client.organization.findFirst({
+        where: { slug, deletedAt: null },
+        include: WITH_EXTERNAL_MAPPINGS,
+      })
+    );
+
+    if (!organization) {
+      throw new NotFoundError(`Organization '${slug}' not found`);
+    }
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * List organizations, optionally filtered by status or a name/slug search
+   */
+  public async list(query: ListOrganizationsQueryDto): Promise<PaginatedResponseDto<OrganizationResponseDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const sortBy = query.sortBy && SORTABLE_FIELDS.includes(query.sortBy) ? query.sortBy : 'createdAt';
+
+    const where: Prisma.OrganizationWhereInput = {
+      deletedAt: null,
+      status: query.status,
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { slug: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [organizations, total] = await databaseManager.executeRead((client) =>
+      Promise.all([
+        client.organization.findMany({
+          where,
+          orderBy: { [sortBy]: query.sortOrder ?? 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        client.organization.count({ where }),
+      ])
+    );
+
+    return PaginatedResponseDto.of(
+      organizations.map((organization) => this.toResponse(organization)),
+      total,
+      page,
+      limit
+    );
+  }
+
+  /**
+   * Update billing and profile fields. Status changes go through
+   * suspend/reactivate/softDelete.
+   */
+  public async update(
+    organizationId: string,
+    dto: UpdateOrganizationDto,
+    actor: AuditActor
+  ): Promise<OrganizationResponseDto> {
+    const organization = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, organizationId);
+
+      const data: Prisma.OrganizationUpdateInput = {
+        name: dto.name,
+        slug: dto.slug,
+        billingEmail: dto.billingEmail,
+        taxId: dto.taxId,
+        address: dto.address as Prisma.InputJsonObject | undefined,
+        metadata: buildMetadata(current.metadata, dto),
+      };
+
+      let updated: Organization;
+      try {
+        updated = await client.organization.update({ where: { id: organizationId }, data });
+      } catch (error) {
+        if (isUniqueConstraintError(error, 'slug')) {
+          throw new ConflictError(`Organization slug '${dto.slug}' is already taken`);
+        }
+        throw error;
+      }
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'organization',
+        entityId: organizationId,
+        action: 'updated',
+        organizationId,
+        changes: diff(current, updated),
+      });
+
+      return updated;
+    });
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * Suspend an organization. Entitlement caches and issued tokens are
+   * invalidated through ORGANIZATION_SUSPENDED.
+   */
+  public async suspend(
+    organizationId: string,
+    dto: SuspendOrganizationDto,
+    actor: AuditActor
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.transition(
+      organizationId,
+      OrganizationStatus.ACTIVE,
+      OrganizationStatus.SUSPENDED,
+      'suspended',
+      actor,
+      { reason: dto.reason ?? null }
+    );
+
+    await eventBus.publish(
+      BillingEvents.ORGANIZATION_SUSPENDED,
+      { organizationId },
+      { organizationId, userId: actor.actorUserId }
+    );
+
+    logger.logSecurityEvent('organization_suspended', { organizationId, reason: dto.reason });
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * Return a suspended organization to ACTIVE
+   */
+  public async reactivate(organizationId: string, actor: AuditActor): Promise<OrganizationResponseDto> {
+    const organization = await this.transition(
+      organizationId,
+      OrganizationStatus.SUSPENDED,
+      OrganizationStatus.ACTIVE,
+      'reactivated',
+      actor
+    );
+
+    await eventBus.publish(
+      BillingEvents.ORGANIZATION_REACTIVATED,
+      { organizationId },
+      { organizationId, userId: actor.actorUserId }
+    );
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * Soft delete an organization. Refused while it still has live
+   * subscriptions, which must be canceled first.
+   */
+  public async softDelete(organizationId: string, actor: AuditActor): Promise<OrganizationResponseDto> {
+    const organization = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, organizationId);
+
+      const liveSubscriptions = await client.organizationSubscription.count({
+        where: { organizationId, status: { in: LIVE_SUBSCRIPTION_STATUSES } },
+      });
+
+      if (liveSubscriptions > 0) {
+        throw new ConflictError(
+          `Organization has ${liveSubscriptions} active subscription(s); cancel them before deleting`
+        );
+      }
+
+      const deleted = await client.organization.update({
+        where: { id: organizationId },
+        data: { status: OrganizationStatus.DELETED, deletedAt: new Date() },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'organization',
+        entityId: organizationId,
+        action: 'deleted',
+        organizationId,
+        changes: { status: { from: current.status, to: OrganizationStatus.DELETED } },
+      });
+
+      return deleted;
+    });
+
+    await eventBus.publish(
+      BillingEvents.ORGANIZATION_DELETED,
+      { organizationId },
+      { organizationId, userId: actor.actorUserId }
+    );
+
+    logger.info('Organization deleted', { organizationId });
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * Hand the organization to another active member. Organization.ownerUserId
+   * and both members' roles change in one transaction, so there is always
+   * exactly one OWNER. Only the current owner can transfer.
+   */
+  public async transferOwnership(
+    organizationId: string,
+    dto: TransferOwnershipDto,
+    actor: AuditActor
+  ): Promise<OrganizationResponseDto> {
+    const organization = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, organizationId);
+
+      if (actor.actorUserId !== current.ownerUserId) {
+        throw new ForbiddenError('Only the organization owner can transfer ownership', ErrorCode.INSUFFICIENT_ROLE);
+      }
+      if (dto.newOwnerUserId === current.ownerUserId) {
+        throw new ConflictError('User is already the organization owner');
+      }
+
+      const newOwner = await client.user.findFirst({
+        where: { id: dto.newOwnerUserId, organizationId, deletedAt: null },
+      });
+
+      if (!newOwner) {
+        throw new NotFoundError(`User '${dto.newOwnerUserId}' not found`);
+      }
+      if (newOwner.status !== UserStatus.ACTIVE) {
+        throw new ConflictError(`New owner must be ACTIVE; user is ${newOwner.status}`);
+      }
+
+      const previousOwnerRole = dto.previousOwnerRole ?? UserRole.ADMIN;
+
+      const updated = await client.organization.update({
+        where: { id: organizationId },
+        data: { ownerUserId: newOwner.id },
+      });
+      await client.user.update({ where: { id: current.ownerUserId }, data: { role: previousOwnerRole } });
+      await client.user.update({ where: { id: newOwner.id }, data: { role: UserRole.OWNER } });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'organization',
+        entityId: organizationId,
+        action: 'ownership_transferred',
+        organizationId,
+        changes: {
+          ownerUserId: { from: current.ownerUserId, to: newOwner.id },
+          previousOwnerRole,
+        },
+      });
+
+      return updated;
+    });
+
+    logger.logSecurityEvent('organization_ownership_transferred', {
+      organizationId,
+      from: actor.actorUserId,
+      to: dto.newOwnerUserId,
+    });
+
+    return this.toResponse(organization);
+  }
+
+  /**
+   * Move an organization between statuses, recording the change
+   */
+  private async transition(
+    organizationId: string,
+    from: OrganizationStatus,
+    to: OrganizationStatus,
+    action: string,
+    actor: AuditActor,
+    metadata?: Prisma.InputJsonValue
+  ): Promise<Organization> {
+    return databaseManager.executeTransaction(async (client) => {
+      const current = await this.findExisting(client, organizationId);
+
+      if (current.status !== from) {
+        throw new ConflictError(`Organization is ${current.status}; expected ${from}`);
+      }
+
+      const updated = await client.organization.update({
+        where: { id: organizationId },
+        data: { status: to },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'organization',
+        entityId: organizationId,
+        action,
+        organizationId,
+        changes: { status: { from, to } },
+        metadata,
+      });
+
+      return updated;
+    });
+  }
+
+  private async findExisting(client: PrismaClient, organizationId: string): Promise<Organization> {
+    const organization = await client.organization.findFirst({ where: { id: organizationId, deletedAt: null } });
+
+    if (!organization) {
+      throw new NotFoundError(`Organization '${organizationId}' not found`);
+    }
+
+    return organization;
+  }
+
+  /**
+   * Derive a unique slug from the organization name
+   */
+  private async generateSlug(client: PrismaClient, name: string): Promise<string> {
+    const base = slugify(name) || 'organization';
+    const taken = await client.organization.findUnique({ where: { slug: base }, select: { id: true } });
+
+    return taken ? `${base}-${Date.now().toString(36)}` : base;
+  }
+
+  private toResponse(
+    organization: Organization & { externalMappings?: MappingWithApplication[] }
+  ): OrganizationResponseDto {
+    const { profile = {}, ...custom } = (organization.metadata ?? {}) as { profile?: OrganizationProfile };
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      ...profile,
+      billingEmail: organization.billingEmail,
+      taxId: organization.taxId ?? undefined,
+      address: (organization.address as Record<string, unknown>) ?? undefined,
+      ownerUserId: organization.ownerUserId,
+      status: organization.status,
+      isActive: organization.status === OrganizationStatus.ACTIVE,
+      metadata: custom,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt,
+      deletedAt: organization.deletedAt,
+      externalMappings: organization.externalMappings?.map((mapping) => externalOrgMappingService.toResponse(mapping)),
+    };
+  }
+}
+
+/**
+ * Merge DTO metadata and profile fields into the stored metadata
+ */
+function buildMetadata(
+  current: Prisma.JsonValue | null,
+  dto: CreateOrganizationDto | UpdateOrganizationDto
+): Prisma.InputJsonValue {
+  const { profile = {}, ...custom } = (current ?? {}) as { profile?: OrganizationProfile };
+  const updates: OrganizationProfile = {};
+
+  for (const field of PROFILE_FIELDS) {
+    if (dto[field] !== undefined) {
+      updates[field] = dto[field];
+    }
+  }
+
+  return { ...custom, ...dto.metadata, profile: { ...profile, ...updates } };
+}
+
+/**
+ * Before/after values of the columns an update changed
+ */
+function diff(before: Organization, after: Organization): Prisma.InputJsonValue {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of ['name', 'slug', 'billingEmail', 'taxId', 'address', 'metadata'] as const) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  return changes as Prisma.InputJsonValue;
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
+
+// Export class for dependency injection
+export { OrganizationService };
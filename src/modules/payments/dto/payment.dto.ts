@@ -170,10 +170,11 @@ export class PaymentResponseDto extends BaseDto {
   invoiceId?: string;
 
   @ApiProperty({
-    description: 'Payment date/time',
+    description: 'Payment date/time; absent until the payment succeeds',
     example: '2024-01-15T10:30:00.000Z',
+    required: false,
   })
-  paidAt: Date;
+  paidAt?: Date;
 
   @ApiProperty({
     description: 'Payment due date',
@@ -203,6 +204,13 @@ export class PaymentResponseDto extends BaseDto {
   })
   failureReason?: string;
 
+  @ApiProperty({
+    description: 'Link to the payment receipt',
+    example: 'https://pay.stripe.com/receipts/acct_123/ch_12345/rcpt_abc',
+    required: false,
+  })
+  receiptUrl?: string;
+
   @ApiProperty({
     description: 'Additional payment metadata',
     example: { 
@@ -237,8 +245,9 @@ export class PaymentResponseDto extends BaseDto {
   @ApiProperty({
     description: 'Payment last update timestamp',
     example: '2024-01-15T10:30:00.000Z',
+    required: false,
   })
-  updatedAt: Date;
+  updatedAt?: Date;
 
   @ApiProperty({
     description: 'Organization details',
@@ -1 +1,2 @@
-export * from './dto';
\ No newline at end of file
+export * from './dto';
+export * from './payment.service';
\ No newline at end of file
@@ -0,0 +1,300 @@
+/**
+ * Payment Service
+ *
+ * Keeps the Payment ledger in step with Stripe invoices. Each
+ * invoice.payment_succeeded or invoice.payment_failed event upserts one
+ * Payment row, keyed by the invoice's PaymentIntent (or the invoice itself
+ * when nothing was charged), and moves the invoice's subscription to
+ * PAST_DUE on failure or back to ACTIVE once a payment succeeds.
+ *
+ * Payment.amount is stored in major units (Decimal(10, 2)) while Stripe
+ * and PaymentResponseDto use integer minor units; every conversion goes
+ * through toCents/fromCents with the payment's currency.
+ */
+
+import Stripe from 'stripe';
+import {
+  AuditActorType,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  PrismaClient,
+  SubscriptionStatus
+} from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { withStripe } from '../../infrastructure/stripe/stripe.client';
+import { logger } from '../../shared/utils/logger.util';
+import { fromCents, toCents } from '../../shared/utils/money.util';
+import { AuditActor, auditLogService } from '../audit';
+import { PaymentResponseDto } from './dto';
+
+const WEBHOOK_ACTOR: AuditActor = { actorType: AuditActorType.WEBHOOK };
+
+/**
+ * Subscription statuses a failed payment moves to PAST_DUE
+ */
+const DELINQUENT_FROM: SubscriptionStatus[] = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+/**
+ * Charge details Stripe does not include on the invoice itself
+ */
+interface ChargeDetails {
+  paymentIntentId: string | null;
+  chargeId: string | null;
+  paymentMethod: string | null;
+  receiptUrl: string | null;
+  failureReason: string | null;
+}
+
+/**
+ * Payment Service
+ */
+class PaymentService {
+  /**
+   * Record the outcome of an invoice payment attempt and update the
+   * subscription it pays for
+   */
+  public async recordInvoicePayment(invoice: Stripe.Invoice, succeeded: boolean, eventId: string): Promise<void> {
+    const details = await this.chargeDetails(invoice);
+    const stripeSubscriptionId = idOf(invoice.subscription);
+    const stripeCustomerId = idOf(invoice.customer);
+    const status = succeeded ? PaymentStatus.SUCCEEDED : PaymentStatus.FAILED;
+
+    const result = await databaseManager.executeTransaction(async (client) => {
+      const subscription = stripeSubscriptionId
+        ? await client.organizationSubscription.findUnique({
+          where: { stripeSubscriptionId },
+          include: { application: { select: { slug: true } } },
+        })
+        : null;
+
+      const organizationId = subscription?.organizationId ?? (stripeCustomerId
+        ? (await client.organization.findUnique({ where: { stripeCustomerId }, select: { id: true } }))?.id
+        : undefined);
+      if (!organizationId) {
+        return null;
+      }
+
+      const existing = await client.payment.findFirst({
+        where: details.paymentIntentId
+          ? { OR: [{ stripePaymentIntentId: details.paymentIntentId }, { stripeInvoiceId: invoice.id }] }
+          : { stripeInvoiceId: invoice.id },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      // A late failure for an invoice that has since been paid changes nothing
+      if (!succeeded && existing?.status === PaymentStatus.SUCCEEDED) {
+        return { stale: true as const };
+      }
+
+      const data = {
+        subscriptionId: subscription?.id ?? null,
+        organizationId,
+        stripePaymentIntentId: details.paymentIntentId,
+        stripeInvoiceId: invoice.id,
+        stripeChargeId: details.chargeId,
+        amount: fromCents(succeeded ? invoice.amount_paid : invoice.amount_due, invoice.currency),
+        currency: invoice.currency.toUpperCase(),
+        status,
+        paymentMethod: details.paymentMethod,
+        failureReason: succeeded ? null : details.failureReason,
+        receiptUrl: details.receiptUrl,
+        paidAt: succeeded ? fromUnix(invoice.status_transitions?.paid_at) ?? new Date() : null,
+        metadata: {
+          invoiceNumber: invoice.number,
+          billingReason: invoice.billing_reason,
+          hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+          attemptCount: invoice.attempt_count,
+        },
+      };
+
+      const payment = await this.upsert(client, existing, data);
+
+      await auditLogService.record(client, {
+        ...WEBHOOK_ACTOR,
+        entityType: 'payment',
+        entityId: payment.id,
+        action: succeeded ? 'succeeded' : 'failed',
+        organizationId,
+        changes: {
+          status: { from: existing?.status ?? null, to: status },
+          amount: toCents(payment.amount, payment.currency),
+          currency: payment.currency,
+        },
+        metadata: { stripeEventId: eventId, stripeInvoiceId: invoice.id },
+      });
+
+      let transition: { from: SubscriptionStatus; to: SubscriptionStatus } | null = null;
+      if (subscription) {
+        const to = succeeded
+          ? (subscription.status === SubscriptionStatus.PAST_DUE ? SubscriptionStatus.ACTIVE : null)
+          : (DELINQUENT_FROM.includes(subscription.status) ? SubscriptionStatus.PAST_DUE : null);
+
+        if (to) {
+          transition = { from: subscription.status, to };
+
+          await client.organizationSubscription.update({ where: { id: subscription.id }, data: { status: to } });
+          await auditLogService.record(client, {
+            ...WEBHOOK_ACTOR,
+            entityType: 'subscription',
+            entityId: subscription.id,
+            action: succeeded ? 'payment_recovered' : 'payment_failed',
+            organizationId,
+            changes: { status: transition },
+            metadata: { stripeEventId: eventId, stripeInvoiceId: invoice.id, paymentId: payment.id },
+          });
+        }
+      }
+
+      return { stale: false as const, payment, subscription, transition };
+    });
+
+    if (!result) {
+      logger.warn('Stripe invoice payment for unknown customer', { invoiceId: invoice.id, stripeCustomerId });
+      return;
+    }
+    if (result.stale) {
+      logger.info('Ignoring failed payment for an invoice already paid', { invoiceId: invoice.id });
+      return;
+    }
+
+    const { payment, subscription, transition } = result;
+    const metadata = {
+      organizationId: payment.organizationId,
+      applicationId: subscription?.applicationId,
+      causationId: eventId,
+    };
+
+    await eventBus.publish(
+      succeeded ? BillingEvents.PAYMENT_SUCCEEDED : BillingEvents.PAYMENT_FAILED,
+      {
+        organizationId: payment.organizationId,
+        subscriptionId: payment.subscriptionId ?? undefined,
+        paymentId: payment.id,
+        amount: toCents(payment.amount, payment.currency),
+        currency: payment.currency,
+        failureReason: payment.failureReason ?? undefined,
+      },
+      metadata
+    );
+
+    if (subscription && transition) {
+      await eventBus.publish(
+        BillingEvents.SUBSCRIPTION_UPDATED,
+        {
+          organizationId: subscription.organizationId,
+          applicationSlug: subscription.application.slug,
+          subscriptionId: subscription.id,
+          status: transition.to,
+        },
+        metadata
+      );
+    }
+
+    logger.info(`Invoice payment ${succeeded ? 'succeeded' : 'failed'}`, {
+      paymentId: payment.id,
+      invoiceId: invoice.id,
+      subscriptionId: payment.subscriptionId,
+      subscriptionStatus: transition?.to,
+    });
+  }
+
+  /**
+   * Present a stored payment in API units
+   */
+  public toResponse(payment: Payment): PaymentResponseDto {
+    return {
+      id: payment.id,
+      organizationId: payment.organizationId,
+      subscriptionId: payment.subscriptionId ?? undefined,
+      amount: toCents(payment.amount, payment.currency),
+      currency: payment.currency,
+      status: payment.status,
+      paymentMethod: payment.paymentMethod ?? undefined,
+      invoiceId: payment.stripeInvoiceId ?? undefined,
+      paidAt: payment.paidAt ?? undefined,
+      failureReason: payment.failureReason ?? undefined,
+      receiptUrl: payment.receiptUrl ?? undefined,
+      metadata: (payment.metadata as Prisma.JsonObject) ?? undefined,
+      stripePaymentIntentId: payment.stripePaymentIntentId ?? undefined,
+      stripeChargeId: payment.stripeChargeId ?? undefined,
+      createdAt: payment.createdAt,
+    };
+  }
+
+  /**
+   * Update the payment already recorded for the invoice, or create it.
+   * A payment with a PaymentIntent is upserted on it, so a concurrent
+   * delivery for the same PaymentIntent updates the row instead of
+   * failing on the unique constraint, which would abort the transaction.
+   */
+  private async upsert(
+    client: PrismaClient,
+    existing: Payment | null,
+    data: Prisma.PaymentUncheckedCreateInput
+  ): Promise<Payment> {
+    if (existing) {
+      return client.payment.update({ where: { id: existing.id }, data });
+    }
+
+    if (data.stripePaymentIntentId) {
+      return client.payment.upsert({
+        where: { stripePaymentIntentId: data.stripePaymentIntentId },
+        create: data,
+        update: data,
+      });
+    }
+
+    return client.payment.create({ data });
+  }
+
+  /**
+   * Load the PaymentIntent and its latest charge for the payment method,
+   * receipt and decline reason. Invoices with nothing to charge have none.
+   */
+  private async chargeDetails(invoice: Stripe.Invoice): Promise<ChargeDetails> {
+    const paymentIntentId = idOf(invoice.payment_intent);
+    const fallback = {
+      paymentIntentId,
+      chargeId: idOf(invoice.charge),
+      paymentMethod: null,
+      receiptUrl: null,
+      failureReason: invoice.last_finalization_error?.message ?? null,
+    };
+
+    if (!paymentIntentId) {
+      return fallback;
+    }
+
+    const paymentIntent = await withStripe((stripe) =>
+      stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] })
+    );
+    const charge = typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+
+    return {
+      paymentIntentId,
+      chargeId: charge?.id ?? fallback.chargeId,
+      paymentMethod: charge?.payment_method_details?.type ?? paymentIntent.payment_method_types[0] ?? null,
+      receiptUrl: charge?.receipt_url ?? null,
+      failureReason: paymentIntent.last_payment_error?.message ?? charge?.failure_message ?? fallback.failureReason,
+    };
+  }
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id;
+}
+
+function fromUnix(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService();
+
+// Export class for dependency injection
+export { PaymentService };
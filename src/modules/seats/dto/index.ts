@@ -1 +1,2 @@
-export * from './seat.dto';
\ No newline at end of file
+export * from './seat.dto';
+export * from './seat-bulk.dto';
\ No newline at end of file
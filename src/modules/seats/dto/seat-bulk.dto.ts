@@ -0,0 +1,198 @@
+import { IsEmail, IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { BaseDto } from '../../../shared/dto/base.dto';
+import { ErrorCode } from '../../../shared/errors/custom-errors';
+import { ASSIGNABLE_ROLES, AssignableRole } from '../../users/dto';
+
+/**
+ * Most rows one bulk request may contain
+ */
+export const MAX_BULK_SEAT_ROWS = 500;
+
+export enum BulkSeatRowOutcome {
+  ASSIGNED = 'ASSIGNED',
+  INVITED = 'INVITED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED',
+}
+
+export class BulkSeatRowDto extends BaseDto {
+  @ApiProperty({
+    description: 'Email of the member to seat, or of the person to invite',
+    example: 'dr.jane.doe@stmarys.org',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Role granted when the email is invited; existing members keep their role',
+    enum: ASSIGNABLE_ROLES,
+    default: UserRole.MEMBER,
+    required: false,
+  })
+  @IsIn(ASSIGNABLE_ROLES)
+  @IsOptional()
+  role?: AssignableRole;
+
+  @ApiProperty({
+    description: 'Slug of the application whose subscription provides the seat',
+    example: 'healos',
+  })
+  @IsString()
+  @IsNotEmpty()
+  applicationSlug: string;
+}
+
+export class BulkSeatRowResultDto extends BaseDto {
+  @ApiProperty({
+    description: 'Row number, counting from 1 (excluding the CSV header)',
+    example: 12,
+  })
+  row: number;
+
+  @ApiProperty({
+    description: 'Email from the row, lowercased',
+    example: 'dr.jane.doe@stmarys.org',
+    required: false,
+  })
+  email?: string;
+
+  @ApiProperty({
+    description: 'Application slug from the row',
+    example: 'healos',
+    required: false,
+  })
+  applicationSlug?: string;
+
+  @ApiProperty({
+    description: 'What happened to the row, or would happen in a dry run',
+    enum: BulkSeatRowOutcome,
+    example: BulkSeatRowOutcome.ASSIGNED,
+  })
+  outcome: BulkSeatRowOutcome;
+
+  @ApiProperty({
+    description: 'Seat assigned to the member',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+    required: false,
+  })
+  seatId?: string;
+
+  @ApiProperty({
+    description: 'Invitation sent to the email',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+    required: false,
+  })
+  invitationId?: string;
+
+  @ApiProperty({
+    description: 'Link the invitee opens to accept the invitation',
+    example: 'https://app.example.com/invitations/accept?token=Jx3n2m7Qw9...',
+    required: false,
+  })
+  acceptUrl?: string;
+
+  @ApiProperty({
+    description: 'Error code for FAILED rows',
+    enum: ErrorCode,
+    example: ErrorCode.NO_SEATS_AVAILABLE,
+    required: false,
+  })
+  code?: ErrorCode;
+
+  @ApiProperty({
+    description: 'Why the row failed or was skipped',
+    example: ['All 200 seats on this subscription are assigned'],
+    required: false,
+  })
+  errors?: string[];
+}
+
+export class BulkSeatCapacityDto extends BaseDto {
+  @ApiProperty({
+    description: 'Application slug',
+    example: 'healos',
+  })
+  applicationSlug: string;
+
+  @ApiProperty({
+    description: 'Subscription the seats come from',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  subscriptionId: string;
+
+  @ApiProperty({
+    description: 'Seats that can be assigned: the quantity, or the scheduled quantity while a reduction is pending',
+    example: 200,
+  })
+  capacity: number;
+
+  @ApiProperty({
+    description: 'Seats assigned or scheduled before the import',
+    example: 150,
+  })
+  assigned: number;
+
+  @ApiProperty({
+    description: 'Seats the rows ask for',
+    example: 60,
+  })
+  requested: number;
+
+  @ApiProperty({
+    description: 'Seats missing for every row to be assigned',
+    example: 10,
+  })
+  shortfall: number;
+}
+
+export class BulkSeatReportDto extends BaseDto {
+  @ApiProperty({
+    description: 'Whether the report is a preview; nothing was changed',
+    example: true,
+  })
+  dryRun: boolean;
+
+  @ApiProperty({
+    description: 'Rows received',
+    example: 200,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Rows whose member got a seat',
+    example: 180,
+  })
+  assigned: number;
+
+  @ApiProperty({
+    description: 'Rows whose email was invited',
+    example: 8,
+  })
+  invited: number;
+
+  @ApiProperty({
+    description: 'Rows that needed nothing, such as members who already hold the seat',
+    example: 2,
+  })
+  skipped: number;
+
+  @ApiProperty({
+    description: 'Rows that could not be applied',
+    example: 10,
+  })
+  failed: number;
+
+  @ApiProperty({
+    description: 'Seat capacity of each subscription the rows use',
+    type: [BulkSeatCapacityDto],
+  })
+  capacity: BulkSeatCapacityDto[];
+
+  @ApiProperty({
+    description: 'Result for each row, in input order',
+    type: [BulkSeatRowResultDto],
+  })
+  rows: BulkSeatRowResultDto[];
+}
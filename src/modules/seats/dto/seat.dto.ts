@@ -1,7 +1,9 @@
-import { IsString, IsOptional, IsEnum, IsObject, IsNotEmpty } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsObject, IsNotEmpty, IsUUID, IsDate, IsEmail, IsIn } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { BaseDto } from '../../../shared/dto/base.dto';
-import { SeatStatus } from '@prisma/client';
+import { SeatStatus, UserRole } from '@prisma/client';
+import { ASSIGNABLE_ROLES, AssignableRole, CreatedInvitationResponseDto } from '../../users/dto';
 
 export class AssignSeatDto extends BaseDto {
   @ApiProperty({
@@ -33,18 +35,22 @@ export class AssignSeatDto extends BaseDto {
   status?: SeatStatus;
 
   @ApiProperty({
-    description: 'Assignment start date (ISO string)',
+    description: 'Assignment start date (ISO string); a future date reserves the seat as SCHEDULED until then',
     example: '2024-01-15T00:00:00.000Z',
     required: false,
   })
+  @Type(() => Date)
+  @IsDate()
   @IsOptional()
   assignedAt?: Date;
 
   @ApiProperty({
-    description: 'Assignment expiry date (ISO string)',
+    description: 'Assignment expiry date (ISO string); the seat is released automatically at this time',
     example: '2024-12-31T23:59:59.999Z',
     required: false,
   })
+  @Type(() => Date)
+  @IsDate()
   @IsOptional()
   expiresAt?: Date;
 
@@ -74,12 +80,15 @@ export class UpdateSeatDto extends BaseDto {
   status?: SeatStatus;
 
   @ApiProperty({
-    description: 'Assignment expiry date (ISO string)',
+    description: 'Assignment expiry date (ISO string); null removes the expiry',
     example: '2024-12-31T23:59:59.999Z',
     required: false,
+    nullable: true,
   })
+  @Type(() => Date)
+  @IsDate()
   @IsOptional()
-  expiresAt?: Date;
+  expiresAt?: Date | null;
 
   @ApiProperty({
     description: 'Reason for seat status change',
@@ -104,6 +113,57 @@ export class UpdateSeatDto extends BaseDto {
   metadata?: Record<string, any>;
 }
 
+export class ReassignSeatDto extends BaseDto {
+  @ApiProperty({
+    description: 'User ID to move the seat to',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+    required: true,
+  })
+  @IsUUID()
+  userId: string;
+}
+
+export class ReserveSeatDto extends BaseDto {
+  @ApiProperty({
+    description: 'Email address to reserve the seat for',
+    example: 'dr.jane.doe@stmarys.org',
+    required: true,
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Role granted when the invitation is accepted',
+    enum: ASSIGNABLE_ROLES,
+    default: UserRole.MEMBER,
+    required: false,
+  })
+  @IsIn(ASSIGNABLE_ROLES)
+  @IsOptional()
+  role?: AssignableRole;
+
+  @ApiProperty({
+    description: 'Additional seat metadata',
+    example: { department: 'Cardiology' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
+
+export class ListSeatsQueryDto extends BaseDto {
+  @ApiProperty({
+    description: 'Filter by seat status',
+    enum: SeatStatus,
+    example: SeatStatus.ACTIVE,
+    required: false,
+  })
+  @IsEnum(SeatStatus)
+  @IsOptional()
+  status?: SeatStatus;
+}
+
 export class SeatResponseDto extends BaseDto {
   @ApiProperty({
     description: 'Seat unique identifier',
@@ -118,12 +178,26 @@ export class SeatResponseDto extends BaseDto {
   subscriptionId: string;
 
   @ApiProperty({
-    description: 'User ID assigned to this seat',
+    description: 'User ID assigned to this seat; absent while the seat is reserved for an invitation',
     example: '123e4567-e89b-12d3-a456-426614174001',
     required: false,
   })
   userId?: string;
 
+  @ApiProperty({
+    description: 'Invitation the seat was reserved for',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+    required: false,
+  })
+  invitationId?: string;
+
+  @ApiProperty({
+    description: 'Email the seat was reserved for',
+    example: 'dr.jane.doe@stmarys.org',
+    required: false,
+  })
+  invitedEmail?: string;
+
   @ApiProperty({
     description: 'Seat assignment status',
     enum: SeatStatus,
@@ -132,19 +206,39 @@ export class SeatResponseDto extends BaseDto {
   status: SeatStatus;
 
   @ApiProperty({
-    description: 'Assignment start date',
+    description: 'When the seat starts; in the future while the seat is SCHEDULED',
     example: '2024-01-15T00:00:00.000Z',
+  })
+  assignedAt: Date;
+
+  @ApiProperty({
+    description: 'When the seat was released',
+    example: '2024-03-01T09:00:00.000Z',
     required: false,
   })
-  assignedAt?: Date;
+  removedAt?: Date;
+
+  @ApiProperty({
+    description: 'User ID of the admin who assigned the seat',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  assignedBy?: string;
 
   @ApiProperty({
-    description: 'Assignment expiry date',
+    description: 'When the seat is released automatically',
     example: '2024-12-31T23:59:59.999Z',
     required: false,
   })
   expiresAt?: Date;
 
+  @ApiProperty({
+    description: 'When the organization owner was warned of the expiry',
+    example: '2024-12-24T23:59:59.999Z',
+    required: false,
+  })
+  expiryNotifiedAt?: Date;
+
   @ApiProperty({
     description: 'Last activity timestamp',
     example: '2024-01-20T14:30:00.000Z',
@@ -170,18 +264,6 @@ export class SeatResponseDto extends BaseDto {
   })
   metadata?: Record<string, any>;
 
-  @ApiProperty({
-    description: 'Seat creation timestamp',
-    example: '2024-01-15T10:30:00.000Z',
-  })
-  createdAt: Date;
-
-  @ApiProperty({
-    description: 'Seat last update timestamp',
-    example: '2024-01-15T10:30:00.000Z',
-  })
-  updatedAt: Date;
-
   @ApiProperty({
     description: 'User details if seat is assigned',
     required: false,
@@ -189,8 +271,6 @@ export class SeatResponseDto extends BaseDto {
   user?: {
     id: string;
     email: string;
-    firstName: string;
-    lastName: string;
     fullName: string;
   };
 
@@ -204,4 +284,18 @@ export class SeatResponseDto extends BaseDto {
     planId: string;
     status: string;
   };
+}
+
+export class SeatReservationResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'Invitation sent to the email, with its single-use token',
+    type: CreatedInvitationResponseDto,
+  })
+  invitation: CreatedInvitationResponseDto;
+
+  @ApiProperty({
+    description: 'Seats reserved for the invitation',
+    type: [SeatResponseDto],
+  })
+  seats: SeatResponseDto[];
 }
\ No newline at end of file
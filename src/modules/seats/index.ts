@@ -1 +1,4 @@
-export * from './dto';
\ No newline at end of file
+export * from './dto';
+export * from './seat.service';
+export * from './seat-bulk.service';
+export * from './seat-schedule.worker';
\ No newline at end of file
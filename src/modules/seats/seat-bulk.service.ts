@@ -0,0 +1,375 @@
+/**
+ * Seat Bulk Service
+ *
+ * Onboards many people at once from rows of (email, role, applicationSlug),
+ * uploaded as CSV or JSON. Each row seats a member of the organization on
+ * its subscription to the application, or invites an email that is not a
+ * member yet and reserves it a seat (PENDING_INVITE, counted like an
+ * assigned seat); the role only applies to invitations.
+ *
+ * Every request is planned first against the current seats: duplicate
+ * rows, unknown applications, missing subscriptions, members who already
+ * hold a seat and rows beyond the remaining capacity are reported per row,
+ * with the shortfall per subscription. A dry run returns that plan without
+ * changing anything. Otherwise the planned rows are applied one at a time
+ * through SeatService.assign and SeatService.reserveSeats (one invitation
+ * per email, covering all of its rows), so each keeps
+ * its own lock, audit entry and events, and a row that fails (for example
+ * because another admin took the last seat meanwhile) does not undo the
+ * others.
+ */
+
+import { UserStatus } from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { BadRequestError, BaseError, ErrorCode } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { validateDtoBatch } from '../../shared/validation';
+import { AuditActor } from '../audit';
+import { AssignableRole } from '../users';
+import {
+  AssignSeatDto,
+  BulkSeatCapacityDto,
+  BulkSeatReportDto,
+  BulkSeatRowDto,
+  BulkSeatRowOutcome,
+  BulkSeatRowResultDto,
+  MAX_BULK_SEAT_ROWS
+} from './dto';
+import { SEAT_HOLDING_STATUSES, SEAT_MANAGEABLE_STATUSES, seatService } from './seat.service';
+
+export interface BulkSeatOptions {
+  /**
+   * Report what would happen without changing anything
+   */
+  dryRun: boolean;
+  /**
+   * Whether the actor may invite people (users:manage); rows that need an
+   * invitation fail otherwise
+   */
+  canInvite: boolean;
+}
+
+/**
+ * A validated row with its position in the input
+ */
+interface IndexedRow {
+  index: number;
+  email: string;
+  applicationSlug: string;
+  role?: AssignableRole;
+}
+
+interface PlannedAssignment {
+  index: number;
+  dto: AssignSeatDto;
+}
+
+interface PlannedInvitation {
+  index: number;
+  email: string;
+  role?: AssignableRole;
+  subscriptionId: string;
+}
+
+interface Plan {
+  results: BulkSeatRowResultDto[];
+  capacity: BulkSeatCapacityDto[];
+  assignments: PlannedAssignment[];
+  invitations: PlannedInvitation[];
+}
+
+/**
+ * Seat Bulk Service
+ */
+class SeatBulkService {
+  /**
+   * Plan the rows and, unless it is a dry run, apply them
+   */
+  public async importRows(
+    organizationId: string,
+    rows: Record<string, unknown>[],
+    options: BulkSeatOptions,
+    actor: AuditActor
+  ): Promise<BulkSeatReportDto> {
+    if (rows.length === 0) {
+      throw new BadRequestError('No rows to import', ErrorCode.INVALID_INPUT);
+    }
+    if (rows.length > MAX_BULK_SEAT_ROWS) {
+      throw new BadRequestError(
+        `At most ${MAX_BULK_SEAT_ROWS} rows can be imported at once; split the file`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const results: BulkSeatRowResultDto[] = rows.map((row, index) => ({
+      row: index + 1,
+      email: typeof row.email === 'string' ? row.email.trim().toLowerCase() : undefined,
+      applicationSlug: typeof row.applicationSlug === 'string' ? row.applicationSlug.trim() : undefined,
+      outcome: BulkSeatRowOutcome.FAILED,
+    }));
+
+    const valid = await this.validateRows(rows, results);
+    const plan = await this.plan(organizationId, valid, results, options);
+
+    if (!options.dryRun) {
+      await this.apply(organizationId, plan, actor);
+    }
+
+    const report = this.toReport(plan, options.dryRun);
+
+    logger.info(options.dryRun ? 'Bulk seat import previewed' : 'Bulk seat import applied', {
+      organizationId,
+      total: report.total,
+      assigned: report.assigned,
+      invited: report.invited,
+      skipped: report.skipped,
+      failed: report.failed,
+    });
+
+    return report;
+  }
+
+  /**
+   * Validate every row against BulkSeatRowDto, failing the invalid ones
+   */
+  private async validateRows(rows: Record<string, unknown>[], results: BulkSeatRowResultDto[]): Promise<IndexedRow[]> {
+    const normalized = rows.map((row) => ({
+      ...row,
+      email: typeof row.email === 'string' ? row.email.trim() : row.email,
+      role: typeof row.role === 'string' && row.role.trim() !== '' ? row.role.trim().toUpperCase() : undefined,
+      applicationSlug: typeof row.applicationSlug === 'string' ? row.applicationSlug.trim() : row.applicationSlug,
+    }));
+
+    const { validDtos, errors } = await validateDtoBatch(BulkSeatRowDto, normalized);
+
+    for (const error of errors) {
+      this.fail(results[error.index], ErrorCode.VALIDATION_ERROR, error.errors);
+    }
+
+    // validDtos keeps input order, skipping the rows that failed
+    const invalid = new Set(errors.map((error) => error.index));
+    const indices = rows.map((_, index) => index).filter((index) => !invalid.has(index));
+
+    return validDtos.map((dto, i) => ({
+      index: indices[i],
+      email: dto.email.toLowerCase(),
+      applicationSlug: dto.applicationSlug,
+      role: dto.role,
+    }));
+  }
+
+  /**
+   * Decide what each row does against the organization's current seats
+   */
+  private async plan(
+    organizationId: string,
+    rows: IndexedRow[],
+    results: BulkSeatRowResultDto[],
+    options: BulkSeatOptions
+  ): Promise<Plan> {
+    const slugs = [...new Set(rows.map((row) => row.applicationSlug))];
+    const emails = [...new Set(rows.map((row) => row.email))];
+
+    const { subscriptions, users, seats } = await databaseManager.executeRead(async (client) => {
+      const subscriptions = await client.organizationSubscription.findMany({
+        where: { organizationId, application: { slug: { in: slugs } } },
+        include: { application: { select: { slug: true } } },
+      });
+
+      const [users, seats] = await Promise.all([
+        client.user.findMany({
+          where: { email: { in: emails, mode: 'insensitive' }, deletedAt: null },
+          select: { id: true, email: true, organizationId: true, status: true },
+        }),
+        client.subscriptionSeat.findMany({
+          where: { subscriptionId: { in: subscriptions.map((subscription) => subscription.id) }, status: { in: SEAT_HOLDING_STATUSES } },
+          select: { subscriptionId: true, userId: true, invitation: { select: { email: true } } },
+        }),
+      ]);
+
+      return { subscriptions, users, seats };
+    });
+
+    const subscriptionBySlug = new Map(subscriptions.map((subscription) => [subscription.application.slug, subscription]));
+    const userByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user]));
+    // Members by user ID, reservations by invited email
+    const seated = new Set(seats.map((seat) => `${seat.subscriptionId}:${seat.userId ?? seat.invitation?.email}`));
+
+    const capacity = new Map<string, BulkSeatCapacityDto>();
+    for (const subscription of subscriptions) {
+      capacity.set(subscription.id, {
+        applicationSlug: subscription.application.slug,
+        subscriptionId: subscription.id,
+        capacity: Math.min(subscription.quantity, subscription.scheduledQuantity ?? subscription.quantity),
+        assigned: seats.filter((seat) => seat.subscriptionId === subscription.id).length,
+        requested: 0,
+        shortfall: 0,
+      });
+    }
+
+    const plan: Plan = { results, capacity: [], assignments: [], invitations: [] };
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+      const result = results[row.index];
+      const key = `${row.email}:${row.applicationSlug}`;
+
+      if (seen.has(key)) {
+        this.skip(result, 'Duplicate of an earlier row');
+        continue;
+      }
+      seen.add(key);
+
+      const subscription = subscriptionBySlug.get(row.applicationSlug);
+      if (!subscription) {
+        this.fail(result, ErrorCode.NOT_FOUND, [`The organization has no subscription to '${row.applicationSlug}'`]);
+        continue;
+      }
+      if (!SEAT_MANAGEABLE_STATUSES.includes(subscription.status)) {
+        this.fail(result, ErrorCode.CONFLICT, [
+          `Seats cannot be changed while the subscription is ${subscription.status.toLowerCase()}`,
+        ]);
+        continue;
+      }
+
+      const user = userByEmail.get(row.email);
+      const invite = !user || user.organizationId === null;
+
+      if (invite && !options.canInvite) {
+        this.fail(result, ErrorCode.INSUFFICIENT_PERMISSIONS, [
+          `${row.email} is not a member; inviting requires the users:manage permission`,
+        ]);
+        continue;
+      }
+      if (invite && seated.has(`${subscription.id}:${row.email}`)) {
+        this.skip(result, 'A seat is already reserved for this email');
+        continue;
+      }
+      if (user && !invite && user.organizationId !== organizationId) {
+        this.fail(result, ErrorCode.CONFLICT, [`${row.email} belongs to another organization`]);
+        continue;
+      }
+      if (user && !invite && user.status !== UserStatus.ACTIVE) {
+        this.fail(result, ErrorCode.CONFLICT, [`User is ${user.status.toLowerCase()} and cannot be assigned a seat`]);
+        continue;
+      }
+      if (user && !invite && seated.has(`${subscription.id}:${user.id}`)) {
+        this.skip(result, 'Already has a seat on this subscription');
+        continue;
+      }
+
+      const seats = capacity.get(subscription.id)!;
+      seats.requested++;
+      if (seats.assigned + seats.requested > seats.capacity) {
+        this.fail(result, ErrorCode.NO_SEATS_AVAILABLE, [
+          `All ${seats.capacity} seats on this subscription would be assigned; add seats or release some first`,
+        ]);
+        continue;
+      }
+
+      if (invite) {
+        result.outcome = BulkSeatRowOutcome.INVITED;
+        plan.invitations.push({ index: row.index, email: row.email, role: row.role, subscriptionId: subscription.id });
+      } else {
+        result.outcome = BulkSeatRowOutcome.ASSIGNED;
+        plan.assignments.push({ index: row.index, dto: { subscriptionId: subscription.id, userId: user!.id } });
+      }
+    }
+
+    plan.capacity = [...capacity.values()]
+      .filter((seats) => seats.requested > 0)
+      .map((seats) => ({ ...seats, shortfall: Math.max(0, seats.assigned + seats.requested - seats.capacity) }));
+
+    return plan;
+  }
+
+  /**
+   * Apply the planned rows in input order, recording each outcome
+   */
+  private async apply(organizationId: string, plan: Plan, actor: AuditActor): Promise<void> {
+    for (const assignment of plan.assignments) {
+      const result = plan.results[assignment.index];
+
+      try {
+        const seat = await seatService.assign(organizationId, assignment.dto, actor);
+        result.seatId = seat.id;
+      } catch (error) {
+        this.failWith(result, error);
+      }
+    }
+
+    // Re-inviting an email replaces its invitation, so each email is invited
+    // once, with the role of its first row
+    const byEmail = new Map<string, PlannedInvitation[]>();
+    for (const invitation of plan.invitations) {
+      byEmail.set(invitation.email, [...(byEmail.get(invitation.email) ?? []), invitation]);
+    }
+
+    for (const [email, invitations] of byEmail) {
+      try {
+        const reservation = await seatService.reserveSeats(
+          organizationId,
+          invitations.map((invitation) => invitation.subscriptionId),
+          { email, role: invitations[0].role },
+          actor
+        );
+        for (const invitation of invitations) {
+          const result = plan.results[invitation.index];
+          result.invitationId = reservation.invitation.id;
+          result.acceptUrl = reservation.invitation.acceptUrl;
+          result.seatId = reservation.seats.find((seat) => seat.subscriptionId === invitation.subscriptionId)?.id;
+        }
+      } catch (error) {
+        for (const invitation of invitations) {
+          this.failWith(plan.results[invitation.index], error);
+        }
+      }
+    }
+  }
+
+  private skip(result: BulkSeatRowResultDto, reason: string): void {
+    result.outcome = BulkSeatRowOutcome.SKIPPED;
+    result.errors = [reason];
+  }
+
+  private fail(result: BulkSeatRowResultDto, code: ErrorCode, errors: string[]): void {
+    result.outcome = BulkSeatRowOutcome.FAILED;
+    result.code = code;
+    result.errors = errors;
+  }
+
+  /**
+   * Record an error thrown while applying a row; the rows after it are
+   * still applied
+   */
+  private failWith(result: BulkSeatRowResultDto, error: unknown): void {
+    if (error instanceof BaseError) {
+      this.fail(result, error.code, [error.message]);
+      return;
+    }
+
+    logger.error('Bulk seat row failed', { row: result.row, error: (error as Error).message });
+    this.fail(result, ErrorCode.INTERNAL_SERVER_ERROR, ['Unexpected error; retry the row']);
+  }
+
+  private toReport(plan: Plan, dryRun: boolean): BulkSeatReportDto {
+    const count = (outcome: BulkSeatRowOutcome) => plan.results.filter((result) => result.outcome === outcome).length;
+
+    return {
+      dryRun,
+      total: plan.results.length,
+      assigned: count(BulkSeatRowOutcome.ASSIGNED),
+      invited: count(BulkSeatRowOutcome.INVITED),
+      skipped: count(BulkSeatRowOutcome.SKIPPED),
+      failed: count(BulkSeatRowOutcome.FAILED),
+      capacity: plan.capacity,
+      rows: plan.results,
+    };
+  }
+}
+
+// Export singleton instance
+export const seatBulkService = new SeatBulkService();
+
+// Export class for dependency injection
+export { SeatBulkService };
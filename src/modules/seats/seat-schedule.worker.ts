@@ -0,0 +1,17 @@
+/**
+ * Seat Schedule Worker
+ *
+ * Polls every config.business.seatScheduleInterval milliseconds to start
+ * scheduled seats, expire time-boxed ones and warn owners about seats
+ * expiring soon.
+ */
+
+import config from '../../config';
+import { PollingWorker } from '../../infrastructure/workers/polling-worker';
+import { seatService } from './seat.service';
+
+export const seatScheduleWorker = new PollingWorker({
+  name: 'Seat schedule worker',
+  interval: () => config.business.seatScheduleInterval,
+  run: () => seatService.processSchedule(),
+});
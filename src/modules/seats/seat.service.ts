@@ -0,0 +1,798 @@
+/**
+ * Seat Service
+ *
+ * Assigns an organization's users to seats on its subscriptions, releases
+ * seats and moves them between users. Every change locks the
+ * OrganizationSubscription row for the rest of its transaction, so two
+ * admins assigning the last seat at the same time cannot both succeed:
+ * the second waits for the first to commit and then sees the seat taken.
+ *
+ * ACTIVE, SCHEDULED and PENDING_INVITE seats count against the
+ * subscription's quantity, or against the scheduled quantity while a
+ * reduction is pending. A user holds at most one seat row per
+ * subscription, so assigning a user whose seat was released reactivates
+ * the REMOVED row instead of creating a new one.
+ *
+ * A seat can also be reserved for an email address before its user
+ * exists: reserve invites the email and holds a PENDING_INVITE seat until
+ * the invitation is accepted (see InvitationService) or, after
+ * config.business.seatReservationDays, expires.
+ *
+ * Seats can be time-boxed: a seat assigned with a future assignedAt is
+ * SCHEDULED until then, and a seat with expiresAt is released at that
+ * time. processSchedule applies both transitions and warns the
+ * organization owner config.business.seatExpiryNoticeDays before a seat
+ * expires.
+ */
+
+import {
+  AuditActorType,
+  Prisma,
+  PrismaClient,
+  SeatStatus,
+  SubscriptionSeat,
+  SubscriptionStatus,
+  UserStatus
+} from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { BadRequestError, ConflictError, ErrorCode, NotFoundError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import { invitationService } from '../users/invitation.service';
+import {
+  AssignSeatDto,
+  ListSeatsQueryDto,
+  ReassignSeatDto,
+  ReserveSeatDto,
+  SeatReservationResponseDto,
+  SeatResponseDto,
+  UpdateSeatDto
+} from './dto';
+
+/**
+ * Seat statuses that take up one of the subscription's seats
+ */
+export const SEAT_HOLDING_STATUSES: SeatStatus[] = [SeatStatus.ACTIVE, SeatStatus.SCHEDULED, SeatStatus.PENDING_INVITE];
+
+/**
+ * Subscriptions whose seats can be assigned and released
+ */
+export const SEAT_MANAGEABLE_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+/**
+ * Seats each scheduler run starts, expires or warns about per step
+ */
+const SCHEDULE_BATCH_SIZE = 100;
+
+const SYSTEM_ACTOR: AuditActor = { actorType: AuditActorType.SYSTEM };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEAT_INCLUDE = {
+  user: { select: { id: true, email: true, fullName: true } },
+  invitation: { select: { email: true } },
+  subscription: { select: { id: true, organizationId: true, subscriptionPlanId: true, status: true } },
+} as const;
+
+const SCHEDULED_SEAT_INCLUDE = {
+  user: { select: { email: true } },
+  subscription: {
+    select: {
+      id: true,
+      organizationId: true,
+      applicationId: true,
+      application: { select: { slug: true } },
+      organization: { select: { ownerUserId: true, owner: { select: { email: true } } } },
+    },
+  },
+} as const;
+
+type SeatWithRelations = Prisma.SubscriptionSeatGetPayload<{ include: typeof SEAT_INCLUDE }>;
+
+type ScheduledSeat = Prisma.SubscriptionSeatGetPayload<{ include: typeof SCHEDULED_SEAT_INCLUDE }>;
+
+type LockedSubscription = Prisma.OrganizationSubscriptionGetPayload<{
+  include: { application: { select: { slug: true } } };
+}>;
+
+type SeatSubscription = Pick<LockedSubscription, 'id' | 'organizationId' | 'applicationId'> & {
+  application: { slug: string };
+};
+
+/**
+ * When a seat starts and ends
+ */
+interface SeatSchedule {
+  startsAt: Date;
+  expiresAt: Date | null;
+}
+
+export interface SeatScheduleRun {
+  started: number;
+  expired: number;
+  notified: number;
+}
+
+/**
+ * Seat Service
+ */
+class SeatService {
+  /**
+   * List a subscription's seats, oldest assignment first
+   */
+  public async list(
+    organizationId: string,
+    subscriptionId: string,
+    query: ListSeatsQueryDto = {}
+  ): Promise<SeatResponseDto[]> {
+    const seats = await databaseManager.executeRead(async (client) => {
+      const subscription = await client.organizationSubscription.findFirst({
+        where: { id: subscriptionId, organizationId },
+        select: { id: true },
+      });
+
+      if (!subscription) {
+        throw new NotFoundError(`Subscription '${subscriptionId}' not found`);
+      }
+
+      return client.subscriptionSeat.findMany({
+        where: { subscriptionId, status: query.status },
+        include: SEAT_INCLUDE,
+        orderBy: { assignedAt: 'asc' },
+      });
+    });
+
+    return seats.map((seat) => this.toResponse(seat));
+  }
+
+  /**
+   * Give a member of the organization a seat on one of its subscriptions,
+   * now or from a future assignedAt
+   */
+  public async assign(organizationId: string, dto: AssignSeatDto, actor: AuditActor): Promise<SeatResponseDto> {
+    const now = new Date();
+    const schedule: SeatSchedule = {
+      startsAt: dto.assignedAt && dto.assignedAt > now ? dto.assignedAt : now,
+      expiresAt: dto.expiresAt ?? null,
+    };
+    this.validateExpiry(schedule.startsAt, schedule.expiresAt);
+
+    const { seat, subscription } = await databaseManager.executeTransaction(async (client) => {
+      const subscription = await this.lockSubscription(client, organizationId, dto.subscriptionId);
+      await this.findAssignableUser(client, organizationId, dto.userId);
+
+      const existing = await client.subscriptionSeat.findUnique({
+        where: { subscriptionId_userId: { subscriptionId: subscription.id, userId: dto.userId } },
+      });
+
+      if (existing && SEAT_HOLDING_STATUSES.includes(existing.status)) {
+        throw new ConflictError('User already has a seat on this subscription');
+      }
+
+      await this.ensureCapacity(client, subscription);
+
+      const seat = await this.activate(client, subscription.id, dto.userId, existing, actor, schedule, dto.metadata);
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription_seat',
+        entityId: seat.id,
+        action: 'assigned',
+        organizationId,
+        changes: {
+          userId: dto.userId,
+          status: { from: existing?.status ?? null, to: seat.status },
+          assignedAt: seat.assignedAt.toISOString(),
+          expiresAt: seat.expiresAt?.toISOString() ?? null,
+        },
+        metadata: { subscriptionId: subscription.id, reused: existing !== null },
+      });
+
+      return { seat, subscription };
+    });
+
+    // A scheduled seat is announced when it starts
+    if (seat.status === SeatStatus.ACTIVE) {
+      await this.publish(BillingEvents.SEAT_ASSIGNED, subscription, seat, actor);
+    }
+
+    logger.info(seat.status === SeatStatus.ACTIVE ? 'Seat assigned' : 'Seat scheduled', {
+      organizationId,
+      subscriptionId: subscription.id,
+      seatId: seat.id,
+      userId: seat.userId ?? undefined,
+    });
+
+    return this.toResponse(seat);
+  }
+
+  /**
+   * Reserve a seat for an email address that is not a member yet
+   */
+  public async reserve(
+    organizationId: string,
+    subscriptionId: string,
+    dto: ReserveSeatDto,
+    actor: AuditActor
+  ): Promise<SeatReservationResponseDto> {
+    return this.reserveSeats(organizationId, [subscriptionId], dto, actor);
+  }
+
+  /**
+   * Invite an email and reserve it a seat on each subscription. Seats the
+   * email's pending invitation already reserves move to the new
+   * invitation and are not counted again, so reserving is also how an
+   * invitation is resent.
+   */
+  public async reserveSeats(
+    organizationId: string,
+    subscriptionIds: string[],
+    dto: ReserveSeatDto,
+    actor: AuditActor
+  ): Promise<SeatReservationResponseDto> {
+    const email = dto.email.toLowerCase();
+    // Lock in a fixed order so concurrent reservations cannot deadlock
+    const ids = [...new Set(subscriptionIds)].sort();
+
+    const { invitation, token, seats } = await databaseManager.executeTransaction(async (client) => {
+      const subscriptions: LockedSubscription[] = [];
+      for (const id of ids) {
+        subscriptions.push(await this.lockSubscription(client, organizationId, id));
+      }
+
+      const held = await client.subscriptionSeat.findMany({
+        where: {
+          subscriptionId: { in: ids },
+          status: SeatStatus.PENDING_INVITE,
+          invitation: { organizationId, email, acceptedAt: null, revokedAt: null },
+        },
+        select: { subscriptionId: true },
+      });
+      const toReserve = subscriptions.filter((subscription) => !held.some((seat) => seat.subscriptionId === subscription.id));
+
+      for (const subscription of toReserve) {
+        await this.ensureCapacity(client, subscription);
+      }
+
+      const { invitation, token } = await invitationService.createPending(
+        client,
+        organizationId,
+        { email, role: dto.role },
+        actor,
+        new Date(Date.now() + config.business.seatReservationDays * DAY_MS)
+      );
+
+      for (const subscription of toReserve) {
+        const seat = await client.subscriptionSeat.create({
+          data: {
+            subscriptionId: subscription.id,
+            invitationId: invitation.id,
+            status: SeatStatus.PENDING_INVITE,
+            expiresAt: invitation.expiresAt,
+            assignedBy: actor.actorUserId ?? null,
+            metadata: dto.metadata as Prisma.InputJsonValue | undefined,
+          },
+        });
+
+        await auditLogService.record(client, {
+          ...actor,
+          entityType: 'subscription_seat',
+          entityId: seat.id,
+          action: 'reserved',
+          organizationId,
+          changes: { email, status: { from: null, to: SeatStatus.PENDING_INVITE }, expiresAt: invitation.expiresAt.toISOString() },
+          metadata: { subscriptionId: subscription.id, invitationId: invitation.id },
+        });
+      }
+
+      const seats = await client.subscriptionSeat.findMany({
+        where: { invitationId: invitation.id, subscriptionId: { in: ids }, status: SeatStatus.PENDING_INVITE },
+        include: SEAT_INCLUDE,
+        orderBy: { assignedAt: 'asc' },
+      });
+
+      return { invitation, token, seats };
+    });
+
+    await invitationService.publishCreated(invitation, actor);
+
+    logger.info('Seats reserved', { organizationId, invitationId: invitation.id, seatIds: seats.map((seat) => seat.id) });
+
+    return {
+      invitation: invitationService.withToken(invitation, token),
+      seats: seats.map((seat) => this.toResponse(seat)),
+    };
+  }
+
+  /**
+   * Change a seat's expiry, status reason or metadata
+   */
+  public async update(
+    organizationId: string,
+    subscriptionId: string,
+    seatId: string,
+    dto: UpdateSeatDto,
+    actor: AuditActor
+  ): Promise<SeatResponseDto> {
+    return databaseManager.executeTransaction(async (client) => {
+      const subscription = await this.lockSubscription(client, organizationId, subscriptionId);
+      const current = await this.findHeldSeat(client, subscription.id, seatId);
+
+      if (dto.expiresAt !== undefined && current.status === SeatStatus.PENDING_INVITE) {
+        throw new ConflictError('A reserved seat expires with its invitation; reserve it again to extend it');
+      }
+      if (dto.expiresAt !== undefined) {
+        this.validateExpiry(current.assignedAt > new Date() ? current.assignedAt : new Date(), dto.expiresAt);
+      }
+
+      const expiryChanged = dto.expiresAt !== undefined && dto.expiresAt?.getTime() !== current.expiresAt?.getTime();
+
+      const seat = await client.subscriptionSeat.update({
+        where: { id: current.id },
+        data: {
+          // A new expiry gets a new warning
+          ...(expiryChanged && { expiresAt: dto.expiresAt, expiryNotifiedAt: null }),
+          statusReason: dto.statusReason,
+          metadata: dto.metadata as Prisma.InputJsonValue | undefined,
+        },
+        include: SEAT_INCLUDE,
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription_seat',
+        entityId: seat.id,
+        action: 'updated',
+        organizationId,
+        changes: {
+          ...(expiryChanged && {
+            expiresAt: { from: current.expiresAt?.toISOString() ?? null, to: seat.expiresAt?.toISOString() ?? null },
+          }),
+          ...(dto.statusReason !== undefined && { statusReason: { from: current.statusReason, to: seat.statusReason } }),
+          ...(dto.metadata !== undefined && { metadata: true }),
+        },
+        metadata: { subscriptionId: subscription.id },
+      });
+
+      return this.toResponse(seat);
+    });
+  }
+
+  /**
+   * Release a seat, or cancel a scheduled one, freeing it for another user
+   */
+  public async unassign(
+    organizationId: string,
+    subscriptionId: string,
+    seatId: string,
+    actor: AuditActor
+  ): Promise<SeatResponseDto> {
+    const { seat, previousStatus, subscription } = await databaseManager.executeTransaction(async (client) => {
+      const subscription = await this.lockSubscription(client, organizationId, subscriptionId);
+      const current = await this.findHeldSeat(client, subscription.id, seatId);
+
+      const seat = await client.subscriptionSeat.update({
+        where: { id: current.id },
+        data: { status: SeatStatus.REMOVED, removedAt: new Date() },
+        include: SEAT_INCLUDE,
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription_seat',
+        entityId: seat.id,
+        action: 'unassigned',
+        organizationId,
+        changes: { userId: seat.userId, status: { from: current.status, to: SeatStatus.REMOVED } },
+        metadata: { subscriptionId: subscription.id },
+      });
+
+      return { seat, previousStatus: current.status, subscription };
+    });
+
+    if (previousStatus === SeatStatus.ACTIVE) {
+      await this.publish(BillingEvents.SEAT_REMOVED, subscription, seat, actor);
+    }
+
+    logger.info('Seat unassigned', { organizationId, subscriptionId, seatId, userId: seat.userId ?? undefined });
+
+    return this.toResponse(seat);
+  }
+
+  /**
+   * Move an assigned seat, with its expiry, to another member. The seat
+   * count does not change, so this works even when every seat is taken.
+   */
+  public async reassign(
+    organizationId: string,
+    subscriptionId: string,
+    seatId: string,
+    dto: ReassignSeatDto,
+    actor: AuditActor
+  ): Promise<SeatResponseDto> {
+    const { seat, released, subscription } = await databaseManager.executeTransaction(async (client) => {
+      const subscription = await this.lockSubscription(client, organizationId, subscriptionId);
+      const current = await this.findHeldSeat(client, subscription.id, seatId);
+
+      if (current.status !== SeatStatus.ACTIVE) {
+        throw new ConflictError('Only active seats can be reassigned; release it and assign a new one instead');
+      }
+      if (current.userId === dto.userId) {
+        throw new ConflictError('Seat is already assigned to this user');
+      }
+
+      await this.findAssignableUser(client, organizationId, dto.userId);
+
+      const existing = await client.subscriptionSeat.findUnique({
+        where: { subscriptionId_userId: { subscriptionId: subscription.id, userId: dto.userId } },
+      });
+
+      if (existing && SEAT_HOLDING_STATUSES.includes(existing.status)) {
+        throw new ConflictError('User already has a seat on this subscription');
+      }
+
+      const released = await client.subscriptionSeat.update({
+        where: { id: current.id },
+        data: { status: SeatStatus.REMOVED, removedAt: new Date() },
+        include: SEAT_INCLUDE,
+      });
+
+      const seat = await this.activate(
+        client,
+        subscription.id,
+        dto.userId,
+        existing,
+        actor,
+        { startsAt: new Date(), expiresAt: current.expiresAt },
+        current.metadata
+      );
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription_seat',
+        entityId: seat.id,
+        action: 'reassigned',
+        organizationId,
+        changes: { userId: { from: current.userId, to: dto.userId } },
+        metadata: { subscriptionId: subscription.id, releasedSeatId: current.id, reused: existing !== null },
+      });
+
+      return { seat, released, subscription };
+    });
+
+    await this.publish(BillingEvents.SEAT_REMOVED, subscription, released, actor);
+    await this.publish(BillingEvents.SEAT_ASSIGNED, subscription, seat, actor);
+
+    logger.info('Seat reassigned', { organizationId, subscriptionId, from: released.userId, to: seat.userId });
+
+    return this.toResponse(seat);
+  }
+
+  /**
+   * Expire seats whose expiresAt has passed, start scheduled seats whose
+   * assignedAt has arrived and warn owners about seats expiring soon
+   */
+  public async processSchedule(now: Date = new Date()): Promise<SeatScheduleRun> {
+    const run: SeatScheduleRun = {
+      expired: await this.expireDue(now),
+      started: await this.startDue(now),
+      notified: await this.notifyExpiring(now),
+    };
+
+    if (run.started + run.expired + run.notified > 0) {
+      logger.info('Seat schedule processed', { ...run });
+    }
+
+    return run;
+  }
+
+  private async expireDue(now: Date): Promise<number> {
+    const due = await databaseManager.executeRead((client) =>
+      client.subscriptionSeat.findMany({
+        where: { status: { in: SEAT_HOLDING_STATUSES }, expiresAt: { lte: now } },
+        include: SCHEDULED_SEAT_INCLUDE,
+        orderBy: { expiresAt: 'asc' },
+        take: SCHEDULE_BATCH_SIZE,
+      })
+    );
+
+    let expired = 0;
+    for (const seat of due) {
+      const applied = await this.transition(seat, SeatStatus.REMOVED, 'expired', {
+        removedAt: now,
+        statusReason: seat.status === SeatStatus.PENDING_INVITE ? 'Invitation expired' : 'Seat expired',
+      });
+      if (!applied) {
+        continue;
+      }
+
+      expired++;
+      if (seat.status === SeatStatus.ACTIVE) {
+        await this.publish(BillingEvents.SEAT_REMOVED, seat.subscription, seat, SYSTEM_ACTOR);
+      }
+    }
+
+    return expired;
+  }
+
+  private async startDue(now: Date): Promise<number> {
+    const due = await databaseManager.executeRead((client) =>
+      client.subscriptionSeat.findMany({
+        where: { status: SeatStatus.SCHEDULED, assignedAt: { lte: now } },
+        include: SCHEDULED_SEAT_INCLUDE,
+        orderBy: { assignedAt: 'asc' },
+        take: SCHEDULE_BATCH_SIZE,
+      })
+    );
+
+    let started = 0;
+    for (const seat of due) {
+      if (!(await this.transition(seat, SeatStatus.ACTIVE, 'started', {}))) {
+        continue;
+      }
+
+      started++;
+      await this.publish(BillingEvents.SEAT_ASSIGNED, seat.subscription, seat, SYSTEM_ACTOR);
+    }
+
+    return started;
+  }
+
+  /**
+   * Publish SEAT_EXPIRING once per expiry for the organization owner; the
+   * notification handlers deliver it
+   */
+  private async notifyExpiring(now: Date): Promise<number> {
+    const noticeBy = new Date(now.getTime() + config.business.seatExpiryNoticeDays * DAY_MS);
+
+    const expiring = await databaseManager.executeRead((client) =>
+      client.subscriptionSeat.findMany({
+        where: {
+          status: { in: [SeatStatus.ACTIVE, SeatStatus.SCHEDULED] },
+          expiresAt: { gt: now, lte: noticeBy },
+          expiryNotifiedAt: null,
+        },
+        include: SCHEDULED_SEAT_INCLUDE,
+        orderBy: { expiresAt: 'asc' },
+        take: SCHEDULE_BATCH_SIZE,
+      })
+    );
+
+    let notified = 0;
+    for (const seat of expiring) {
+      const { count } = await databaseManager.executeWrite((client) =>
+        client.subscriptionSeat.updateMany({
+          where: { id: seat.id, expiresAt: seat.expiresAt, expiryNotifiedAt: null },
+          data: { expiryNotifiedAt: now },
+        })
+      );
+      if (count === 0) {
+        continue;
+      }
+
+      notified++;
+      const { subscription } = seat;
+      await eventBus.publish(
+        BillingEvents.SEAT_EXPIRING,
+        {
+          organizationId: subscription.organizationId,
+          applicationSlug: subscription.application.slug,
+          subscriptionId: subscription.id,
+          seatId: seat.id,
+          userId: seat.userId,
+          userEmail: seat.user?.email,
+          expiresAt: seat.expiresAt!.toISOString(),
+          ownerUserId: subscription.organization.ownerUserId,
+          ownerEmail: subscription.organization.owner.email,
+        },
+        { organizationId: subscription.organizationId, applicationId: subscription.applicationId }
+      );
+    }
+
+    return notified;
+  }
+
+  /**
+   * Move a seat found by the scheduler to its next status, unless an admin
+   * changed it in the meantime, and audit the change
+   */
+  private async transition(
+    seat: ScheduledSeat,
+    status: SeatStatus,
+    action: string,
+    data: Prisma.SubscriptionSeatUpdateManyMutationInput
+  ): Promise<boolean> {
+    return databaseManager.executeTransaction(async (client) => {
+      const { count } = await client.subscriptionSeat.updateMany({
+        where: { id: seat.id, status: seat.status, assignedAt: seat.assignedAt, expiresAt: seat.expiresAt },
+        data: { ...data, status },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await auditLogService.record(client, {
+        ...SYSTEM_ACTOR,
+        entityType: 'subscription_seat',
+        entityId: seat.id,
+        action,
+        organizationId: seat.subscription.organizationId,
+        changes: { userId: seat.userId, status: { from: seat.status, to: status } },
+        metadata: {
+          subscriptionId: seat.subscriptionId,
+          assignedAt: seat.assignedAt.toISOString(),
+          expiresAt: seat.expiresAt?.toISOString() ?? null,
+        },
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Lock the subscription row until the transaction ends, serializing seat
+   * changes on it, and return it if it belongs to the organization
+   */
+  private async lockSubscription(
+    client: PrismaClient,
+    organizationId: string,
+    subscriptionId: string
+  ): Promise<LockedSubscription> {
+    await client.$queryRaw`SELECT id FROM organization_subscriptions WHERE id = ${subscriptionId} FOR UPDATE`;
+
+    const subscription = await client.organizationSubscription.findFirst({
+      where: { id: subscriptionId, organizationId },
+      include: { application: { select: { slug: true } } },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError(`Subscription '${subscriptionId}' not found`);
+    }
+    if (!SEAT_MANAGEABLE_STATUSES.includes(subscription.status)) {
+      throw new ConflictError(`Seats cannot be changed while the subscription is ${subscription.status.toLowerCase()}`);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Reject the assignment when every seat is taken. A pending reduction
+   * caps the seats at the scheduled quantity, so users assigned now still
+   * fit once it applies.
+   */
+  private async ensureCapacity(client: PrismaClient, subscription: LockedSubscription): Promise<void> {
+    const capacity = Math.min(subscription.quantity, subscription.scheduledQuantity ?? subscription.quantity);
+    const assigned = await client.subscriptionSeat.count({
+      where: { subscriptionId: subscription.id, status: { in: SEAT_HOLDING_STATUSES } },
+    });
+
+    if (assigned >= capacity) {
+      throw new ConflictError(
+        `All ${capacity} seats on this subscription are assigned; add seats or release one first`,
+        ErrorCode.NO_SEATS_AVAILABLE
+      );
+    }
+  }
+
+  private validateExpiry(startsAt: Date, expiresAt: Date | null | undefined): void {
+    if (expiresAt && expiresAt <= startsAt) {
+      throw new BadRequestError('expiresAt must be after the seat starts', ErrorCode.INVALID_INPUT);
+    }
+  }
+
+  private async findAssignableUser(client: PrismaClient, organizationId: string, userId: string): Promise<void> {
+    const user = await client.user.findFirst({
+      where: { id: userId, organizationId, deletedAt: null },
+      select: { status: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError(`User '${userId}' not found`);
+    }
+    if (user.status !== UserStatus.ACTIVE) {
+      throw new ConflictError(`User is ${user.status.toLowerCase()} and cannot be assigned a seat`);
+    }
+  }
+
+  /**
+   * Find a seat that is assigned or scheduled
+   */
+  private async findHeldSeat(client: PrismaClient, subscriptionId: string, seatId: string): Promise<SubscriptionSeat> {
+    const seat = await client.subscriptionSeat.findFirst({ where: { id: seatId, subscriptionId } });
+
+    if (!seat) {
+      throw new NotFoundError(`Seat '${seatId}' not found`);
+    }
+    if (!SEAT_HOLDING_STATUSES.includes(seat.status)) {
+      throw new ConflictError('Seat is not assigned');
+    }
+
+    return seat;
+  }
+
+  /**
+   * Give the user a seat row with the schedule, reusing a released one
+   */
+  private async activate(
+    client: PrismaClient,
+    subscriptionId: string,
+    userId: string,
+    existing: SubscriptionSeat | null,
+    actor: AuditActor,
+    schedule: SeatSchedule,
+    metadata?: Prisma.JsonValue
+  ): Promise<SeatWithRelations> {
+    const data = {
+      status: schedule.startsAt > new Date() ? SeatStatus.SCHEDULED : SeatStatus.ACTIVE,
+      assignedAt: schedule.startsAt,
+      expiresAt: schedule.expiresAt,
+      assignedBy: actor.actorUserId ?? null,
+      metadata: (metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+    };
+
+    if (existing) {
+      return client.subscriptionSeat.update({
+        where: { id: existing.id },
+        data: { ...data, removedAt: null, statusReason: null, expiryNotifiedAt: null },
+        include: SEAT_INCLUDE,
+      });
+    }
+
+    return client.subscriptionSeat.create({
+      data: { ...data, subscriptionId, userId },
+      include: SEAT_INCLUDE,
+    });
+  }
+
+  private async publish(
+    type: BillingEvents.SEAT_ASSIGNED | BillingEvents.SEAT_REMOVED,
+    subscription: SeatSubscription,
+    seat: SubscriptionSeat,
+    actor: AuditActor
+  ): Promise<void> {
+    await eventBus.publish(
+      type,
+      {
+        organizationId: subscription.organizationId,
+        applicationSlug: subscription.application.slug,
+        subscriptionId: subscription.id,
+        seatId: seat.id,
+        userId: seat.userId,
+      },
+      { organizationId: subscription.organizationId, applicationId: subscription.applicationId, userId: actor.actorUserId }
+    );
+  }
+
+  private toResponse(seat: SeatWithRelations): SeatResponseDto {
+    return {
+      id: seat.id,
+      subscriptionId: seat.subscriptionId,
+      userId: seat.userId ?? undefined,
+      invitationId: seat.invitationId ?? undefined,
+      invitedEmail: seat.invitation?.email,
+      status: seat.status,
+      statusReason: seat.statusReason ?? undefined,
+      assignedAt: seat.assignedAt,
+      expiresAt: seat.expiresAt ?? undefined,
+      expiryNotifiedAt: seat.expiryNotifiedAt ?? undefined,
+      removedAt: seat.removedAt ?? undefined,
+      assignedBy: seat.assignedBy ?? undefined,
+      metadata: (seat.metadata as Prisma.JsonObject | null) ?? undefined,
+      user: seat.user ?? undefined,
+      subscription: {
+        id: seat.subscription.id,
+        organizationId: seat.subscription.organizationId,
+        planId: seat.subscription.subscriptionPlanId,
+        status: seat.subscription.status,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const seatService = new SeatService();
+
+// Export class for dependency injection
+export { SeatService };
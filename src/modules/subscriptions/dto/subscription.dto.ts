@@ -1,7 +1,8 @@
-import { IsString, IsOptional, IsNumber, IsEnum, IsObject, IsNotEmpty, IsDecimal, IsBoolean, ValidateNested, IsArray, Min } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsEnum, IsObject, IsNotEmpty, IsDecimal, IsBoolean, ValidateNested, IsArray, Min, IsInt, IsUrl } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { BaseDto } from '../../../shared/dto/base.dto';
+import { PaginationDto } from '../../../shared/dto/common.dto';
 import { BillingInterval, SubscriptionStatus } from '@prisma/client';
 
 export class CreateSubscriptionPlanDto extends BaseDto {
@@ -42,7 +43,7 @@ export class CreateSubscriptionPlanDto extends BaseDto {
   description?: string;
 
   @ApiProperty({
-    description: 'Price per seat in cents',
+    description: 'Price per seat in the smallest currency unit (cents, or whole units for zero-decimal currencies)',
     example: 9900,
     required: true,
   })
@@ -131,6 +132,136 @@ export class CreateSubscriptionPlanDto extends BaseDto {
   stripePriceId?: string;
 }
 
+export class UpdateSubscriptionPlanDto extends BaseDto {
+  @ApiProperty({
+    description: 'Subscription plan name',
+    example: 'HealOS Professional',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @ApiProperty({
+    description: 'Plan description',
+    example: 'Professional tier with advanced features for growing practices',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Price per seat in the smallest currency unit. Creates a new Stripe Price; existing subscribers keep the old one.',
+    example: 10900,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  pricePerSeat?: number;
+
+  @ApiProperty({
+    description: 'Billing interval. Creates a new Stripe Price; existing subscribers keep the old one.',
+    enum: BillingInterval,
+    example: BillingInterval.YEARLY,
+    required: false,
+  })
+  @IsEnum(BillingInterval)
+  @IsOptional()
+  billingInterval?: BillingInterval;
+
+  @ApiProperty({
+    description: 'Currency code (ISO 4217). Creates a new Stripe Price; existing subscribers keep the old one.',
+    example: 'USD',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'Minimum number of seats required',
+    example: 1,
+    required: false,
+  })
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  minSeats?: number;
+
+  @ApiProperty({
+    description: 'Maximum number of seats allowed (null for unlimited)',
+    example: 1000,
+    required: false,
+    nullable: true,
+  })
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  maxSeats?: number | null;
+
+  @ApiProperty({
+    description: 'Trial period in days',
+    example: 14,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  trialPeriodDays?: number;
+
+  @ApiProperty({
+    description: 'Plan features list (replaces the current list)',
+    example: ['Advanced Analytics', 'Priority Support'],
+    required: false,
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  features?: string[];
+
+  @ApiProperty({
+    description: 'Metadata keys to merge into the stored metadata',
+    example: { tier: 'professional' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Whether the plan is available for purchase; false archives it',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class ListSubscriptionPlansQueryDto extends PaginationDto {
+  @ApiProperty({
+    description: 'Filter by application',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  applicationId?: string;
+
+  @ApiProperty({
+    description: 'Include archived plans',
+    example: false,
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  includeArchived?: boolean;
+}
+
 export class SubscriptionPlanResponseDto extends BaseDto {
   @ApiProperty({
     description: 'Plan unique identifier',
@@ -164,7 +295,7 @@ export class SubscriptionPlanResponseDto extends BaseDto {
   description?: string;
 
   @ApiProperty({
-    description: 'Price per seat in cents',
+    description: 'Price per seat in the smallest currency unit (cents, or whole units for zero-decimal currencies)',
     example: 9900,
   })
   pricePerSeat: number;
@@ -234,6 +365,13 @@ export class SubscriptionPlanResponseDto extends BaseDto {
   })
   stripePriceId?: string;
 
+  @ApiProperty({
+    description: 'External Stripe product ID',
+    example: 'prod_12345',
+    required: false,
+  })
+  stripeProductId?: string;
+
   @ApiProperty({
     description: 'Plan creation timestamp',
     example: '2024-01-15T10:30:00.000Z',
@@ -247,6 +385,20 @@ export class SubscriptionPlanResponseDto extends BaseDto {
   updatedAt: Date;
 }
 
+export class SubscriptionPlanRemovalResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'True when the plan was deleted; false when it still had subscribers and was archived instead',
+    example: false,
+  })
+  deleted: boolean;
+
+  @ApiProperty({
+    description: 'The plan as it was deleted or archived',
+    type: () => SubscriptionPlanResponseDto,
+  })
+  plan: SubscriptionPlanResponseDto;
+}
+
 export class CreateSubscriptionDto extends BaseDto {
   @ApiProperty({
     description: 'Organization ID for the subscription',
@@ -410,6 +562,20 @@ export class SubscriptionResponseDto extends BaseDto {
   })
   seatsAvailable: number;
 
+  @ApiProperty({
+    description: 'Seat count of a reduction scheduled for the end of the period',
+    example: 8,
+    required: false,
+  })
+  scheduledQuantity?: number;
+
+  @ApiProperty({
+    description: 'When the scheduled seat count takes effect',
+    example: '2024-02-15T00:00:00.000Z',
+    required: false,
+  })
+  scheduledChangeAt?: Date;
+
   @ApiProperty({
     description: 'Subscription status',
     enum: SubscriptionStatus,
@@ -503,4 +669,332 @@ export class SubscriptionResponseDto extends BaseDto {
     required: false,
   })
   plan?: SubscriptionPlanResponseDto;
-}
\ No newline at end of file
+}
+
+export class CreateCheckoutSessionDto extends BaseDto {
+  @ApiProperty({
+    description: 'Subscription plan to purchase',
+    example: '123e4567-e89b-12d3-a456-426614174003',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  planId: string;
+
+  @ApiProperty({
+    description: 'Number of seats to purchase',
+    example: 10,
+    required: true,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Where Stripe sends the customer after paying; {CHECKOUT_SESSION_ID} is substituted by Stripe',
+    example: 'https://app.example.com/billing/success?session_id={CHECKOUT_SESSION_ID}',
+    required: false,
+  })
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  successUrl?: string;
+
+  @ApiProperty({
+    description: 'Where Stripe sends the customer if they leave checkout',
+    example: 'https://app.example.com/billing',
+    required: false,
+  })
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  cancelUrl?: string;
+}
+
+export class CheckoutSessionResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'The PENDING subscription the checkout will activate',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  subscriptionId: string;
+
+  @ApiProperty({
+    description: 'Stripe Checkout session ID',
+    example: 'cs_test_a1b2c3',
+  })
+  checkoutSessionId: string;
+
+  @ApiProperty({
+    description: 'URL to redirect the customer to',
+    example: 'https://checkout.stripe.com/c/pay/cs_test_a1b2c3',
+  })
+  checkoutUrl: string;
+
+  @ApiProperty({
+    description: 'When the checkout session expires',
+    example: '2024-01-16T10:30:00.000Z',
+  })
+  expiresAt: Date;
+}
+
+/**
+ * How Stripe bills a mid-cycle quantity change
+ */
+export enum ProrationBehavior {
+  CREATE_PRORATIONS = 'create_prorations',
+  ALWAYS_INVOICE = 'always_invoice',
+  NONE = 'none',
+}
+
+/**
+ * When a seat reduction takes effect
+ */
+export enum QuantityChangeTiming {
+  PERIOD_END = 'period_end',
+  IMMEDIATELY = 'immediately',
+}
+
+export class UpdateSubscriptionQuantityDto extends BaseDto {
+  @ApiProperty({
+    description: 'New number of seats, within the plan\'s minSeats and maxSeats',
+    example: 12,
+    required: true,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'When a reduction takes effect: at the end of the current period (default), or immediately with a prorated credit. Increases always apply immediately.',
+    enum: QuantityChangeTiming,
+    example: QuantityChangeTiming.PERIOD_END,
+    required: false,
+    default: QuantityChangeTiming.PERIOD_END,
+  })
+  @IsEnum(QuantityChangeTiming)
+  @IsOptional()
+  applyAt?: QuantityChangeTiming;
+
+  @ApiProperty({
+    description: 'Assigned seats to release as part of a reduction, so the remaining users fit the new quantity',
+    example: ['123e4567-e89b-12d3-a456-426614174020'],
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  releaseSeatIds?: string[];
+
+  @ApiProperty({
+    description: 'create_prorations adds the prorated difference to the next invoice, always_invoice charges it now, none bills the new quantity from the next period',
+    enum: ProrationBehavior,
+    example: ProrationBehavior.CREATE_PRORATIONS,
+    required: false,
+    default: ProrationBehavior.CREATE_PRORATIONS,
+  })
+  @IsEnum(ProrationBehavior)
+  @IsOptional()
+  prorationBehavior?: ProrationBehavior;
+
+  @ApiProperty({
+    description: 'prorationDate returned by the preview, so the change is billed exactly as previewed (Unix seconds)',
+    example: 1705314600,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  prorationDate?: number;
+}
+
+export class QuantityChangePreviewDto extends BaseDto {
+  @ApiProperty({
+    description: 'Subscription being changed',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  subscriptionId: string;
+
+  @ApiProperty({
+    description: 'Seats before the change',
+    example: 10,
+  })
+  currentQuantity: number;
+
+  @ApiProperty({
+    description: 'Seats after the change',
+    example: 12,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Proration behavior the preview was calculated with',
+    enum: ProrationBehavior,
+    example: ProrationBehavior.CREATE_PRORATIONS,
+  })
+  prorationBehavior: ProrationBehavior;
+
+  @ApiProperty({
+    description: 'When the change takes effect',
+    enum: QuantityChangeTiming,
+    example: QuantityChangeTiming.IMMEDIATELY,
+  })
+  applyAt: QuantityChangeTiming;
+
+  @ApiProperty({
+    description: 'Time the proration was calculated for; pass it back when applying the change (Unix seconds)',
+    example: 1705314600,
+  })
+  prorationDate: number;
+
+  @ApiProperty({
+    description: 'Net prorated charge for the rest of the current period in cents; negative for a credit',
+    example: 9800,
+  })
+  prorationAmount: number;
+
+  @ApiProperty({
+    description: 'Amount charged immediately in cents (always_invoice only)',
+    example: 0,
+  })
+  amountDueNow: number;
+
+  @ApiProperty({
+    description: 'Estimated amount of the next invoice in cents',
+    example: 128600,
+  })
+  nextInvoiceAmount: number;
+
+  @ApiProperty({
+    description: 'When the next invoice is issued',
+    example: '2024-02-15T00:00:00.000Z',
+    required: false,
+  })
+  nextInvoiceDate?: Date;
+
+  @ApiProperty({
+    description: 'Currency code (ISO 4217)',
+    example: 'USD',
+  })
+  currency: string;
+}
+
+export class QuantityChangeResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'Subscription that was changed',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  subscriptionId: string;
+
+  @ApiProperty({
+    description: 'Seats before the change',
+    example: 10,
+  })
+  previousQuantity: number;
+
+  @ApiProperty({
+    description: 'Seats after the change, as confirmed by Stripe',
+    example: 12,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'How the change was billed',
+    enum: ProrationBehavior,
+    example: ProrationBehavior.CREATE_PRORATIONS,
+  })
+  prorationBehavior: ProrationBehavior;
+
+  @ApiProperty({
+    description: 'Whether the change applied now or is scheduled for the end of the period',
+    enum: QuantityChangeTiming,
+    example: QuantityChangeTiming.IMMEDIATELY,
+  })
+  applyAt: QuantityChangeTiming;
+
+  @ApiProperty({
+    description: 'When the new quantity takes effect',
+    example: '2024-02-15T00:00:00.000Z',
+  })
+  effectiveAt: Date;
+
+  @ApiProperty({
+    description: 'Seats released as part of the reduction; for one scheduled at the period end they expire at effectiveAt',
+    example: ['123e4567-e89b-12d3-a456-426614174020'],
+    type: [String],
+  })
+  releasedSeatIds: string[];
+
+  @ApiProperty({
+    description: 'Invoice charged for the change (always_invoice only)',
+    example: 'in_1OaBcD2eZvKYlo2C',
+    required: false,
+  })
+  invoiceId?: string;
+}
+
+export class CancelSubscriptionDto extends BaseDto {
+  @ApiProperty({
+    description: 'Keep the subscription, and its seats, until the end of the current period (default), or end it now',
+    example: true,
+    required: false,
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  cancelAtPeriodEnd?: boolean;
+
+  @ApiProperty({
+    description: 'Why the organization is canceling; stored in the subscription metadata and sent to Stripe',
+    example: 'Switching to another provider',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class SubscriptionCancellationResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'Subscription that was canceled or reactivated',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  subscriptionId: string;
+
+  @ApiProperty({
+    description: 'Subscription status',
+    enum: SubscriptionStatus,
+    example: SubscriptionStatus.ACTIVE,
+  })
+  status: SubscriptionStatus;
+
+  @ApiProperty({
+    description: 'Whether the subscription ends at the end of the current period',
+    example: true,
+  })
+  cancelAtPeriodEnd: boolean;
+
+  @ApiProperty({
+    description: 'When the cancellation was requested',
+    example: '2024-01-20T10:30:00.000Z',
+    required: false,
+  })
+  canceledAt?: Date;
+
+  @ApiProperty({
+    description: 'When the subscription ends, or ended',
+    example: '2024-02-15T00:00:00.000Z',
+    required: false,
+  })
+  endsAt?: Date;
+
+  @ApiProperty({
+    description: 'Cancellation reason',
+    example: 'Switching to another provider',
+    required: false,
+  })
+  reason?: string;
+
+  @ApiProperty({
+    description: 'Number of seats released because the subscription ended',
+    example: 0,
+  })
+  releasedSeats: number;
+}
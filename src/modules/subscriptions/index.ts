@@ -1 +1,4 @@
-export * from './dto';
\ No newline at end of file
+export * from './dto';
+export * from './plan.service';
+export * from './subscription.service';
+export * from './subscription-sync.service';
\ No newline at end of file
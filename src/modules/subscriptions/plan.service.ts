@@ -0,0 +1,511 @@
+/**
+ * Subscription Plan Service
+ *
+ * Manages the plans sold for each application and keeps them in step with
+ * Stripe. Every plan has a Stripe Product, and its current Stripe Price
+ * carries the per-seat amount, currency and interval. Stripe prices cannot
+ * be edited, so changing any of those creates a new Price on the same
+ * Product and archives the old one; existing subscriptions stay on the
+ * price they were sold at.
+ *
+ * Amounts are minor units (cents, or whole units for zero-decimal
+ * currencies such as JPY) in the API and in Stripe, and major units in the
+ * database, which keeps two decimal places; three-decimal currencies are
+ * refused.
+ * Plans that still have subscriptions cannot be deleted; removing one
+ * archives it instead, taking it and its Stripe Product off sale.
+ */
+
+import Stripe from 'stripe';
+import { BillingInterval, Prisma, PrismaClient, SubscriptionPlan } from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { getStripe, withStripe } from '../../infrastructure/stripe/stripe.client';
+import {
+  BadRequestError,
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  ValidationError
+} from '../../shared/errors/custom-errors';
+import { PaginatedResponseDto } from '../../shared/dto/common.dto';
+import { BusinessRuleValidator } from '../../shared/validation';
+import { logger } from '../../shared/utils/logger.util';
+import { currencyDecimals, fromCents, toCents } from '../../shared/utils/money.util';
+import { slugify } from '../../shared/utils/slug.util';
+import { AuditActor, auditLogService } from '../audit';
+import {
+  CreateSubscriptionPlanDto,
+  ListSubscriptionPlansQueryDto,
+  SubscriptionPlanRemovalResponseDto,
+  SubscriptionPlanResponseDto,
+  UpdateSubscriptionPlanDto
+} from './dto';
+
+/**
+ * Stripe recurring interval for each billing interval; one-time plans
+ * have no recurring component
+ */
+const STRIPE_INTERVALS: Record<BillingInterval, Stripe.PriceCreateParams.Recurring.Interval | null> = {
+  [BillingInterval.MONTHLY]: 'month',
+  [BillingInterval.YEARLY]: 'year',
+  [BillingInterval.ONE_TIME]: null,
+};
+
+/**
+ * Columns that can be sorted on when listing
+ */
+const SORTABLE_FIELDS = ['name', 'slug', 'pricePerSeat', 'createdAt', 'updatedAt'];
+
+/**
+ * Values a Stripe Price is created from
+ */
+interface PriceTerms {
+  pricePerSeat: number;
+  currency: string;
+  billingInterval: BillingInterval;
+}
+
+/**
+ * Subscription Plan Service
+ */
+class PlanService {
+  /**
+   * Create a plan together with its Stripe Product and Price. When
+   * stripePriceId is given, that existing Price (and its Product) is
+   * linked instead, provided its terms match the plan.
+   */
+  public async create(dto: CreateSubscriptionPlanDto, actor: AuditActor): Promise<SubscriptionPlanResponseDto> {
+    const slug = dto.slug ?? slugify(dto.name);
+    const terms: PriceTerms = {
+      pricePerSeat: dto.pricePerSeat,
+      currency: (dto.currency ?? 'USD').toUpperCase(),
+      billingInterval: dto.billingInterval,
+    };
+
+    validatePlan({
+      minSeats: dto.minSeats ?? 1,
+      maxSeats: dto.maxSeats,
+      pricePerSeat: dto.pricePerSeat,
+      currency: terms.currency,
+      trialPeriodDays: dto.trialPeriodDays ?? 0,
+    });
+
+    await databaseManager.executeRead(async (client) => {
+      const application = await client.application.findUnique({ where: { id: dto.applicationId } });
+      if (!application) {
+        throw new NotFoundError(`Application '${dto.applicationId}' not found`);
+      }
+
+      const existing = await client.subscriptionPlan.findUnique({
+        where: { applicationId_slug: { applicationId: dto.applicationId, slug } },
+      });
+      if (existing) {
+        throw new ConflictError(`Plan slug '${slug}' is already taken for this application`);
+      }
+    });
+
+    const stripeMetadata = { applicationId: dto.applicationId, planSlug: slug };
+    const linked = Boolean(dto.stripePriceId);
+    const { productId, priceId } = linked
+      ? await this.linkPrice(dto.stripePriceId!, terms)
+      : await withStripe(async (stripe) => {
+        const product = await stripe.products.create({
+          name: dto.name,
+          description: dto.description || undefined,
+          metadata: stripeMetadata,
+        });
+        const price = await this.createPrice(stripe, product.id, terms, stripeMetadata);
+
+        return { productId: product.id, priceId: price.id };
+      });
+
+    let plan: SubscriptionPlan;
+    try {
+      plan = await databaseManager.executeTransaction(async (client) => {
+        let plan: SubscriptionPlan;
+        try {
+          plan = await client.subscriptionPlan.create({
+            data: {
+              applicationId: dto.applicationId,
+              name: dto.name,
+              slug,
+              description: dto.description,
+              stripePriceId: priceId,
+              stripeProductId: productId,
+              pricePerSeat: fromCents(terms.pricePerSeat, terms.currency),
+              currency: terms.currency,
+              billingInterval: terms.billingInterval,
+              minSeats: dto.minSeats,
+              maxSeats: dto.maxSeats,
+              trialPeriodDays: dto.trialPeriodDays,
+              features: dto.features,
+              metadata: dto.metadata as Prisma.InputJsonObject | undefined,
+            },
+          });
+        } catch (error) {
+          if (isUniqueConstraintError(error, 'stripePriceId')) {
+            throw new ConflictError(`Stripe price '${priceId}' is already used by another plan`);
+          }
+          if (isUniqueConstraintError(error)) {
+            throw new ConflictError(`Plan slug '${slug}' is already taken for this application`);
+          }
+          throw error;
+        }
+
+        await auditLogService.record(client, {
+          ...actor,
+          entityType: 'subscription_plan',
+          entityId: plan.id,
+          action: 'created',
+          changes: { name: plan.name, slug, stripePriceId: priceId, stripeProductId: productId },
+          metadata: { applicationId: dto.applicationId },
+        });
+
+        return plan;
+      });
+    } catch (error) {
+      if (!linked) {
+        await this.archiveInStripe(productId, priceId);
+      }
+      throw error;
+    }
+
+    logger.info('Subscription plan created', { planId: plan.id, applicationId: plan.applicationId, priceId });
+
+    return this.toResponse(plan);
+  }
+
+  /**
+   * Get a plan by ID
+   */
+  public async getById(planId: string): Promise<SubscriptionPlanResponseDto> {
+    const plan = await databaseManager.executeRead((client) => this.findExisting(client, planId));
+
+    return this.toResponse(plan);
+  }
+
+  /**
+   * List plans, on sale only unless includeArchived is set
+   */
+  public async list(query: ListSubscriptionPlansQueryDto): Promise<PaginatedResponseDto<SubscriptionPlanResponseDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const sortBy = query.sortBy && SORTABLE_FIELDS.includes(query.sortBy) ? query.sortBy : 'pricePerSeat';
+
+    const where: Prisma.SubscriptionPlanWhereInput = {
+      applicationId: query.applicationId,
+      isActive: query.includeArchived ? undefined : true,
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { slug: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [plans, total] = await databaseManager.executeRead((client) =>
+      Promise.all([
+        client.subscriptionPlan.findMany({
+          where,
+          orderBy: { [sortBy]: query.sortOrder ?? 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        client.subscriptionPlan.count({ where }),
+      ])
+    );
+
+    return PaginatedResponseDto.of(plans.map((plan) => this.toResponse(plan)), total, page, limit);
+  }
+
+  /**
+   * Update a plan. Name and description are copied to the Stripe Product;
+   * a new amount, currency or interval creates a new Stripe Price and
+   * archives the previous one. Setting isActive archives or restores the
+   * plan and its Stripe Product.
+   */
+  public async update(
+    planId: string,
+    dto: UpdateSubscriptionPlanDto,
+    actor: AuditActor
+  ): Promise<SubscriptionPlanResponseDto> {
+    const current = await databaseManager.executeRead((client) => this.findExisting(client, planId));
+
+    const terms: PriceTerms = {
+      pricePerSeat: dto.pricePerSeat ?? toCents(current.pricePerSeat, current.currency),
+      currency: (dto.currency ?? current.currency).toUpperCase(),
+      billingInterval: dto.billingInterval ?? current.billingInterval,
+    };
+    const maxSeats = dto.maxSeats === undefined ? current.maxSeats : dto.maxSeats;
+    const isActive = dto.isActive ?? current.isActive;
+
+    validatePlan({
+      minSeats: dto.minSeats ?? current.minSeats,
+      maxSeats: maxSeats ?? undefined,
+      pricePerSeat: terms.pricePerSeat,
+      currency: terms.currency,
+      trialPeriodDays: dto.trialPeriodDays ?? current.trialPeriodDays,
+    });
+
+    const priceChanged = terms.pricePerSeat !== toCents(current.pricePerSeat, current.currency)
+      || terms.currency !== current.currency
+      || terms.billingInterval !== current.billingInterval;
+    const productChanged = (dto.name !== undefined && dto.name !== current.name)
+      || (dto.description !== undefined && dto.description !== (current.description ?? ''))
+      || isActive !== current.isActive;
+
+    const newPriceId = await withStripe(async (stripe) => {
+      if (productChanged) {
+        await stripe.products.update(current.stripeProductId, {
+          name: dto.name,
+          description: dto.description,
+          active: isActive,
+        });
+      }
+
+      if (priceChanged) {
+        const price = await this.createPrice(stripe, current.stripeProductId, terms, {
+          applicationId: current.applicationId,
+          planSlug: current.slug,
+        }, isActive);
+
+        return price.id;
+      }
+
+      if (isActive !== current.isActive) {
+        await stripe.prices.update(current.stripePriceId, { active: isActive });
+      }
+
+      return null;
+    });
+
+    let plan: SubscriptionPlan;
+    try {
+      plan = await databaseManager.executeTransaction(async (client) => {
+        const updated = await client.subscriptionPlan.update({
+          where: { id: planId },
+          data: {
+            name: dto.name,
+            description: dto.description,
+            stripePriceId: newPriceId ?? undefined,
+            pricePerSeat: priceChanged ? fromCents(terms.pricePerSeat, terms.currency) : undefined,
+            currency: priceChanged ? terms.currency : undefined,
+            billingInterval: priceChanged ? terms.billingInterval : undefined,
+            minSeats: dto.minSeats,
+            maxSeats: dto.maxSeats,
+            trialPeriodDays: dto.trialPeriodDays,
+            features: dto.features,
+            metadata: dto.metadata
+              ? ({ ...(current.metadata as Prisma.JsonObject | null), ...dto.metadata } as Prisma.InputJsonObject)
+              : undefined,
+            isActive: dto.isActive,
+          },
+        });
+
+        await auditLogService.record(client, {
+          ...actor,
+          entityType: 'subscription_plan',
+          entityId: planId,
+          action: isActive === current.isActive ? 'updated' : isActive ? 'restored' : 'archived',
+          changes: diff(current, updated),
+          metadata: { applicationId: current.applicationId },
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      if (newPriceId) {
+        await this.archiveInStripe(null, newPriceId);
+      }
+      throw error;
+    }
+
+    if (newPriceId) {
+      await this.archiveInStripe(null, current.stripePriceId);
+      logger.info('Subscription plan repriced', { planId, from: current.stripePriceId, to: newPriceId });
+    }
+
+    return this.toResponse(plan);
+  }
+
+  /**
+   * Delete a plan, or archive it when subscriptions still refer to it.
+   * Either way the Stripe Product and Price are archived, since Stripe
+   * does not allow deleting products that have prices.
+   */
+  public async remove(planId: string, actor: AuditActor): Promise<SubscriptionPlanRemovalResponseDto> {
+    const { plan: current, subscriptions } = await databaseManager.executeRead(async (client) => ({
+      plan: await this.findExisting(client, planId),
+      subscriptions: await client.organizationSubscription.count({ where: { subscriptionPlanId: planId } }),
+    }));
+
+    await withStripe(async (stripe) => {
+      await stripe.prices.update(current.stripePriceId, { active: false });
+      await stripe.products.update(current.stripeProductId, { active: false });
+    });
+
+    const deleted = subscriptions === 0;
+
+    const plan = await databaseManager.executeTransaction(async (client) => {
+      const plan = deleted
+        ? await client.subscriptionPlan.delete({ where: { id: planId } })
+        : await client.subscriptionPlan.update({ where: { id: planId }, data: { isActive: false } });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription_plan',
+        entityId: planId,
+        action: deleted ? 'deleted' : 'archived',
+        changes: deleted ? { name: current.name, slug: current.slug } : { isActive: { from: current.isActive, to: false } },
+        metadata: { applicationId: current.applicationId, subscriptions },
+      });
+
+      return plan;
+    });
+
+    logger.info(deleted ? 'Subscription plan deleted' : 'Subscription plan archived', { planId, subscriptions });
+
+    return { deleted, plan: this.toResponse(plan) };
+  }
+
+  /**
+   * Resolve an existing Stripe Price for a new plan, checking that it
+   * bills the same amount, currency and interval
+   */
+  private async linkPrice(priceId: string, terms: PriceTerms): Promise<{ productId: string; priceId: string }> {
+    const price = await withStripe((stripe) => stripe.prices.retrieve(priceId));
+
+    const matches = price.unit_amount === terms.pricePerSeat
+      && price.currency.toUpperCase() === terms.currency
+      && (price.recurring?.interval ?? null) === STRIPE_INTERVALS[terms.billingInterval];
+
+    if (!matches) {
+      throw new BadRequestError(
+        `Stripe price '${priceId}' does not match the plan's amount, currency or billing interval`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    return { productId: typeof price.product === 'string' ? price.product : price.product.id, priceId };
+  }
+
+  private createPrice(
+    stripe: Stripe,
+    productId: string,
+    terms: PriceTerms,
+    metadata: Stripe.MetadataParam,
+    active = true
+  ): Promise<Stripe.Price> {
+    const interval = STRIPE_INTERVALS[terms.billingInterval];
+
+    return stripe.prices.create({
+      product: productId,
+      unit_amount: terms.pricePerSeat,
+      currency: terms.currency.toLowerCase(),
+      ...(interval && { recurring: { interval } }),
+      active,
+      metadata,
+    });
+  }
+
+  /**
+   * Take Stripe objects off sale after a failed or superseded write. Logged
+   * rather than thrown: the local state is already correct.
+   */
+  private async archiveInStripe(productId: string | null, priceId: string): Promise<void> {
+    try {
+      const stripe = getStripe();
+      await stripe.prices.update(priceId, { active: false });
+      if (productId) {
+        await stripe.products.update(productId, { active: false });
+      }
+    } catch (error) {
+      logger.error('Failed to archive Stripe price', { priceId, productId, error: (error as Error).message });
+    }
+  }
+
+  private async findExisting(client: PrismaClient, planId: string): Promise<SubscriptionPlan> {
+    const plan = await client.subscriptionPlan.findUnique({ where: { id: planId } });
+
+    if (!plan) {
+      throw new NotFoundError(`Subscription plan '${planId}' not found`);
+    }
+
+    return plan;
+  }
+
+  private toResponse(plan: SubscriptionPlan): SubscriptionPlanResponseDto {
+    return {
+      id: plan.id,
+      name: plan.name,
+      slug: plan.slug,
+      applicationId: plan.applicationId,
+      description: plan.description ?? undefined,
+      pricePerSeat: toCents(plan.pricePerSeat, plan.currency),
+      billingInterval: plan.billingInterval,
+      currency: plan.currency,
+      minSeats: plan.minSeats,
+      maxSeats: plan.maxSeats ?? undefined,
+      trialPeriodDays: plan.trialPeriodDays,
+      features: Array.isArray(plan.features) ? (plan.features as string[]) : undefined,
+      isActive: plan.isActive,
+      metadata: (plan.metadata as Prisma.JsonObject) ?? undefined,
+      stripePriceId: plan.stripePriceId,
+      stripeProductId: plan.stripeProductId,
+      createdAt: plan.createdAt,
+      updatedAt: plan.updatedAt,
+    };
+  }
+}
+
+/**
+ * Apply BusinessRuleValidator.validateSubscriptionPlan, which works in
+ * major units, to a plan priced in minor units. Three-decimal currencies
+ * are refused: stored amounts keep only two decimal places.
+ */
+function validatePlan({ currency, ...plan }: {
+  minSeats: number;
+  maxSeats?: number;
+  pricePerSeat: number;
+  currency: string;
+  trialPeriodDays: number;
+}) {
+  if (currencyDecimals(currency) > 2) {
+    throw new BadRequestError(`Currency '${currency}' is not supported`, ErrorCode.INVALID_INPUT);
+  }
+
+  const errors = BusinessRuleValidator.validateSubscriptionPlan({
+    ...plan,
+    pricePerSeat: fromCents(plan.pricePerSeat, currency).toNumber(),
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid subscription plan', { plan: errors });
+  }
+}
+
+/**
+ * Before/after values of the columns an update changed
+ */
+function diff(before: SubscriptionPlan, after: SubscriptionPlan): Prisma.InputJsonValue {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const fields = [
+    'name', 'description', 'stripePriceId', 'pricePerSeat', 'currency', 'billingInterval',
+    'minSeats', 'maxSeats', 'trialPeriodDays', 'features', 'metadata', 'isActive',
+  ] as const;
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  return changes as Prisma.InputJsonValue;
+}
+
+// Export singleton instance
+export const planService = new PlanService();
+
+// Export class for dependency injection
+export { PlanService };
@@ -0,0 +1,347 @@
+/**
+ * Subscription Sync Service
+ *
+ * Moves local subscriptions through their lifecycle as Stripe reports
+ * changes:
+ * - checkout.session.completed attaches the Stripe subscription to the
+ *   PENDING row created at checkout and activates it
+ * - customer.subscription.updated copies quantity, status, billing period,
+ *   trial and cancellation flags, and clears a scheduled seat reduction
+ *   once its Stripe schedule has been released
+ * - customer.subscription.deleted ends the subscription and releases its
+ *   seats
+ *
+ * Local rows are found by stripeSubscriptionId, falling back to the
+ * subscriptionId metadata set at checkout, so subscription events that
+ * arrive before checkout.session.completed still apply. Every transition
+ * is audited with actorType WEBHOOK and the Stripe event ID.
+ *
+ * Webhooks can arrive late, out of order or more than once, so updates
+ * apply the subscription as Stripe holds it now rather than the event's
+ * snapshot, and a subscription that has ended is never brought back.
+ *
+ * An immediate cancellation through the API ends the subscription the same
+ * way as soon as Stripe confirms it, audited as the requesting user; the
+ * deletion webhook that follows finds it already ended and does nothing.
+ */
+
+import Stripe from 'stripe';
+import {
+  AuditActorType,
+  OrganizationSubscription,
+  Prisma,
+  PrismaClient,
+  SeatStatus,
+  SubscriptionStatus
+} from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { withStripe } from '../../infrastructure/stripe/stripe.client';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+
+const WEBHOOK_ACTOR: AuditActor = { actorType: AuditActorType.WEBHOOK };
+
+/**
+ * Local status for each Stripe subscription status. Unpaid subscriptions
+ * keep their seats until Stripe cancels them, like past-due ones.
+ */
+const STATUS_MAP: Record<Stripe.Subscription.Status, SubscriptionStatus> = {
+  incomplete: SubscriptionStatus.INCOMPLETE,
+  incomplete_expired: SubscriptionStatus.INCOMPLETE_EXPIRED,
+  trialing: SubscriptionStatus.TRIALING,
+  active: SubscriptionStatus.ACTIVE,
+  past_due: SubscriptionStatus.PAST_DUE,
+  unpaid: SubscriptionStatus.PAST_DUE,
+  canceled: SubscriptionStatus.CANCELED,
+  paused: SubscriptionStatus.PAUSED,
+};
+
+/**
+ * Columns copied from Stripe and compared for the audit trail
+ */
+const SYNCED_FIELDS = [
+  'stripeSubscriptionId', 'stripeItemId', 'quantity', 'status', 'currentPeriodStart', 'currentPeriodEnd',
+  'trialStart', 'trialEnd', 'cancelAtPeriodEnd', 'canceledAt', 'stripeScheduleId', 'scheduledQuantity',
+  'scheduledChangeAt',
+] as const;
+
+type SubscriptionWithApplication = OrganizationSubscription & { application: { slug: string } };
+
+/**
+ * Subscription Sync Service
+ */
+class SubscriptionSyncService {
+  /**
+   * Activate the subscription a completed Checkout session paid for
+   */
+  public async completeCheckout(session: Stripe.Checkout.Session, eventId: string): Promise<void> {
+    if (session.mode !== 'subscription' || !session.subscription) {
+      logger.debug('Ignoring non-subscription checkout session', { sessionId: session.id });
+      return;
+    }
+
+    const stripeSubscriptionId = typeof session.subscription === 'string'
+      ? session.subscription
+      : session.subscription.id;
+    const stripeSubscription = await withStripe((stripe) => stripe.subscriptions.retrieve(stripeSubscriptionId));
+
+    await this.apply(
+      stripeSubscription,
+      session.client_reference_id ?? session.metadata?.subscriptionId,
+      'activated',
+      eventId
+    );
+  }
+
+  /**
+   * Copy the current state of an updated Stripe subscription. The event's
+   * own snapshot may be older than what was already applied.
+   */
+  public async syncSubscription(stripeSubscription: Stripe.Subscription, eventId: string): Promise<void> {
+    const latest = await withStripe((stripe) => stripe.subscriptions.retrieve(stripeSubscription.id));
+
+    await this.apply(latest, stripeSubscription.metadata?.subscriptionId, 'synced', eventId);
+  }
+
+  /**
+   * End a subscription Stripe has deleted, releasing all of its seats
+   */
+  public async endSubscription(stripeSubscription: Stripe.Subscription, eventId: string): Promise<void> {
+    await this.end(stripeSubscription, WEBHOOK_ACTOR, eventId);
+  }
+
+  /**
+   * End a subscription canceled immediately through the API, without
+   * waiting for Stripe's webhook. Returns the number of seats released.
+   */
+  public async endCanceled(stripeSubscription: Stripe.Subscription, actor: AuditActor): Promise<number> {
+    return this.end(stripeSubscription, actor);
+  }
+
+  private async end(stripeSubscription: Stripe.Subscription, actor: AuditActor, eventId?: string): Promise<number> {
+    const result = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.find(client, stripeSubscription.id, stripeSubscription.metadata?.subscriptionId);
+      if (!current) {
+        return null;
+      }
+      if (current.status === SubscriptionStatus.CANCELED && current.endedAt) {
+        return { current, userIds: null };
+      }
+
+      const now = new Date();
+      const subscription = await client.organizationSubscription.update({
+        where: { id: current.id },
+        data: {
+          status: SubscriptionStatus.CANCELED,
+          cancelAtPeriodEnd: false,
+          canceledAt: fromUnix(stripeSubscription.canceled_at) ?? current.canceledAt ?? now,
+          endedAt: fromUnix(stripeSubscription.ended_at) ?? now,
+          scheduledQuantity: null,
+          scheduledChangeAt: null,
+          stripeScheduleId: null,
+        },
+      });
+
+      const released = await client.subscriptionSeat.findMany({
+        where: { subscriptionId: current.id, status: { not: SeatStatus.REMOVED } },
+        select: { userId: true },
+      });
+      await client.subscriptionSeat.updateMany({
+        where: { subscriptionId: current.id, status: { not: SeatStatus.REMOVED } },
+        data: { status: SeatStatus.REMOVED, removedAt: now },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription',
+        entityId: current.id,
+        action: 'ended',
+        organizationId: current.organizationId,
+        changes: { status: { from: current.status, to: SubscriptionStatus.CANCELED }, releasedSeats: released.length },
+        metadata: { ...(eventId && { stripeEventId: eventId }), stripeSubscriptionId: stripeSubscription.id },
+      });
+
+      // Seats reserved for invitations have no user to revoke
+      return { subscription, current, userIds: released.flatMap((seat) => (seat.userId ? [seat.userId] : [])) };
+    });
+
+    if (!result) {
+      logger.warn('Stripe subscription deleted but not found locally', { stripeSubscriptionId: stripeSubscription.id });
+      return 0;
+    }
+
+    const { current, userIds } = result;
+    if (!userIds) {
+      logger.debug('Subscription already ended', { subscriptionId: current.id });
+      return 0;
+    }
+
+    const metadata = {
+      organizationId: current.organizationId,
+      applicationId: current.applicationId,
+      ...(eventId ? { causationId: eventId } : { userId: actor.actorUserId }),
+    };
+
+    await eventBus.publish(
+      BillingEvents.SUBSCRIPTION_CANCELED,
+      {
+        organizationId: current.organizationId,
+        applicationSlug: current.application.slug,
+        subscriptionId: current.id,
+        releasedSeats: userIds.length,
+      },
+      metadata
+    );
+
+    if (userIds.length > 0) {
+      await eventBus.publish(
+        BillingEvents.SEATS_BULK_REMOVED,
+        { organizationId: current.organizationId, applicationSlug: current.application.slug, userIds },
+        metadata
+      );
+    }
+
+    logger.info('Subscription ended', { subscriptionId: current.id, releasedSeats: userIds.length });
+
+    return userIds.length;
+  }
+
+  private async apply(
+    stripeSubscription: Stripe.Subscription,
+    localId: string | undefined,
+    action: 'activated' | 'synced',
+    eventId: string
+  ): Promise<void> {
+    const item = stripeSubscription.items.data[0];
+    const schedule = stripeSubscription.schedule;
+    const stripeScheduleId = typeof schedule === 'string' ? schedule : schedule?.id ?? null;
+
+    const result = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.find(client, stripeSubscription.id, localId);
+      if (!current) {
+        return null;
+      }
+      // Ended subscriptions only come back through a new checkout
+      if (current.endedAt) {
+        return { current, subscription: current, changes: {} };
+      }
+
+      const subscription = await client.organizationSubscription.update({
+        where: { id: current.id },
+        data: {
+          stripeSubscriptionId: stripeSubscription.id,
+          stripeItemId: item?.id ?? current.stripeItemId,
+          quantity: item?.quantity ?? current.quantity,
+          status: STATUS_MAP[stripeSubscription.status],
+          currentPeriodStart: fromUnix(stripeSubscription.current_period_start),
+          currentPeriodEnd: fromUnix(stripeSubscription.current_period_end),
+          trialStart: fromUnix(stripeSubscription.trial_start),
+          trialEnd: fromUnix(stripeSubscription.trial_end),
+          cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+          canceledAt: fromUnix(stripeSubscription.canceled_at),
+          stripeScheduleId,
+          // The schedule is released once the reduced quantity applies
+          ...(!stripeScheduleId && { scheduledQuantity: null, scheduledChangeAt: null }),
+        },
+      });
+
+      const changes = diff(current, subscription);
+      if (action === 'synced' && Object.keys(changes).length === 0) {
+        return { current, subscription, changes };
+      }
+
+      await auditLogService.record(client, {
+        ...WEBHOOK_ACTOR,
+        entityType: 'subscription',
+        entityId: current.id,
+        action,
+        organizationId: current.organizationId,
+        changes: changes as Prisma.InputJsonObject,
+        metadata: { stripeEventId: eventId, stripeSubscriptionId: stripeSubscription.id },
+      });
+
+      return { current, subscription, changes };
+    });
+
+    if (!result) {
+      logger.warn('Stripe subscription not found locally', { stripeSubscriptionId: stripeSubscription.id, localId });
+      return;
+    }
+
+    const { current, subscription, changes } = result;
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+
+    const data = {
+      organizationId: current.organizationId,
+      applicationSlug: current.application.slug,
+      subscriptionId: current.id,
+      status: subscription.status,
+    };
+    const metadata = { organizationId: current.organizationId, applicationId: current.applicationId, causationId: eventId };
+
+    await eventBus.publish(
+      current.status === SubscriptionStatus.PENDING ? BillingEvents.SUBSCRIPTION_CREATED : BillingEvents.SUBSCRIPTION_UPDATED,
+      data,
+      metadata
+    );
+
+    if (current.status !== SubscriptionStatus.PENDING && 'quantity' in changes) {
+      await eventBus.publish(
+        BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+        { ...data, from: current.quantity, to: subscription.quantity },
+        metadata
+      );
+    }
+
+    logger.info(`Subscription ${action} from Stripe`, { subscriptionId: current.id, status: subscription.status });
+  }
+
+  /**
+   * Find the local row for a Stripe subscription. The checkout metadata is
+   * only trusted for rows not yet linked to a Stripe subscription, so late
+   * events for an earlier, ended subscription cannot take over a row that
+   * was reused for a new checkout.
+   */
+  private async find(
+    client: PrismaClient,
+    stripeSubscriptionId: string,
+    localId: string | null | undefined
+  ): Promise<SubscriptionWithApplication | null> {
+    const include = { application: { select: { slug: true } } };
+
+    const linked = await client.organizationSubscription.findUnique({ where: { stripeSubscriptionId }, include });
+    if (linked || !localId) {
+      return linked;
+    }
+
+    return client.organizationSubscription.findFirst({ where: { id: localId, stripeSubscriptionId: null }, include });
+  }
+}
+
+function fromUnix(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+/**
+ * Before/after values of the synced columns that changed
+ */
+function diff(before: OrganizationSubscription, after: OrganizationSubscription): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of SYNCED_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  return changes;
+}
+
+// Export singleton instance
+export const subscriptionSyncService = new SubscriptionSyncService();
+
+// Export class for dependency injection
+export { SubscriptionSyncService };
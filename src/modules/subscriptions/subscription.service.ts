@@ -0,0 +1,1000 @@
+/**
+ * Subscription Service
+ *
+ * Starts new subscriptions through Stripe Checkout. A checkout creates the
+ * organization's Stripe customer on first use, records a PENDING
+ * OrganizationSubscription and opens a Checkout session for the plan's
+ * price, seat quantity and trial. The subscription becomes active when
+ * Stripe reports the completed session through the webhook.
+ *
+ * An organization holds one subscription per application. A PENDING row
+ * from an abandoned checkout, or one that has ended, is reused for the
+ * next checkout; any other existing subscription is a duplicate.
+ *
+ * Owners add seats mid-cycle by changing the Stripe subscription item's
+ * quantity. The change can be previewed first; the local quantity is only
+ * updated once Stripe has accepted it.
+ *
+ * Reductions may not leave more filled seats than the new quantity: the
+ * request is rejected with the users still assigned, unless it names the
+ * seats to release. The seats are counted again under the same row lock
+ * seat assignment takes, so a concurrent assignment cannot slip past the
+ * check; if they no longer fit, the Stripe change is undone. By default a
+ * reduction is held in a Stripe subscription schedule until the end of the
+ * period and recorded as scheduledQuantity, and the seats named for
+ * release expire when it applies; applied immediately, they are released
+ * now and Stripe credits the unused time. Any later change to the quantity
+ * replaces a scheduled reduction; seats given an expiry by the replaced
+ * one keep it until it is changed on the seat.
+ *
+ * Cancellation defaults to the end of the current period: Stripe keeps the
+ * subscription, and the organization its seats, until then, and a
+ * reactivation before that undoes it. An immediate cancellation ends the
+ * subscription and releases its seats as soon as Stripe confirms it. The
+ * reason is kept in the subscription's metadata and sent to Stripe.
+ */
+
+import Stripe from 'stripe';
+import {
+  ApplicationStatus,
+  BillingInterval,
+  Organization,
+  OrganizationStatus,
+  OrganizationSubscription,
+  Prisma,
+  PrismaClient,
+  SeatStatus,
+  SubscriptionPlan,
+  SubscriptionStatus
+} from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { withStripe } from '../../infrastructure/stripe/stripe.client';
+import {
+  BadRequestError,
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  SeatsInUseError
+} from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import { SEAT_HOLDING_STATUSES } from '../seats';
+import { subscriptionSyncService } from './subscription-sync.service';
+import {
+  CancelSubscriptionDto,
+  CheckoutSessionResponseDto,
+  CreateCheckoutSessionDto,
+  ProrationBehavior,
+  QuantityChangePreviewDto,
+  QuantityChangeResponseDto,
+  QuantityChangeTiming,
+  SubscriptionCancellationResponseDto,
+  UpdateSubscriptionQuantityDto
+} from './dto';
+
+/**
+ * Existing subscriptions a new checkout may take over
+ */
+const REUSABLE_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.PENDING,
+  SubscriptionStatus.CANCELED,
+  SubscriptionStatus.INCOMPLETE_EXPIRED,
+];
+
+/**
+ * Subscriptions whose seat quantity can be changed
+ */
+const CHANGEABLE_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+/**
+ * Subscriptions that can be canceled
+ */
+const CANCELABLE_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+  SubscriptionStatus.PAST_DUE,
+  SubscriptionStatus.PAUSED,
+  SubscriptionStatus.INCOMPLETE,
+];
+
+/**
+ * Stripe schedule states that still control the subscription
+ */
+const OPEN_SCHEDULE_STATUSES: Stripe.SubscriptionSchedule.Status[] = ['not_started', 'active'];
+
+type SubscriptionWithPlan = OrganizationSubscription & {
+  subscriptionPlan: SubscriptionPlan;
+  application: { slug: string; name: string };
+};
+
+type ReleasedSeat = { id: string; userId: string | null };
+
+/**
+ * Subscription Service
+ */
+class SubscriptionService {
+  /**
+   * Open a Stripe Checkout session for a new subscription and record it
+   * as PENDING
+   */
+  public async startCheckout(
+    organizationId: string,
+    dto: CreateCheckoutSessionDto,
+    actor: AuditActor
+  ): Promise<CheckoutSessionResponseDto> {
+    const { organization, plan } = await databaseManager.executeRead(async (client) => {
+      const organization = await client.organization.findFirst({ where: { id: organizationId, deletedAt: null } });
+      if (!organization) {
+        throw new NotFoundError(`Organization '${organizationId}' not found`);
+      }
+
+      const plan = await client.subscriptionPlan.findUnique({
+        where: { id: dto.planId },
+        include: { application: true },
+      });
+      if (!plan || !plan.isActive) {
+        throw new NotFoundError(`Subscription plan '${dto.planId}' not found`, ErrorCode.PLAN_NOT_FOUND);
+      }
+
+      return { organization, plan };
+    });
+
+    if (organization.status !== OrganizationStatus.ACTIVE) {
+      throw new ConflictError(`Organization is ${organization.status.toLowerCase()}`);
+    }
+    if (plan.application.status !== ApplicationStatus.ACTIVE) {
+      throw new ConflictError(`${plan.application.name} is not accepting new subscriptions`);
+    }
+    if (plan.billingInterval === BillingInterval.ONE_TIME) {
+      throw new BadRequestError('One-time plans cannot be purchased through checkout', ErrorCode.INVALID_INPUT);
+    }
+    if (dto.quantity < plan.minSeats || (plan.maxSeats !== null && dto.quantity > plan.maxSeats)) {
+      throw new BadRequestError(
+        `Seat quantity must be between ${plan.minSeats} and ${plan.maxSeats ?? 'unlimited'} for this plan`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const customerId = await this.ensureCustomer(organization);
+
+    const { subscription, created } = await databaseManager.executeTransaction(async (client) => {
+      const existing = await client.organizationSubscription.findUnique({
+        where: { organizationId_applicationId: { organizationId, applicationId: plan.applicationId } },
+      });
+
+      if (existing && !REUSABLE_STATUSES.includes(existing.status)) {
+        throw duplicateSubscription(plan.application.name);
+      }
+
+      const data = {
+        subscriptionPlanId: plan.id,
+        stripeCustomerId: customerId,
+        quantity: dto.quantity,
+        status: SubscriptionStatus.PENDING,
+      };
+
+      let subscription: OrganizationSubscription;
+      if (existing) {
+        subscription = await client.organizationSubscription.update({
+          where: { id: existing.id },
+          data: {
+            ...data,
+            stripeSubscriptionId: null,
+            stripeItemId: null,
+            currentPeriodStart: null,
+            currentPeriodEnd: null,
+            trialStart: null,
+            trialEnd: null,
+            cancelAtPeriodEnd: false,
+            canceledAt: null,
+            endedAt: null,
+            metadata: Prisma.DbNull,
+          },
+        });
+      } else {
+        try {
+          subscription = await client.organizationSubscription.create({
+            data: { ...data, organizationId, applicationId: plan.applicationId },
+          });
+        } catch (error) {
+          if (isUniqueConstraintError(error)) {
+            throw duplicateSubscription(plan.application.name);
+          }
+          throw error;
+        }
+      }
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription',
+        entityId: subscription.id,
+        action: 'checkout_started',
+        organizationId,
+        changes: { planId: plan.id, quantity: dto.quantity, status: SubscriptionStatus.PENDING },
+        metadata: existing ? { reusedFromStatus: existing.status } : undefined,
+      });
+
+      return { subscription, created: !existing };
+    });
+
+    const metadata = {
+      subscriptionId: subscription.id,
+      organizationId,
+      applicationId: plan.applicationId,
+      planId: plan.id,
+    };
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await withStripe((stripe) =>
+        stripe.checkout.sessions.create({
+          mode: 'subscription',
+          customer: customerId,
+          client_reference_id: subscription.id,
+          line_items: [{ price: plan.stripePriceId, quantity: dto.quantity }],
+          subscription_data: {
+            ...(plan.trialPeriodDays > 0 && { trial_period_days: plan.trialPeriodDays }),
+            metadata,
+          },
+          metadata,
+          success_url: dto.successUrl
+            ?? `${config.frontendUrl}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: dto.cancelUrl ?? `${config.frontendUrl}/billing`,
+        })
+      );
+    } catch (error) {
+      if (created) {
+        await databaseManager.executeWrite((client) =>
+          client.organizationSubscription.delete({ where: { id: subscription.id } })
+        );
+      }
+      throw error;
+    }
+
+    await databaseManager.executeWrite((client) =>
+      client.organizationSubscription.update({
+        where: { id: subscription.id },
+        data: { metadata: { checkoutSessionId: session.id, startedBy: actor.actorUserId ?? null } },
+      })
+    );
+
+    logger.info('Checkout session created', {
+      organizationId,
+      subscriptionId: subscription.id,
+      planId: plan.id,
+      quantity: dto.quantity,
+      sessionId: session.id,
+    });
+
+    return {
+      subscriptionId: subscription.id,
+      checkoutSessionId: session.id,
+      checkoutUrl: session.url!,
+      expiresAt: new Date(session.expires_at * 1000),
+    };
+  }
+
+  /**
+   * Price a seat quantity change without making it
+   */
+  public async previewQuantityChange(
+    organizationId: string,
+    subscriptionId: string,
+    dto: UpdateSubscriptionQuantityDto
+  ): Promise<QuantityChangePreviewDto> {
+    const subscription = await databaseManager.executeRead(async (client) => {
+      const subscription = await this.findSubscription(client, organizationId, subscriptionId);
+      this.validateQuantityChange(subscription, dto.quantity);
+      await this.seatsToRelease(client, subscription, dto);
+
+      return subscription;
+    });
+
+    const applyAt = this.timing(subscription, dto);
+    const prorationBehavior = applyAt === QuantityChangeTiming.PERIOD_END
+      ? ProrationBehavior.NONE
+      : dto.prorationBehavior ?? ProrationBehavior.CREATE_PRORATIONS;
+    const prorationDate = dto.prorationDate ?? Math.floor(Date.now() / 1000);
+
+    const upcoming = await withStripe((stripe) =>
+      stripe.invoices.retrieveUpcoming({
+        customer: subscription.stripeCustomerId,
+        subscription: subscription.stripeSubscriptionId!,
+        subscription_items: [{ id: subscription.stripeItemId!, quantity: dto.quantity }],
+        subscription_proration_behavior: prorationBehavior,
+        subscription_proration_date: prorationDate,
+      })
+    );
+
+    const prorationAmount = upcoming.lines.data
+      .filter((line) => line.proration)
+      .reduce((total, line) => total + line.amount, 0);
+    const amountDueNow = prorationBehavior === ProrationBehavior.ALWAYS_INVOICE ? prorationAmount : 0;
+
+    return {
+      subscriptionId: subscription.id,
+      currentQuantity: subscription.quantity,
+      quantity: dto.quantity,
+      prorationBehavior,
+      applyAt,
+      prorationDate,
+      prorationAmount,
+      amountDueNow,
+      nextInvoiceAmount: upcoming.amount_due - amountDueNow,
+      nextInvoiceDate: upcoming.next_payment_attempt ? new Date(upcoming.next_payment_attempt * 1000) : undefined,
+      currency: upcoming.currency.toUpperCase(),
+    };
+  }
+
+  /**
+   * Change the seat count of an active subscription. Stripe is updated
+   * first; the local subscription follows only once Stripe has accepted
+   * the change and the filled seats, counted again under the subscription
+   * lock, still fit. Seats named for release are freed in the same
+   * transaction, or given an expiry at the end of the period for a
+   * reduction scheduled then.
+   */
+  public async changeQuantity(
+    organizationId: string,
+    subscriptionId: string,
+    dto: UpdateSubscriptionQuantityDto,
+    actor: AuditActor
+  ): Promise<QuantityChangeResponseDto> {
+    const subscription = await databaseManager.executeRead(async (client) => {
+      const subscription = await this.findSubscription(client, organizationId, subscriptionId);
+      this.validateQuantityChange(subscription, dto.quantity);
+      await this.seatsToRelease(client, subscription, dto);
+
+      return subscription;
+    });
+
+    const applyAt = this.timing(subscription, dto);
+    const prorationBehavior = applyAt === QuantityChangeTiming.PERIOD_END
+      ? ProrationBehavior.NONE
+      : dto.prorationBehavior ?? ProrationBehavior.CREATE_PRORATIONS;
+
+    // This change replaces any reduction already scheduled. Stripe cannot
+    // change or reschedule a subscription a schedule controls, so it is
+    // released first and stays released if the change then fails.
+    if (subscription.stripeScheduleId) {
+      await this.releaseSchedule(subscription.stripeScheduleId);
+    }
+
+    let stripeSubscription: Stripe.Subscription | undefined;
+    let confirmed = dto.quantity;
+    let scheduled: { scheduleId: string; effectiveAt: Date } | undefined;
+
+    try {
+      if (applyAt === QuantityChangeTiming.PERIOD_END) {
+        scheduled = await this.scheduleReduction(subscription, dto.quantity);
+      } else {
+        // A declined immediate charge fails the request instead of leaving the
+        // change applied with an unpaid invoice
+        stripeSubscription = await withStripe((stripe) =>
+          stripe.subscriptions.update(
+            subscription.stripeSubscriptionId!,
+            {
+              items: [{ id: subscription.stripeItemId!, quantity: dto.quantity }],
+              proration_behavior: prorationBehavior,
+              ...(dto.prorationDate && { proration_date: dto.prorationDate }),
+              ...(prorationBehavior === ProrationBehavior.ALWAYS_INVOICE && { payment_behavior: 'error_if_incomplete' }),
+            },
+            { idempotencyKey: `subscription-quantity-${subscription.id}-${subscription.updatedAt.getTime()}-${dto.quantity}` }
+          )
+        );
+
+        confirmed = stripeSubscription.items.data.find((item) => item.id === subscription.stripeItemId)?.quantity
+          ?? dto.quantity;
+      }
+    } catch (error) {
+      if (subscription.stripeScheduleId) {
+        await databaseManager.executeTransaction((client) => this.clearScheduledReduction(client, subscription));
+      }
+      throw error;
+    }
+
+    const effectiveAt = scheduled?.effectiveAt ?? new Date();
+
+    const { previousQuantity, released, releasedSeatIds } = await databaseManager.executeTransaction(async (client) => {
+      // Same lock as seat assignment: seats assigned since the check above
+      // must fit as well
+      await client.$queryRaw`SELECT id FROM organization_subscriptions WHERE id = ${subscription.id} FOR UPDATE`;
+      if (subscription.stripeScheduleId) {
+        await this.clearScheduledReduction(client, subscription);
+      }
+      const released = await this.seatsToRelease(client, subscription, { ...dto, quantity: confirmed });
+      const releasedSeatIds = released.map((seat) => seat.id);
+
+      // The customer.subscription.updated webhook may already have synced it
+      const current = await client.organizationSubscription.findUniqueOrThrow({ where: { id: subscription.id } });
+
+      if (released.length > 0 && scheduled) {
+        // They stay assigned, and counted, until the reduction applies
+        await client.subscriptionSeat.updateMany({
+          where: {
+            id: { in: releasedSeatIds },
+            OR: [{ expiresAt: null }, { expiresAt: { gt: scheduled.effectiveAt } }],
+          },
+          data: { expiresAt: scheduled.effectiveAt, expiryNotifiedAt: null },
+        });
+      } else if (released.length > 0) {
+        await client.subscriptionSeat.updateMany({
+          where: { id: { in: releasedSeatIds }, subscriptionId: subscription.id, status: { in: SEAT_HOLDING_STATUSES } },
+          data: { status: SeatStatus.REMOVED, removedAt: new Date() },
+        });
+      }
+
+      if (scheduled) {
+        await client.organizationSubscription.update({
+          where: { id: subscription.id },
+          data: {
+            scheduledQuantity: confirmed,
+            scheduledChangeAt: scheduled.effectiveAt,
+            stripeScheduleId: scheduled.scheduleId,
+          },
+        });
+      } else if (current.quantity !== confirmed || current.stripeScheduleId || current.scheduledQuantity !== null) {
+        await client.organizationSubscription.update({
+          where: { id: subscription.id },
+          data: { quantity: confirmed, scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null },
+        });
+      }
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription',
+        entityId: subscription.id,
+        action: scheduled ? 'quantity_reduction_scheduled' : 'quantity_changed',
+        organizationId,
+        changes: {
+          quantity: { from: subscription.quantity, to: confirmed },
+          ...(released.length > 0 && { releasedSeats: releasedSeatIds }),
+        },
+        metadata: {
+          applyAt,
+          effectiveAt: effectiveAt.toISOString(),
+          prorationBehavior,
+          prorationDate: dto.prorationDate ?? null,
+          stripeScheduleId: scheduled?.scheduleId ?? null,
+        },
+      });
+
+      return { previousQuantity: current.quantity, released, releasedSeatIds };
+    }).catch(async (error: unknown) => {
+      await this.revertQuantityChange(subscription, prorationBehavior, scheduled);
+      throw error;
+    });
+
+    const eventMetadata = { organizationId, applicationId: subscription.applicationId, userId: actor.actorUserId };
+
+    // Seats released at the period end are reported by the expiry scheduler
+    if (released.length > 0 && !scheduled) {
+      await eventBus.publish(
+        BillingEvents.SEATS_BULK_REMOVED,
+        { organizationId, applicationSlug: subscription.application.slug, userIds: released.flatMap((seat) => (seat.userId ? [seat.userId] : [])) },
+        eventMetadata
+      );
+    }
+
+    if (!scheduled && previousQuantity !== confirmed) {
+      await eventBus.publish(
+        BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+        {
+          organizationId,
+          applicationSlug: subscription.application.slug,
+          subscriptionId: subscription.id,
+          status: subscription.status,
+          from: previousQuantity,
+          to: confirmed,
+        },
+        eventMetadata
+      );
+    }
+
+    logger.info(scheduled ? 'Subscription quantity reduction scheduled' : 'Subscription quantity changed', {
+      organizationId,
+      subscriptionId: subscription.id,
+      from: subscription.quantity,
+      to: confirmed,
+      applyAt,
+      prorationBehavior,
+      releasedSeats: released.length,
+    });
+
+    const latestInvoice = stripeSubscription?.latest_invoice;
+
+    return {
+      subscriptionId: subscription.id,
+      previousQuantity: subscription.quantity,
+      quantity: confirmed,
+      prorationBehavior,
+      applyAt,
+      effectiveAt,
+      releasedSeatIds,
+      invoiceId: prorationBehavior === ProrationBehavior.ALWAYS_INVOICE && latestInvoice
+        ? (typeof latestInvoice === 'string' ? latestInvoice : latestInvoice.id)
+        : undefined,
+    };
+  }
+
+  /**
+   * Cancel a subscription at the end of the current period (default) or
+   * immediately. Stripe is updated first; a scheduled seat reduction is
+   * dropped, since Stripe cannot cancel a subscription a schedule controls
+   * at the period end. Seats are only released once the subscription ends.
+   */
+  public async cancel(
+    organizationId: string,
+    subscriptionId: string,
+    dto: CancelSubscriptionDto,
+    actor: AuditActor
+  ): Promise<SubscriptionCancellationResponseDto> {
+    const atPeriodEnd = dto.cancelAtPeriodEnd ?? true;
+    const subscription = await databaseManager.executeRead((client) =>
+      this.findSubscription(client, organizationId, subscriptionId)
+    );
+
+    if (!CANCELABLE_STATUSES.includes(subscription.status) || !subscription.stripeSubscriptionId) {
+      throw new ConflictError(`Subscription cannot be canceled while it is ${subscription.status.toLowerCase()}`);
+    }
+    if (atPeriodEnd && subscription.cancelAtPeriodEnd) {
+      throw new ConflictError('Subscription is already set to cancel at the end of the period');
+    }
+
+    const details = dto.reason ? { cancellation_details: { comment: dto.reason } } : {};
+    const idempotencyKey = `subscription-cancel-${subscription.id}-${subscription.updatedAt.getTime()}-${atPeriodEnd}`;
+
+    // Released first and left released if the cancellation then fails
+    const dropsSchedule = atPeriodEnd && Boolean(subscription.stripeScheduleId);
+    if (dropsSchedule) {
+      await this.releaseSchedule(subscription.stripeScheduleId!);
+    }
+
+    const stripeSubscription = await withStripe((stripe) =>
+      atPeriodEnd
+        ? stripe.subscriptions.update(subscription.stripeSubscriptionId!, { cancel_at_period_end: true, ...details }, { idempotencyKey })
+        : stripe.subscriptions.cancel(subscription.stripeSubscriptionId!, details, { idempotencyKey })
+    ).catch(async (error: unknown) => {
+      if (dropsSchedule) {
+        await databaseManager.executeTransaction((client) => this.clearScheduledReduction(client, subscription));
+      }
+      throw error;
+    });
+
+    const now = new Date();
+    const canceledAt = fromUnix(stripeSubscription.canceled_at) ?? now;
+
+    const updated = await databaseManager.executeTransaction(async (client) => {
+      if (dropsSchedule) {
+        await this.liftScheduledExpiry(client, subscription);
+      }
+
+      const updated = await client.organizationSubscription.update({
+        where: { id: subscription.id },
+        data: {
+          canceledAt,
+          metadata: {
+            ...metadataObject(subscription.metadata),
+            cancellation: {
+              reason: dto.reason ?? null,
+              cancelAtPeriodEnd: atPeriodEnd,
+              requestedBy: actor.actorUserId ?? null,
+              requestedAt: now.toISOString(),
+            },
+          },
+          ...(atPeriodEnd && { cancelAtPeriodEnd: true, scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null }),
+        },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription',
+        entityId: subscription.id,
+        action: atPeriodEnd ? 'cancellation_scheduled' : 'canceled',
+        organizationId,
+        changes: {
+          cancelAtPeriodEnd: { from: subscription.cancelAtPeriodEnd, to: atPeriodEnd },
+          ...(subscription.scheduledQuantity !== null && atPeriodEnd && {
+            scheduledQuantity: { from: subscription.scheduledQuantity, to: null },
+          }),
+        },
+        metadata: { reason: dto.reason ?? null, stripeSubscriptionId: subscription.stripeSubscriptionId },
+      });
+
+      return updated;
+    });
+
+    let releasedSeats = 0;
+    if (atPeriodEnd) {
+      await eventBus.publish(
+        BillingEvents.SUBSCRIPTION_UPDATED,
+        {
+          organizationId,
+          applicationSlug: subscription.application.slug,
+          subscriptionId: subscription.id,
+          status: updated.status,
+          cancelAtPeriodEnd: true,
+        },
+        { organizationId, applicationId: subscription.applicationId, userId: actor.actorUserId }
+      );
+    } else {
+      releasedSeats = await subscriptionSyncService.endCanceled(stripeSubscription, actor);
+    }
+
+    logger.info(atPeriodEnd ? 'Subscription set to cancel at period end' : 'Subscription canceled', {
+      organizationId,
+      subscriptionId: subscription.id,
+      releasedSeats,
+    });
+
+    return {
+      subscriptionId: subscription.id,
+      status: atPeriodEnd ? updated.status : SubscriptionStatus.CANCELED,
+      cancelAtPeriodEnd: atPeriodEnd,
+      canceledAt,
+      endsAt: atPeriodEnd
+        ? fromUnix(stripeSubscription.current_period_end) ?? updated.currentPeriodEnd ?? undefined
+        : fromUnix(stripeSubscription.ended_at) ?? now,
+      reason: dto.reason,
+      releasedSeats,
+    };
+  }
+
+  /**
+   * Undo a cancellation set for the end of the period. A seat reduction
+   * dropped by the cancellation is not restored, and the seats it would
+   * have released stay assigned.
+   */
+  public async reactivate(
+    organizationId: string,
+    subscriptionId: string,
+    actor: AuditActor
+  ): Promise<SubscriptionCancellationResponseDto> {
+    const subscription = await databaseManager.executeRead((client) =>
+      this.findSubscription(client, organizationId, subscriptionId)
+    );
+
+    if (subscription.status === SubscriptionStatus.CANCELED) {
+      throw new ConflictError('Subscription has ended; start a new checkout instead');
+    }
+    if (!subscription.cancelAtPeriodEnd || !subscription.stripeSubscriptionId) {
+      throw new ConflictError('Subscription is not set to cancel');
+    }
+
+    await withStripe((stripe) =>
+      stripe.subscriptions.update(
+        subscription.stripeSubscriptionId!,
+        { cancel_at_period_end: false },
+        { idempotencyKey: `subscription-reactivate-${subscription.id}-${subscription.updatedAt.getTime()}` }
+      )
+    );
+
+    const { cancellation, ...metadata } = metadataObject(subscription.metadata);
+
+    const updated = await databaseManager.executeTransaction(async (client) => {
+      const updated = await client.organizationSubscription.update({
+        where: { id: subscription.id },
+        data: { cancelAtPeriodEnd: false, canceledAt: null, metadata },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'subscription',
+        entityId: subscription.id,
+        action: 'reactivated',
+        organizationId,
+        changes: { cancelAtPeriodEnd: { from: true, to: false } },
+        metadata: { cancellation: cancellation ?? null, stripeSubscriptionId: subscription.stripeSubscriptionId },
+      });
+
+      return updated;
+    });
+
+    await eventBus.publish(
+      BillingEvents.SUBSCRIPTION_REACTIVATED,
+      {
+        organizationId,
+        applicationSlug: subscription.application.slug,
+        subscriptionId: subscription.id,
+        status: updated.status,
+      },
+      { organizationId, applicationId: subscription.applicationId, userId: actor.actorUserId }
+    );
+
+    logger.info('Subscription reactivated', { organizationId, subscriptionId: subscription.id });
+
+    return {
+      subscriptionId: subscription.id,
+      status: updated.status,
+      cancelAtPeriodEnd: false,
+      releasedSeats: 0,
+    };
+  }
+
+  private async findSubscription(
+    client: PrismaClient,
+    organizationId: string,
+    subscriptionId: string
+  ): Promise<SubscriptionWithPlan> {
+    const subscription = await client.organizationSubscription.findFirst({
+      where: { id: subscriptionId, organizationId },
+      include: { subscriptionPlan: true, application: { select: { slug: true, name: true } } },
+    });
+
+    if (!subscription) {
+      throw new NotFoundError(`Subscription '${subscriptionId}' not found`);
+    }
+
+    return subscription;
+  }
+
+  private validateQuantityChange(subscription: SubscriptionWithPlan, quantity: number): void {
+    const plan = subscription.subscriptionPlan;
+
+    if (!CHANGEABLE_STATUSES.includes(subscription.status) || !subscription.stripeItemId) {
+      throw new ConflictError(`Seats cannot be changed while the subscription is ${subscription.status.toLowerCase()}`);
+    }
+    if (subscription.cancelAtPeriodEnd) {
+      throw new ConflictError('Subscription is set to cancel at the end of the period; reactivate it before changing seats');
+    }
+    if (quantity === subscription.quantity && subscription.scheduledQuantity === null) {
+      throw new BadRequestError(
+        `Subscription already has ${subscription.quantity} seats`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+    if (quantity < plan.minSeats || (plan.maxSeats !== null && quantity > plan.maxSeats)) {
+      throw new BadRequestError(
+        `Seat quantity must be between ${plan.minSeats} and ${plan.maxSeats ?? 'unlimited'} for this plan`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+  }
+
+  /**
+   * Reductions default to the end of the period; anything else, including
+   * cancelling a scheduled reduction, applies immediately
+   */
+  private timing(subscription: SubscriptionWithPlan, dto: UpdateSubscriptionQuantityDto): QuantityChangeTiming {
+    return dto.quantity < subscription.quantity
+      ? dto.applyAt ?? QuantityChangeTiming.PERIOD_END
+      : QuantityChangeTiming.IMMEDIATELY;
+  }
+
+  /**
+   * Check that the assigned users fit the new quantity once the requested
+   * seats are released, and return those seats
+   */
+  private async seatsToRelease(
+    client: PrismaClient,
+    subscription: SubscriptionWithPlan,
+    dto: UpdateSubscriptionQuantityDto
+  ): Promise<ReleasedSeat[]> {
+    const requested = new Set(dto.releaseSeatIds ?? []);
+
+    if (dto.quantity >= subscription.quantity) {
+      if (requested.size > 0) {
+        throw new BadRequestError('Seats can only be released as part of a reduction', ErrorCode.INVALID_INPUT);
+      }
+      return [];
+    }
+
+    const seats = await client.subscriptionSeat.findMany({
+      where: { subscriptionId: subscription.id, status: { in: SEAT_HOLDING_STATUSES } },
+      select: { id: true, userId: true, user: { select: { email: true } }, invitation: { select: { email: true } } },
+      orderBy: { assignedAt: 'asc' },
+    });
+
+    const unknown = [...requested].filter((id) => !seats.some((seat) => seat.id === id));
+    if (unknown.length > 0) {
+      throw new BadRequestError(
+        `Seats are not assigned on this subscription: ${unknown.join(', ')}`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const remaining = seats.filter((seat) => !requested.has(seat.id));
+    if (remaining.length > dto.quantity) {
+      throw new SeatsInUseError({
+        filledSeats: remaining.length,
+        requestedSeats: dto.quantity,
+        usersToRemove: remaining.length - dto.quantity,
+        assignedUsers: remaining.map((seat) => ({
+          seatId: seat.id,
+          userId: seat.userId,
+          email: seat.user?.email ?? seat.invitation?.email ?? null,
+        })),
+      });
+    }
+
+    return seats
+      .filter((seat) => requested.has(seat.id))
+      .map((seat) => ({ id: seat.id, userId: seat.userId }));
+  }
+
+  /**
+   * Hold a reduction until the end of the current period in a Stripe
+   * subscription schedule: the current phase keeps today's quantity and
+   * the next one applies the new quantity, after which the schedule
+   * releases the subscription. from_subscription fails while another
+   * schedule is attached, so retries cannot create a second one.
+   */
+  private async scheduleReduction(
+    subscription: SubscriptionWithPlan,
+    quantity: number
+  ): Promise<{ scheduleId: string; effectiveAt: Date }> {
+    const schedule = await withStripe((stripe) =>
+      stripe.subscriptionSchedules.create({ from_subscription: subscription.stripeSubscriptionId! })
+    );
+
+    const phase = schedule.phases[0];
+    const price = phase.items[0].price;
+    const priceId = typeof price === 'string' ? price : price.id;
+
+    try {
+      await withStripe((stripe) =>
+        stripe.subscriptionSchedules.update(schedule.id, {
+          end_behavior: 'release',
+          proration_behavior: 'none',
+          phases: [
+            {
+              items: [{ price: priceId, quantity: subscription.quantity }],
+              start_date: phase.start_date,
+              end_date: phase.end_date,
+            },
+            { items: [{ price: priceId, quantity }], iterations: 1 },
+          ],
+        })
+      );
+    } catch (error) {
+      await this.releaseSchedule(schedule.id);
+      throw error;
+    }
+
+    return { scheduleId: schedule.id, effectiveAt: new Date(phase.end_date * 1000) };
+  }
+
+  /**
+   * Undo a quantity change Stripe accepted but that could not be recorded.
+   * A reduction the change replaced stays dropped, so it is cleared
+   * locally as well.
+   */
+  private async revertQuantityChange(
+    subscription: SubscriptionWithPlan,
+    prorationBehavior: ProrationBehavior,
+    scheduled?: { scheduleId: string }
+  ): Promise<void> {
+    if (scheduled) {
+      await this.releaseSchedule(scheduled.scheduleId);
+    } else {
+      // Anything already invoiced is credited on the next invoice
+      await withStripe((stripe) =>
+        stripe.subscriptions.update(
+          subscription.stripeSubscriptionId!,
+          {
+            items: [{ id: subscription.stripeItemId!, quantity: subscription.quantity }],
+            proration_behavior: prorationBehavior === ProrationBehavior.NONE
+              ? ProrationBehavior.NONE
+              : ProrationBehavior.CREATE_PRORATIONS,
+          },
+          { idempotencyKey: `subscription-quantity-revert-${subscription.id}-${subscription.updatedAt.getTime()}` }
+        )
+      );
+    }
+
+    if (subscription.stripeScheduleId) {
+      await databaseManager.executeTransaction((client) => this.clearScheduledReduction(client, subscription));
+    }
+
+    logger.warn('Subscription quantity change reverted', {
+      subscriptionId: subscription.id,
+      quantity: subscription.quantity,
+      stripeScheduleId: scheduled?.scheduleId ?? null,
+    });
+  }
+
+  /**
+   * Forget a scheduled reduction whose Stripe schedule was released
+   */
+  private async clearScheduledReduction(client: PrismaClient, subscription: SubscriptionWithPlan): Promise<void> {
+    await client.organizationSubscription.update({
+      where: { id: subscription.id },
+      data: { scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null },
+    });
+    await this.liftScheduledExpiry(client, subscription);
+  }
+
+  /**
+   * Lift the expiry a scheduled reduction gave the seats it was to release
+   */
+  private async liftScheduledExpiry(client: PrismaClient, subscription: SubscriptionWithPlan): Promise<void> {
+    if (subscription.scheduledChangeAt) {
+      await client.subscriptionSeat.updateMany({
+        where: {
+          subscriptionId: subscription.id,
+          status: { in: SEAT_HOLDING_STATUSES },
+          expiresAt: subscription.scheduledChangeAt,
+        },
+        data: { expiresAt: null, expiryNotifiedAt: null },
+      });
+    }
+  }
+
+  /**
+   * Detach a schedule from its subscription, leaving the subscription as
+   * it is now. Schedules that already finished are left alone.
+   */
+  private async releaseSchedule(scheduleId: string): Promise<void> {
+    await withStripe(async (stripe) => {
+      const schedule = await stripe.subscriptionSchedules.retrieve(scheduleId);
+
+      if (OPEN_SCHEDULE_STATUSES.includes(schedule.status)) {
+        await stripe.subscriptionSchedules.release(scheduleId);
+      }
+    });
+  }
+
+  /**
+   * Return the organization's Stripe customer, creating it on first use.
+   * The idempotency key and the conditional update keep concurrent
+   * checkouts from creating two customers.
+   */
+  private async ensureCustomer(organization: Organization): Promise<string> {
+    if (organization.stripeCustomerId) {
+      return organization.stripeCustomerId;
+    }
+
+    const customer = await withStripe((stripe) =>
+      stripe.customers.create(
+        {
+          name: organization.name,
+          email: organization.billingEmail,
+          metadata: { organizationId: organization.id },
+        },
+        { idempotencyKey: `organization-customer-${organization.id}` }
+      )
+    );
+
+    const stored = await databaseManager.executeWrite(async (client) => {
+      const { count } = await client.organization.updateMany({
+        where: { id: organization.id, stripeCustomerId: null },
+        data: { stripeCustomerId: customer.id },
+      });
+
+      return count > 0
+        ? customer.id
+        : (await client.organization.findUniqueOrThrow({ where: { id: organization.id } })).stripeCustomerId!;
+    });
+
+    logger.info('Stripe customer created', { organizationId: organization.id, customerId: stored });
+
+    return stored;
+  }
+}
+
+function fromUnix(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+/**
+ * A subscription's metadata as an object, to add keys to or remove them
+ */
+function metadataObject(metadata: Prisma.JsonValue): Prisma.JsonObject {
+  return metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {};
+}
+
+function duplicateSubscription(applicationName: string): ConflictError {
+  return new ConflictError(
+    `Organization already has a subscription to ${applicationName}`,
+    ErrorCode.DUPLICATE_SUBSCRIPTION
+  );
+}
+
+// Export singleton instance
+export const subscriptionService = new SubscriptionService();
+
+// Export class for dependency injection
+export { SubscriptionService };
@@ -1,7 +1,23 @@
-import { IsString, IsEmail, IsOptional, IsArray, IsObject, ValidateNested, IsNotEmpty, IsBoolean } from 'class-validator';
-import { Type } from 'class-transformer';
+import { IsString, IsEmail, IsOptional, IsObject, IsNotEmpty, IsEnum, IsUUID, IsIn } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { BaseDto } from '../../../shared/dto/base.dto';
+import { UserRole, UserStatus } from '@prisma/client';
+import { BaseDto, BaseEntityDto } from '../../../shared/dto/base.dto';
+import { PaginationDto } from '../../../shared/dto/common.dto';
+
+/**
+ * Roles that can be granted directly; OWNER only changes hands through an
+ * ownership transfer
+ */
+export const ASSIGNABLE_ROLES = [UserRole.ADMIN, UserRole.BILLING_ADMIN, UserRole.MEMBER] as const;
+
+export type AssignableRole = (typeof ASSIGNABLE_ROLES)[number];
+
+export enum InvitationStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  EXPIRED = 'EXPIRED',
+  REVOKED = 'REVOKED',
+}
 
 export class CreateUserDto extends BaseDto {
   @ApiProperty({
@@ -14,40 +30,32 @@ export class CreateUserDto extends BaseDto {
   email: string;
 
   @ApiProperty({
-    description: 'User first name',
-    example: 'John',
-    required: true,
-  })
-  @IsString()
-  @IsNotEmpty()
-  firstName: string;
-
-  @ApiProperty({
-    description: 'User last name',
-    example: 'Doe',
+    description: 'User full name',
+    example: 'John Doe',
     required: true,
   })
   @IsString()
   @IsNotEmpty()
-  lastName: string;
+  fullName: string;
 
   @ApiProperty({
-    description: 'Organization ID this user belongs to',
-    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Clerk user ID of the existing Clerk account',
+    example: 'user_2abc123',
     required: true,
   })
   @IsString()
   @IsNotEmpty()
-  organizationId: string;
+  clerkUserId: string;
 
   @ApiProperty({
     description: 'User role within the organization',
-    example: 'admin',
+    enum: ASSIGNABLE_ROLES,
+    example: UserRole.MEMBER,
     required: false,
   })
-  @IsString()
+  @IsIn(ASSIGNABLE_ROLES)
   @IsOptional()
-  role?: string;
+  role?: AssignableRole;
 
   @ApiProperty({
     description: 'User department',
@@ -78,7 +86,7 @@ export class CreateUserDto extends BaseDto {
 
   @ApiProperty({
     description: 'User avatar URL',
-    example: 'https://example.com/avatar.jpg',
+    example: 'https://acme.com/avatars/john.jpg',
     required: false,
   })
   @IsString()
@@ -95,7 +103,7 @@ export class CreateUserDto extends BaseDto {
   timezone?: string;
 
   @ApiProperty({
-    description: 'User locale preference',
+    description: 'User locale',
     example: 'en-US',
     required: false,
   })
@@ -111,125 +119,148 @@ export class CreateUserDto extends BaseDto {
   @IsObject()
   @IsOptional()
   metadata?: Record<string, any>;
+}
 
+export class UpdateUserDto extends BaseDto {
   @ApiProperty({
-    description: 'External clerk user ID',
-    example: 'clerk_user_12345',
+    description: 'User full name',
+    example: 'Jonathan Doe',
     required: false,
   })
   @IsString()
   @IsOptional()
-  clerkUserId?: string;
-}
+  fullName?: string;
 
-export class UpdateUserDto extends BaseDto {
   @ApiProperty({
-    description: 'User email address',
-    example: 'john.doe.updated@acme.com',
+    description: 'User department',
+    example: 'Product Engineering',
     required: false,
   })
-  @IsEmail()
+  @IsString()
   @IsOptional()
-  email?: string;
+  department?: string;
 
   @ApiProperty({
-    description: 'User first name',
-    example: 'Jonathan',
+    description: 'User job title',
+    example: 'Principal Software Engineer',
     required: false,
   })
   @IsString()
   @IsOptional()
-  firstName?: string;
+  jobTitle?: string;
 
   @ApiProperty({
-    description: 'User last name',
-    example: 'Doe-Smith',
+    description: 'User phone number',
+    example: '+1-555-987-6543',
     required: false,
   })
   @IsString()
   @IsOptional()
-  lastName?: string;
+  phone?: string;
 
   @ApiProperty({
-    description: 'User role within the organization',
-    example: 'senior-admin',
+    description: 'User avatar URL',
+    example: 'https://acme.com/avatars/jonathan.jpg',
     required: false,
   })
   @IsString()
   @IsOptional()
-  role?: string;
+  avatar?: string;
 
   @ApiProperty({
-    description: 'User department',
-    example: 'Engineering Management',
+    description: 'User timezone',
+    example: 'America/Los_Angeles',
     required: false,
   })
   @IsString()
   @IsOptional()
-  department?: string;
+  timezone?: string;
 
   @ApiProperty({
-    description: 'User job title',
-    example: 'Principal Software Engineer',
+    description: 'User locale',
+    example: 'en-GB',
     required: false,
   })
   @IsString()
   @IsOptional()
-  jobTitle?: string;
+  locale?: string;
 
   @ApiProperty({
-    description: 'User phone number',
-    example: '+1-555-987-6543',
+    description: 'Additional user metadata',
+    example: { preferences: { theme: 'light' }, onboardingComplete: true },
     required: false,
   })
-  @IsString()
+  @IsObject()
   @IsOptional()
-  phone?: string;
+  metadata?: Record<string, any>;
+}
 
+export class ChangeUserRoleDto extends BaseDto {
   @ApiProperty({
-    description: 'User avatar URL',
-    example: 'https://example.com/updated-avatar.jpg',
-    required: false,
+    description: 'New role (use an ownership transfer to change the OWNER)',
+    enum: ASSIGNABLE_ROLES,
+    example: UserRole.BILLING_ADMIN,
   })
-  @IsString()
-  @IsOptional()
-  avatar?: string;
+  @IsIn(ASSIGNABLE_ROLES)
+  role: AssignableRole;
+}
 
+export class ChangeUserStatusDto extends BaseDto {
   @ApiProperty({
-    description: 'User timezone',
-    example: 'America/Los_Angeles',
+    description: 'New status',
+    enum: UserStatus,
+    example: UserStatus.SUSPENDED,
+  })
+  @IsEnum(UserStatus)
+  status: UserStatus;
+
+  @ApiProperty({
+    description: 'Why the status is changing',
+    example: 'Left the company',
     required: false,
   })
   @IsString()
   @IsOptional()
-  timezone?: string;
+  reason?: string;
+}
+
+export class TransferOwnershipDto extends BaseDto {
+  @ApiProperty({
+    description: 'Active member who becomes the OWNER',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @IsUUID()
+  newOwnerUserId: string;
 
   @ApiProperty({
-    description: 'User locale preference',
-    example: 'en-CA',
+    description: 'Role given to the previous owner',
+    enum: ASSIGNABLE_ROLES,
+    default: UserRole.ADMIN,
     required: false,
   })
-  @IsString()
+  @IsIn(ASSIGNABLE_ROLES)
   @IsOptional()
-  locale?: string;
+  previousOwnerRole?: AssignableRole;
+}
 
+export class ListUsersQueryDto extends PaginationDto {
   @ApiProperty({
-    description: 'Active status',
-    example: true,
+    description: 'Filter by role',
+    enum: UserRole,
     required: false,
   })
-  @IsBoolean()
+  @IsEnum(UserRole)
   @IsOptional()
-  isActive?: boolean;
+  role?: UserRole;
 
   @ApiProperty({
-    description: 'Additional user metadata',
-    example: { preferences: { theme: 'light' }, onboardingComplete: true },
+    description: 'Filter by status',
+    enum: UserStatus,
     required: false,
   })
-  @IsObject()
+  @IsEnum(UserStatus)
   @IsOptional()
-  metadata?: Record<string, any>;
+  status?: UserStatus;
 }
 
 export class UserResponseDto extends BaseDto {
@@ -239,6 +270,12 @@ export class UserResponseDto extends BaseDto {
   })
   id: string;
 
+  @ApiProperty({
+    description: 'Clerk user ID',
+    example: 'user_2abc123',
+  })
+  clerkUserId: string;
+
   @ApiProperty({
     description: 'User email address',
     example: 'john.doe@acme.com',
@@ -246,35 +283,37 @@ export class UserResponseDto extends BaseDto {
   email: string;
 
   @ApiProperty({
-    description: 'User first name',
-    example: 'John',
+    description: 'User full name',
+    example: 'John Doe',
   })
-  firstName: string;
+  fullName: string;
 
   @ApiProperty({
-    description: 'User last name',
-    example: 'Doe',
+    description: 'Organization ID this user belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
   })
-  lastName: string;
+  organizationId: string | null;
 
   @ApiProperty({
-    description: 'User full name (computed)',
-    example: 'John Doe',
+    description: 'User role within the organization',
+    enum: UserRole,
+    example: UserRole.MEMBER,
   })
-  fullName: string;
+  role: UserRole;
 
   @ApiProperty({
-    description: 'Organization ID this user belongs to',
-    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'User status',
+    enum: UserStatus,
+    example: UserStatus.ACTIVE,
   })
-  organizationId: string;
+  status: UserStatus;
 
   @ApiProperty({
-    description: 'User role within the organization',
-    example: 'admin',
-    required: false,
+    description: 'Whether the user is ACTIVE',
+    example: true,
   })
-  role?: string;
+  isActive: boolean;
 
   @ApiProperty({
     description: 'User department',
@@ -299,7 +338,7 @@ export class UserResponseDto extends BaseDto {
 
   @ApiProperty({
     description: 'User avatar URL',
-    example: 'https://example.com/avatar.jpg',
+    example: 'https://acme.com/avatars/john.jpg',
     required: false,
   })
   avatar?: string;
@@ -312,31 +351,18 @@ export class UserResponseDto extends BaseDto {
   timezone?: string;
 
   @ApiProperty({
-    description: 'User locale preference',
+    description: 'User locale',
     example: 'en-US',
     required: false,
   })
   locale?: string;
 
-  @ApiProperty({
-    description: 'Active status',
-    example: true,
-  })
-  isActive: boolean;
-
   @ApiProperty({
     description: 'Additional user metadata',
     example: { preferences: { theme: 'dark' }, onboardingComplete: true },
     required: false,
   })
-  metadata?: Record<string, any>;
-
-  @ApiProperty({
-    description: 'External clerk user ID',
-    example: 'clerk_user_12345',
-    required: false,
-  })
-  clerkUserId?: string;
+  metadata?: Record<string, unknown>;
 
   @ApiProperty({
     description: 'User creation timestamp',
@@ -351,9 +377,98 @@ export class UserResponseDto extends BaseDto {
   updatedAt: Date;
 
   @ApiProperty({
-    description: 'Last login timestamp',
-    example: '2024-01-15T10:30:00.000Z',
+    description: 'Soft delete timestamp',
+    example: null,
+    required: false,
+  })
+  deletedAt?: Date | null;
+}
+
+export class InviteUserDto extends BaseDto {
+  @ApiProperty({
+    description: 'Email address to invite',
+    example: 'jane.doe@acme.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Role granted on acceptance',
+    enum: ASSIGNABLE_ROLES,
+    default: UserRole.MEMBER,
+    required: false,
+  })
+  @IsIn(ASSIGNABLE_ROLES)
+  @IsOptional()
+  role?: AssignableRole;
+}
+
+export class AcceptInvitationDto extends BaseDto {
+  @ApiProperty({
+    description: 'Invitation token from the invite link',
+    example: 'Jx3n2m7Qw9...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class InvitationResponseDto extends BaseEntityDto {
+  @ApiProperty({
+    description: 'Organization the invitation is for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  organizationId: string;
+
+  @ApiProperty({
+    description: 'Invited email address',
+    example: 'jane.doe@acme.com',
+  })
+  email: string;
+
+  @ApiProperty({
+    description: 'Role granted on acceptance',
+    enum: UserRole,
+    example: UserRole.MEMBER,
+  })
+  role: UserRole;
+
+  @ApiProperty({
+    description: 'Invitation status',
+    enum: InvitationStatus,
+    example: InvitationStatus.PENDING,
+  })
+  status: InvitationStatus;
+
+  @ApiProperty({
+    description: 'User who sent the invitation',
     required: false,
   })
-  lastLoginAt?: Date;
-}
\ No newline at end of file
+  invitedByUserId?: string;
+
+  @ApiProperty({
+    description: 'When the invitation expires',
+    example: '2024-01-22T10:30:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the invitation was accepted',
+    required: false,
+  })
+  acceptedAt?: Date;
+}
+
+export class CreatedInvitationResponseDto extends InvitationResponseDto {
+  @ApiProperty({
+    description: 'Single-use invitation token, returned only once',
+    example: 'Jx3n2m7Qw9...',
+  })
+  token: string;
+
+  @ApiProperty({
+    description: 'Link to send to the invitee',
+    example: 'https://app.example.com/invitations/accept?token=Jx3n2m7Qw9...',
+  })
+  acceptUrl: string;
+}
@@ -1 +1,3 @@
-export * from './dto';
\ No newline at end of file
+export * from './dto';
+export * from './user.service';
+export * from './invitation.service';
\ No newline at end of file
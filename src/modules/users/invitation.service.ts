@@ -0,0 +1,429 @@
+/**
+ * Invitation Service
+ *
+ * Invites people to an organization by email. Each invitation carries a
+ * single-use token (only its SHA-256 hash is stored) that expires after
+ * config.auth.invitationTtl seconds. An invitation is accepted either
+ * explicitly with the token by a signed-in user whose email matches, or
+ * automatically when a Clerk account is registered for the invited email.
+ * Re-inviting an email replaces its pending invitation.
+ *
+ * Seats can be reserved for an invitation (PENDING_INVITE seats, see
+ * SeatService.reserve). A replacement invitation takes over the reserved
+ * seats, revoking an invitation releases them, and accepting it turns them
+ * into the new member's ACTIVE seats.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { PrismaClient, SeatStatus, User, UserInvitation, UserRole } from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { ConflictError, ErrorCode, ForbiddenError, NotFoundError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import {
+  CreatedInvitationResponseDto,
+  InvitationResponseDto,
+  InvitationStatus,
+  InviteUserDto
+} from './dto';
+
+/**
+ * Invitation Service
+ */
+class InvitationService {
+  /**
+   * Invite an email address to an organization
+   */
+  public async invite(
+    organizationId: string,
+    dto: InviteUserDto,
+    actor: AuditActor
+  ): Promise<CreatedInvitationResponseDto> {
+    const { invitation, token } = await databaseManager.executeTransaction((client) =>
+      this.createPending(client, organizationId, dto, actor)
+    );
+
+    await this.publishCreated(invitation, actor);
+
+    return this.withToken(invitation, token);
+  }
+
+  /**
+   * Create an invitation with the given (transaction) client, replacing
+   * the email's pending one and taking over its reserved seats. Publish
+   * publishCreated after commit.
+   */
+  public async createPending(
+    client: PrismaClient,
+    organizationId: string,
+    dto: InviteUserDto,
+    actor: AuditActor,
+    expiresAt: Date = new Date(Date.now() + config.auth.invitationTtl * 1000)
+  ): Promise<{ invitation: UserInvitation; token: string }> {
+    const email = dto.email.toLowerCase();
+    const token = randomBytes(32).toString('base64url');
+
+    const organization = await client.organization.findFirst({
+      where: { id: organizationId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundError(`Organization '${organizationId}' not found`);
+    }
+
+    const member = await client.user.findFirst({
+      where: { email, organizationId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (member) {
+      throw new ConflictError(`${email} is already a member of this organization`);
+    }
+
+    const pending = await client.userInvitation.findMany({
+      where: { organizationId, email, acceptedAt: null, revokedAt: null },
+      select: { id: true, expiresAt: true },
+    });
+
+    await client.userInvitation.updateMany({
+      where: { organizationId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    // A resend never shortens a reservation
+    const latest = Math.max(expiresAt.getTime(), ...pending.map((invitation) => invitation.expiresAt.getTime()));
+
+    const invitation = await client.userInvitation.create({
+      data: {
+        organizationId,
+        email,
+        role: dto.role ?? UserRole.MEMBER,
+        tokenHash: hashToken(token),
+        invitedByUserId: actor.actorUserId,
+        expiresAt: new Date(latest),
+      },
+    });
+
+    const carried = pending.length === 0 ? { count: 0 } : await client.subscriptionSeat.updateMany({
+      where: { invitationId: { in: pending.map((replaced) => replaced.id) }, status: SeatStatus.PENDING_INVITE },
+      data: { invitationId: invitation.id, expiresAt: invitation.expiresAt },
+    });
+
+    await auditLogService.record(client, {
+      ...actor,
+      entityType: 'user_invitation',
+      entityId: invitation.id,
+      action: 'created',
+      organizationId,
+      changes: { email, role: invitation.role, replaced: pending.length, reservedSeats: carried.count },
+    });
+
+    return { invitation, token };
+  }
+
+  /**
+   * Publish USER_INVITED for a created invitation (after commit)
+   */
+  public async publishCreated(invitation: UserInvitation, actor: AuditActor): Promise<void> {
+    await eventBus.publish(
+      BillingEvents.USER_INVITED,
+      { organizationId: invitation.organizationId, invitationId: invitation.id, email: invitation.email },
+      { organizationId: invitation.organizationId, userId: actor.actorUserId }
+    );
+  }
+
+  /**
+   * Response for a newly created invitation, the only one with its token
+   */
+  public withToken(invitation: UserInvitation, token: string): CreatedInvitationResponseDto {
+    return {
+      ...this.toResponse(invitation),
+      token,
+      acceptUrl: `${config.frontendUrl}/invitations/accept?token=${encodeURIComponent(token)}`,
+    };
+  }
+
+  /**
+   * List an organization's invitations, newest first
+   */
+  public async list(organizationId: string, status?: InvitationStatus): Promise<InvitationResponseDto[]> {
+    const invitations = await databaseManager.executeRead((client) =>
+      client.userInvitation.findMany({
+        where: { organizationId },
+        orderBy: { createdAt: 'desc' },
+      })
+    );
+
+    return invitations
+      .map((invitation) => this.toResponse(invitation))
+      .filter((invitation) => !status || invitation.status === status);
+  }
+
+  /**
+   * Revoke a pending invitation, releasing the seats reserved for it
+   */
+  public async revoke(organizationId: string, invitationId: string, actor: AuditActor): Promise<InvitationResponseDto> {
+    const invitation = await databaseManager.executeTransaction(async (client) => {
+      const current = await client.userInvitation.findFirst({ where: { id: invitationId, organizationId } });
+
+      if (!current) {
+        throw new NotFoundError(`Invitation '${invitationId}' not found`);
+      }
+      assertPending(current);
+
+      const revoked = await client.userInvitation.update({
+        where: { id: invitationId },
+        data: { revokedAt: new Date() },
+      });
+
+      const released = await client.subscriptionSeat.updateMany({
+        where: { invitationId, status: SeatStatus.PENDING_INVITE },
+        data: { status: SeatStatus.REMOVED, removedAt: new Date(), statusReason: 'Invitation revoked' },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'user_invitation',
+        entityId: invitationId,
+        action: 'revoked',
+        organizationId,
+        changes: released.count > 0 ? { releasedSeats: released.count } : undefined,
+      });
+
+      return revoked;
+    });
+
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * Accept an invitation by token on behalf of a registered user
+   */
+  public async accept(token: string, userId: string, actor: AuditActor): Promise<InvitationResponseDto> {
+    const invitation = await databaseManager.executeTransaction(async (client) => {
+      const invitation = await client.userInvitation.findUnique({ where: { tokenHash: hashToken(token) } });
+
+      if (!invitation) {
+        throw new NotFoundError('Invitation not found');
+      }
+      assertPending(invitation);
+
+      const user = await client.user.findFirst({
+        where: { id: userId, deletedAt: null },
+        include: { organization: { select: { id: true, deletedAt: true } } },
+      });
+
+      if (!user) {
+        throw new NotFoundError(`User '${userId}' not found`);
+      }
+      if (user.email.toLowerCase() !== invitation.email) {
+        logger.logSecurityEvent('invitation_email_mismatch', { invitationId: invitation.id, userId });
+        throw new ForbiddenError('This invitation was sent to a different email address', ErrorCode.FORBIDDEN);
+      }
+      if (user.organization && !user.organization.deletedAt) {
+        throw new ConflictError(
+          user.organization.id === invitation.organizationId
+            ? 'You are already a member of this organization'
+            : 'You already belong to another organization'
+        );
+      }
+
+      return this.applyInvitation(client, invitation, user, actor);
+    });
+
+    await this.publishAccepted(invitation, userId);
+
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * Accept the newest pending invitation for a newly registered user's
+   * email, if any, with the given (transaction) client
+   */
+  public async acceptPendingForNewUser(
+    client: PrismaClient,
+    user: User,
+    actor: AuditActor
+  ): Promise<UserInvitation | null> {
+    const invitation = await client.userInvitation.findFirst({
+      where: {
+        email: user.email.toLowerCase(),
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+        organization: { deletedAt: null },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!invitation) {
+      return null;
+    }
+
+    return this.applyInvitation(client, invitation, user, actor);
+  }
+
+  /**
+   * Publish membership events for an accepted invitation (after commit)
+   */
+  public async publishAccepted(invitation: UserInvitation, userId: string): Promise<void> {
+    await eventBus.publish(
+      BillingEvents.USER_ADDED_TO_ORG,
+      { organizationId: invitation.organizationId, userId },
+      { organizationId: invitation.organizationId, userId }
+    );
+
+    const seats = await databaseManager.executeRead((client) =>
+      client.subscriptionSeat.findMany({
+        where: { invitationId: invitation.id, userId, status: SeatStatus.ACTIVE },
+        select: {
+          id: true,
+          subscription: { select: { id: true, applicationId: true, application: { select: { slug: true } } } },
+        },
+      })
+    );
+
+    for (const seat of seats) {
+      await eventBus.publish(
+        BillingEvents.SEAT_ASSIGNED,
+        {
+          organizationId: invitation.organizationId,
+          applicationSlug: seat.subscription.application.slug,
+          subscriptionId: seat.subscription.id,
+          seatId: seat.id,
+          userId,
+        },
+        { organizationId: invitation.organizationId, applicationId: seat.subscription.applicationId, userId }
+      );
+    }
+
+    logger.info('Invitation accepted', { invitationId: invitation.id, organizationId: invitation.organizationId, userId });
+  }
+
+  private async applyInvitation(
+    client: PrismaClient,
+    invitation: UserInvitation,
+    user: User,
+    actor: AuditActor
+  ): Promise<UserInvitation> {
+    await client.user.update({
+      where: { id: user.id },
+      data: { organizationId: invitation.organizationId, role: invitation.role },
+    });
+
+    const accepted = await client.userInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date(), acceptedUserId: user.id },
+    });
+
+    const seatIds = await this.activateReservedSeats(client, invitation, user);
+
+    await auditLogService.record(client, {
+      ...actor,
+      actorUserId: actor.actorUserId ?? user.id,
+      entityType: 'user_invitation',
+      entityId: invitation.id,
+      action: 'accepted',
+      organizationId: invitation.organizationId,
+      changes: { userId: user.id, role: invitation.role, seatIds },
+    });
+
+    return accepted;
+  }
+
+  /**
+   * Give the new member the seats reserved for the invitation. A user who
+   * already has a seat row on the subscription, from an earlier
+   * membership, gets that row back instead and the reservation is closed.
+   */
+  private async activateReservedSeats(client: PrismaClient, invitation: UserInvitation, user: User): Promise<string[]> {
+    const reserved = await client.subscriptionSeat.findMany({
+      where: { invitationId: invitation.id, status: SeatStatus.PENDING_INVITE },
+    });
+
+    const now = new Date();
+    const seatIds: string[] = [];
+
+    for (const reservation of reserved) {
+      const existing = await client.subscriptionSeat.findUnique({
+        where: { subscriptionId_userId: { subscriptionId: reservation.subscriptionId, userId: user.id } },
+      });
+
+      const active = {
+        status: SeatStatus.ACTIVE,
+        invitationId: invitation.id,
+        assignedAt: now,
+        assignedBy: reservation.assignedBy,
+        expiresAt: null,
+        expiryNotifiedAt: null,
+        removedAt: null,
+        statusReason: null,
+      };
+
+      if (existing) {
+        await client.subscriptionSeat.update({
+          where: { id: reservation.id },
+          data: { status: SeatStatus.REMOVED, removedAt: now, statusReason: 'Invitation accepted' },
+        });
+        if (existing.status === SeatStatus.REMOVED) {
+          await client.subscriptionSeat.update({ where: { id: existing.id }, data: active });
+          seatIds.push(existing.id);
+        }
+      } else {
+        await client.subscriptionSeat.update({ where: { id: reservation.id }, data: { ...active, userId: user.id } });
+        seatIds.push(reservation.id);
+      }
+    }
+
+    return seatIds;
+  }
+
+  private toResponse(invitation: UserInvitation): InvitationResponseDto {
+    return {
+      id: invitation.id,
+      organizationId: invitation.organizationId,
+      email: invitation.email,
+      role: invitation.role,
+      status: invitationStatus(invitation),
+      invitedByUserId: invitation.invitedByUserId ?? undefined,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt ?? undefined,
+      createdAt: invitation.createdAt,
+      updatedAt: invitation.updatedAt,
+    };
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function invitationStatus(invitation: UserInvitation): InvitationStatus {
+  if (invitation.acceptedAt) {
+    return InvitationStatus.ACCEPTED;
+  }
+  if (invitation.revokedAt) {
+    return InvitationStatus.REVOKED;
+  }
+  return invitation.expiresAt.getTime() <= Date.now() ? InvitationStatus.EXPIRED : InvitationStatus.PENDING;
+}
+
+/**
+ * Only pending, unexpired invitations can be accepted or revoked
+ */
+function assertPending(invitation: UserInvitation): void {
+  const status = invitationStatus(invitation);
+
+  if (status !== InvitationStatus.PENDING) {
+    throw new ConflictError(`Invitation is ${status.toLowerCase()}`);
+  }
+}
+
+// Export singleton instance
+export const invitationService = new InvitationService();
+
+// Export class for dependency injection
+export { InvitationService };
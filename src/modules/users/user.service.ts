@@ -0,0 +1,551 @@
+/**
+ * User Service
+ *
+ * Manages the members of an organization: adding existing Clerk accounts,
+ * profile updates, role and status changes and soft deletion. Every
+ * organization has exactly one OWNER (Organization.ownerUserId); the OWNER
+ * role is never granted, changed or removed here, only moved through
+ * OrganizationService.transferOwnership.
+ *
+ * Profile fields from the DTOs (department, jobTitle, phone, avatar,
+ * timezone, locale) are kept under metadata.profile.
+ */
+
+import { Prisma, PrismaClient, SeatStatus, User, UserRole, UserStatus } from '@prisma/client';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { BillingEvents, eventBus } from '../../infrastructure/events/event-bus';
+import { ConflictError, NotFoundError } from '../../shared/errors/custom-errors';
+import { PaginatedResponseDto } from '../../shared/dto/common.dto';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import {
+  ChangeUserRoleDto,
+  ChangeUserStatusDto,
+  CreateUserDto,
+  ListUsersQueryDto,
+  UpdateUserDto,
+  UserResponseDto
+} from './dto';
+import { invitationService } from './invitation.service';
+
+/**
+ * DTO fields stored under metadata.profile
+ */
+const PROFILE_FIELDS = ['department', 'jobTitle', 'phone', 'avatar', 'timezone', 'locale'] as const;
+
+type UserProfile = Partial<Record<(typeof PROFILE_FIELDS)[number], string>>;
+
+/**
+ * Columns that can be sorted on when listing
+ */
+const SORTABLE_FIELDS = ['email', 'fullName', 'role', 'status', 'createdAt', 'updatedAt'];
+
+/**
+ * Event published when a member moves to each status
+ */
+const STATUS_EVENTS: Record<UserStatus, BillingEvents> = {
+  [UserStatus.ACTIVE]: BillingEvents.USER_REACTIVATED,
+  [UserStatus.INACTIVE]: BillingEvents.USER_DEACTIVATED,
+  [UserStatus.SUSPENDED]: BillingEvents.USER_SUSPENDED,
+};
+
+/**
+ * Identity of a Clerk account being registered
+ */
+export interface ClerkAccount {
+  clerkUserId: string;
+  email: string;
+  fullName: string;
+}
+
+/**
+ * User Service
+ */
+class UserService {
+  /**
+   * Add an existing Clerk account to an organization
+   */
+  public async create(organizationId: string, dto: CreateUserDto, actor: AuditActor): Promise<UserResponseDto> {
+    const email = dto.email.toLowerCase();
+
+    const user = await databaseManager.executeTransaction(async (client) => {
+      const organization = await client.organization.findFirst({
+        where: { id: organizationId, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!organization) {
+        throw new NotFoundError(`Organization '${organizationId}' not found`);
+      }
+
+      let user: User;
+      try {
+        user = await client.user.create({
+          data: {
+            clerkUserId: dto.clerkUserId,
+            email,
+            fullName: dto.fullName,
+            organizationId,
+            role: dto.role ?? UserRole.MEMBER,
+            metadata: buildMetadata(null, dto),
+          },
+        });
+      } catch (error) {
+        if (isUniqueConstraintError(error)) {
+          throw new ConflictError('A user with this email or Clerk account already exists');
+        }
+        throw error;
+      }
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'user',
+        entityId: user.id,
+        action: 'created',
+        organizationId,
+        changes: { email, role: user.role },
+      });
+
+      return user;
+    });
+
+    await eventBus.publish(
+      BillingEvents.USER_ADDED_TO_ORG,
+      { organizationId, userId: user.id },
+      { organizationId, userId: actor.actorUserId }
+    );
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Get a member of an organization
+   */
+  public async getById(organizationId: string, userId: string): Promise<UserResponseDto> {
+    const user = await databaseManager.executeRead((client) =>
+      client.user.findFirst({ where: { id: userId, organizationId, deletedAt: null } })
+    );
+
+    if (!user) {
+      throw new NotFoundError(`User '${userId}' not found`);
+    }
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * List an organization's members, optionally filtered by role, status or
+   * an email/name search
+   */
+  public async list(organizationId: string, query: ListUsersQueryDto): Promise<PaginatedResponseDto<UserResponseDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const sortBy = query.sortBy && SORTABLE_FIELDS.includes(query.sortBy) ? query.sortBy : 'createdAt';
+
+    const where: Prisma.UserWhereInput = {
+      organizationId,
+      deletedAt: null,
+      role: query.role,
+      status: query.status,
+      ...(query.search && {
+        OR: [
+          { email: { contains: query.search, mode: 'insensitive' } },
+          { fullName: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [users, total] = await databaseManager.executeRead((client) =>
+      Promise.all([
+        client.user.findMany({
+          where,
+          orderBy: { [sortBy]: query.sortOrder ?? 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        client.user.count({ where }),
+      ])
+    );
+
+    return PaginatedResponseDto.of(
+      users.map((user) => this.toResponse(user)),
+      total,
+      page,
+      limit
+    );
+  }
+
+  /**
+   * Update name and profile fields
+   */
+  public async update(
+    organizationId: string,
+    userId: string,
+    dto: UpdateUserDto,
+    actor: AuditActor
+  ): Promise<UserResponseDto> {
+    const user = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findMember(client, organizationId, userId);
+
+      const updated = await client.user.update({
+        where: { id: userId },
+        data: { fullName: dto.fullName, metadata: buildMetadata(current.metadata, dto) },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'user',
+        entityId: userId,
+        action: 'updated',
+        organizationId,
+        changes: diff(current, updated),
+      });
+
+      return updated;
+    });
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Change a member's role. The OWNER's role only changes through an
+   * ownership transfer.
+   */
+  public async changeRole(
+    organizationId: string,
+    userId: string,
+    dto: ChangeUserRoleDto,
+    actor: AuditActor
+  ): Promise<UserResponseDto> {
+    const user = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findMember(client, organizationId, userId);
+      assertNotOwner(current, 'change the role of');
+
+      const updated = await client.user.update({ where: { id: userId }, data: { role: dto.role } });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'user',
+        entityId: userId,
+        action: 'role_changed',
+        organizationId,
+        changes: { role: { from: current.role, to: updated.role } },
+      });
+
+      return updated;
+    });
+
+    logger.logSecurityEvent('user_role_changed', { organizationId, userId, role: dto.role });
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Activate, deactivate or suspend a member. Only ACTIVE members are
+   * granted access, so every change is published for the entitlement
+   * cache; suspension and deactivation also revoke the member's issued
+   * entitlement tokens.
+   */
+  public async changeStatus(
+    organizationId: string,
+    userId: string,
+    dto: ChangeUserStatusDto,
+    actor: AuditActor
+  ): Promise<UserResponseDto> {
+    const user = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findMember(client, organizationId, userId);
+      assertNotOwner(current, 'change the status of');
+
+      if (current.status === dto.status) {
+        throw new ConflictError(`User is already ${dto.status}`);
+      }
+
+      const updated = await client.user.update({ where: { id: userId }, data: { status: dto.status } });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'user',
+        entityId: userId,
+        action: 'status_changed',
+        organizationId,
+        changes: { status: { from: current.status, to: updated.status } },
+        metadata: { reason: dto.reason ?? null },
+      });
+
+      return updated;
+    });
+
+    await eventBus.publish(
+      STATUS_EVENTS[user.status],
+      { organizationId, userId },
+      { organizationId, userId: actor.actorUserId }
+    );
+
+    if (user.status === UserStatus.SUSPENDED) {
+      logger.logSecurityEvent('user_suspended', { organizationId, userId, reason: dto.reason });
+    }
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Soft delete a member and free their seats. The OWNER must transfer
+   * ownership first.
+   */
+  public async softDelete(organizationId: string, userId: string, actor: AuditActor): Promise<UserResponseDto> {
+    const { user, releasedSeats } = await databaseManager.executeTransaction(async (client) => {
+      const current = await this.findMember(client, organizationId, userId);
+      assertNotOwner(current, 'delete');
+
+      return this.removeUser(client, current, actor);
+    });
+
+    await this.publishRemoved(organizationId, userId, releasedSeats, actor);
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Create or update the local user for a Clerk account. A new account
+   * joins the organization of a pending invitation for its email; a known
+   * one gets its email and name refreshed. Deleted users are left as they
+   * are.
+   */
+  public async syncClerkAccount(account: ClerkAccount, actor: AuditActor): Promise<UserResponseDto> {
+    const email = account.email.toLowerCase();
+
+    const result = await databaseManager.executeTransaction(async (client) => {
+      const existing = await client.user.findUnique({ where: { clerkUserId: account.clerkUserId } });
+
+      if (existing) {
+        const unchanged = existing.email === email && existing.fullName === account.fullName;
+
+        if (existing.deletedAt || unchanged) {
+          return { user: existing, invitation: null };
+        }
+
+        const user = await this.refreshClerkAccount(client, existing, email, account.fullName, actor);
+
+        return { user, invitation: null };
+      }
+
+      let user: User;
+      try {
+        user = await client.user.create({
+          data: { clerkUserId: account.clerkUserId, email, fullName: account.fullName },
+        });
+      } catch (error) {
+        if (isUniqueConstraintError(error, 'email')) {
+          throw new ConflictError(`A user with email ${email} already exists`);
+        }
+        throw error;
+      }
+
+      const invitation = await invitationService.acceptPendingForNewUser(client, user, actor);
+
+      return {
+        user: invitation ? await client.user.findUniqueOrThrow({ where: { id: user.id } }) : user,
+        invitation,
+      };
+    });
+
+    if (result.invitation) {
+      await invitationService.publishAccepted(result.invitation, result.user.id);
+    }
+
+    return this.toResponse(result.user);
+  }
+
+  /**
+   * Soft delete the user of a deleted Clerk account and free their seats.
+   * Returns null when the account is unknown or already deleted.
+   */
+  public async removeClerkAccount(clerkUserId: string, actor: AuditActor): Promise<UserResponseDto | null> {
+    const result = await databaseManager.executeTransaction(async (client) => {
+      const user = await client.user.findFirst({ where: { clerkUserId, deletedAt: null } });
+
+      if (!user) {
+        return null;
+      }
+      if (user.role === UserRole.OWNER) {
+        logger.warn('Deleting the Clerk account of an organization owner', {
+          organizationId: user.organizationId ?? undefined,
+          userId: user.id,
+        });
+      }
+
+      return this.removeUser(client, user, actor);
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    await this.publishRemoved(result.user.organizationId ?? undefined, result.user.id, result.releasedSeats, actor);
+
+    return this.toResponse(result.user);
+  }
+
+  /**
+   * Soft delete a user with the given (transaction) client, releasing their
+   * seats. Returns the number of seats released.
+   */
+  public async removeUser(
+    client: PrismaClient,
+    user: User,
+    actor: AuditActor
+  ): Promise<{ user: User; releasedSeats: number }> {
+    const now = new Date();
+
+    const released = await client.subscriptionSeat.updateMany({
+      where: { userId: user.id, status: { not: SeatStatus.REMOVED } },
+      data: { status: SeatStatus.REMOVED, removedAt: now },
+    });
+
+    const deleted = await client.user.update({
+      where: { id: user.id },
+      data: { status: UserStatus.INACTIVE, deletedAt: now },
+    });
+
+    await auditLogService.record(client, {
+      ...actor,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'deleted',
+      organizationId: user.organizationId ?? undefined,
+      changes: { status: { from: user.status, to: UserStatus.INACTIVE } },
+      metadata: { releasedSeats: released.count },
+    });
+
+    return { user: deleted, releasedSeats: released.count };
+  }
+
+  /**
+   * Publish removal events for a deleted user (after commit)
+   */
+  public async publishRemoved(
+    organizationId: string | undefined,
+    userId: string,
+    releasedSeats: number,
+    actor: AuditActor
+  ): Promise<void> {
+    if (organizationId) {
+      await eventBus.publish(
+        BillingEvents.USER_REMOVED_FROM_ORG,
+        { organizationId, userId, releasedSeats },
+        { organizationId, userId: actor.actorUserId }
+      );
+    }
+
+    logger.info('User deleted', { organizationId, userId, releasedSeats });
+  }
+
+  private async refreshClerkAccount(
+    client: PrismaClient,
+    user: User,
+    email: string,
+    fullName: string,
+    actor: AuditActor
+  ): Promise<User> {
+    let updated: User;
+    try {
+      updated = await client.user.update({ where: { id: user.id }, data: { email, fullName } });
+    } catch (error) {
+      if (isUniqueConstraintError(error, 'email')) {
+        throw new ConflictError(`A user with email ${email} already exists`);
+      }
+      throw error;
+    }
+
+    await auditLogService.record(client, {
+      ...actor,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'updated',
+      organizationId: user.organizationId,
+      changes: diff(user, updated),
+    });
+
+    return updated;
+  }
+
+  private async findMember(client: PrismaClient, organizationId: string, userId: string): Promise<User> {
+    const user = await client.user.findFirst({ where: { id: userId, organizationId, deletedAt: null } });
+
+    if (!user) {
+      throw new NotFoundError(`User '${userId}' not found`);
+    }
+
+    return user;
+  }
+
+  /**
+   * Shape a user for responses
+   */
+  public toResponse(user: User): UserResponseDto {
+    const { profile = {}, ...custom } = (user.metadata ?? {}) as { profile?: UserProfile };
+
+    return {
+      id: user.id,
+      clerkUserId: user.clerkUserId,
+      email: user.email,
+      fullName: user.fullName,
+      organizationId: user.organizationId,
+      role: user.role,
+      status: user.status,
+      isActive: user.status === UserStatus.ACTIVE,
+      ...profile,
+      metadata: custom,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      deletedAt: user.deletedAt,
+    };
+  }
+}
+
+/**
+ * The OWNER is only changed through an ownership transfer
+ */
+function assertNotOwner(user: User, operation: string): void {
+  if (user.role === UserRole.OWNER) {
+    throw new ConflictError(`Cannot ${operation} the organization owner; transfer ownership first`);
+  }
+}
+
+/**
+ * Merge DTO metadata and profile fields into the stored metadata
+ */
+function buildMetadata(current: Prisma.JsonValue | null, dto: CreateUserDto | UpdateUserDto): Prisma.InputJsonValue {
+  const { profile = {}, ...custom } = (current ?? {}) as { profile?: UserProfile };
+  const updates: UserProfile = {};
+
+  for (const field of PROFILE_FIELDS) {
+    if (dto[field] !== undefined) {
+      updates[field] = dto[field];
+    }
+  }
+
+  return { ...custom, ...dto.metadata, profile: { ...profile, ...updates } };
+}
+
+/**
+ * Before/after values of the columns an update changed
+ */
+function diff(before: User, after: User): Prisma.InputJsonValue {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of ['email', 'fullName', 'metadata'] as const) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  return changes as Prisma.InputJsonValue;
+}
+
+// Export singleton instance
+export const userService = new UserService();
+
+// Export class for dependency injection
+export { UserService };
@@ -0,0 +1,225 @@
+/**
+ * Clerk Webhook Service
+ *
+ * Keeps local users in step with Clerk. Deliveries are signed by Svix:
+ * the signature is an HMAC-SHA256 of "{svix-id}.{svix-timestamp}.{body}"
+ * keyed with the base64 part of config.auth.clerkWebhookSecret (whsec_...),
+ * sent as one or more "v1,<base64>" entries in svix-signature.
+ *
+ * Every verified event is stored in ClerkWebhookEvent keyed by svix-id,
+ * which stays the same across redeliveries, so an event that was processed
+ * once is acknowledged without being applied again. Failed events keep
+ * their error and attempt count and are retried on redelivery.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuditActorType, ClerkWebhookEvent, Prisma } from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import {
+  BadRequestError,
+  ErrorCode,
+  ServiceUnavailableError,
+  UnauthorizedError
+} from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor } from '../audit';
+import { ClerkAccount, userService } from '../users';
+
+/**
+ * How far svix-timestamp may drift from now, in seconds
+ */
+const TIMESTAMP_TOLERANCE = 5 * 60;
+
+const SECRET_PREFIX = 'whsec_';
+
+const WEBHOOK_ACTOR: AuditActor = { actorType: AuditActorType.WEBHOOK };
+
+/**
+ * Svix delivery headers
+ */
+export interface SvixHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+/**
+ * Fields of Clerk's user object that are synchronized
+ */
+interface ClerkUserData {
+  id: string;
+  email_addresses?: Array<{ id: string; email_address: string }>;
+  primary_email_address_id?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  username?: string | null;
+}
+
+interface ClerkEvent {
+  type: string;
+  data: ClerkUserData;
+}
+
+export interface ClerkWebhookResult {
+  eventId: string;
+  eventType: string;
+  duplicate: boolean;
+}
+
+/**
+ * Clerk Webhook Service
+ */
+class ClerkWebhookService {
+  /**
+   * Verify, record and apply a Clerk webhook delivery
+   */
+  public async handle(payload: string, headers: SvixHeaders): Promise<ClerkWebhookResult> {
+    this.verifySignature(payload, headers);
+
+    const event = parseEvent(payload);
+    const eventId = headers.id!;
+
+    const stored = await databaseManager.executeWrite((client) =>
+      client.clerkWebhookEvent.upsert({
+        where: { eventId },
+        create: { eventId, eventType: event.type, payload: event as unknown as Prisma.InputJsonObject },
+        update: {},
+      })
+    );
+
+    if (stored.processed) {
+      logger.logWebhook('clerk_duplicate', { eventId, type: event.type });
+      return { eventId, eventType: event.type, duplicate: true };
+    }
+
+    await this.process(stored, event);
+
+    return { eventId, eventType: event.type, duplicate: false };
+  }
+
+  /**
+   * Check the Svix signature and timestamp of a delivery
+   */
+  public verifySignature(payload: string, headers: SvixHeaders, now: number = Date.now()): void {
+    const secret = config.auth.clerkWebhookSecret;
+
+    if (!secret) {
+      logger.error('Clerk webhook received but CLERK_WEBHOOK_SECRET is not configured');
+      throw new ServiceUnavailableError('Clerk webhooks are not configured');
+    }
+    if (!headers.id || !headers.timestamp || !headers.signature) {
+      throw new BadRequestError('Missing Svix signature headers', ErrorCode.MISSING_REQUIRED_FIELD);
+    }
+
+    const timestamp = Number(headers.timestamp);
+    if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > TIMESTAMP_TOLERANCE) {
+      throw new UnauthorizedError('Webhook timestamp is outside the allowed tolerance', ErrorCode.INVALID_TOKEN);
+    }
+
+    const key = Buffer.from(secret.startsWith(SECRET_PREFIX) ? secret.slice(SECRET_PREFIX.length) : secret, 'base64');
+    const expected = createHmac('sha256', key)
+      .update(`${headers.id}.${headers.timestamp}.${payload}`)
+      .digest();
+
+    const valid = headers.signature.split(' ').some((entry) => {
+      const [version, signature] = entry.split(',');
+      const candidate = Buffer.from(signature ?? '', 'base64');
+
+      return version === 'v1' && candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+
+    if (!valid) {
+      logger.logSecurityEvent('clerk_webhook_invalid_signature', { eventId: headers.id });
+      throw new UnauthorizedError('Invalid webhook signature', ErrorCode.INVALID_TOKEN);
+    }
+  }
+
+  /**
+   * Apply a stored event, recording the outcome on it
+   */
+  private async process(stored: ClerkWebhookEvent, event: ClerkEvent): Promise<void> {
+    try {
+      await this.apply(event);
+    } catch (error) {
+      const message = (error as Error).message;
+
+      await databaseManager.executeWrite((client) =>
+        client.clerkWebhookEvent.update({
+          where: { id: stored.id },
+          data: { error: message, retryCount: { increment: 1 } },
+        })
+      );
+
+      logger.error('Clerk webhook processing failed', { eventId: stored.eventId, type: event.type, error: message });
+      throw error;
+    }
+
+    await databaseManager.executeWrite((client) =>
+      client.clerkWebhookEvent.update({
+        where: { id: stored.id },
+        data: { processed: true, processedAt: new Date(), error: null },
+      })
+    );
+
+    logger.logWebhook('clerk_processed', { eventId: stored.eventId, type: event.type });
+  }
+
+  private async apply(event: ClerkEvent): Promise<void> {
+    switch (event.type) {
+      case 'user.created':
+      case 'user.updated': {
+        const account = toAccount(event.data);
+
+        if (!account) {
+          logger.warn('Clerk user has no email address; skipping', { clerkUserId: event.data.id });
+          return;
+        }
+
+        await userService.syncClerkAccount(account, WEBHOOK_ACTOR);
+        return;
+      }
+      case 'user.deleted':
+        await userService.removeClerkAccount(event.data.id, WEBHOOK_ACTOR);
+        return;
+      default:
+        logger.debug('Ignoring Clerk event', { type: event.type });
+    }
+  }
+}
+
+function parseEvent(payload: string): ClerkEvent {
+  try {
+    const event = JSON.parse(payload) as ClerkEvent;
+
+    if (typeof event.type === 'string' && typeof event.data?.id === 'string') {
+      return event;
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new BadRequestError('Malformed Clerk webhook payload', ErrorCode.INVALID_FORMAT);
+}
+
+/**
+ * Map a Clerk user to the identity we store, preferring the primary email
+ */
+function toAccount(data: ClerkUserData): ClerkAccount | null {
+  const emails = data.email_addresses ?? [];
+  const email = (emails.find((entry) => entry.id === data.primary_email_address_id) ?? emails[0])?.email_address;
+
+  if (!email) {
+    return null;
+  }
+
+  const fullName = [data.first_name, data.last_name].filter(Boolean).join(' ') || data.username || email;
+
+  return { clerkUserId: data.id, email, fullName };
+}
+
+// Export singleton instance
+export const clerkWebhookService = new ClerkWebhookService();
+
+// Export class for dependency injection
+export { ClerkWebhookService };
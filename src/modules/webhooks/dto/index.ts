@@ -0,0 +1 @@
+export * from './stripe-webhook-event.dto';
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { IsString, IsOptional, IsBoolean, IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { BaseDto } from '../../../shared/dto/base.dto';
+import { PaginationDto } from '../../../shared/dto/common.dto';
+
+export class ListStripeWebhookEventsQueryDto extends PaginationDto {
+  @ApiProperty({
+    description: 'Filter by Stripe event type',
+    example: 'invoice.payment_failed',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  eventType?: string;
+
+  @ApiProperty({
+    description: 'Filter by whether the event was applied successfully',
+    example: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  processed?: boolean;
+
+  @ApiProperty({
+    description: 'Only events whose last attempt failed (true) or did not (false)',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  hasError?: boolean;
+
+  @ApiProperty({
+    description: 'Only dead-lettered events (true) or events still retried (false)',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  deadLettered?: boolean;
+
+  @ApiProperty({
+    description: 'Received at or after',
+    example: '2024-01-15T00:00:00.000Z',
+    required: false,
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @ApiProperty({
+    description: 'Received before',
+    example: '2024-01-16T00:00:00.000Z',
+    required: false,
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+}
+
+export class ReplayStripeWebhookEventsDto extends BaseDto {
+  @ApiProperty({
+    description: 'Replay events received at or after this time',
+    example: '2024-01-15T00:00:00.000Z',
+    required: true,
+  })
+  @Type(() => Date)
+  @IsDate()
+  from: Date;
+
+  @ApiProperty({
+    description: 'Replay events received before this time',
+    example: '2024-01-16T00:00:00.000Z',
+    required: true,
+  })
+  @Type(() => Date)
+  @IsDate()
+  to: Date;
+
+  @ApiProperty({
+    description: 'Only replay events of this type',
+    example: 'customer.subscription.updated',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  eventType?: string;
+
+  @ApiProperty({
+    description: 'Also replay events that were already applied successfully; invoice events then rewrite their payments from the stored snapshot',
+    example: false,
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  includeProcessed?: boolean;
+}
+
+export class StripeWebhookEventResponseDto extends BaseDto {
+  @ApiProperty({
+    description: 'Stored event identifier',
+    example: '123e4567-e89b-12d3-a456-426614174010',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Stripe event ID',
+    example: 'evt_1OaBcD2eZvKYlo2C',
+  })
+  eventId: string;
+
+  @ApiProperty({
+    description: 'Stripe event type',
+    example: 'invoice.payment_failed',
+  })
+  eventType: string;
+
+  @ApiProperty({
+    description: 'Whether the event was applied successfully',
+    example: false,
+  })
+  processed: boolean;
+
+  @ApiProperty({
+    description: 'When the event was applied',
+    example: '2024-01-15T10:30:05.000Z',
+    required: false,
+  })
+  processedAt?: Date;
+
+  @ApiProperty({
+    description: 'Error from the last failed attempt',
+    example: 'Connection terminated unexpectedly',
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({
+    description: 'Failed processing attempts',
+    example: 1,
+  })
+  retryCount: number;
+
+  @ApiProperty({
+    description: 'When the retry worker will next attempt the event',
+    example: '2024-01-15T10:31:05.000Z',
+    required: false,
+  })
+  nextRetryAt?: Date;
+
+  @ApiProperty({
+    description: 'When the event was dead-lettered after exhausting its retries',
+    example: '2024-01-15T10:37:05.000Z',
+    required: false,
+  })
+  deadLetteredAt?: Date;
+
+  @ApiProperty({
+    description: 'When the event was received',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Complete Stripe event payload; included when fetching a single event',
+    required: false,
+  })
+  payload?: Record<string, unknown>;
+}
+
+export class StripeWebhookReplayResultDto extends BaseDto {
+  @ApiProperty({
+    description: 'Stored event identifier',
+    example: '123e4567-e89b-12d3-a456-426614174010',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Stripe event ID',
+    example: 'evt_1OaBcD2eZvKYlo2C',
+  })
+  eventId: string;
+
+  @ApiProperty({
+    description: 'Stripe event type',
+    example: 'invoice.payment_failed',
+  })
+  eventType: string;
+
+  @ApiProperty({
+    description: 'Whether the replay applied the event successfully',
+    example: true,
+  })
+  processed: boolean;
+}
+
+export class StripeWebhookReplaySummaryDto extends BaseDto {
+  @ApiProperty({
+    description: 'Events replayed',
+    example: 12,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Events applied successfully',
+    example: 11,
+  })
+  succeeded: number;
+
+  @ApiProperty({
+    description: 'Events that failed again',
+    example: 1,
+  })
+  failed: number;
+
+  @ApiProperty({
+    description: 'Outcome for each event, oldest first',
+    type: [StripeWebhookReplayResultDto],
+  })
+  results: StripeWebhookReplayResultDto[];
+}
@@ -0,0 +1,5 @@
+export * from './dto';
+export * from './clerk-webhook.service';
+export * from './stripe-webhook.service';
+export * from './stripe-webhook-event.service';
+export * from './stripe-webhook-retry.worker';
\ No newline at end of file
@@ -0,0 +1,269 @@
+/**
+ * Stripe Webhook Event Service
+ *
+ * Operates on stored Stripe events after delivery:
+ * - Lists events for platform administrators, filtered by type, outcome,
+ *   dead-letter state and time received
+ * - Replays one event, or the unprocessed and dead-lettered events received
+ *   in a time range, through the same handlers a live delivery uses
+ * - Retries failed events whose backoff has elapsed, for the retry worker
+ *
+ * Not every handler is safe to run twice: subscription updates apply
+ * Stripe's current state and never revive an ended subscription, but
+ * invoice events rewrite their payment from the event's snapshot. A range
+ * replay therefore skips events that were already applied unless the
+ * caller asks for them with includeProcessed. A replay clears the
+ * dead-letter mark and resets retryCount, giving the event a fresh set of
+ * automatic retries.
+ */
+
+import { Prisma, PrismaClient, StripeWebhookEvent } from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { PaginatedResponseDto } from '../../shared/dto/common.dto';
+import { BadRequestError, ErrorCode, NotFoundError } from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { AuditActor, auditLogService } from '../audit';
+import {
+  ListStripeWebhookEventsQueryDto,
+  ReplayStripeWebhookEventsDto,
+  StripeWebhookEventResponseDto,
+  StripeWebhookReplayResultDto,
+  StripeWebhookReplaySummaryDto
+} from './dto';
+import { stripeWebhookService } from './stripe-webhook.service';
+
+const SORTABLE_FIELDS = ['createdAt', 'eventType', 'retryCount'];
+
+/**
+ * Most events one range replay may cover
+ */
+const MAX_REPLAY_EVENTS = 500;
+
+/**
+ * Events the retry worker attempts per run
+ */
+const RETRY_BATCH_SIZE = 50;
+
+export interface StripeWebhookRetryRun {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Stripe Webhook Event Service
+ */
+class StripeWebhookEventService {
+  /**
+   * List stored events, newest first
+   */
+  public async list(query: ListStripeWebhookEventsQueryDto): Promise<PaginatedResponseDto<StripeWebhookEventResponseDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const sortBy = query.sortBy && SORTABLE_FIELDS.includes(query.sortBy) ? query.sortBy : 'createdAt';
+
+    const where: Prisma.StripeWebhookEventWhereInput = {
+      eventType: query.eventType,
+      processed: query.processed,
+      error: query.hasError === undefined ? undefined : query.hasError ? { not: null } : null,
+      deadLetteredAt: query.deadLettered === undefined ? undefined : query.deadLettered ? { not: null } : null,
+      createdAt: query.from || query.to ? { gte: query.from, lt: query.to } : undefined,
+    };
+
+    const { events, total } = await databaseManager.executeRead(async (client) => {
+      const [events, total] = await Promise.all([
+        client.stripeWebhookEvent.findMany({
+          where,
+          orderBy: { [sortBy]: query.sortOrder ?? 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        client.stripeWebhookEvent.count({ where }),
+      ]);
+
+      return { events, total };
+    });
+
+    return PaginatedResponseDto.of(events.map((event) => this.toResponse(event)), total, page, limit);
+  }
+
+  /**
+   * Get one stored event with its payload
+   */
+  public async getById(id: string): Promise<StripeWebhookEventResponseDto> {
+    const event = await databaseManager.executeRead((client) => this.findExisting(client, id));
+
+    return this.toResponse(event, true);
+  }
+
+  /**
+   * Apply one stored event again, whatever its current state
+   */
+  public async replay(id: string, actor: AuditActor): Promise<StripeWebhookEventResponseDto> {
+    const stored = await databaseManager.executeRead((client) => this.findExisting(client, id));
+
+    await this.replayStored(stored, actor);
+
+    return this.getById(id);
+  }
+
+  /**
+   * Apply the stored events received in a time range again, oldest first:
+   * those never applied successfully, or every one with includeProcessed
+   */
+  public async replayRange(dto: ReplayStripeWebhookEventsDto, actor: AuditActor): Promise<StripeWebhookReplaySummaryDto> {
+    if (dto.from >= dto.to) {
+      throw new BadRequestError('from must be earlier than to', ErrorCode.INVALID_INPUT);
+    }
+
+    const where: Prisma.StripeWebhookEventWhereInput = {
+      createdAt: { gte: dto.from, lt: dto.to },
+      eventType: dto.eventType,
+      processed: dto.includeProcessed ? undefined : false,
+    };
+
+    const events = await databaseManager.executeRead((client) =>
+      client.stripeWebhookEvent.findMany({ where, orderBy: { createdAt: 'asc' }, take: MAX_REPLAY_EVENTS + 1 })
+    );
+
+    if (events.length > MAX_REPLAY_EVENTS) {
+      throw new BadRequestError(
+        `More than ${MAX_REPLAY_EVENTS} events match; narrow the time range or filter by event type`,
+        ErrorCode.INVALID_INPUT
+      );
+    }
+
+    const results: StripeWebhookReplayResultDto[] = [];
+    for (const event of events) {
+      const processed = await this.replayStored(event, actor);
+      results.push({ id: event.id, eventId: event.eventId, eventType: event.eventType, processed });
+    }
+
+    const succeeded = results.filter((result) => result.processed).length;
+
+    logger.info('Stripe webhook events replayed', {
+      from: dto.from.toISOString(),
+      to: dto.to.toISOString(),
+      eventType: dto.eventType,
+      total: results.length,
+      succeeded,
+    });
+
+    return { total: results.length, succeeded, failed: results.length - succeeded, results };
+  }
+
+  /**
+   * Retry failed events whose backoff has elapsed, and events that were
+   * stored but never attempted (for example, when the process stopped
+   * before applying them). Each event is claimed before it is processed
+   * so concurrent workers do not apply it twice.
+   */
+  public async retryDue(): Promise<StripeWebhookRetryRun> {
+    const now = new Date();
+    const neverAttemptedBefore = new Date(now.getTime() - config.webhooks.retryInterval);
+
+    const due = await databaseManager.executeRead((client) =>
+      client.stripeWebhookEvent.findMany({
+        where: {
+          processed: false,
+          deadLetteredAt: null,
+          OR: [
+            { nextRetryAt: { lte: now } },
+            { nextRetryAt: null, retryCount: 0, createdAt: { lt: neverAttemptedBefore } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+        take: RETRY_BATCH_SIZE,
+      })
+    );
+
+    const run: StripeWebhookRetryRun = { attempted: 0, succeeded: 0, failed: 0 };
+
+    for (const event of due) {
+      const { count } = await databaseManager.executeWrite((client) =>
+        client.stripeWebhookEvent.updateMany({
+          where: { id: event.id, processed: false, nextRetryAt: event.nextRetryAt },
+          data: { nextRetryAt: new Date(Date.now() + config.webhooks.timeout) },
+        })
+      );
+      if (count === 0) {
+        continue;
+      }
+
+      run.attempted++;
+      if (await stripeWebhookService.process(event)) {
+        run.succeeded++;
+      } else {
+        run.failed++;
+      }
+    }
+
+    if (run.attempted > 0) {
+      logger.info('Stripe webhook retries run', { ...run });
+    }
+
+    return run;
+  }
+
+  /**
+   * Clear the event's retry state, record who replayed it and process it
+   */
+  private async replayStored(stored: StripeWebhookEvent, actor: AuditActor): Promise<boolean> {
+    const reset = await databaseManager.executeTransaction(async (client) => {
+      const event = await client.stripeWebhookEvent.update({
+        where: { id: stored.id },
+        data: { retryCount: 0, nextRetryAt: null, deadLetteredAt: null },
+      });
+
+      await auditLogService.record(client, {
+        ...actor,
+        entityType: 'stripe_webhook_event',
+        entityId: stored.id,
+        action: 'replayed',
+        changes: {
+          processed: stored.processed,
+          retryCount: stored.retryCount,
+          deadLettered: stored.deadLetteredAt !== null,
+        },
+        metadata: { stripeEventId: stored.eventId, eventType: stored.eventType },
+      });
+
+      return event;
+    });
+
+    return stripeWebhookService.process(reset);
+  }
+
+  private async findExisting(client: PrismaClient, id: string): Promise<StripeWebhookEvent> {
+    const event = await client.stripeWebhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundError(`Stripe webhook event '${id}' not found`);
+    }
+
+    return event;
+  }
+
+  private toResponse(event: StripeWebhookEvent, includePayload = false): StripeWebhookEventResponseDto {
+    return {
+      id: event.id,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      processed: event.processed,
+      processedAt: event.processedAt ?? undefined,
+      error: event.error ?? undefined,
+      retryCount: event.retryCount,
+      nextRetryAt: event.nextRetryAt ?? undefined,
+      deadLetteredAt: event.deadLetteredAt ?? undefined,
+      createdAt: event.createdAt,
+      payload: includePayload ? (event.payload as Prisma.JsonObject) : undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const stripeWebhookEventService = new StripeWebhookEventService();
+
+// Export class for dependency injection
+export { StripeWebhookEventService };
@@ -0,0 +1,16 @@
+/**
+ * Stripe Webhook Retry Worker
+ *
+ * Polls every config.webhooks.retryInterval milliseconds for stored Stripe
+ * events that are due for another attempt and processes them.
+ */
+
+import config from '../../config';
+import { PollingWorker } from '../../infrastructure/workers/polling-worker';
+import { stripeWebhookEventService } from './stripe-webhook-event.service';
+
+export const stripeWebhookRetryWorker = new PollingWorker({
+  name: 'Stripe webhook retry worker',
+  interval: () => config.webhooks.retryInterval,
+  run: () => stripeWebhookEventService.retryDue(),
+});
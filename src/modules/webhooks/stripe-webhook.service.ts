@@ -0,0 +1,204 @@
+/**
+ * Stripe Webhook Service
+ *
+ * Receives Stripe events. Each delivery is verified with
+ * stripe.webhooks.constructEvent against config.stripe.webhookSecret and
+ * the raw request body, then stored in StripeWebhookEvent keyed by the
+ * Stripe event ID. A redelivered event ID is acknowledged without being
+ * stored or applied again.
+ *
+ * Events are applied after the delivery has been acknowledged, so a slow
+ * or failing handler never makes Stripe retry. The outcome is recorded on
+ * the stored event: processed and processedAt on success, error and an
+ * incremented retryCount on failure. A failed event is scheduled for the
+ * retry worker with exponential backoff (nextRetryAt) until it has failed
+ * config.business.maxRetryAttempts times, after which it is dead-lettered
+ * and only an explicit replay processes it again.
+ */
+
+import Stripe from 'stripe';
+import { Prisma, StripeWebhookEvent } from '@prisma/client';
+import config from '../../config';
+import { databaseManager } from '../../infrastructure/database/database-manager';
+import { isUniqueConstraintError } from '../../infrastructure/database/prisma-errors';
+import { getStripe } from '../../infrastructure/stripe/stripe.client';
+import {
+  BadRequestError,
+  ErrorCode,
+  ServiceUnavailableError,
+  UnauthorizedError
+} from '../../shared/errors/custom-errors';
+import { logger } from '../../shared/utils/logger.util';
+import { paymentService } from '../payments';
+import { subscriptionSyncService } from '../subscriptions';
+
+export interface StripeWebhookResult {
+  eventId: string;
+  eventType: string;
+  duplicate: boolean;
+}
+
+/**
+ * Stripe Webhook Service
+ */
+class StripeWebhookService {
+  /**
+   * Verify and record a Stripe delivery, then apply it in the background
+   */
+  public async receive(payload: Buffer, signature: string | undefined): Promise<StripeWebhookResult> {
+    const event = this.verify(payload, signature);
+
+    // The constraint error is caught inside the callback: executeWrite
+    // wraps anything else it sees in a DatabaseError
+    const stored = await databaseManager.executeWrite(async (client): Promise<StripeWebhookEvent | null> => {
+      try {
+        return await client.stripeWebhookEvent.create({
+          data: {
+            eventId: event.id,
+            eventType: event.type,
+            payload: event as unknown as Prisma.InputJsonObject,
+          },
+        });
+      } catch (error) {
+        if (isUniqueConstraintError(error, 'eventId')) {
+          return null;
+        }
+        throw error;
+      }
+    });
+
+    if (!stored) {
+      logger.logWebhook('stripe_duplicate', { eventId: event.id, type: event.type });
+      return { eventId: event.id, eventType: event.type, duplicate: true };
+    }
+
+    logger.logWebhook('stripe_received', { eventId: event.id, type: event.type });
+
+    setImmediate(() => {
+      void this.process(stored);
+    });
+
+    return { eventId: event.id, eventType: event.type, duplicate: false };
+  }
+
+  /**
+   * Check the stripe-signature header and parse the event
+   */
+  public verify(payload: Buffer, signature: string | undefined): Stripe.Event {
+    const secret = config.stripe.webhookSecret;
+
+    if (!secret) {
+      logger.error('Stripe webhook received but STRIPE_WEBHOOK_SECRET is not configured');
+      throw new ServiceUnavailableError('Stripe webhooks are not configured');
+    }
+    if (!signature) {
+      throw new BadRequestError('Missing stripe-signature header', ErrorCode.MISSING_REQUIRED_FIELD);
+    }
+
+    try {
+      return getStripe().webhooks.constructEvent(payload, signature, secret);
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeSignatureVerificationError) {
+        logger.logSecurityEvent('stripe_webhook_invalid_signature', { reason: error.message });
+        throw new UnauthorizedError('Invalid webhook signature', ErrorCode.INVALID_TOKEN);
+      }
+      throw new BadRequestError('Malformed Stripe webhook payload', ErrorCode.INVALID_FORMAT);
+    }
+  }
+
+  /**
+   * Apply a stored event and record the outcome on it. Never throws; a
+   * failure is left on the event for retry, or dead-lettered once retries
+   * are exhausted.
+   */
+  public async process(stored: StripeWebhookEvent): Promise<boolean> {
+    const event = stored.payload as unknown as Stripe.Event;
+
+    try {
+      await this.apply(event);
+    } catch (error) {
+      const message = (error as Error).message;
+      const attempts = stored.retryCount + 1;
+      const exhausted = attempts >= config.business.maxRetryAttempts;
+      const nextRetryAt = exhausted ? null : new Date(Date.now() + retryDelay(attempts));
+
+      await this.record(stored, {
+        error: message,
+        retryCount: { increment: 1 },
+        nextRetryAt,
+        deadLetteredAt: exhausted ? new Date() : null,
+      });
+
+      if (exhausted) {
+        logger.error('Stripe webhook dead-lettered', { eventId: stored.eventId, type: stored.eventType, attempts, error: message });
+      } else {
+        logger.error('Stripe webhook processing failed', {
+          eventId: stored.eventId,
+          type: stored.eventType,
+          error: message,
+          nextRetryAt: nextRetryAt!.toISOString(),
+        });
+      }
+      return false;
+    }
+
+    await this.record(stored, { processed: true, processedAt: new Date(), error: null, nextRetryAt: null, deadLetteredAt: null });
+
+    logger.logWebhook('stripe_processed', { eventId: stored.eventId, type: stored.eventType });
+    return true;
+  }
+
+  private async apply(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await subscriptionSyncService.completeCheckout(event.data.object as Stripe.Checkout.Session, event.id);
+        return;
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        await subscriptionSyncService.syncSubscription(event.data.object as Stripe.Subscription, event.id);
+        return;
+      case 'customer.subscription.deleted':
+        await subscriptionSyncService.endSubscription(event.data.object as Stripe.Subscription, event.id);
+        return;
+      case 'invoice.payment_succeeded':
+        await paymentService.recordInvoicePayment(event.data.object as Stripe.Invoice, true, event.id);
+        return;
+      case 'invoice.payment_failed':
+        await paymentService.recordInvoicePayment(event.data.object as Stripe.Invoice, false, event.id);
+        return;
+      default:
+        logger.debug('Ignoring Stripe event', { type: event.type });
+    }
+  }
+
+  /**
+   * Save the processing outcome. A failure here is only logged: the event
+   * stays unprocessed and is picked up again by a retry.
+   */
+  private async record(stored: StripeWebhookEvent, data: Prisma.StripeWebhookEventUpdateInput): Promise<void> {
+    try {
+      await databaseManager.executeWrite((client) =>
+        client.stripeWebhookEvent.update({ where: { id: stored.id }, data })
+      );
+    } catch (error) {
+      logger.error('Failed to record Stripe webhook outcome', {
+        eventId: stored.eventId,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+/**
+ * Backoff before the next attempt: config.webhooks.retryDelay, doubled
+ * after each failure
+ */
+function retryDelay(attempts: number): number {
+  return config.webhooks.retryDelay * 2 ** (attempts - 1);
+}
+
+// Export singleton instance
+export const stripeWebhookService = new StripeWebhookService();
+
+// Export class for dependency injection
+export { StripeWebhookService };
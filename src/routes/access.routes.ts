@@ -0,0 +1,345 @@
+import { Router } from 'express';
+import { body, header } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import apiKeyAuth, { requireScope } from '../middleware/apiKeyAuth';
+import resolveOrganization from '../middleware/resolveOrganization';
+import AccessController from '../controllers/access.controller';
+import { MAX_BATCH_VERIFY_SIZE } from '../modules/access';
+import { ApiKeyScope } from '../modules/applications/dto/api-key.dto';
+import config from '../config';
+import { rateLimiters } from '../shared/middleware/rate-limiting.middleware';
+
+const router = Router();
+
+// Counted per calling application, which is only known once the key is verified
+const applicationRateLimit = config.rateLimiting.enabled ? [rateLimiters.application] : [];
+
+/**
+ * @swagger
+ * /api/v1/access/verify:
+ *   get:
+ *     tags: [Access]
+ *     summary: Verify seat access
+ *     description: Checks that the authenticated user holds an active seat on an active or trialing subscription of the organization for the given application. Users outside the organization are denied with NO_ACTIVE_SEAT and no subscription summary; a suspended or deleted organization is denied with ORGANIZATION_INACTIVE; an unknown application is denied with NOT_SUBSCRIBED.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Organization-Id
+ *         description: Required unless X-External-Org-Id is sent
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: header
+ *         name: X-External-Org-Id
+ *         description: The application's own organization ID, resolved through its external organization mapping (requires X-Application-Slug)
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Application-Slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: healos
+ *     responses:
+ *       200:
+ *         description: Access granted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 hasAccess:
+ *                   type: boolean
+ *                   example: true
+ *                 subscription:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       example: "ACTIVE"
+ *                     currentPeriodEnd:
+ *                       type: string
+ *                       format: date-time
+ *                     seatsUsed:
+ *                       type: integer
+ *                       example: 3
+ *                     totalSeats:
+ *                       type: integer
+ *                       example: 5
+ *                 seat:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     assignedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *       403:
+ *         description: Access denied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 hasAccess:
+ *                   type: boolean
+ *                   example: false
+ *                 reason:
+ *                   type: string
+ *                   enum: [NO_ACTIVE_SEAT, SUBSCRIPTION_INACTIVE, ORGANIZATION_INACTIVE, NOT_SUBSCRIBED]
+ *                 message:
+ *                   type: string
+ *                   example: "You do not have an assigned seat. Contact your administrator."
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get(
+  '/verify',
+  auth,
+  resolveOrganization,
+  [
+    header('X-Organization-Id').isUUID().withMessage('X-Organization-Id header must be a UUID'),
+    header('X-Application-Slug').isString().notEmpty().withMessage('X-Application-Slug header required')
+  ],
+  validateRequest,
+  AccessController.verify
+);
+
+/**
+ * @swagger
+ * /api/v1/access/batch-verify:
+ *   post:
+ *     tags: [Access]
+ *     summary: Verify seat access for many users
+ *     description: Runs up to 500 access checks in one call using grouped queries. Each result has the same shape as the single verify response plus the identifiers of its check, in request order. Called by product backends with an API key holding the access:verify scope; every check must target the calling application.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [checks]
+ *             properties:
+ *               checks:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   required: [userId, applicationSlug]
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     organizationId:
+ *                       type: string
+ *                       format: uuid
+ *                     externalOrgId:
+ *                       type: string
+ *                       description: The application's own organization ID, instead of organizationId
+ *                     applicationSlug:
+ *                       type: string
+ *                       example: healos
+ *     responses:
+ *       200:
+ *         description: One verification result per check
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   userId:
+ *                     type: string
+ *                   organizationId:
+ *                     type: string
+ *                   externalOrgId:
+ *                     type: string
+ *                     description: Echoed for checks that used it; a check whose externalOrgId is not mapped is denied with NOT_SUBSCRIBED and no organizationId
+ *                   applicationSlug:
+ *                     type: string
+ *                   hasAccess:
+ *                     type: boolean
+ *                   reason:
+ *                     type: string
+ *                     enum: [NO_ACTIVE_SEAT, SUBSCRIPTION_INACTIVE, ORGANIZATION_INACTIVE, NOT_SUBSCRIBED]
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/batch-verify',
+  apiKeyAuth,
+  ...applicationRateLimit,
+  requireScope(ApiKeyScope.ACCESS_VERIFY),
+  [
+    body('checks')
+      .isArray({ min: 1, max: MAX_BATCH_VERIFY_SIZE })
+      .withMessage(`checks must be an array of 1-${MAX_BATCH_VERIFY_SIZE} items`),
+    body('checks.*.userId').isString().notEmpty(),
+    body('checks.*.organizationId').optional().isUUID(),
+    body('checks.*.externalOrgId').optional().isString().notEmpty(),
+    body('checks.*').custom((check) => Boolean(check?.organizationId || check?.externalOrgId))
+      .withMessage('each check needs organizationId or externalOrgId'),
+    body('checks.*.applicationSlug').isString().notEmpty()
+  ],
+  validateRequest,
+  AccessController.batchVerify
+);
+
+/**
+ * @swagger
+ * /api/v1/access/tokens:
+ *   post:
+ *     tags: [Access]
+ *     summary: Issue an offline entitlement token
+ *     description: Issues a short-lived signed JWT listing every application the authenticated user holds an active seat for in the organization. Seats past their expiry are left out, expiry is capped by the earliest seat expiry or billing period (or trial) end, and tokens are revoked when a seat is removed, the subscription changes or the organization is suspended.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Organization-Id
+ *         description: Required unless X-External-Org-Id is sent
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: header
+ *         name: X-External-Org-Id
+ *         description: The application's own organization ID, resolved through its external organization mapping (requires X-Application-Slug)
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Application-Slug
+ *         description: Application whose mapping resolves X-External-Org-Id
+ *         schema:
+ *           type: string
+ *           example: healos
+ *     responses:
+ *       201:
+ *         description: Token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 tokenType:
+ *                   type: string
+ *                   example: Bearer
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                 entitlements:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       app:
+ *                         type: string
+ *                         example: healos
+ *                       subscriptionId:
+ *                         type: string
+ *                       seatId:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         example: ACTIVE
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post(
+  '/tokens',
+  auth,
+  resolveOrganization,
+  [header('X-Organization-Id').isUUID().withMessage('X-Organization-Id header must be a UUID')],
+  validateRequest,
+  AccessController.issueToken
+);
+
+/**
+ * @swagger
+ * /api/v1/access/tokens/introspect:
+ *   post:
+ *     tags: [Access]
+ *     summary: Introspect an entitlement token
+ *     description: Checks signature, expiry and revocation of an entitlement token. Apps verifying locally against the JWKS can use this to pick up revocations before expiry.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Introspection result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 active:
+ *                   type: boolean
+ *                 claims:
+ *                   type: object
+ *                 reason:
+ *                   type: string
+ *                   example: "Entitlement token revoked"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post(
+  '/tokens/introspect',
+  auth,
+  [body('token').isString().notEmpty().withMessage('token required')],
+  validateRequest,
+  AccessController.introspectToken
+);
+
+/**
+ * @swagger
+ * /api/v1/access/.well-known/jwks.json:
+ *   get:
+ *     tags: [Access]
+ *     summary: Entitlement token signing keys
+ *     description: Public keys for verifying entitlement tokens offline. Empty when tokens are signed with a shared HS256 secret.
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ */
+router.get('/.well-known/jwks.json', AccessController.jwks);
+
+export default router;
@@ -0,0 +1,255 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePlatformAdmin } from '../middleware/authorize';
+import ApiKeyController from '../controllers/api-key.controller';
+import { ApiKeyScope } from '../modules/applications';
+
+// Mounted under /v1/applications/:applicationId/api-keys
+const router = Router({ mergeParams: true });
+
+router.use(auth, requirePlatformAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         applicationId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: HealOS production
+ *         keyPrefix:
+ *           type: string
+ *           example: bk_3f9a1c2e7b4d5a60
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [access:verify, seats:write, usage:report]
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     CreatedApiKey:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ApiKey'
+ *         - type: object
+ *           properties:
+ *             key:
+ *               type: string
+ *               description: Plaintext key, returned only once
+ */
+
+/**
+ * @swagger
+ * /api/v1/applications/{applicationId}/api-keys:
+ *   post:
+ *     tags: [Applications]
+ *     summary: Create an API key
+ *     description: Creates a service-to-service API key for a product backend. The plaintext key is returned only in this response. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, scopes]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [access:verify, seats:write, usage:report]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CreatedApiKey'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Application not found
+ *   get:
+ *     tags: [Applications]
+ *     summary: List API keys
+ *     description: Lists an application's keys, including revoked ones. Hashes and plaintext keys are never returned.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: API keys
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/',
+  [
+    param('applicationId').isUUID(),
+    body('name').isString().trim().notEmpty().withMessage('name required'),
+    body('scopes').isArray({ min: 1 }).withMessage('scopes must be a non-empty array'),
+    body('scopes.*').isIn(Object.values(ApiKeyScope)).withMessage(`scopes must be one of: ${Object.values(ApiKeyScope).join(', ')}`),
+    body('expiresAt').optional().isISO8601()
+  ],
+  validateRequest,
+  ApiKeyController.create
+);
+
+router.get('/', [param('applicationId').isUUID()], validateRequest, ApiKeyController.list);
+
+/**
+ * @swagger
+ * /api/v1/applications/{applicationId}/api-keys/{keyId}/rotate:
+ *   post:
+ *     tags: [Applications]
+ *     summary: Rotate an API key
+ *     description: Issues a replacement key with the same name and scopes. The previous key stays valid for gracePeriodSeconds (default API_KEY_ROTATION_GRACE_PERIOD); 0 revokes it immediately.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               gracePeriodSeconds:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       201:
+ *         description: Replacement key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CreatedApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Key not found
+ *       409:
+ *         description: Key already revoked
+ */
+router.post(
+  '/:keyId/rotate',
+  [
+    param('applicationId').isUUID(),
+    param('keyId').isUUID(),
+    body('gracePeriodSeconds').optional().isInt({ min: 0 }).toInt()
+  ],
+  validateRequest,
+  ApiKeyController.rotate
+);
+
+/**
+ * @swagger
+ * /api/v1/applications/{applicationId}/api-keys/{keyId}/revoke:
+ *   post:
+ *     tags: [Applications]
+ *     summary: Revoke an API key
+ *     description: Revokes a key immediately. The key row is kept for audit.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Key revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Key not found
+ *       409:
+ *         description: Key already revoked
+ */
+router.post(
+  '/:keyId/revoke',
+  [param('applicationId').isUUID(), param('keyId').isUUID()],
+  validateRequest,
+  ApiKeyController.revoke
+);
+
+export default router;
@@ -0,0 +1,437 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { ApplicationStatus } from '@prisma/client';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePlatformAdmin } from '../middleware/authorize';
+import ApplicationController from '../controllers/application.controller';
+
+const router = Router();
+
+router.use(auth);
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const applicationFields = [
+  body('description').optional().isString(),
+  body('version').optional().isString(),
+  body('homepage').optional().isURL(),
+  body('logo').optional().isURL(),
+  body('category').optional().isString(),
+  body('tags').optional().isArray(),
+  body('tags.*').isString(),
+  body('features').optional().isArray(),
+  body('features.*').isString(),
+  body('platforms').optional().isArray(),
+  body('platforms.*').isString(),
+  body('webhookUrl').optional().isURL(),
+  body('config').optional().isObject(),
+  body('metadata').optional().isObject()
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Application:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: HealOS
+ *         slug:
+ *           type: string
+ *           example: healos
+ *         description:
+ *           type: string
+ *         version:
+ *           type: string
+ *           example: 1.0.0
+ *         homepage:
+ *           type: string
+ *         logo:
+ *           type: string
+ *         category:
+ *           type: string
+ *           example: Healthcare
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         features:
+ *           type: array
+ *           items:
+ *             type: string
+ *         platforms:
+ *           type: array
+ *           items:
+ *             type: string
+ *         webhookUrl:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [ACTIVE, INACTIVE, MAINTENANCE]
+ *         isActive:
+ *           type: boolean
+ *         config:
+ *           type: object
+ *         metadata:
+ *           type: object
+ *         totalOrganizations:
+ *           type: integer
+ *           description: Organizations with an active, trialing or past-due subscription
+ *         totalActiveSubscriptions:
+ *           type: integer
+ *           description: Active and trialing subscriptions
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     ApplicationInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         slug:
+ *           type: string
+ *           description: Create only; derived from the name when omitted
+ *         description:
+ *           type: string
+ *         version:
+ *           type: string
+ *         homepage:
+ *           type: string
+ *         logo:
+ *           type: string
+ *         category:
+ *           type: string
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         features:
+ *           type: array
+ *           items:
+ *             type: string
+ *         platforms:
+ *           type: array
+ *           items:
+ *             type: string
+ *         webhookUrl:
+ *           type: string
+ *         config:
+ *           type: object
+ *         metadata:
+ *           type: object
+ */
+
+/**
+ * @swagger
+ * /api/v1/applications:
+ *   post:
+ *     tags: [Applications]
+ *     summary: Add an application to the catalog
+ *     description: Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplicationInput'
+ *     responses:
+ *       201:
+ *         description: Application created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Application'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Slug already taken
+ *   get:
+ *     tags: [Applications]
+ *     summary: List applications
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, INACTIVE, MAINTENANCE]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: A page of applications
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Application'
+ *                 meta:
+ *                   type: object
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post(
+  '/',
+  requirePlatformAdmin,
+  [
+    body('name').isString().trim().notEmpty().withMessage('name required'),
+    body('slug').optional().matches(slugPattern).isLength({ min: 2, max: 50 })
+      .withMessage('slug must be 2-50 lowercase letters, numbers and single hyphens'),
+    ...applicationFields
+  ],
+  validateRequest,
+  ApplicationController.create
+);
+
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('search').optional().isString(),
+    query('status').optional().isIn(Object.values(ApplicationStatus)),
+    query('category').optional().isString(),
+    query('sortBy').optional().isString(),
+    query('sortOrder').optional().isIn(['asc', 'desc'])
+  ],
+  validateRequest,
+  ApplicationController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/applications/slug/{slug}:
+ *   get:
+ *     tags: [Applications]
+ *     summary: Get an application by slug
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Application
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Application'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Application not found
+ */
+router.get(
+  '/slug/:slug',
+  [param('slug').matches(slugPattern)],
+  validateRequest,
+  ApplicationController.getBySlug
+);
+
+/**
+ * @swagger
+ * /api/v1/applications/{applicationId}:
+ *   get:
+ *     tags: [Applications]
+ *     summary: Get an application
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Application
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Application'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Application not found
+ *   patch:
+ *     tags: [Applications]
+ *     summary: Update an application
+ *     description: Updates catalog fields. Lists and config replace the stored values; metadata keys are merged. The slug cannot be changed. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplicationInput'
+ *     responses:
+ *       200:
+ *         description: Application updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Application'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Application not found
+ *   delete:
+ *     tags: [Applications]
+ *     summary: Delete an application
+ *     description: Deletes an application that has no plans, subscriptions or organization mappings, together with its API keys. Otherwise set it INACTIVE. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Application deleted
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application is still referenced
+ */
+router.get(
+  '/:applicationId',
+  [param('applicationId').isUUID()],
+  validateRequest,
+  ApplicationController.get
+);
+
+router.patch(
+  '/:applicationId',
+  requirePlatformAdmin,
+  [
+    param('applicationId').isUUID(),
+    body('name').optional().isString().trim().notEmpty(),
+    ...applicationFields
+  ],
+  validateRequest,
+  ApplicationController.update
+);
+
+router.delete(
+  '/:applicationId',
+  requirePlatformAdmin,
+  [param('applicationId').isUUID()],
+  validateRequest,
+  ApplicationController.remove
+);
+
+/**
+ * @swagger
+ * /api/v1/applications/{applicationId}/status:
+ *   patch:
+ *     tags: [Applications]
+ *     summary: Change an application's status
+ *     description: ACTIVE can move to MAINTENANCE or INACTIVE, MAINTENANCE back to ACTIVE or to INACTIVE, and INACTIVE back to ACTIVE. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACTIVE, INACTIVE, MAINTENANCE]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Application'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Transition not allowed
+ */
+router.patch(
+  '/:applicationId/status',
+  requirePlatformAdmin,
+  [
+    param('applicationId').isUUID(),
+    body('status').isIn(Object.values(ApplicationStatus))
+      .withMessage(`status must be one of: ${Object.values(ApplicationStatus).join(', ')}`),
+    body('reason').optional().isString()
+  ],
+  validateRequest,
+  ApplicationController.changeStatus
+);
+
+export default router;
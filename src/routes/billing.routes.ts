@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { body } from 'express-validator';
 import validateRequest from '../middleware/validateRequest';
 import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import { Permission } from '../modules/auth';
 import BillingController from '../controllers/billing.controller';
 
 const router = Router();
@@ -12,7 +14,7 @@ const router = Router();
  *   post:
  *     tags: [Subscriptions]
  *     summary: Create a new customer
- *     description: Creates a new customer in the billing system
+ *     description: Creates a new customer in the billing system. Requires billing:manage (OWNER)
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -45,12 +47,15 @@ const router = Router();
  *                       format: date-time
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  */
 router.post(
   '/customers',
   auth,
+  requirePermission(Permission.BILLING_MANAGE),
   [body('email').isEmail().withMessage('Valid email required')],
   validateRequest,
   BillingController.createCustomer
@@ -62,7 +67,7 @@ router.post(
  *   post:
  *     tags: [Subscriptions]
  *     summary: Create a new subscription
- *     description: Creates a new subscription for a customer
+ *     description: Creates a new subscription for a customer. Requires subscriptions:manage (OWNER)
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -76,12 +81,15 @@ router.post(
  *         description: Subscription created successfully
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  */
 router.post(
   '/subscriptions',
   auth,
+  requirePermission(Permission.SUBSCRIPTIONS_MANAGE),
   [body('customerId').isString(), body('priceId').isString()],
   validateRequest,
   BillingController.createSubscription
@@ -93,7 +101,7 @@ router.post(
  *   get:
  *     tags: [Subscriptions]
  *     summary: Get all subscriptions
- *     description: Retrieves a list of all subscriptions
+ *     description: Retrieves a list of all subscriptions. Requires subscriptions:read (OWNER, BILLING_ADMIN)
  *     security:
  *       - BearerAuth: []
  *     responses:
@@ -105,7 +113,14 @@ router.post(
  *               $ref: '#/components/schemas/SubscriptionResponse'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  */
-router.get('/subscriptions', auth, BillingController.getSubscriptions);
+router.get(
+  '/subscriptions',
+  auth,
+  requirePermission(Permission.SUBSCRIPTIONS_READ),
+  BillingController.getSubscriptions
+);
 
 export default router;
@@ -0,0 +1,187 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import ExternalOrgMappingController from '../controllers/external-org-mapping.controller';
+import { Permission } from '../modules/auth/permissions';
+
+// Mounted under /v1/organizations/:organizationId/external-mappings
+const router = Router({ mergeParams: true });
+
+router.use(auth);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExternalOrgMapping:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         organizationId:
+ *           type: string
+ *         applicationId:
+ *           type: string
+ *         applicationSlug:
+ *           type: string
+ *           example: healos
+ *         externalOrgId:
+ *           type: string
+ *           example: hosp_48213
+ *         externalOrgKey:
+ *           type: string
+ *           example: hospital_id
+ *         metadata:
+ *           type: object
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/external-mappings:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Attach an external organization ID
+ *     description: Maps an application's own organization identifier to this organization so product-facing endpoints can be called with X-External-Org-Id. Each external ID can be mapped once per application. Requires organization:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [applicationSlug, externalOrgId]
+ *             properties:
+ *               applicationSlug:
+ *                 type: string
+ *               externalOrgId:
+ *                 type: string
+ *               externalOrgKey:
+ *                 type: string
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Mapping created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExternalOrgMapping'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Organization or application not found
+ *       409:
+ *         description: External ID already mapped for this application
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List external organization IDs
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: applicationSlug
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Mappings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExternalOrgMapping'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/',
+  [
+    param('organizationId').isUUID(),
+    body('applicationSlug').isString().notEmpty().withMessage('applicationSlug required'),
+    body('externalOrgId').isString().trim().notEmpty().withMessage('externalOrgId required'),
+    body('externalOrgKey').optional().isString(),
+    body('metadata').optional().isObject()
+  ],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_MANAGE),
+  ExternalOrgMappingController.attach
+);
+
+router.get(
+  '/',
+  [param('organizationId').isUUID(), query('applicationSlug').optional().isString()],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_READ),
+  ExternalOrgMappingController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/external-mappings/{mappingId}:
+ *   delete:
+ *     tags: [Organizations]
+ *     summary: Remove an external organization ID
+ *     description: Requires organization:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: mappingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Mapping removed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Mapping not found
+ */
+router.delete(
+  '/:mappingId',
+  [param('organizationId').isUUID(), param('mappingId').isUUID()],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_MANAGE),
+  ExternalOrgMappingController.remove
+);
+
+export default router;
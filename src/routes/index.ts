@@ -1,10 +1,34 @@
 import { Router } from 'express';
 import billingRoutes from './billing.routes';
 import healthRoutes from './health.routes';
+import accessRoutes from './access.routes';
+import apiKeyRoutes from './api-key.routes';
+import applicationRoutes from './application.routes';
+import planRoutes from './plan.routes';
+import subscriptionRoutes from './subscription.routes';
+import seatRoutes from './seat.routes';
+import seatBulkRoutes from './seat-bulk.routes';
+import stripeWebhookEventRoutes from './stripe-webhook-event.routes';
+import organizationRoutes from './organization.routes';
+import externalOrgMappingRoutes from './external-org-mapping.routes';
+import userRoutes from './user.routes';
+import invitationRoutes from './invitation.routes';
 
 const router = Router();
 
 router.use('/', healthRoutes);
 router.use('/billing', billingRoutes);
+router.use('/v1/access', accessRoutes);
+router.use('/v1/applications/:applicationId/api-keys', apiKeyRoutes);
+router.use('/v1/applications', applicationRoutes);
+router.use('/v1/plans', planRoutes);
+router.use('/v1/subscriptions/:subscriptionId/seats', seatRoutes);
+router.use('/v1/seats', seatBulkRoutes);
+router.use('/v1/subscriptions', subscriptionRoutes);
+router.use('/v1/webhooks/stripe/events', stripeWebhookEventRoutes);
+router.use('/v1/organizations/:organizationId/external-mappings', externalOrgMappingRoutes);
+router.use('/v1/organizations/:organizationId/users', userRoutes);
+router.use('/v1', invitationRoutes);
+router.use('/v1/organizations', organizationRoutes);
 
 export default router;
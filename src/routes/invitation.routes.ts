@@ -0,0 +1,245 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import InvitationController from '../controllers/invitation.controller';
+import { Permission } from '../modules/auth/permissions';
+import { ASSIGNABLE_ROLES, InvitationStatus } from '../modules/users';
+
+// Mounted under /v1: organization invitations plus acceptance by the invitee,
+// who is not yet a member of the organization
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Invitation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         organizationId:
+ *           type: string
+ *         email:
+ *           type: string
+ *           example: jane.doe@acme.com
+ *         role:
+ *           type: string
+ *           enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *         status:
+ *           type: string
+ *           enum: [PENDING, ACCEPTED, EXPIRED, REVOKED]
+ *         invitedByUserId:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         acceptedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/invitations:
+ *   post:
+ *     tags: [Users]
+ *     summary: Invite a user by email
+ *     description: Creates a single-use invitation that expires after INVITATION_TTL seconds, replacing any pending invitation for the same email. The token is returned only in this response. It is accepted with POST /api/v1/invitations/accept, or automatically when a Clerk account is registered for the email. Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *     responses:
+ *       201:
+ *         description: Invitation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Invitation'
+ *                 - type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     acceptUrl:
+ *                       type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Email already belongs to a member
+ *   get:
+ *     tags: [Users]
+ *     summary: List invitations
+ *     description: Requires users:read.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, ACCEPTED, EXPIRED, REVOKED]
+ *     responses:
+ *       200:
+ *         description: Invitations, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Invitation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/organizations/:organizationId/invitations',
+  auth,
+  [
+    param('organizationId').isUUID(),
+    body('email').isEmail().withMessage('email required'),
+    body('role').optional().isIn(ASSIGNABLE_ROLES)
+  ],
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  InvitationController.invite
+);
+
+router.get(
+  '/organizations/:organizationId/invitations',
+  auth,
+  [param('organizationId').isUUID(), query('status').optional().isIn(Object.values(InvitationStatus))],
+  validateRequest,
+  requirePermission(Permission.USERS_READ),
+  InvitationController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/invitations/{invitationId}/revoke:
+ *   post:
+ *     tags: [Users]
+ *     summary: Revoke an invitation
+ *     description: Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Invitation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation is no longer pending
+ */
+router.post(
+  '/organizations/:organizationId/invitations/:invitationId/revoke',
+  auth,
+  [param('organizationId').isUUID(), param('invitationId').isUUID()],
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  InvitationController.revoke
+);
+
+/**
+ * @swagger
+ * /api/v1/invitations/accept:
+ *   post:
+ *     tags: [Users]
+ *     summary: Accept an invitation
+ *     description: Joins the signed-in user to the invitation's organization with the invited role. The user's email must match the invited email and the user must not belong to another organization.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invitation accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Invitation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Invitation was sent to a different email
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation is no longer pending, or the user already belongs to an organization
+ */
+router.post(
+  '/invitations/accept',
+  auth,
+  [body('token').isString().notEmpty().withMessage('token required')],
+  validateRequest,
+  InvitationController.accept
+);
+
+export default router;
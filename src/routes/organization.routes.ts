@@ -0,0 +1,546 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { OrganizationStatus } from '@prisma/client';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission, requirePlatformAdmin } from '../middleware/authorize';
+import OrganizationController from '../controllers/organization.controller';
+import { Permission } from '../modules/auth/permissions';
+import { ASSIGNABLE_ROLES } from '../modules/users';
+
+const router = Router();
+
+router.use(auth);
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const organizationFields = [
+  body('slug').optional().matches(slugPattern).isLength({ min: 2, max: 50 })
+    .withMessage('slug must be 2-50 lowercase letters, numbers and single hyphens'),
+  body('description').optional().isString(),
+  body('website').optional().isURL(),
+  body('logo').optional().isURL(),
+  body('industry').optional().isString(),
+  body('size').optional().isString(),
+  body('contactEmail').optional().isEmail(),
+  body('billingEmail').optional().isEmail(),
+  body('taxId').optional().isString(),
+  body('address').optional().isObject(),
+  body('metadata').optional().isObject()
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Organization:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Acme Corp
+ *         slug:
+ *           type: string
+ *           example: acme-corp
+ *         description:
+ *           type: string
+ *         website:
+ *           type: string
+ *         logo:
+ *           type: string
+ *         industry:
+ *           type: string
+ *         size:
+ *           type: string
+ *         contactEmail:
+ *           type: string
+ *         billingEmail:
+ *           type: string
+ *           example: billing@acme.com
+ *         taxId:
+ *           type: string
+ *         address:
+ *           type: object
+ *         ownerUserId:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [ACTIVE, SUSPENDED, DELETED]
+ *         isActive:
+ *           type: boolean
+ *         metadata:
+ *           type: object
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         externalMappings:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ExternalOrgMapping'
+ *     OrganizationInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         description:
+ *           type: string
+ *         website:
+ *           type: string
+ *         logo:
+ *           type: string
+ *         industry:
+ *           type: string
+ *         size:
+ *           type: string
+ *         contactEmail:
+ *           type: string
+ *         billingEmail:
+ *           type: string
+ *         taxId:
+ *           type: string
+ *         address:
+ *           type: object
+ *         metadata:
+ *           type: object
+ */
+
+/**
+ * @swagger
+ * /api/v1/organizations:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Create an organization
+ *     description: Creates an organization owned by the caller, who becomes its OWNER. The slug is derived from the name when omitted; billingEmail defaults to contactEmail, then the caller's email.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/OrganizationInput'
+ *               - type: object
+ *                 required: [name]
+ *                 properties:
+ *                   externalMappings:
+ *                     type: array
+ *                     description: External organization IDs to attach (see external-mappings)
+ *                     items:
+ *                       type: object
+ *                       required: [applicationSlug, externalOrgId]
+ *                       properties:
+ *                         applicationSlug:
+ *                           type: string
+ *                         externalOrgId:
+ *                           type: string
+ *                         externalOrgKey:
+ *                           type: string
+ *     responses:
+ *       201:
+ *         description: Organization created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Slug taken, or the caller already belongs to an organization
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List organizations
+ *     description: Paginated list of organizations that are not deleted. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: search
+ *         description: Matches name or slug
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, SUSPENDED]
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [name, slug, status, createdAt, updatedAt]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: A page of organizations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Organization'
+ *                 meta:
+ *                   type: object
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/',
+  [
+    body('name').isString().trim().notEmpty().withMessage('name required'),
+    ...organizationFields,
+    body('externalMappings').optional().isArray(),
+    body('externalMappings.*.applicationSlug').isString().notEmpty(),
+    body('externalMappings.*.externalOrgId').isString().trim().notEmpty(),
+    body('externalMappings.*.externalOrgKey').optional().isString()
+  ],
+  validateRequest,
+  OrganizationController.create
+);
+
+router.get(
+  '/',
+  requirePlatformAdmin,
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('search').optional().isString(),
+    query('status').optional().isIn(Object.values(OrganizationStatus)),
+    query('sortBy').optional().isString(),
+    query('sortOrder').optional().isIn(['asc', 'desc'])
+  ],
+  validateRequest,
+  OrganizationController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/slug/{slug}:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: Get an organization by slug
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Organization not found
+ */
+router.get(
+  '/slug/:slug',
+  requirePermission(Permission.ORGANIZATION_READ, { organization: () => undefined }),
+  [param('slug').matches(slugPattern)],
+  validateRequest,
+  OrganizationController.getBySlug
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: Get an organization
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Organization not found
+ *   patch:
+ *     tags: [Organizations]
+ *     summary: Update an organization
+ *     description: Updates billing and profile fields. Metadata keys are merged into the stored metadata. Requires organization:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrganizationInput'
+ *     responses:
+ *       200:
+ *         description: Organization updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Slug already taken
+ *   delete:
+ *     tags: [Organizations]
+ *     summary: Delete an organization
+ *     description: Soft deletes the organization (status DELETED, deletedAt set). Refused while it has active, trialing or past-due subscriptions. Requires organization:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Organization deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Organization still has live subscriptions
+ */
+router.get(
+  '/:organizationId',
+  [param('organizationId').isUUID()],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_READ),
+  OrganizationController.get
+);
+
+router.patch(
+  '/:organizationId',
+  [
+    param('organizationId').isUUID(),
+    body('name').optional().isString().trim().notEmpty(),
+    ...organizationFields
+  ],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_MANAGE),
+  OrganizationController.update
+);
+
+router.delete(
+  '/:organizationId',
+  [param('organizationId').isUUID()],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_MANAGE),
+  OrganizationController.remove
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/ownership-transfer:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Transfer ownership
+ *     description: Makes another ACTIVE member the OWNER. The previous owner becomes previousOwnerRole (default ADMIN). Only the current owner can transfer.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [newOwnerUserId]
+ *             properties:
+ *               newOwnerUserId:
+ *                 type: string
+ *                 format: uuid
+ *               previousOwnerRole:
+ *                 type: string
+ *                 enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *     responses:
+ *       200:
+ *         description: Ownership transferred
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: New owner is not a member
+ *       409:
+ *         description: New owner is not ACTIVE or already the owner
+ */
+router.post(
+  '/:organizationId/ownership-transfer',
+  [
+    param('organizationId').isUUID(),
+    body('newOwnerUserId').isUUID().withMessage('newOwnerUserId must be a UUID'),
+    body('previousOwnerRole').optional().isIn(ASSIGNABLE_ROLES)
+  ],
+  validateRequest,
+  requirePermission(Permission.ORGANIZATION_MANAGE),
+  OrganizationController.transferOwnership
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/suspend:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Suspend an organization
+ *     description: Moves an ACTIVE organization to SUSPENDED and revokes issued entitlement tokens. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Organization suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Organization is not ACTIVE
+ */
+router.post(
+  '/:organizationId/suspend',
+  requirePlatformAdmin,
+  [param('organizationId').isUUID(), body('reason').optional().isString()],
+  validateRequest,
+  OrganizationController.suspend
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/reactivate:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Reactivate an organization
+ *     description: Returns a SUSPENDED organization to ACTIVE. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Organization reactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Organization is not SUSPENDED
+ */
+router.post(
+  '/:organizationId/reactivate',
+  requirePlatformAdmin,
+  [param('organizationId').isUUID()],
+  validateRequest,
+  OrganizationController.reactivate
+);
+
+export default router;
@@ -0,0 +1,378 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { BillingInterval } from '@prisma/client';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePlatformAdmin } from '../middleware/authorize';
+import PlanController from '../controllers/plan.controller';
+
+const router = Router();
+
+router.use(auth);
+
+const planFields = [
+  body('description').optional().isString(),
+  body('currency').optional().isISO4217().withMessage('currency must be an ISO 4217 code'),
+  body('minSeats').optional().isInt({ min: 1 }).toInt(),
+  body('trialPeriodDays').optional().isInt({ min: 0, max: 365 }).toInt(),
+  body('features').optional().isArray(),
+  body('features.*').isString(),
+  body('metadata').optional().isObject()
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SubscriptionPlan:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         applicationId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: HealOS Professional
+ *         slug:
+ *           type: string
+ *           example: healos-professional
+ *         description:
+ *           type: string
+ *         pricePerSeat:
+ *           type: integer
+ *           description: Price per seat in cents
+ *           example: 9900
+ *         currency:
+ *           type: string
+ *           example: USD
+ *         billingInterval:
+ *           type: string
+ *           enum: [MONTHLY, YEARLY, ONE_TIME]
+ *         minSeats:
+ *           type: integer
+ *         maxSeats:
+ *           type: integer
+ *         trialPeriodDays:
+ *           type: integer
+ *         features:
+ *           type: array
+ *           items:
+ *             type: string
+ *         isActive:
+ *           type: boolean
+ *           description: False once the plan is archived
+ *         metadata:
+ *           type: object
+ *         stripePriceId:
+ *           type: string
+ *         stripeProductId:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/plans:
+ *   post:
+ *     tags: [Plans]
+ *     summary: Create a subscription plan
+ *     description: Creates the Stripe Product and Price for the plan, or links an existing Stripe Price whose amount, currency and interval match. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [applicationId, name, pricePerSeat, billingInterval]
+ *             properties:
+ *               applicationId:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: Derived from the name when omitted; unique per application
+ *               description:
+ *                 type: string
+ *               pricePerSeat:
+ *                 type: integer
+ *                 description: Price per seat in cents
+ *               currency:
+ *                 type: string
+ *                 default: USD
+ *               billingInterval:
+ *                 type: string
+ *                 enum: [MONTHLY, YEARLY, ONE_TIME]
+ *               minSeats:
+ *                 type: integer
+ *               maxSeats:
+ *                 type: integer
+ *               trialPeriodDays:
+ *                 type: integer
+ *               features:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               metadata:
+ *                 type: object
+ *               stripePriceId:
+ *                 type: string
+ *                 description: Link an existing Stripe Price instead of creating one
+ *     responses:
+ *       201:
+ *         description: Plan created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SubscriptionPlan'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Slug or Stripe price already used
+ *       422:
+ *         description: Plan breaks a business rule (seat limits, price range, trial length)
+ *   get:
+ *     tags: [Plans]
+ *     summary: List subscription plans
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: applicationId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: A page of plans
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SubscriptionPlan'
+ *                 meta:
+ *                   type: object
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post(
+  '/',
+  requirePlatformAdmin,
+  [
+    body('applicationId').isUUID(),
+    body('name').isString().trim().notEmpty().withMessage('name required'),
+    body('slug').optional().matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).isLength({ min: 2, max: 50 }),
+    body('pricePerSeat').isInt({ min: 0 }).toInt().withMessage('pricePerSeat must be a whole number of cents'),
+    body('billingInterval').isIn(Object.values(BillingInterval)),
+    body('maxSeats').optional().isInt({ min: 1 }).toInt(),
+    body('stripePriceId').optional().matches(/^price_/),
+    ...planFields
+  ],
+  validateRequest,
+  PlanController.create
+);
+
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('search').optional().isString(),
+    query('applicationId').optional().isUUID(),
+    query('includeArchived').optional().isBoolean().toBoolean(),
+    query('sortBy').optional().isString(),
+    query('sortOrder').optional().isIn(['asc', 'desc'])
+  ],
+  validateRequest,
+  PlanController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/plans/{planId}:
+ *   get:
+ *     tags: [Plans]
+ *     summary: Get a subscription plan
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SubscriptionPlan'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Plan not found
+ *   patch:
+ *     tags: [Plans]
+ *     summary: Update a subscription plan
+ *     description: Name and description are synced to the Stripe Product. Changing pricePerSeat, currency or billingInterval creates a new Stripe Price and archives the old one; existing subscribers stay on their current price. isActive false archives the plan, true restores it. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               pricePerSeat:
+ *                 type: integer
+ *               currency:
+ *                 type: string
+ *               billingInterval:
+ *                 type: string
+ *                 enum: [MONTHLY, YEARLY, ONE_TIME]
+ *               minSeats:
+ *                 type: integer
+ *               maxSeats:
+ *                 type: integer
+ *                 nullable: true
+ *               trialPeriodDays:
+ *                 type: integer
+ *               features:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               metadata:
+ *                 type: object
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Plan updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SubscriptionPlan'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Plan not found
+ *       422:
+ *         description: Plan breaks a business rule
+ *   delete:
+ *     tags: [Plans]
+ *     summary: Delete or archive a subscription plan
+ *     description: Deletes the plan, or archives it when subscriptions still refer to it. The Stripe Product and Price are archived in both cases. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Plan deleted or archived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deleted:
+ *                   type: boolean
+ *                 plan:
+ *                   $ref: '#/components/schemas/SubscriptionPlan'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Plan not found
+ */
+router.get(
+  '/:planId',
+  [param('planId').isUUID()],
+  validateRequest,
+  PlanController.get
+);
+
+router.patch(
+  '/:planId',
+  requirePlatformAdmin,
+  [
+    param('planId').isUUID(),
+    body('name').optional().isString().trim().notEmpty(),
+    body('pricePerSeat').optional().isInt({ min: 0 }).toInt(),
+    body('billingInterval').optional().isIn(Object.values(BillingInterval)),
+    body('maxSeats').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+    body('isActive').optional().isBoolean(),
+    ...planFields
+  ],
+  validateRequest,
+  PlanController.update
+);
+
+router.delete(
+  '/:planId',
+  requirePlatformAdmin,
+  [param('planId').isUUID()],
+  validateRequest,
+  PlanController.remove
+);
+
+export default router;
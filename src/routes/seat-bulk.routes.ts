@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import bodyParser from 'body-parser';
+import { body, query } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import SeatController from '../controllers/seat.controller';
+import config from '../config';
+import { Permission } from '../modules/auth/permissions';
+import { MAX_BULK_SEAT_ROWS } from '../modules/seats';
+
+// Mounted under /v1/seats
+const router = Router();
+
+router.use(auth);
+
+/**
+ * @swagger
+ * /api/v1/seats/bulk:
+ *   post:
+ *     tags: [Seats]
+ *     summary: Assign seats in bulk
+ *     description: |
+ *       Onboards up to 500 people from rows of email, role and applicationSlug, sent as a JSON body or as CSV
+ *       (Content-Type text/csv, with a header row). Members of the organization get a seat on its subscription to
+ *       the application; other emails are invited with the row's role and get a reserved seat (PENDING_INVITE) that
+ *       counts against capacity, which needs users:manage. Rows are checked against the current seats first, and
+ *       each row is reported as ASSIGNED, INVITED, SKIPPED (duplicates, members who already hold the seat and emails
+ *       with a seat already reserved) or FAILED. With dryRun nothing changes and the report shows what would
+ *       happen, including the seat shortfall of each subscription. Otherwise rows are applied one at a time, so a
+ *       failed row does not undo the others. Requires seats:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Preview the import; for CSV uploads
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rows]
+ *             properties:
+ *               rows:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     email:
+ *                       type: string
+ *                       format: email
+ *                     role:
+ *                       type: string
+ *                       enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *                     applicationSlug:
+ *                       type: string
+ *               dryRun:
+ *                 type: boolean
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               email,role,applicationSlug
+ *               dr.jane.doe@stmarys.org,MEMBER,healos
+ *     responses:
+ *       200:
+ *         description: Dry-run report
+ *       201:
+ *         description: Import report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                 total:
+ *                   type: integer
+ *                 assigned:
+ *                   type: integer
+ *                 invited:
+ *                   type: integer
+ *                 skipped:
+ *                   type: integer
+ *                 failed:
+ *                   type: integer
+ *                 capacity:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       applicationSlug:
+ *                         type: string
+ *                       subscriptionId:
+ *                         type: string
+ *                       capacity:
+ *                         type: integer
+ *                       assigned:
+ *                         type: integer
+ *                       requested:
+ *                         type: integer
+ *                       shortfall:
+ *                         type: integer
+ *                 rows:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       row:
+ *                         type: integer
+ *                       email:
+ *                         type: string
+ *                       applicationSlug:
+ *                         type: string
+ *                       outcome:
+ *                         type: string
+ *                         enum: [ASSIGNED, INVITED, SKIPPED, FAILED]
+ *                       seatId:
+ *                         type: string
+ *                       invitationId:
+ *                         type: string
+ *                       acceptUrl:
+ *                         type: string
+ *                       code:
+ *                         type: string
+ *                       errors:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *       400:
+ *         description: No rows, more than 500 rows, or malformed CSV
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/bulk',
+  bodyParser.text({ type: 'text/csv', limit: config.performance.maxRequestSize }),
+  requirePermission(Permission.SEATS_MANAGE),
+  [
+    query('dryRun').optional().isBoolean(),
+    body('rows')
+      .if((_value, { req }) => !req.is('text/csv'))
+      .isArray({ min: 1, max: MAX_BULK_SEAT_ROWS })
+      .withMessage(`rows must be an array of 1 to ${MAX_BULK_SEAT_ROWS} rows`),
+    body('rows.*')
+      .if((_value, { req }) => !req.is('text/csv'))
+      .isObject(),
+    body('dryRun').if((_value, { req }) => !req.is('text/csv')).optional().isBoolean()
+  ],
+  validateRequest,
+  SeatController.bulk
+);
+
+export default router;
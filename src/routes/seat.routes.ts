@@ -0,0 +1,468 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { SeatStatus } from '@prisma/client';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import SeatController from '../controllers/seat.controller';
+import { Permission } from '../modules/auth/permissions';
+import { ASSIGNABLE_ROLES } from '../modules/users';
+
+// Mounted under /v1/subscriptions/:subscriptionId/seats
+const router = Router({ mergeParams: true });
+
+router.use(auth);
+
+const seatParams = [
+  param('subscriptionId').isUUID(),
+  param('seatId').isUUID()
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Seat:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         subscriptionId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *           description: Absent while the seat is reserved for an invitation
+ *         invitationId:
+ *           type: string
+ *           description: Invitation the seat was reserved for
+ *         invitedEmail:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [ACTIVE, PENDING_INVITE, SCHEDULED, REMOVED]
+ *         statusReason:
+ *           type: string
+ *         assignedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the seat started, or starts while SCHEDULED
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the seat is released automatically
+ *         expiryNotifiedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the organization owner was warned about the expiry
+ *         removedAt:
+ *           type: string
+ *           format: date-time
+ *         assignedBy:
+ *           type: string
+ *           description: User ID of the admin who assigned the seat
+ *         metadata:
+ *           type: object
+ *         user:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             email:
+ *               type: string
+ *             fullName:
+ *               type: string
+ *         subscription:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             organizationId:
+ *               type: string
+ *             planId:
+ *               type: string
+ *             status:
+ *               type: string
+ */
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/seats:
+ *   get:
+ *     tags: [Seats]
+ *     summary: List a subscription's seats
+ *     description: Oldest assignment first. Requires seats:read.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, PENDING_INVITE, SCHEDULED, REMOVED]
+ *     responses:
+ *       200:
+ *         description: Seats
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Seat'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription not found
+ */
+router.get(
+  '/',
+  requirePermission(Permission.SEATS_READ),
+  [
+    param('subscriptionId').isUUID(),
+    query('status').optional().isIn(Object.values(SeatStatus))
+  ],
+  validateRequest,
+  SeatController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/seats:
+ *   post:
+ *     tags: [Seats]
+ *     summary: Assign a seat to a member
+ *     description: |
+ *       Assigns one of the subscription's seats to an active member of the organization, reactivating the user's
+ *       released seat if there is one. Concurrent assignments are serialized per subscription, so the last seat
+ *       cannot be given out twice. While a seat reduction is scheduled, only the scheduled quantity can be
+ *       assigned. A future assignedAt reserves the seat as SCHEDULED until then, and expiresAt releases it
+ *       automatically; scheduled seats count as taken. Requires seats:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 format: uuid
+ *               assignedAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Seat assigned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Seat'
+ *       400:
+ *         description: expiresAt is not after the seat starts
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription or user not found
+ *       409:
+ *         description: |
+ *           Every seat is assigned (NO_SEATS_AVAILABLE), the user already has a seat or is not active, or the
+ *           subscription is not active
+ */
+router.post(
+  '/',
+  requirePermission(Permission.SEATS_MANAGE),
+  [
+    param('subscriptionId').isUUID(),
+    body('userId').isUUID().withMessage('userId must be a UUID'),
+    body('assignedAt').optional().isISO8601().toDate(),
+    body('expiresAt').optional().isISO8601().toDate(),
+    body('metadata').optional().isObject()
+  ],
+  validateRequest,
+  SeatController.assign
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/seats/invitations:
+ *   post:
+ *     tags: [Seats]
+ *     summary: Reserve a seat for an email
+ *     description: |
+ *       Invites an email that is not a member yet and holds a PENDING_INVITE seat for it, which counts against
+ *       the quantity like an assigned seat. The invitation's single-use token is returned once. When the
+ *       invitee accepts, or signs up with Clerk using the invited email, the seat becomes theirs and ACTIVE.
+ *       Unaccepted reservations expire after SEAT_RESERVATION_DAYS and free the seat. Reserving again for
+ *       the same email resends the invitation and keeps the reservation. Requires seats:manage and
+ *       users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Invitation (with token and acceptUrl) and the reserved seats
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitation:
+ *                   type: object
+ *                 seats:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Seat'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription not found
+ *       409:
+ *         description: Every seat is taken (NO_SEATS_AVAILABLE), the email is already a member, or the subscription is not active
+ */
+router.post(
+  '/invitations',
+  requirePermission(Permission.SEATS_MANAGE),
+  requirePermission(Permission.USERS_MANAGE),
+  [
+    param('subscriptionId').isUUID(),
+    body('email').isEmail().withMessage('email must be an email address'),
+    body('role').optional().isIn(ASSIGNABLE_ROLES),
+    body('metadata').optional().isObject()
+  ],
+  validateRequest,
+  SeatController.reserve
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/seats/{seatId}:
+ *   patch:
+ *     tags: [Seats]
+ *     summary: Update a seat
+ *     description: |
+ *       Changes an assigned or scheduled seat's expiry, status reason or metadata. A null expiresAt removes the
+ *       expiry; a new expiry is warned about again. A reserved seat expires with its invitation, so its expiry
+ *       cannot be changed here. Requires seats:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: seatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               statusReason:
+ *                 type: string
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Updated seat
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Seat'
+ *       400:
+ *         description: expiresAt is not after the seat starts
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription or seat not found
+ *       409:
+ *         description: Seat is not assigned, or the subscription is not active
+ */
+router.patch(
+  '/:seatId',
+  requirePermission(Permission.SEATS_MANAGE),
+  [
+    ...seatParams,
+    body('expiresAt').optional({ nullable: true }).isISO8601().toDate(),
+    body('statusReason').optional().isString().isLength({ max: 500 }),
+    body('metadata').optional().isObject()
+  ],
+  validateRequest,
+  SeatController.update
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/seats/{seatId}:
+ *   delete:
+ *     tags: [Seats]
+ *     summary: Release a seat
+ *     description: |
+ *       Marks an assigned, scheduled or reserved seat REMOVED, freeing it for another member. Requires
+ *       seats:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: seatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Released seat
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Seat'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription or seat not found
+ *       409:
+ *         description: Seat is not assigned, or the subscription is not active
+ */
+router.delete(
+  '/:seatId',
+  requirePermission(Permission.SEATS_MANAGE),
+  seatParams,
+  validateRequest,
+  SeatController.unassign
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/seats/{seatId}/reassign:
+ *   post:
+ *     tags: [Seats]
+ *     summary: Move a seat to another member
+ *     description: |
+ *       Releases the seat and assigns the subscription's seat to another active member in one step, so it works
+ *       even when every seat is taken. The new seat keeps the old one's expiry. Returns the new member's seat.
+ *       Requires seats:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: seatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: The new member's seat
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Seat'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription, seat or user not found
+ *       409:
+ *         description: |
+ *           Seat is not assigned or is only scheduled, the user already has a seat or is not active, or the
+ *           subscription is not active
+ */
+router.post(
+  '/:seatId/reassign',
+  requirePermission(Permission.SEATS_MANAGE),
+  [
+    ...seatParams,
+    body('userId').isUUID().withMessage('userId must be a UUID')
+  ],
+  validateRequest,
+  SeatController.reassign
+);
+
+export default router;
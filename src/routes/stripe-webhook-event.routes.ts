@@ -0,0 +1,287 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePlatformAdmin } from '../middleware/authorize';
+import StripeWebhookEventController from '../controllers/stripe-webhook-event.controller';
+
+// Mounted under /v1/webhooks/stripe/events
+const router = Router();
+
+router.use(auth, requirePlatformAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StripeWebhookEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *           example: evt_1OaBcD2eZvKYlo2C
+ *         eventType:
+ *           type: string
+ *           example: invoice.payment_failed
+ *         processed:
+ *           type: boolean
+ *         processedAt:
+ *           type: string
+ *           format: date-time
+ *         error:
+ *           type: string
+ *           description: Error from the last failed attempt
+ *         retryCount:
+ *           type: integer
+ *         nextRetryAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the retry worker will next attempt the event
+ *         deadLetteredAt:
+ *           type: string
+ *           format: date-time
+ *           description: Set once automatic retries are exhausted
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         payload:
+ *           type: object
+ *           description: Complete Stripe event; only when fetching a single event
+ *     StripeWebhookReplaySummary:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *         succeeded:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         results:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               eventId:
+ *                 type: string
+ *               eventType:
+ *                 type: string
+ *               processed:
+ *                 type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/v1/webhooks/stripe/events:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: List received Stripe events
+ *     description: Newest first. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: processed
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: hasError
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: deadLettered
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: A page of events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StripeWebhookEvent'
+ *                 meta:
+ *                   type: object
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('eventType').optional().isString(),
+    query('processed').optional().isBoolean().toBoolean(),
+    query('hasError').optional().isBoolean().toBoolean(),
+    query('deadLettered').optional().isBoolean().toBoolean(),
+    query('from').optional().isISO8601().toDate(),
+    query('to').optional().isISO8601().toDate(),
+    query('sortBy').optional().isString(),
+    query('sortOrder').optional().isIn(['asc', 'desc'])
+  ],
+  validateRequest,
+  StripeWebhookEventController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/stripe/events/replay:
+ *   post:
+ *     tags: [Webhooks]
+ *     summary: Replay Stripe events received in a time range
+ *     description: Applies each matching event again, oldest first, through the live webhook handlers. Only events that were never applied successfully, including dead-lettered ones, are replayed unless includeProcessed is set. Dead-lettered events are requeued. At most 500 events per request. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [from, to]
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *               eventType:
+ *                 type: string
+ *               includeProcessed:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Also replay events that were already applied; invoice events rewrite their payments from the stored snapshot
+ *     responses:
+ *       200:
+ *         description: Replay outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StripeWebhookReplaySummary'
+ *       400:
+ *         description: Invalid range, or more than 500 events match
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/replay',
+  [
+    body('from').isISO8601().toDate().withMessage('from must be an ISO 8601 date'),
+    body('to').isISO8601().toDate().withMessage('to must be an ISO 8601 date'),
+    body('eventType').optional().isString(),
+    body('includeProcessed').optional().isBoolean().toBoolean()
+  ],
+  validateRequest,
+  StripeWebhookEventController.replayRange
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/stripe/events/{eventId}:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: Get a received Stripe event with its payload
+ *     description: Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         description: Stored event ID (not the Stripe event ID)
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StripeWebhookEvent'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Event not found
+ */
+router.get(
+  '/:eventId',
+  [param('eventId').isUUID()],
+  validateRequest,
+  StripeWebhookEventController.get
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/stripe/events/{eventId}/replay:
+ *   post:
+ *     tags: [Webhooks]
+ *     summary: Replay a Stripe event
+ *     description: Applies the event again through the live webhook handlers, whatever its current state, and returns its updated state. A dead-lettered event is requeued with a fresh set of retries. Requires platform administrator access.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Event after the replay; check processed and error for the outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StripeWebhookEvent'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Event not found
+ */
+router.post(
+  '/:eventId/replay',
+  [param('eventId').isUUID()],
+  validateRequest,
+  StripeWebhookEventController.replay
+);
+
+export default router;
@@ -0,0 +1,435 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import SubscriptionController from '../controllers/subscription.controller';
+import { Permission } from '../modules/auth/permissions';
+import { ProrationBehavior, QuantityChangeTiming } from '../modules/subscriptions';
+
+const router = Router();
+
+router.use(auth);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/checkout:
+ *   post:
+ *     tags: [Subscriptions]
+ *     summary: Start a Stripe Checkout for a new subscription
+ *     description: |
+ *       Creates the organization's Stripe customer if needed, records a PENDING subscription and returns a Stripe
+ *       Checkout URL for the plan's price, seat quantity and trial. The subscription is activated by the Stripe
+ *       webhook once checkout completes. Acts on the caller's organization (or X-Organization-Id).
+ *       Requires subscriptions:manage (OWNER).
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [planId, quantity]
+ *             properties:
+ *               planId:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Seats to purchase, within the plan's minSeats and maxSeats
+ *               successUrl:
+ *                 type: string
+ *                 description: Defaults to {FRONTEND_URL}/billing/success?session_id={CHECKOUT_SESSION_ID}
+ *               cancelUrl:
+ *                 type: string
+ *                 description: Defaults to {FRONTEND_URL}/billing
+ *     responses:
+ *       201:
+ *         description: Checkout session created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 subscriptionId:
+ *                   type: string
+ *                 checkoutSessionId:
+ *                   type: string
+ *                 checkoutUrl:
+ *                   type: string
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Plan not found or archived
+ *       409:
+ *         description: The organization already subscribes to the application (DUPLICATE_SUBSCRIPTION)
+ */
+router.post(
+  '/checkout',
+  requirePermission(Permission.SUBSCRIPTIONS_MANAGE),
+  [
+    body('planId').isUUID(),
+    body('quantity').isInt({ min: 1 }).toInt().withMessage('quantity must be a positive integer'),
+    body('successUrl').optional().isURL({ require_tld: false }),
+    body('cancelUrl').optional().isURL({ require_tld: false })
+  ],
+  validateRequest,
+  SubscriptionController.checkout
+);
+
+const quantityChange = [
+  param('subscriptionId').isUUID(),
+  body('quantity').isInt({ min: 1 }).toInt().withMessage('quantity must be a positive integer'),
+  body('prorationBehavior').optional().isIn(Object.values(ProrationBehavior)),
+  body('prorationDate').optional().isInt({ min: 0 }).toInt(),
+  body('applyAt').optional().isIn(Object.values(QuantityChangeTiming)),
+  body('releaseSeatIds').optional().isArray(),
+  body('releaseSeatIds.*').isUUID()
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     QuantityChangeInput:
+ *       type: object
+ *       required: [quantity]
+ *       properties:
+ *         quantity:
+ *           type: integer
+ *           minimum: 1
+ *           description: |
+ *             New seat count within the plan's minSeats and maxSeats. Sending the current count cancels a
+ *             scheduled reduction.
+ *         applyAt:
+ *           type: string
+ *           enum: [period_end, immediately]
+ *           default: period_end
+ *           description: |
+ *             When a reduction takes effect. period_end keeps the current seats until the period ends;
+ *             immediately applies it now and credits the unused time according to prorationBehavior.
+ *             Increases always apply immediately.
+ *         releaseSeatIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *           description: |
+ *             Filled seats to release so the remaining users fit a reduced quantity: now for an immediate
+ *             reduction, when it takes effect for one scheduled at the period end
+ *         prorationBehavior:
+ *           type: string
+ *           enum: [create_prorations, always_invoice, none]
+ *           default: create_prorations
+ *           description: |
+ *             create_prorations adds the prorated difference to the next invoice, always_invoice charges it
+ *             immediately, none bills the new quantity from the next period
+ *         prorationDate:
+ *           type: integer
+ *           description: prorationDate from the preview (Unix seconds), so the change is billed exactly as previewed
+ */
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/quantity/preview:
+ *   post:
+ *     tags: [Subscriptions]
+ *     summary: Preview the cost of changing seats
+ *     description: |
+ *       Prices a seat change against Stripe's upcoming invoice without changing anything. Pass the returned
+ *       prorationDate to the quantity endpoint to apply the change as previewed. Amounts are in cents; a
+ *       negative prorationAmount is a credit. Requires subscriptions:manage (OWNER).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuantityChangeInput'
+ *     responses:
+ *       200:
+ *         description: Proration preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 subscriptionId:
+ *                   type: string
+ *                 currentQuantity:
+ *                   type: integer
+ *                 quantity:
+ *                   type: integer
+ *                 prorationBehavior:
+ *                   type: string
+ *                 applyAt:
+ *                   type: string
+ *                   enum: [period_end, immediately]
+ *                 prorationDate:
+ *                   type: integer
+ *                 prorationAmount:
+ *                   type: integer
+ *                 amountDueNow:
+ *                   type: integer
+ *                 nextInvoiceAmount:
+ *                   type: integer
+ *                 nextInvoiceDate:
+ *                   type: string
+ *                   format: date-time
+ *                 currency:
+ *                   type: string
+ *       400:
+ *         description: Quantity is unchanged or outside the plan's seat limits, or a seat to release is not assigned
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription not found
+ *       409:
+ *         description: |
+ *           Subscription is not active or is set to cancel, or more users are assigned than the reduced quantity
+ *           (TOO_MANY_USERS_ASSIGNED, with the assigned users and how many to remove in error.details)
+ */
+router.post(
+  '/:subscriptionId/quantity/preview',
+  requirePermission(Permission.SUBSCRIPTIONS_MANAGE),
+  quantityChange,
+  validateRequest,
+  SubscriptionController.previewQuantity
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/quantity:
+ *   post:
+ *     tags: [Subscriptions]
+ *     summary: Change the number of seats on a subscription
+ *     description: |
+ *       Updates the Stripe subscription item's quantity with the chosen proration behavior. The local seat
+ *       quantity is updated only after Stripe accepts the change; with always_invoice a declined charge fails
+ *       the request and nothing changes. A reduction is rejected while more users are assigned than the new
+ *       quantity, unless releaseSeatIds frees enough seats. By default it is scheduled for the end of the
+ *       period and shows as scheduledQuantity until then; the seats it releases stay assigned until then
+ *       and expire when it applies. Requires subscriptions:manage (OWNER).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuantityChangeInput'
+ *     responses:
+ *       200:
+ *         description: Quantity changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 subscriptionId:
+ *                   type: string
+ *                 previousQuantity:
+ *                   type: integer
+ *                 quantity:
+ *                   type: integer
+ *                 prorationBehavior:
+ *                   type: string
+ *                 applyAt:
+ *                   type: string
+ *                   enum: [period_end, immediately]
+ *                 effectiveAt:
+ *                   type: string
+ *                   format: date-time
+ *                   description: When the new quantity takes effect
+ *                 releasedSeatIds:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Seats released now, or set to expire at effectiveAt for a scheduled reduction
+ *                 invoiceId:
+ *                   type: string
+ *                   description: Invoice charged for the change (always_invoice only)
+ *       400:
+ *         description: |
+ *           Quantity is unchanged or outside the plan's seat limits, a seat to release is not assigned, or
+ *           Stripe refused the change (STRIPE_ERROR, e.g. a declined charge)
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription not found
+ *       409:
+ *         description: |
+ *           Subscription is not active or is set to cancel, or more users are assigned than the reduced quantity
+ *           (TOO_MANY_USERS_ASSIGNED, with the assigned users and how many to remove in error.details)
+ */
+router.post(
+  '/:subscriptionId/quantity',
+  requirePermission(Permission.SUBSCRIPTIONS_MANAGE),
+  quantityChange,
+  validateRequest,
+  SubscriptionController.changeQuantity
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SubscriptionCancellation:
+ *       type: object
+ *       properties:
+ *         subscriptionId:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [TRIALING, ACTIVE, PAST_DUE, CANCELED, INCOMPLETE, PAUSED]
+ *         cancelAtPeriodEnd:
+ *           type: boolean
+ *         canceledAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the cancellation was requested
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the subscription ends (the period end), or ended
+ *         reason:
+ *           type: string
+ *         releasedSeats:
+ *           type: integer
+ *           description: Seats released because the subscription ended
+ */
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/cancel:
+ *   post:
+ *     tags: [Subscriptions]
+ *     summary: Cancel a subscription
+ *     description: |
+ *       Cancels the Stripe subscription at the end of the current period (default) or immediately. At the period
+ *       end the subscription and its seats stay in place until then, a scheduled seat reduction is dropped, and
+ *       the cancellation can be undone with the reactivate endpoint. An immediate cancellation ends the
+ *       subscription and releases its seats as soon as Stripe confirms it. The reason is stored in the
+ *       subscription's metadata and sent to Stripe. Requires subscriptions:manage (OWNER).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cancelAtPeriodEnd:
+ *                 type: boolean
+ *                 default: true
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Subscription canceled, or set to cancel at the end of the period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SubscriptionCancellation'
+ *       400:
+ *         description: Stripe refused the cancellation (STRIPE_ERROR)
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription not found
+ *       409:
+ *         description: Subscription has already ended, has not started, or is already set to cancel at the period end
+ */
+router.post(
+  '/:subscriptionId/cancel',
+  requirePermission(Permission.SUBSCRIPTIONS_MANAGE),
+  [
+    param('subscriptionId').isUUID(),
+    body('cancelAtPeriodEnd').optional().isBoolean().toBoolean(),
+    body('reason').optional().isString().trim().isLength({ max: 500 })
+  ],
+  validateRequest,
+  SubscriptionController.cancel
+);
+
+/**
+ * @swagger
+ * /api/v1/subscriptions/{subscriptionId}/reactivate:
+ *   post:
+ *     tags: [Subscriptions]
+ *     summary: Undo a pending cancellation
+ *     description: |
+ *       Keeps a subscription that is set to cancel at the end of the period, in Stripe and locally. A seat
+ *       reduction dropped by the cancellation is not restored. Requires subscriptions:manage (OWNER).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subscriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Subscription reactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SubscriptionCancellation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Subscription not found
+ *       409:
+ *         description: Subscription is not set to cancel, or has already ended
+ */
+router.post(
+  '/:subscriptionId/reactivate',
+  requirePermission(Permission.SUBSCRIPTIONS_MANAGE),
+  [param('subscriptionId').isUUID()],
+  validateRequest,
+  SubscriptionController.reactivate
+);
+
+export default router;
@@ -0,0 +1,483 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { UserRole, UserStatus } from '@prisma/client';
+import validateRequest from '../middleware/validateRequest';
+import auth from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+import UserController from '../controllers/user.controller';
+import { Permission } from '../modules/auth/permissions';
+import { ASSIGNABLE_ROLES } from '../modules/users';
+
+// Mounted under /v1/organizations/:organizationId/users
+const router = Router({ mergeParams: true });
+
+router.use(auth);
+
+const profileFields = [
+  body('department').optional().isString(),
+  body('jobTitle').optional().isString(),
+  body('phone').optional().isString(),
+  body('avatar').optional().isURL(),
+  body('timezone').optional().isString(),
+  body('locale').optional().isString(),
+  body('metadata').optional().isObject()
+];
+
+const userParams = [param('organizationId').isUUID(), param('userId').isUUID()];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         clerkUserId:
+ *           type: string
+ *           example: user_2abc123
+ *         email:
+ *           type: string
+ *           example: john.doe@acme.com
+ *         fullName:
+ *           type: string
+ *           example: John Doe
+ *         organizationId:
+ *           type: string
+ *           nullable: true
+ *         role:
+ *           type: string
+ *           enum: [OWNER, ADMIN, BILLING_ADMIN, MEMBER]
+ *         status:
+ *           type: string
+ *           enum: [ACTIVE, INACTIVE, SUSPENDED]
+ *         isActive:
+ *           type: boolean
+ *         department:
+ *           type: string
+ *         jobTitle:
+ *           type: string
+ *         phone:
+ *           type: string
+ *         avatar:
+ *           type: string
+ *         timezone:
+ *           type: string
+ *         locale:
+ *           type: string
+ *         metadata:
+ *           type: object
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/users:
+ *   post:
+ *     tags: [Users]
+ *     summary: Add a user
+ *     description: Adds an existing Clerk account to the organization. People without an account are invited instead. Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, fullName, clerkUserId]
+ *             properties:
+ *               email:
+ *                 type: string
+ *               fullName:
+ *                 type: string
+ *               clerkUserId:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: User added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Email or Clerk account already in use
+ *   get:
+ *     tags: [Users]
+ *     summary: List users
+ *     description: Requires users:read.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [OWNER, ADMIN, BILLING_ADMIN, MEMBER]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, INACTIVE, SUSPENDED]
+ *       - in: query
+ *         name: search
+ *         description: Matches email or full name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: A page of users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/User'
+ *                 meta:
+ *                   type: object
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/',
+  [
+    param('organizationId').isUUID(),
+    body('email').isEmail().withMessage('email required'),
+    body('fullName').isString().trim().notEmpty().withMessage('fullName required'),
+    body('clerkUserId').isString().notEmpty().withMessage('clerkUserId required'),
+    body('role').optional().isIn(ASSIGNABLE_ROLES),
+    ...profileFields
+  ],
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  UserController.create
+);
+
+router.get(
+  '/',
+  [
+    param('organizationId').isUUID(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('search').optional().isString(),
+    query('role').optional().isIn(Object.values(UserRole)),
+    query('status').optional().isIn(Object.values(UserStatus)),
+    query('sortBy').optional().isString(),
+    query('sortOrder').optional().isIn(['asc', 'desc'])
+  ],
+  validateRequest,
+  requirePermission(Permission.USERS_READ),
+  UserController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/users/{userId}:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get a user
+ *     description: Requires users:read.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: User not found
+ *   patch:
+ *     tags: [Users]
+ *     summary: Update a user's profile
+ *     description: Updates the name and profile fields. Metadata keys are merged into the stored metadata. Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fullName:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *               jobTitle:
+ *                 type: string
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: User updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: User not found
+ *   delete:
+ *     tags: [Users]
+ *     summary: Delete a user
+ *     description: Soft deletes the user (status INACTIVE, deletedAt set) and frees their seats. The owner must transfer ownership first. Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is the organization owner
+ */
+router.get(
+  '/:userId',
+  userParams,
+  validateRequest,
+  requirePermission(Permission.USERS_READ),
+  UserController.get
+);
+
+router.patch(
+  '/:userId',
+  [...userParams, body('fullName').optional().isString().trim().notEmpty(), ...profileFields],
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  UserController.update
+);
+
+router.delete(
+  '/:userId',
+  userParams,
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  UserController.remove
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/users/{userId}/role:
+ *   patch:
+ *     tags: [Users]
+ *     summary: Change a user's role
+ *     description: Grants ADMIN, BILLING_ADMIN or MEMBER. The OWNER role only moves through an ownership transfer. Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, BILLING_ADMIN, MEMBER]
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: User is the organization owner
+ */
+router.patch(
+  '/:userId/role',
+  [...userParams, body('role').isIn(ASSIGNABLE_ROLES).withMessage(`role must be one of ${ASSIGNABLE_ROLES.join(', ')}`)],
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  UserController.changeRole
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/users/{userId}/status:
+ *   patch:
+ *     tags: [Users]
+ *     summary: Change a user's status
+ *     description: Activates, deactivates or suspends a user. Suspension revokes the user's entitlement tokens. The owner's status cannot be changed. Requires users:manage.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACTIVE, INACTIVE, SUSPENDED]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: User is the organization owner or already has this status
+ */
+router.patch(
+  '/:userId/status',
+  [
+    ...userParams,
+    body('status').isIn(Object.values(UserStatus)).withMessage('status must be ACTIVE, INACTIVE or SUSPENDED'),
+    body('reason').optional().isString()
+  ],
+  validateRequest,
+  requirePermission(Permission.USERS_MANAGE),
+  UserController.changeStatus
+);
+
+export default router;
@@ -3,6 +3,8 @@ import { createServer } from 'http';
 import app from './app';
 import config from './config';
 import logger from './utils/logger';
+import { stripeWebhookRetryWorker } from './modules/webhooks';
+import { seatScheduleWorker } from './modules/seats';
 
 const port = config.port;
 
@@ -10,6 +12,8 @@ const server = createServer(app);
 
 server.listen(port, () => {
   logger.info(`Billing service listening on port ${port}`);
+  stripeWebhookRetryWorker.start();
+  seatScheduleWorker.start();
 });
 
 process.on('unhandledRejection', (reason) => {
@@ -137,6 +137,26 @@ export class PaginatedResponseDto<T> extends BaseDto {
     this.data = data;
     this.meta = meta;
   }
+
+  /**
+   * Build a page of results with its metadata from the total row count
+   */
+  static of<T>(data: T[], total: number, page: number, limit: number): PaginatedResponseDto<T> {
+    const totalPages = Math.ceil(total / limit);
+    const hasPrevious = page > 1;
+    const hasNext = page < totalPages;
+
+    return new PaginatedResponseDto(data, {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasPrevious,
+      hasNext,
+      previousPage: hasPrevious ? page - 1 : undefined,
+      nextPage: hasNext ? page + 1 : undefined,
+    });
+  }
 }
 
 export enum ErrorType {
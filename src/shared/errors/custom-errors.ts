@@ -20,6 +20,14 @@ export enum ErrorCode {
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
   ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
   ACCOUNT_DISABLED = 'ACCOUNT_DISABLED',
+  INVALID_API_KEY = 'INVALID_API_KEY',
+  
+  // Authorization errors
+  INSUFFICIENT_ROLE = 'INSUFFICIENT_ROLE',
+  INSUFFICIENT_PERMISSIONS = 'INSUFFICIENT_PERMISSIONS',
+  ORGANIZATION_ACCESS_DENIED = 'ORGANIZATION_ACCESS_DENIED',
+  PLATFORM_ADMIN_REQUIRED = 'PLATFORM_ADMIN_REQUIRED',
+  INSUFFICIENT_SCOPE = 'INSUFFICIENT_SCOPE',
   
   // Validation errors
   VALIDATION_ERROR = 'VALIDATION_ERROR',
@@ -35,6 +43,8 @@ export enum ErrorCode {
   CUSTOMER_NOT_FOUND = 'CUSTOMER_NOT_FOUND',
   INVOICE_NOT_FOUND = 'INVOICE_NOT_FOUND',
   DUPLICATE_SUBSCRIPTION = 'DUPLICATE_SUBSCRIPTION',
+  TOO_MANY_USERS_ASSIGNED = 'TOO_MANY_USERS_ASSIGNED',
+  NO_SEATS_AVAILABLE = 'NO_SEATS_AVAILABLE',
   
   // External service errors
   STRIPE_ERROR = 'STRIPE_ERROR',
@@ -317,6 +327,39 @@ export class PaymentError extends BaseError {
   }
 }
 
+/**
+ * A seat reduction that would leave more assigned users than seats. Lists
+ * the assigned users so the caller can choose whom to remove.
+ */
+export class SeatsInUseError extends BaseError {
+  public readonly details: {
+    filledSeats: number;
+    requestedSeats: number;
+    usersToRemove: number;
+    // userId is null for seats reserved for an invitation, identified by its email
+    assignedUsers: Array<{ seatId: string; userId: string | null; email: string | null }>;
+  };
+
+  constructor(
+    details: SeatsInUseError['details'],
+    context?: Partial<ErrorContext>
+  ) {
+    super(
+      `Cannot reduce to ${details.requestedSeats} seats while ${details.filledSeats} users are assigned; remove ${details.usersToRemove} first`,
+      409,
+      ErrorCode.TOO_MANY_USERS_ASSIGNED,
+      ErrorSeverity.LOW,
+      true,
+      context
+    );
+    this.details = details;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), details: this.details };
+  }
+}
+
 export class StripeError extends BaseError {
   public readonly stripeCode?: string;
 
@@ -50,6 +50,7 @@ import {
   isCriticalError,
   ValidationError,
   RateLimitError,
+  SeatsInUseError,
   ServiceUnavailableError
 } from '../errors/custom-errors';
 
@@ -343,6 +344,11 @@ class EnhancedErrorHandler {
       response.error.retryAfter = error.retryAfter;
     }
 
+    // Add the assigned users a seat reduction would strand
+    if (error instanceof SeatsInUseError) {
+      response.error.details = error.details;
+    }
+
     // Add stack trace in development or for operational errors
     if (this.isDevelopment && error.stack) {
       response.error.stack = error.stack;
@@ -4,6 +4,7 @@ import Stripe from 'stripe';
 import RedisClient from '../../infrastructure/cache/redis.client';
 import logger from '../utils/logger.util';
 import config from '../../config';
+import { entitlementCache } from '../../modules/access/entitlement-cache.service';
 
 export interface HealthCheckResult {
   service: string;
@@ -517,6 +518,9 @@ export const systemMetrics = async (req: Request, res: Response, next: NextFunct
       environment: {
         nodeEnv: config.nodeEnv,
         version: process.env.npm_package_version || '1.0.0'
+      },
+      cache: {
+        entitlements: entitlementCache.getMetrics()
       }
     };
     
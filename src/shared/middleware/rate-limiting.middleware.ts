@@ -1,9 +1,11 @@
+import { createHash } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
 import slowDown from 'express-slow-down';
 import RedisClient from '../../infrastructure/cache/redis.client';
 import logger from '../../shared/utils/logger.util';
 import config from '../../config';
+import { extractApiKey } from '../../modules/applications/api-key.service';
 
 interface RateLimitOptions {
   windowMs: number;
@@ -14,6 +16,28 @@ interface RateLimitOptions {
   handler?: (req: Request, res: Response) => void;
 }
 
+/**
+ * Identify the caller for rate limiting. Product backends are keyed on their
+ * Application once apiKeyAuth has verified the key, so one application's
+ * keys share a bucket and rotating a key does not reset it. Before that an
+ * API key only identifies itself, by hash: anyone can send a known prefix,
+ * so it must not reach the application's bucket. Other callers keep the
+ * previous Authorization/user-id/IP keys.
+ */
+export const getRateLimitIdentity = (req: Request): string => {
+  const application = (req as Request & { application?: { id: string } }).application;
+  if (application) {
+    return `application:${application.id}`;
+  }
+
+  const apiKey = extractApiKey(req);
+  if (apiKey) {
+    return `api-key:${createHash('sha256').update(apiKey).digest('hex')}`;
+  }
+
+  return String(req.headers.authorization || req.headers['user-id'] || req.ip);
+};
+
 /**
  * Enterprise-grade rate limiting middleware with Redis backing
  * Supports per-IP, per-user, and per-endpoint limits
@@ -112,13 +136,9 @@ class RateLimitManager {
       max: 100,
       skipSuccessfulRequests: false,
       skipFailedRequests: true,
-      keyGenerator: (req: Request) => {
-        // Extract user ID from JWT token or session
-        const userId = req.headers.authorization || req.headers['user-id'] || req.ip;
-        return String(userId);
-      },
+      keyGenerator: (req: Request) => getRateLimitIdentity(req),
       handler: (req: Request, res: Response) => {
-        const userId = req.headers.authorization || req.headers['user-id'];
+        const userId = getRateLimitIdentity(req);
         
         logger.warn('User rate limit exceeded', {
           userId,
@@ -156,14 +176,11 @@ class RateLimitManager {
       max: 10, // Very strict for sensitive endpoints
       skipSuccessfulRequests: false,
       skipFailedRequests: false,
-      keyGenerator: (req: Request) => {
-        const userId = req.headers.authorization || req.headers['user-id'] || req.ip;
-        return `${endpoint}:${userId}`;
-      },
+      keyGenerator: (req: Request) => `${endpoint}:${getRateLimitIdentity(req)}`,
       handler: (req: Request, res: Response) => {
         logger.warn('Endpoint rate limit exceeded', {
           endpoint,
-          userId: req.headers.authorization || req.headers['user-id'],
+          userId: getRateLimitIdentity(req),
           ip: req.ip,
           correlationId: req.headers['x-correlation-id']
         });
@@ -283,6 +300,12 @@ export const rateLimiters = {
     max: 5
   }),
 
+  // API-key callers, per application; mount after apiKeyAuth
+  application: new RateLimitManager().createEndpointRateLimit('application', {
+    windowMs: 60 * 1000, // 1 minute
+    max: 100
+  }),
+
   // Payment endpoints (very strict)
   payment: new RateLimitManager().createEndpointRateLimit('payment', {
     windowMs: 60 * 1000, // 1 minute
@@ -0,0 +1,64 @@
+/**
+ * Parse CSV text (RFC 4180: comma-separated, optionally double-quoted
+ * fields with "" escapes, CRLF or LF line endings) into one record per
+ * line, keyed by the trimmed header row. Blank lines are skipped and
+ * values are trimmed. Throws when a quoted field is never closed.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines = splitCsv(text.replace(/^\uFEFF/, ''))
+    .filter((fields) => fields.some((field) => field.trim() !== ''));
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const headers = lines[0].map((header) => header.trim());
+
+  return lines.slice(1).map((fields) =>
+    Object.fromEntries(headers.map((header, index) => [header, (fields[index] ?? '').trim()]))
+  );
+}
+
+function splitCsv(text: string): string[][] {
+  const lines: string[][] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      lines.push([...fields, field]);
+      fields = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  lines.push([...fields, field]);
+
+  return lines;
+}
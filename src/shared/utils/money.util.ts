@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Currencies Stripe charges in whole units, with no minor unit
+ * (https://stripe.com/docs/currencies#zero-decimal)
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+  'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+]);
+
+/**
+ * Currencies whose minor unit is a thousandth
+ * (https://stripe.com/docs/currencies#three-decimal)
+ */
+const THREE_DECIMAL_CURRENCIES = new Set(['BHD', 'JOD', 'KWD', 'OMR', 'TND']);
+
+/**
+ * Number of decimal places in a currency's minor unit as Stripe counts it
+ */
+export function currencyDecimals(currency: string): number {
+  const code = currency.toUpperCase();
+
+  if (ZERO_DECIMAL_CURRENCIES.has(code)) {
+    return 0;
+  }
+  return THREE_DECIMAL_CURRENCIES.has(code) ? 3 : 2;
+}
+
+/**
+ * Convert a stored amount (Decimal(10, 2), in major units) to the integer
+ * minor units Stripe and the API use: cents, or whole units for
+ * zero-decimal currencies such as JPY
+ */
+export function toCents(amount: Prisma.Decimal | number | string, currency: string): number {
+  return new Prisma.Decimal(amount)
+    .mul(10 ** currencyDecimals(currency))
+    .toDecimalPlaces(0, Prisma.Decimal.ROUND_HALF_UP)
+    .toNumber();
+}
+
+/**
+ * Convert integer minor units to a major-unit amount for storage
+ */
+export function fromCents(cents: number, currency: string): Prisma.Decimal {
+  return new Prisma.Decimal(cents)
+    .div(10 ** currencyDecimals(currency))
+    .toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
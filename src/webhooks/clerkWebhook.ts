@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { clerkWebhookService } from '../modules/webhooks';
+import { BadRequestError } from '../shared/errors/custom-errors';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/webhooks/clerk:
+ *   post:
+ *     tags: [Webhooks]
+ *     summary: Handle Clerk webhook events
+ *     description: Verifies the Svix signature (svix-id, svix-timestamp, svix-signature) against CLERK_WEBHOOK_SECRET. user.created and user.updated create or update the local user; user.deleted soft deletes it and frees its seats. Each svix-id is applied once; redeliveries of a processed event are acknowledged without effect.
+ *     parameters:
+ *       - in: header
+ *         name: svix-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: svix-timestamp
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: svix-signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 example: user.created
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Webhook processed (or already processed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 received:
+ *                   type: boolean
+ *                   example: true
+ *                 duplicate:
+ *                   type: boolean
+ *       400:
+ *         description: Missing headers or malformed payload
+ *       401:
+ *         description: Invalid signature or stale timestamp
+ *       500:
+ *         description: Processing failed; Svix will redeliver
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+
+  if (!rawBody) {
+    throw new BadRequestError('Webhook body is required');
+  }
+
+  const result = await clerkWebhookService.handle(rawBody.toString('utf8'), {
+    id: req.header('svix-id'),
+    timestamp: req.header('svix-timestamp'),
+    signature: req.header('svix-signature'),
+  });
+
+  res.status(200).json({ received: true, duplicate: result.duplicate });
+});
+
+export default router;
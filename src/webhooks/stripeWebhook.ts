@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
-import logger from '../utils/logger';
-import config from '../config';
+import { stripeWebhookService } from '../modules/webhooks';
+import { BadRequestError } from '../shared/errors/custom-errors';
 
 const router = Router();
 
@@ -10,7 +10,13 @@ const router = Router();
  *   post:
  *     tags: [Webhooks]
  *     summary: Handle Stripe webhook events
- *     description: Processes incoming Stripe webhook events for payment and subscription updates
+ *     description: Verifies the stripe-signature header against STRIPE_WEBHOOK_SECRET, stores the event and acknowledges it; the event is applied in the background. Each Stripe event ID is stored once; redeliveries are acknowledged with duplicate true.
+ *     parameters:
+ *       - in: header
+ *         name: stripe-signature
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
@@ -19,7 +25,7 @@ const router = Router();
  *             $ref: '#/components/schemas/StripeWebhookPayload'
  *     responses:
  *       200:
- *         description: Webhook processed successfully
+ *         description: Event accepted (or already received)
  *         content:
  *           application/json:
  *             schema:
@@ -28,56 +34,25 @@ const router = Router();
  *                 received:
  *                   type: boolean
  *                   example: true
- *       500:
- *         description: Webhook processing failed
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 error:
- *                   type: string
- *                   example: "Webhook handler failed"
+ *                 duplicate:
+ *                   type: boolean
+ *       400:
+ *         description: Missing signature header or malformed payload
+ *       401:
+ *         description: Invalid signature or stale timestamp
+ *       503:
+ *         description: STRIPE_WEBHOOK_SECRET is not configured
  */
-// Stripe webhook endpoint
 router.post('/', async (req: Request, res: Response) => {
-  try {
-    const sig = req.headers['stripe-signature'] as string;
-    
-    logger.info('Received Stripe webhook', {
-      signature: sig ? 'present' : 'missing',
-      body: req.body
-    });
-    
-    // Mock webhook processing
-    // In production, you would verify the webhook signature and process events
-    const event = req.body;
-    
-    switch (event.type) {
-      case 'customer.subscription.created':
-        logger.info('Subscription created:', event.data.object);
-        break;
-      case 'customer.subscription.updated':
-        logger.info('Subscription updated:', event.data.object);
-        break;
-      case 'customer.subscription.deleted':
-        logger.info('Subscription deleted:', event.data.object);
-        break;
-      case 'invoice.payment_succeeded':
-        logger.info('Payment succeeded:', event.data.object);
-        break;
-      case 'invoice.payment_failed':
-        logger.info('Payment failed:', event.data.object);
-        break;
-      default:
-        logger.info('Unhandled event type:', event.type);
-    }
-    
-    res.status(200).json({ received: true });
-  } catch (error) {
-    logger.error('Stripe webhook error:', error);
-    res.status(500).json({ error: 'Webhook handler failed' });
+  const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+
+  if (!rawBody) {
+    throw new BadRequestError('Webhook body is required');
   }
+
+  const result = await stripeWebhookService.receive(rawBody, req.header('stripe-signature'));
+
+  res.status(200).json({ received: true, duplicate: result.duplicate });
 });
 
-export default router;
\ No newline at end of file
+export default router;
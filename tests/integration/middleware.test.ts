@@ -64,7 +64,7 @@ describe('Integration Tests - Full Middleware Stack', () => {
   });
 
   describe('JSON Parsing', () => {
-    it('should handle requests to webhook endpoint', async () => {
+    it('should reject unsigned requests to the webhook endpoint', async () => {
       const mockStripeEvent = {
         type: 'customer.subscription.created',
         data: {
@@ -80,8 +80,8 @@ describe('Integration Tests - Full Middleware Stack', () => {
         .send(mockStripeEvent)
         .set('Content-Type', 'application/json');
 
-      // Webhook endpoint should respond (200 or 500, not crash the server)
-      expect([200, 500]).toContain(response.status);
+      // Unsigned deliveries are rejected (400), or 503 when no webhook secret is configured
+      expect([400, 503]).toContain(response.status);
     });
   });
 
@@ -0,0 +1,308 @@
+/**
+ * Access Service Tests
+ *
+ * Unit tests for seat access verification, covering every denial reason
+ * and the read-replica routing through the database manager.
+ */
+
+const mockClient = {
+  organizationSubscription: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+  },
+  application: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+  },
+  subscriptionSeat: {
+    groupBy: jest.fn(),
+    findMany: jest.fn(),
+  },
+};
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/access/entitlement-cache.service', () => ({
+  entitlementCache: {
+    getOrLoad: jest.fn(),
+  },
+}));
+
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { accessService } from '../../src/modules/access/access.service';
+import { entitlementCache } from '../../src/modules/access/entitlement-cache.service';
+import { AccessDenialReason } from '../../src/modules/access/dto';
+
+const check = {
+  userId: 'user-1',
+  organizationId: 'org-1',
+  applicationSlug: 'healos',
+};
+
+const buildSubscription = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sub-1',
+  status: 'ACTIVE',
+  quantity: 5,
+  currentPeriodEnd: new Date('2024-02-15T00:00:00.000Z'),
+  seats: [{ id: 'seat-1', status: 'ACTIVE', assignedAt: new Date('2024-01-15T00:00:00.000Z') }],
+  _count: { seats: 3 },
+  organization: { status: 'ACTIVE', deletedAt: null },
+  ...overrides,
+});
+
+describe('AccessService', () => {
+  beforeEach(() => {
+    (databaseManager.executeRead as jest.Mock).mockImplementation((operation) => operation(mockClient));
+    (entitlementCache.getOrLoad as jest.Mock).mockImplementation((_check, loader) => loader());
+  });
+
+  it('should read single checks through the entitlement cache', async () => {
+    (entitlementCache.getOrLoad as jest.Mock).mockResolvedValue({ hasAccess: true });
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toEqual({ hasAccess: true });
+    expect(entitlementCache.getOrLoad).toHaveBeenCalledWith(check, expect.any(Function));
+    expect(databaseManager.executeRead).not.toHaveBeenCalled();
+  });
+
+  it('should run the lookup as a read operation', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(buildSubscription());
+
+    await accessService.verifyAccess(check);
+
+    expect(databaseManager.executeRead).toHaveBeenCalledTimes(1);
+    expect(mockClient.organizationSubscription.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { organizationId: 'org-1', application: { slug: 'healos' } },
+      })
+    );
+  });
+
+  it('should grant access for an active seat on an active subscription', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(buildSubscription());
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result.hasAccess).toBe(true);
+    expect(result.seat).toEqual({ id: 'seat-1', assignedAt: new Date('2024-01-15T00:00:00.000Z') });
+    expect(result.subscription).toMatchObject({ id: 'sub-1', status: 'ACTIVE', seatsUsed: 3, totalSeats: 5 });
+  });
+
+  it('should grant access while trialing', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(buildSubscription({ status: 'TRIALING' }));
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result.hasAccess).toBe(true);
+  });
+
+  it('should deny with NOT_SUBSCRIBED when no subscription exists', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(null);
+    mockClient.application.findUnique.mockResolvedValue({ id: 'app-1' });
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toMatchObject({ hasAccess: false, reason: AccessDenialReason.NOT_SUBSCRIBED });
+    expect(result.subscription).toBeUndefined();
+  });
+
+  it('should deny an unknown application with NOT_SUBSCRIBED, as batch checks do', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(null);
+    mockClient.application.findUnique.mockResolvedValue(null);
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toEqual({
+      hasAccess: false,
+      reason: AccessDenialReason.NOT_SUBSCRIBED,
+      message: "Application 'healos' not found",
+    });
+  });
+
+  it('should deny with SUBSCRIPTION_INACTIVE when past due', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(buildSubscription({ status: 'PAST_DUE' }));
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toMatchObject({
+      hasAccess: false,
+      reason: AccessDenialReason.SUBSCRIPTION_INACTIVE,
+      subscription: { status: 'PAST_DUE' },
+    });
+    expect(result.seat).toBeUndefined();
+  });
+
+  it('should deny with ORGANIZATION_INACTIVE when the organization is suspended', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(
+      buildSubscription({ organization: { status: 'SUSPENDED', deletedAt: null } })
+    );
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toMatchObject({
+      hasAccess: false,
+      reason: AccessDenialReason.ORGANIZATION_INACTIVE,
+      message: 'Organization status: SUSPENDED',
+      subscription: { status: 'ACTIVE' },
+    });
+    expect(result.seat).toBeUndefined();
+  });
+
+  it('should deny with ORGANIZATION_INACTIVE when the organization is soft-deleted', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(
+      buildSubscription({ organization: { status: 'ACTIVE', deletedAt: new Date() } })
+    );
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toMatchObject({ hasAccess: false, reason: AccessDenialReason.ORGANIZATION_INACTIVE });
+  });
+
+  it('should deny with NO_ACTIVE_SEAT when the user has no seat', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(buildSubscription({ seats: [] }));
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result).toMatchObject({
+      hasAccess: false,
+      reason: AccessDenialReason.NO_ACTIVE_SEAT,
+      subscription: { seatsUsed: 3, totalSeats: 5 },
+    });
+  });
+
+  it('should only read seats of active, non-deleted users', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(buildSubscription({ seats: [] }));
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(mockClient.organizationSubscription.findFirst.mock.calls[0][0].include.seats).toEqual({
+      where: { userId: 'user-1', user: { status: 'ACTIVE', deletedAt: null } },
+      take: 1,
+    });
+    expect(result.reason).toBe(AccessDenialReason.NO_ACTIVE_SEAT);
+  });
+
+  it('should deny with NO_ACTIVE_SEAT when the seat was removed', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(
+      buildSubscription({ seats: [{ id: 'seat-1', status: 'REMOVED', assignedAt: new Date() }] })
+    );
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result.reason).toBe(AccessDenialReason.NO_ACTIVE_SEAT);
+  });
+
+  it('should deny with NO_ACTIVE_SEAT once the seat has expired', async () => {
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(
+      buildSubscription({
+        seats: [{ id: 'seat-1', status: 'ACTIVE', assignedAt: new Date('2024-01-15T00:00:00.000Z'), expiresAt: new Date(Date.now() - 1000) }],
+      })
+    );
+
+    const result = await accessService.verifyAccess(check);
+
+    expect(result.reason).toBe(AccessDenialReason.NO_ACTIVE_SEAT);
+  });
+
+  describe('verifyAccessBatch', () => {
+    const activeOrganization = { status: 'ACTIVE', deletedAt: null };
+
+    beforeEach(() => {
+      mockClient.application.findMany.mockResolvedValue([{ id: 'app-1', slug: 'healos' }]);
+      mockClient.organizationSubscription.findMany.mockResolvedValue([
+        { id: 'sub-1', organizationId: 'org-1', applicationId: 'app-1', status: 'ACTIVE', quantity: 5, currentPeriodEnd: null, organization: activeOrganization },
+        { id: 'sub-2', organizationId: 'org-2', applicationId: 'app-1', status: 'CANCELED', quantity: 2, currentPeriodEnd: null, organization: activeOrganization },
+        {
+          id: 'sub-3',
+          organizationId: 'org-4',
+          applicationId: 'app-1',
+          status: 'ACTIVE',
+          quantity: 5,
+          currentPeriodEnd: null,
+          organization: { status: 'SUSPENDED', deletedAt: null },
+        },
+      ]);
+      mockClient.subscriptionSeat.groupBy.mockResolvedValue([{ subscriptionId: 'sub-1', _count: { _all: 2 } }]);
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([
+        { id: 'seat-1', subscriptionId: 'sub-1', userId: 'user-1', status: 'ACTIVE', assignedAt: new Date() },
+        { id: 'seat-2', subscriptionId: 'sub-1', userId: 'user-2', status: 'REMOVED', assignedAt: new Date() },
+        { id: 'seat-3', subscriptionId: 'sub-3', userId: 'user-1', status: 'ACTIVE', assignedAt: new Date() },
+      ]);
+    });
+
+    it('should only read seats of active, non-deleted users', async () => {
+      await accessService.verifyAccessBatch([check]);
+
+      expect(mockClient.subscriptionSeat.findMany.mock.calls[0][0].where).toEqual({
+        subscriptionId: { in: ['sub-1', 'sub-2', 'sub-3'] },
+        userId: { in: ['user-1'] },
+        user: { status: 'ACTIVE', deletedAt: null },
+      });
+    });
+
+    it('should deny checks in a suspended organization even with an active seat', async () => {
+      const results = await accessService.verifyAccessBatch([
+        { userId: 'user-1', organizationId: 'org-4', applicationSlug: 'healos' },
+        { userId: 'user-1', organizationId: 'org-1', applicationSlug: 'healos' },
+      ]);
+
+      expect(results[0]).toMatchObject({
+        organizationId: 'org-4',
+        hasAccess: false,
+        reason: AccessDenialReason.ORGANIZATION_INACTIVE,
+      });
+      expect(results[1]).toMatchObject({ organizationId: 'org-1', hasAccess: true });
+    });
+
+    it('should resolve every check with a fixed number of queries', async () => {
+      const checks = Array.from({ length: 50 }, (_, i) => ({ ...check, userId: `user-${i}` }));
+
+      const results = await accessService.verifyAccessBatch(checks);
+
+      expect(results).toHaveLength(50);
+      expect(databaseManager.executeRead).toHaveBeenCalledTimes(1);
+      expect(mockClient.application.findMany).toHaveBeenCalledTimes(1);
+      expect(mockClient.organizationSubscription.findMany).toHaveBeenCalledTimes(1);
+      expect(mockClient.subscriptionSeat.groupBy).toHaveBeenCalledTimes(1);
+      expect(mockClient.subscriptionSeat.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return results in request order with check identifiers', async () => {
+      const results = await accessService.verifyAccessBatch([
+        { userId: 'user-1', organizationId: 'org-1', applicationSlug: 'healos' },
+        { userId: 'user-2', organizationId: 'org-1', applicationSlug: 'healos' },
+        { userId: 'user-3', organizationId: 'org-2', applicationSlug: 'healos' },
+        { userId: 'user-4', organizationId: 'org-3', applicationSlug: 'healos' },
+        { userId: 'user-1', organizationId: 'org-1', applicationSlug: 'unknown' },
+      ]);
+
+      expect(results[0]).toMatchObject({
+        userId: 'user-1',
+        hasAccess: true,
+        seat: { id: 'seat-1' },
+        subscription: { seatsUsed: 2, totalSeats: 5 },
+      });
+      expect(results[1]).toMatchObject({ userId: 'user-2', hasAccess: false, reason: AccessDenialReason.NO_ACTIVE_SEAT });
+      expect(results[2]).toMatchObject({
+        organizationId: 'org-2',
+        hasAccess: false,
+        reason: AccessDenialReason.SUBSCRIPTION_INACTIVE,
+        subscription: { seatsUsed: 0 },
+      });
+      expect(results[3]).toMatchObject({ organizationId: 'org-3', reason: AccessDenialReason.NOT_SUBSCRIBED });
+      expect(results[4]).toMatchObject({ applicationSlug: 'unknown', reason: AccessDenialReason.NOT_SUBSCRIBED });
+    });
+
+    it('should skip the database for an empty batch', async () => {
+      const results = await accessService.verifyAccessBatch([]);
+
+      expect(results).toEqual([]);
+      expect(databaseManager.executeRead).not.toHaveBeenCalled();
+    });
+  });
+});
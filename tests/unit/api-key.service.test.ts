@@ -0,0 +1,249 @@
+/**
+ * Application API Key Service Tests
+ *
+ * Unit tests for key creation, hashing, rotation with a grace period,
+ * revocation, authentication and last-used tracking.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    auth: { bcryptRounds: 4, apiKeyRotationGracePeriod: 3600 },
+  },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+import bcrypt from 'bcryptjs';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { ApiKeyService, extractApiKey, parseApiKeyPrefix } from '../../src/modules/applications/api-key.service';
+import { ApiKeyScope } from '../../src/modules/applications/dto';
+import { ErrorCode } from '../../src/shared/errors/custom-errors';
+
+const mockClient = {
+  application: { findUnique: jest.fn() },
+  applicationApiKey: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'admin-1', ipAddress: '10.0.0.1' };
+const application = { id: 'app-1', slug: 'healos', name: 'HealOS', status: 'ACTIVE' };
+
+const storedKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  applicationId: 'app-1',
+  name: 'HealOS production',
+  keyPrefix: 'bk_0123456789abcdef',
+  keyHash: 'hash',
+  scopes: [ApiKeyScope.ACCESS_VERIFY],
+  lastUsedAt: null,
+  lastUsedIp: null,
+  expiresAt: null,
+  revokedAt: null,
+  createdByUserId: 'admin-1',
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    service = new ApiKeyService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeWrite as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.application.findUnique.mockResolvedValue({ id: 'app-1' });
+    mockClient.applicationApiKey.create.mockImplementation(async ({ data }) => storedKey({ ...data, id: 'key-new' }));
+    mockClient.applicationApiKey.update.mockImplementation(async ({ where, data }) => storedKey({ id: where.id, ...data }));
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('create', () => {
+    it('should return the plaintext key once and store only its bcrypt hash', async () => {
+      const created = await service.create('app-1', { name: 'HealOS production', scopes: [ApiKeyScope.ACCESS_VERIFY, ApiKeyScope.ACCESS_VERIFY] }, actor);
+
+      const { data } = mockClient.applicationApiKey.create.mock.calls[0][0];
+      expect(created.key).toMatch(/^bk_[0-9a-f]{16}_[A-Za-z0-9_-]{32}$/);
+      expect(parseApiKeyPrefix(created.key)).toBe(data.keyPrefix);
+      expect(data.keyHash).not.toContain(created.key);
+      expect(await bcrypt.compare(created.key, data.keyHash)).toBe(true);
+      expect(data.scopes).toEqual([ApiKeyScope.ACCESS_VERIFY]);
+      expect(created).not.toHaveProperty('keyHash');
+    });
+
+    it('should write an audit entry', async () => {
+      await service.create('app-1', { name: 'HealOS production', scopes: [ApiKeyScope.SEATS_WRITE] }, actor);
+
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: 'application_api_key',
+          action: 'created',
+          actorUserId: 'admin-1',
+        }),
+      });
+    });
+
+    it('should reject unknown applications', async () => {
+      mockClient.application.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create('missing', { name: 'x', scopes: [ApiKeyScope.ACCESS_VERIFY] }, actor)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should issue a replacement with the same scopes and expire the old key after the grace period', async () => {
+      mockClient.applicationApiKey.findFirst.mockResolvedValue(storedKey({ scopes: [ApiKeyScope.USAGE_REPORT] }));
+      const before = Date.now();
+
+      const created = await service.rotate('app-1', 'key-1', {}, actor);
+
+      const oldUpdate = mockClient.applicationApiKey.update.mock.calls[0][0];
+      expect(oldUpdate.where).toEqual({ id: 'key-1' });
+      expect(oldUpdate.data.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 3600 * 1000);
+      expect(mockClient.applicationApiKey.create.mock.calls[0][0].data.scopes).toEqual([ApiKeyScope.USAGE_REPORT]);
+      expect(created.key).toMatch(/^bk_/);
+    });
+
+    it('should revoke the old key immediately with a zero grace period', async () => {
+      mockClient.applicationApiKey.findFirst.mockResolvedValue(storedKey());
+
+      await service.rotate('app-1', 'key-1', { gracePeriodSeconds: 0 }, actor);
+
+      expect(mockClient.applicationApiKey.update.mock.calls[0][0].data).toEqual({ revokedAt: expect.any(Date) });
+    });
+
+    it('should refuse to rotate a revoked key', async () => {
+      mockClient.applicationApiKey.findFirst.mockResolvedValue(storedKey({ revokedAt: new Date() }));
+
+      await expect(service.rotate('app-1', 'key-1', {}, actor)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('authenticate', () => {
+    const issue = async () => {
+      const created = await service.create('app-1', { name: 'k', scopes: [ApiKeyScope.ACCESS_VERIFY] }, actor);
+      const { data } = mockClient.applicationApiKey.create.mock.calls[0][0];
+      mockClient.applicationApiKey.findUnique.mockResolvedValue({ ...storedKey(data), application });
+      return created.key;
+    };
+
+    it('should return the calling application and scopes for a valid key', async () => {
+      const key = await issue();
+
+      const principal = await service.authenticate(key, '10.0.0.2');
+
+      expect(principal.application).toEqual(application);
+      expect(principal.scopes).toEqual([ApiKeyScope.ACCESS_VERIFY]);
+    });
+
+    it('should record last use at most once per minute', async () => {
+      const key = await issue();
+
+      await service.authenticate(key, '10.0.0.2');
+      await service.authenticate(key, '10.0.0.2');
+
+      expect(mockClient.applicationApiKey.update).toHaveBeenCalledTimes(1);
+      expect(mockClient.applicationApiKey.update.mock.calls[0][0].data).toEqual({
+        lastUsedAt: expect.any(Date),
+        lastUsedIp: '10.0.0.2',
+      });
+    });
+
+    it('should memoize verification so bcrypt runs once per key', async () => {
+      const key = await issue();
+
+      await service.authenticate(key);
+      await service.authenticate(key);
+
+      expect(mockClient.applicationApiKey.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a key whose secret does not match', async () => {
+      const key = await issue();
+      const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+
+      await expect(service.authenticate(tampered)).rejects.toMatchObject({ code: ErrorCode.INVALID_API_KEY });
+    });
+
+    it('should reject malformed keys without a database lookup', async () => {
+      await expect(service.authenticate('not-a-key')).rejects.toMatchObject({ code: ErrorCode.INVALID_API_KEY });
+      expect(mockClient.applicationApiKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked keys and forget memoized verifications on revoke', async () => {
+      const key = await issue();
+      await service.authenticate(key);
+
+      mockClient.applicationApiKey.findFirst.mockResolvedValue(storedKey());
+      await service.revoke('app-1', 'key-1', actor);
+      mockClient.applicationApiKey.findUnique.mockResolvedValue({
+        ...(await mockClient.applicationApiKey.findUnique()),
+        revokedAt: new Date(),
+      });
+
+      await expect(service.authenticate(key)).rejects.toMatchObject({ code: ErrorCode.INVALID_API_KEY });
+    });
+
+    it.each(['INACTIVE', 'MAINTENANCE'])('should reject keys of an application that is %s', async (status) => {
+      const key = await issue();
+      mockClient.applicationApiKey.findUnique.mockResolvedValue({
+        ...(await mockClient.applicationApiKey.findUnique()),
+        application: { ...application, status },
+      });
+
+      await expect(service.authenticate(key)).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should verify again once the application status changes', async () => {
+      const key = await issue();
+      await service.authenticate(key);
+
+      mockClient.applicationApiKey.findUnique.mockResolvedValue({
+        ...(await mockClient.applicationApiKey.findUnique()),
+        application: { ...application, status: 'INACTIVE' },
+      });
+      service.forgetApplication('app-1');
+
+      await expect(service.authenticate(key)).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should reject expired keys', async () => {
+      const key = await issue();
+      mockClient.applicationApiKey.findUnique.mockResolvedValue({
+        ...(await mockClient.applicationApiKey.findUnique()),
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.authenticate(key)).rejects.toMatchObject({ code: ErrorCode.INVALID_API_KEY });
+    });
+  });
+
+  describe('extractApiKey', () => {
+    const request = (headers: Record<string, string>) => ({ header: (name: string) => headers[name] });
+
+    it('should read X-API-Key first', () => {
+      expect(extractApiKey(request({ 'X-API-Key': 'bk_key', Authorization: 'Bearer bk_other' }))).toBe('bk_key');
+    });
+
+    it('should accept API keys sent as Bearer tokens but not session tokens', () => {
+      expect(extractApiKey(request({ Authorization: 'Bearer bk_key' }))).toBe('bk_key');
+      expect(extractApiKey(request({ Authorization: 'Bearer eyJhbGciOi' }))).toBeUndefined();
+    });
+  });
+});
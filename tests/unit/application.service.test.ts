@@ -0,0 +1,185 @@
+/**
+ * Application Service Tests
+ *
+ * Unit tests for slug handling, status transitions, usage counts and
+ * deletion of referenced applications.
+ */
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/modules/applications/api-key.service', () => ({
+  apiKeyService: { forgetApplication: jest.fn() },
+}));
+
+import { ApplicationStatus, Prisma } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { apiKeyService } from '../../src/modules/applications/api-key.service';
+import { ApplicationService } from '../../src/modules/applications/application.service';
+
+const mockClient = {
+  application: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  organizationSubscription: { groupBy: jest.fn(), count: jest.fn() },
+  subscriptionPlan: { count: jest.fn() },
+  externalOrgMapping: { count: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'admin-1', ipAddress: '10.0.0.1' };
+
+const storedApplication = (overrides: Record<string, unknown> = {}) => ({
+  id: 'app-1',
+  name: 'HealOS',
+  slug: 'healos',
+  description: null,
+  version: null,
+  homepage: null,
+  logo: null,
+  category: null,
+  tags: [],
+  features: [],
+  platforms: [],
+  webhookUrl: null,
+  status: ApplicationStatus.ACTIVE,
+  config: null,
+  metadata: null,
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ApplicationService', () => {
+  let service: ApplicationService;
+
+  beforeEach(() => {
+    service = new ApplicationService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.application.create.mockImplementation(async ({ data }) => storedApplication(data));
+    mockClient.application.findUnique.mockResolvedValue(storedApplication());
+    mockClient.application.update.mockImplementation(async ({ data }) => storedApplication(data));
+    mockClient.organizationSubscription.groupBy.mockResolvedValue([]);
+    mockClient.organizationSubscription.count.mockResolvedValue(0);
+    mockClient.subscriptionPlan.count.mockResolvedValue(0);
+    mockClient.externalOrgMapping.count.mockResolvedValue(0);
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('create', () => {
+    it('should derive the slug from the name when omitted', async () => {
+      const application = await service.create({ name: 'Heal OS Pro!' }, actor);
+
+      expect(mockClient.application.create.mock.calls[0][0].data.slug).toBe('heal-os-pro');
+      expect(application).toMatchObject({ slug: 'heal-os-pro', totalOrganizations: 0, totalActiveSubscriptions: 0 });
+      expect(mockClient.auditLog.create).toHaveBeenCalled();
+    });
+
+    it('should report a taken slug as a conflict', async () => {
+      mockClient.application.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['slug'] },
+        })
+      );
+
+      await expect(service.create({ name: 'HealOS', slug: 'healos' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe('changeStatus', () => {
+    it.each([
+      [ApplicationStatus.ACTIVE, ApplicationStatus.MAINTENANCE],
+      [ApplicationStatus.ACTIVE, ApplicationStatus.INACTIVE],
+      [ApplicationStatus.MAINTENANCE, ApplicationStatus.ACTIVE],
+      [ApplicationStatus.MAINTENANCE, ApplicationStatus.INACTIVE],
+      [ApplicationStatus.INACTIVE, ApplicationStatus.ACTIVE],
+    ])('should allow %s to %s', async (from, to) => {
+      mockClient.application.findUnique.mockResolvedValue(storedApplication({ status: from }));
+
+      const application = await service.changeStatus('app-1', { status: to, reason: 'planned' }, actor);
+
+      expect(application.status).toBe(to);
+      expect(apiKeyService.forgetApplication).toHaveBeenCalledWith('app-1');
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.APPLICATION_STATUS_CHANGED,
+        { applicationId: 'app-1', from, to, reason: 'planned' },
+        expect.any(Object)
+      );
+    });
+
+    it.each([
+      [ApplicationStatus.INACTIVE, ApplicationStatus.MAINTENANCE],
+      [ApplicationStatus.ACTIVE, ApplicationStatus.ACTIVE],
+    ])('should refuse %s to %s', async (from, to) => {
+      mockClient.application.findUnique.mockResolvedValue(storedApplication({ status: from }));
+
+      await expect(service.changeStatus('app-1', { status: to }, actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.application.update).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('should count distinct organizations and active subscriptions per application', async () => {
+      mockClient.application.findMany.mockResolvedValue([
+        storedApplication(),
+        storedApplication({ id: 'app-2', slug: 'legal-flow' }),
+      ]);
+      mockClient.application.count.mockResolvedValue(2);
+      mockClient.organizationSubscription.groupBy
+        .mockResolvedValueOnce([
+          { applicationId: 'app-1', organizationId: 'org-1' },
+          { applicationId: 'app-1', organizationId: 'org-2' },
+          { applicationId: 'app-2', organizationId: 'org-1' },
+        ])
+        .mockResolvedValueOnce([{ applicationId: 'app-1', _count: { _all: 3 } }]);
+
+      const result = await service.list({ page: 1, limit: 20 });
+
+      expect(result.data.map(({ id, totalOrganizations, totalActiveSubscriptions }) => ({
+        id,
+        totalOrganizations,
+        totalActiveSubscriptions,
+      }))).toEqual([
+        { id: 'app-1', totalOrganizations: 2, totalActiveSubscriptions: 3 },
+        { id: 'app-2', totalOrganizations: 1, totalActiveSubscriptions: 0 },
+      ]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse applications that still have plans', async () => {
+      mockClient.subscriptionPlan.count.mockResolvedValue(2);
+
+      await expect(service.remove('app-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.application.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete unused applications', async () => {
+      await service.remove('app-1', actor);
+
+      expect(mockClient.application.delete).toHaveBeenCalledWith({ where: { id: 'app-1' } });
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Auth Middleware Tests
+ *
+ * Unit tests for Clerk session token verification against a local JWKS
+ * stub, user resolution by clerkUserId and the errors raised on failure.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    auth: {
+      clerkPublishableKey: '',
+      clerkSecretKey: '',
+      clerkIssuer: 'https://clerk.test.local',
+      clerkAuthorizedParties: [],
+      clerkJwksCacheTtl: 3600,
+    },
+  },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+  },
+}));
+
+import { NextFunction, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import config from '../../src/config';
+import { clerkJwksClient, getClerkFrontendApi } from '../../src/infrastructure/auth/clerk-jwks.client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import auth, { AuthenticatedRequest } from '../../src/middleware/auth';
+import { ErrorCode, UnauthorizedError } from '../../src/shared/errors/custom-errors';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'ins_test', use: 'sig', alg: 'RS256' }] };
+
+const mockClient = {
+  user: { findFirst: jest.fn() },
+};
+
+const localUser = {
+  id: 'user-1',
+  clerkUserId: 'user_clerk_1',
+  email: 'owner@example.com',
+  fullName: 'Org Owner',
+  organizationId: 'org-1',
+  role: 'OWNER',
+  status: 'ACTIVE',
+  organization: { id: 'org-1', name: 'Acme', slug: 'acme', status: 'ACTIVE' },
+};
+
+const sign = (payload: Record<string, unknown> = {}, options: jwt.SignOptions = {}) =>
+  jwt.sign({ sub: 'user_clerk_1', sid: 'sess_1', exp: Math.floor(Date.now() / 1000) + 60, ...payload }, privateKey, {
+    algorithm: 'RS256',
+    keyid: 'ins_test',
+    issuer: 'https://clerk.test.local',
+    ...options,
+  });
+
+const run = async (authorization?: string) => {
+  const req = { header: jest.fn((name: string) => (name === 'Authorization' ? authorization : undefined)) } as unknown as AuthenticatedRequest;
+  const next = jest.fn() as NextFunction;
+
+  await auth(req, {} as Response, next);
+
+  return { req, next: next as jest.Mock };
+};
+
+describe('auth middleware', () => {
+  beforeEach(() => {
+    clerkJwksClient.reset();
+    config.auth.clerkJwks = JSON.stringify(jwks);
+    config.auth.clerkAuthorizedParties = [];
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.user.findFirst.mockResolvedValue(localUser);
+  });
+
+  it('should attach the local user, organization and role for a valid session token', async () => {
+    const { req, next } = await run(`Bearer ${sign()}`);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(mockClient.user.findFirst).toHaveBeenCalledWith({
+      where: { clerkUserId: 'user_clerk_1', deletedAt: null },
+      include: { organization: true },
+    });
+    expect(req.user).toMatchObject({ id: 'user-1', organizationId: 'org-1', role: 'OWNER' });
+    expect(req.organization).toEqual({ id: 'org-1', name: 'Acme', slug: 'acme', status: 'ACTIVE' });
+    expect(req.role).toBe('OWNER');
+    expect(req.auth?.sessionId).toBe('sess_1');
+  });
+
+  it('should reject a missing token', async () => {
+    const { next } = await run();
+
+    expect(next.mock.calls[0][0]).toBeInstanceOf(UnauthorizedError);
+    expect(next.mock.calls[0][0].code).toBe(ErrorCode.INVALID_TOKEN);
+  });
+
+  it('should reject an expired token with TOKEN_EXPIRED', async () => {
+    const expired = sign({ exp: Math.floor(Date.now() / 1000) - 60 });
+
+    const { next } = await run(`Bearer ${expired}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 401, code: ErrorCode.TOKEN_EXPIRED });
+  });
+
+  it('should reject a token signed by an unknown key with INVALID_TOKEN', async () => {
+    const { next } = await run(`Bearer ${sign({}, { keyid: 'ins_other' })}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ code: ErrorCode.INVALID_TOKEN });
+  });
+
+  it('should reject a token with a forged signature', async () => {
+    const other = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    const forged = jwt.sign({ sub: 'user_clerk_1' }, other, {
+      algorithm: 'RS256',
+      keyid: 'ins_test',
+      issuer: 'https://clerk.test.local',
+    });
+
+    const { next } = await run(`Bearer ${forged}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ code: ErrorCode.INVALID_TOKEN });
+  });
+
+  it('should reject a token from another issuer', async () => {
+    const { next } = await run(`Bearer ${sign({}, { issuer: 'https://evil.example.com' })}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ code: ErrorCode.INVALID_TOKEN });
+  });
+
+  it('should reject a token minted for an unauthorized party', async () => {
+    config.auth.clerkAuthorizedParties = ['https://app.example.com'];
+
+    const { next } = await run(`Bearer ${sign({ azp: 'https://other.example.com' })}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ code: ErrorCode.INVALID_TOKEN });
+  });
+
+  it('should reject a valid token for a user that does not exist locally', async () => {
+    mockClient.user.findFirst.mockResolvedValue(null);
+
+    const { req, next } = await run(`Bearer ${sign()}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ code: ErrorCode.INVALID_TOKEN, message: 'User is not registered' });
+    expect(req.user).toBeUndefined();
+  });
+
+  it('should reject suspended users', async () => {
+    mockClient.user.findFirst.mockResolvedValue({ ...localUser, status: 'SUSPENDED' });
+
+    const { next } = await run(`Bearer ${sign()}`);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ code: ErrorCode.ACCOUNT_DISABLED });
+  });
+
+  it('should not attach a deleted organization', async () => {
+    mockClient.user.findFirst.mockResolvedValue({
+      ...localUser,
+      organization: { ...localUser.organization, status: 'DELETED' },
+    });
+
+    const { req } = await run(`Bearer ${sign()}`);
+
+    expect(req.organization).toBeUndefined();
+    expect(req.user?.organizationId).toBeNull();
+  });
+});
+
+describe('getClerkFrontendApi', () => {
+  it('should decode the Frontend API host from a publishable key', () => {
+    const key = `pk_test_${Buffer.from('clerk.example.dev$').toString('base64')}`;
+
+    expect(getClerkFrontendApi(key)).toBe('clerk.example.dev');
+  });
+
+  it('should return undefined for keys it cannot decode', () => {
+    expect(getClerkFrontendApi('')).toBeUndefined();
+    expect(getClerkFrontendApi('pk_test_bm90LWEtaG9zdA==')).toBeUndefined();
+  });
+});
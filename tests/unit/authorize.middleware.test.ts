@@ -0,0 +1,161 @@
+/**
+ * Authorization Middleware Tests
+ *
+ * Unit tests for the role permission matrix and the requireRole /
+ * requirePermission guards, including the organization membership check.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    auth: { platformAdminUserIds: ['user_platform_admin'] },
+  },
+}));
+
+import { NextFunction, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest } from '../../src/middleware/auth';
+import { requirePermission, requirePlatformAdmin, requireRole } from '../../src/middleware/authorize';
+import { hasPermission, Permission } from '../../src/modules/auth/permissions';
+import { ErrorCode, ForbiddenError, UnauthorizedError } from '../../src/shared/errors/custom-errors';
+
+const buildRequest = (
+  role: UserRole | null,
+  overrides: { organizationId?: string | null; params?: Record<string, string>; headers?: Record<string, string>; body?: Record<string, unknown> } = {}
+) =>
+  ({
+    user: role
+      ? {
+          id: 'user-1',
+          clerkUserId: 'user_clerk_1',
+          email: 'user@example.com',
+          fullName: 'Test User',
+          organizationId: overrides.organizationId === undefined ? 'org-1' : overrides.organizationId,
+          role,
+          status: 'ACTIVE',
+        }
+      : undefined,
+    params: overrides.params ?? {},
+    body: overrides.body ?? {},
+    query: {},
+    originalUrl: '/api/billing/subscriptions',
+    header: (name: string) => overrides.headers?.[name],
+  }) as unknown as AuthenticatedRequest;
+
+const invoke = (handler: ReturnType<typeof requireRole>, req: AuthenticatedRequest) => {
+  const next = jest.fn() as NextFunction;
+  handler(req, {} as Response, next);
+  return next;
+};
+
+describe('permission matrix', () => {
+  it('should give OWNER every permission', () => {
+    for (const permission of Object.values(Permission)) {
+      expect(hasPermission(UserRole.OWNER, permission)).toBe(true);
+    }
+  });
+
+  it('should let BILLING_ADMIN manage seats but not subscriptions', () => {
+    expect(hasPermission(UserRole.BILLING_ADMIN, Permission.SEATS_MANAGE)).toBe(true);
+    expect(hasPermission(UserRole.BILLING_ADMIN, Permission.SUBSCRIPTIONS_READ)).toBe(true);
+    expect(hasPermission(UserRole.BILLING_ADMIN, Permission.SUBSCRIPTIONS_MANAGE)).toBe(false);
+    expect(hasPermission(UserRole.BILLING_ADMIN, Permission.BILLING_MANAGE)).toBe(false);
+  });
+
+  it('should give ADMIN and MEMBER no billing access', () => {
+    for (const role of [UserRole.ADMIN, UserRole.MEMBER]) {
+      expect(hasPermission(role, Permission.BILLING_READ)).toBe(false);
+      expect(hasPermission(role, Permission.SUBSCRIPTIONS_READ)).toBe(false);
+      expect(hasPermission(role, Permission.SEATS_MANAGE)).toBe(false);
+    }
+  });
+});
+
+describe('requirePermission', () => {
+  it('should allow a role holding the permission', () => {
+    const next = invoke(requirePermission(Permission.SEATS_MANAGE), buildRequest(UserRole.BILLING_ADMIN));
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should throw INSUFFICIENT_PERMISSIONS for a role without it', () => {
+    const handler = requirePermission(Permission.SUBSCRIPTIONS_MANAGE);
+
+    expect(() => invoke(handler, buildRequest(UserRole.BILLING_ADMIN))).toThrow(ForbiddenError);
+    expect(() => invoke(handler, buildRequest(UserRole.BILLING_ADMIN))).toThrow(
+      expect.objectContaining({ code: ErrorCode.INSUFFICIENT_PERMISSIONS })
+    );
+  });
+
+  it('should require every listed permission', () => {
+    const handler = requirePermission([Permission.SEATS_MANAGE, Permission.BILLING_MANAGE]);
+
+    expect(() => invoke(handler, buildRequest(UserRole.BILLING_ADMIN))).toThrow(
+      expect.objectContaining({ code: ErrorCode.INSUFFICIENT_PERMISSIONS })
+    );
+  });
+
+  it('should reject unauthenticated requests', () => {
+    expect(() => invoke(requirePermission(Permission.SEATS_READ), buildRequest(null))).toThrow(UnauthorizedError);
+  });
+
+  it('should reject actors from another organization named in the route', () => {
+    const req = buildRequest(UserRole.OWNER, { params: { organizationId: 'org-2' } });
+
+    expect(() => invoke(requirePermission(Permission.SEATS_READ), req)).toThrow(
+      expect.objectContaining({ code: ErrorCode.ORGANIZATION_ACCESS_DENIED })
+    );
+  });
+
+  it('should read the target organization from the X-Organization-Id header', () => {
+    const req = buildRequest(UserRole.OWNER, { headers: { 'X-Organization-Id': 'org-2' } });
+
+    expect(() => invoke(requirePermission(Permission.SEATS_READ), req)).toThrow(
+      expect.objectContaining({ code: ErrorCode.ORGANIZATION_ACCESS_DENIED })
+    );
+  });
+
+  it('should reject actors without an organization', () => {
+    const req = buildRequest(UserRole.OWNER, { organizationId: null });
+
+    expect(() => invoke(requirePermission(Permission.SEATS_READ), req)).toThrow(
+      expect.objectContaining({ code: ErrorCode.ORGANIZATION_ACCESS_DENIED })
+    );
+  });
+
+  it('should use a custom organization resolver', () => {
+    const handler = requirePermission(Permission.SEATS_READ, { organization: (req) => req.body.orgId });
+
+    expect(invoke(handler, buildRequest(UserRole.OWNER, { body: { orgId: 'org-1' } }))).toHaveBeenCalledWith();
+    expect(() => invoke(handler, buildRequest(UserRole.OWNER, { body: { orgId: 'org-2' } }))).toThrow(ForbiddenError);
+  });
+});
+
+describe('requireRole', () => {
+  it('should allow listed roles', () => {
+    const next = invoke(requireRole([UserRole.OWNER, UserRole.BILLING_ADMIN]), buildRequest(UserRole.BILLING_ADMIN));
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should throw INSUFFICIENT_ROLE for other roles', () => {
+    expect(() => invoke(requireRole(UserRole.OWNER), buildRequest(UserRole.ADMIN))).toThrow(
+      expect.objectContaining({ code: ErrorCode.INSUFFICIENT_ROLE })
+    );
+  });
+});
+
+describe('requirePlatformAdmin', () => {
+  it('should allow configured platform administrators', () => {
+    const req = buildRequest(UserRole.MEMBER);
+    req.user!.clerkUserId = 'user_platform_admin';
+
+    expect(invoke(requirePlatformAdmin, req)).toHaveBeenCalledWith();
+  });
+
+  it('should throw PLATFORM_ADMIN_REQUIRED for organization owners', () => {
+    expect(() => invoke(requirePlatformAdmin, buildRequest(UserRole.OWNER))).toThrow(
+      expect.objectContaining({ code: ErrorCode.PLATFORM_ADMIN_REQUIRED })
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Clerk Webhook Service Tests
+ *
+ * Unit tests for Svix signature verification, idempotent event storage,
+ * failure recording and mapping of Clerk user events to user changes.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    auth: { clerkWebhookSecret: `whsec_${Buffer.from('clerk-test-secret').toString('base64')}`, invitationTtl: 604800 },
+  },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/users/user.service', () => ({
+  userService: { syncClerkAccount: jest.fn(), removeClerkAccount: jest.fn() },
+}));
+
+import { createHmac } from 'crypto';
+import { AuditActorType } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { userService } from '../../src/modules/users/user.service';
+import { ClerkWebhookService } from '../../src/modules/webhooks/clerk-webhook.service';
+
+const mockClient = {
+  clerkWebhookEvent: { upsert: jest.fn(), update: jest.fn() },
+};
+
+const sign = (id: string, timestamp: string, payload: string) =>
+  createHmac('sha256', Buffer.from('clerk-test-secret')).update(`${id}.${timestamp}.${payload}`).digest('base64');
+
+const deliver = (event: unknown, id = 'msg_1') => {
+  const payload = JSON.stringify(event);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  return { payload, headers: { id, timestamp, signature: `v1,${sign(id, timestamp, payload)}` } };
+};
+
+const userCreated = {
+  type: 'user.created',
+  data: {
+    id: 'user_2abc',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    primary_email_address_id: 'idn_2',
+    email_addresses: [
+      { id: 'idn_1', email_address: 'old@acme.com' },
+      { id: 'idn_2', email_address: 'jane@acme.com' },
+    ],
+  },
+};
+
+describe('ClerkWebhookService', () => {
+  let service: ClerkWebhookService;
+
+  beforeEach(() => {
+    service = new ClerkWebhookService();
+    (databaseManager.executeWrite as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.clerkWebhookEvent.upsert.mockImplementation(async ({ create }) => ({
+      ...create,
+      id: 'evt-1',
+      processed: false,
+    }));
+    mockClient.clerkWebhookEvent.update.mockResolvedValue({});
+  });
+
+  describe('verifySignature', () => {
+    it('should accept any matching v1 signature', () => {
+      const { payload, headers } = deliver(userCreated);
+
+      expect(() =>
+        service.verifySignature(payload, { ...headers, signature: `v1,bogus ${headers.signature}` })
+      ).not.toThrow();
+    });
+
+    it('should reject a tampered payload', () => {
+      const { headers } = deliver(userCreated);
+
+      expect(() => service.verifySignature('{"type":"user.deleted"}', headers)).toThrow('Invalid webhook signature');
+    });
+
+    it('should reject stale timestamps', () => {
+      const { payload, headers } = deliver(userCreated);
+
+      expect(() => service.verifySignature(payload, headers, Date.now() + 10 * 60 * 1000)).toThrow(
+        'Webhook timestamp is outside the allowed tolerance'
+      );
+    });
+
+    it('should require the Svix headers', () => {
+      const { payload } = deliver(userCreated);
+
+      expect(() => service.verifySignature(payload, {})).toThrow('Missing Svix signature headers');
+    });
+  });
+
+  describe('handle', () => {
+    it('should store the event and upsert the user with the primary email', async () => {
+      const { payload, headers } = deliver(userCreated);
+
+      const result = await service.handle(payload, headers);
+
+      expect(mockClient.clerkWebhookEvent.upsert.mock.calls[0][0]).toMatchObject({
+        where: { eventId: 'msg_1' },
+        create: { eventId: 'msg_1', eventType: 'user.created' },
+      });
+      expect(userService.syncClerkAccount).toHaveBeenCalledWith(
+        { clerkUserId: 'user_2abc', email: 'jane@acme.com', fullName: 'Jane Doe' },
+        { actorType: AuditActorType.WEBHOOK }
+      );
+      expect(mockClient.clerkWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'evt-1' },
+        data: { processed: true, processedAt: expect.any(Date), error: null },
+      });
+      expect(result).toEqual({ eventId: 'msg_1', eventType: 'user.created', duplicate: false });
+    });
+
+    it('should soft delete the user on user.deleted', async () => {
+      const { payload, headers } = deliver({ type: 'user.deleted', data: { id: 'user_2abc', deleted: true } });
+
+      await service.handle(payload, headers);
+
+      expect(userService.removeClerkAccount).toHaveBeenCalledWith('user_2abc', { actorType: AuditActorType.WEBHOOK });
+    });
+
+    it('should acknowledge already processed events without applying them', async () => {
+      mockClient.clerkWebhookEvent.upsert.mockResolvedValue({ id: 'evt-1', eventId: 'msg_1', processed: true });
+      const { payload, headers } = deliver(userCreated);
+
+      const result = await service.handle(payload, headers);
+
+      expect(result.duplicate).toBe(true);
+      expect(userService.syncClerkAccount).not.toHaveBeenCalled();
+    });
+
+    it('should record failures and rethrow so the delivery is retried', async () => {
+      (userService.syncClerkAccount as jest.Mock).mockRejectedValue(new Error('database unavailable'));
+      const { payload, headers } = deliver(userCreated);
+
+      await expect(service.handle(payload, headers)).rejects.toThrow('database unavailable');
+      expect(mockClient.clerkWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'evt-1' },
+        data: { error: 'database unavailable', retryCount: { increment: 1 } },
+      });
+    });
+
+    it('should ignore unrelated event types', async () => {
+      const { payload, headers } = deliver({ type: 'session.created', data: { id: 'sess_1' } });
+
+      await service.handle(payload, headers);
+
+      expect(userService.syncClerkAccount).not.toHaveBeenCalled();
+      expect(mockClient.clerkWebhookEvent.update.mock.calls[0][0].data.processed).toBe(true);
+    });
+  });
+});
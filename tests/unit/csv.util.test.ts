@@ -0,0 +1,33 @@
+/**
+ * CSV Utility Tests
+ *
+ * Unit tests for parsing uploaded CSV into records keyed by the header row.
+ */
+
+import { parseCsv } from '../../src/shared/utils/csv.util';
+
+describe('csv.util', () => {
+  describe('parseCsv', () => {
+    it('should key each line by the trimmed header', () => {
+      expect(parseCsv('email, role ,applicationSlug\r\njane@acme.test,MEMBER,healos\n bob@acme.test ,,healos\n')).toEqual([
+        { email: 'jane@acme.test', role: 'MEMBER', applicationSlug: 'healos' },
+        { email: 'bob@acme.test', role: '', applicationSlug: 'healos' },
+      ]);
+    });
+
+    it('should handle quoted fields, escaped quotes and a byte order mark', () => {
+      expect(parseCsv('\uFEFFname,note\n"Doe, Jane","said ""hi""\nthen left"\n')).toEqual([
+        { name: 'Doe, Jane', note: 'said "hi"\nthen left' },
+      ]);
+    });
+
+    it('should skip blank lines and fill missing fields', () => {
+      expect(parseCsv('a,b\n\n1\n,\n')).toEqual([{ a: '1', b: '' }]);
+      expect(parseCsv('')).toEqual([]);
+    });
+
+    it('should reject an unterminated quoted field', () => {
+      expect(() => parseCsv('a\n"open')).toThrow('Unterminated quoted field');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Entitlement Cache Service Tests
+ *
+ * Unit tests for the cache-aside flow, key versioning, event-driven
+ * invalidation and hit/miss metrics.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    redis: { ttl: 300 },
+    features: { enableCaching: true },
+  },
+}));
+
+jest.mock('../../src/infrastructure/cache/redis.client', () => ({
+  redisClient: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+    invalidate: jest.fn(),
+  },
+}));
+
+import config from '../../src/config';
+import { redisClient } from '../../src/infrastructure/cache/redis.client';
+import { BillingEvents, EventBus } from '../../src/infrastructure/events/event-bus';
+import { entitlementCache } from '../../src/modules/access/entitlement-cache.service';
+
+const check = { organizationId: 'org-1', applicationSlug: 'healos', userId: 'user-1' };
+const granted = { hasAccess: true, seat: { id: 'seat-1', assignedAt: '2024-01-15T00:00:00.000Z' } };
+
+describe('EntitlementCacheService', () => {
+  beforeEach(() => {
+    entitlementCache.resetMetrics();
+    config.features.enableCaching = true;
+    (redisClient.set as jest.Mock).mockResolvedValue({ success: true, data: 'OK' });
+    (redisClient.delete as jest.Mock).mockResolvedValue({ success: true, data: 1 });
+    (redisClient.invalidate as jest.Mock).mockResolvedValue({ success: true, data: 1 });
+  });
+
+  it('should build versioned keys per organization, application and user', () => {
+    expect(entitlementCache.buildKey('org-1', 'healos', 'user-1')).toBe('entitlement:v2:org-1:healos:user-1');
+  });
+
+  it('should return the cached result on a hit without calling the loader', async () => {
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: JSON.stringify(granted) });
+    const loader = jest.fn();
+
+    const result = await entitlementCache.getOrLoad(check, loader);
+
+    expect(result).toEqual(granted);
+    expect(loader).not.toHaveBeenCalled();
+    expect(entitlementCache.getMetrics()).toMatchObject({ hits: 1, misses: 0, hitRate: 1 });
+  });
+
+  it('should load and store the result with the configured TTL on a miss', async () => {
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: null });
+    const loader = jest.fn().mockResolvedValue(granted);
+
+    const result = await entitlementCache.getOrLoad(check, loader);
+
+    expect(result).toEqual(granted);
+    expect(redisClient.set).toHaveBeenCalledWith('entitlement:v2:org-1:healos:user-1', granted, 300);
+    expect(entitlementCache.getMetrics()).toMatchObject({ hits: 0, misses: 1, hitRate: 0 });
+  });
+
+  it.each([
+    ['the seat expires', { ...granted, seat: { ...granted.seat, expiresAt: new Date(Date.now() + 60 * 1000) } }],
+    ['the billing period ends', { ...granted, subscription: { currentPeriodEnd: new Date(Date.now() + 60 * 1000) } }],
+  ])('should not cache a grant past the time %s', async (_, result) => {
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: null });
+
+    await entitlementCache.getOrLoad(check, jest.fn().mockResolvedValue(result));
+
+    const ttl = (redisClient.set as jest.Mock).mock.calls[0][2];
+    expect(ttl).toBeGreaterThanOrEqual(59);
+    expect(ttl).toBeLessThanOrEqual(60);
+  });
+
+  it('should not cache a grant whose seat is already due to expire', async () => {
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: null });
+    const due = { ...granted, seat: { ...granted.seat, expiresAt: new Date(Date.now() - 1000) } };
+
+    const result = await entitlementCache.getOrLoad(check, jest.fn().mockResolvedValue(due));
+
+    expect(result).toEqual(due);
+    expect(redisClient.set).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the loader when Redis is unavailable', async () => {
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: false, error: 'Redis not connected' });
+    (redisClient.set as jest.Mock).mockResolvedValue({ success: false, error: 'Redis not connected' });
+    const loader = jest.fn().mockResolvedValue(granted);
+
+    const result = await entitlementCache.getOrLoad(check, loader);
+
+    expect(result).toEqual(granted);
+    expect(entitlementCache.getMetrics()).toMatchObject({ misses: 1, errors: 2 });
+  });
+
+  it('should bypass Redis when caching is disabled', async () => {
+    config.features.enableCaching = false;
+    const loader = jest.fn().mockResolvedValue(granted);
+
+    await entitlementCache.getOrLoad(check, loader);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(redisClient.get).not.toHaveBeenCalled();
+  });
+
+  describe('invalidate', () => {
+    it('should delete individual keys when users are known', async () => {
+      await entitlementCache.invalidate({ organizationId: 'org-1', applicationSlug: 'healos', userIds: ['u1', 'u2'] });
+
+      expect(redisClient.delete).toHaveBeenCalledWith('entitlement:v2:org-1:healos:u1');
+      expect(redisClient.delete).toHaveBeenCalledWith('entitlement:v2:org-1:healos:u2');
+      expect(redisClient.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate a whole subscription when no user is given', async () => {
+      await entitlementCache.invalidate({ organizationId: 'org-1', applicationSlug: 'healos' });
+
+      expect(redisClient.invalidate).toHaveBeenCalledWith('entitlement:v2:org-1:healos:*');
+    });
+
+    it('should invalidate the whole organization when no application is given', async () => {
+      await entitlementCache.invalidate({ organizationId: 'org-1' });
+
+      expect(redisClient.invalidate).toHaveBeenCalledWith('entitlement:v2:org-1:*');
+    });
+  });
+
+  describe('registerInvalidationHandlers', () => {
+    it.each([
+      BillingEvents.SEAT_ASSIGNED,
+      BillingEvents.SEAT_REMOVED,
+      BillingEvents.SUBSCRIPTION_UPDATED,
+      BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+    ])('should invalidate on %s', async (type) => {
+      const bus = new EventBus();
+      entitlementCache.registerInvalidationHandlers(bus);
+
+      await bus.publish(type, { organizationId: 'org-1', applicationSlug: 'healos', userId: 'user-1' });
+
+      expect(redisClient.delete).toHaveBeenCalledWith('entitlement:v2:org-1:healos:user-1');
+      expect(entitlementCache.getMetrics().invalidations).toBe(1);
+    });
+
+    it.each([
+      BillingEvents.USER_SUSPENDED,
+      BillingEvents.USER_DEACTIVATED,
+      BillingEvents.USER_REACTIVATED,
+    ])('should invalidate the organization on %s', async (type) => {
+      const bus = new EventBus();
+      entitlementCache.registerInvalidationHandlers(bus);
+
+      await bus.publish(type, { organizationId: 'org-1', userId: 'user-1' });
+
+      expect(redisClient.invalidate).toHaveBeenCalledWith('entitlement:v2:org-1:*');
+    });
+
+    it('should ignore unrelated events', async () => {
+      const bus = new EventBus();
+      entitlementCache.registerInvalidationHandlers(bus);
+
+      await bus.publish(BillingEvents.PAYMENT_SUCCEEDED, { organizationId: 'org-1' });
+
+      expect(redisClient.invalidate).not.toHaveBeenCalled();
+      expect(redisClient.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Entitlement Token Service Tests
+ *
+ * Unit tests for token issuance, expiry capping by billing period,
+ * revocation watermarks and JWKS publication.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    auth: {
+      jwtSecret: 'test-secret-that-is-long-enough-for-hs256',
+      entitlementToken: {
+        algorithm: 'HS256',
+        keyId: 'test-key',
+        issuer: 'billing-service',
+        audience: 'product-apps',
+        ttl: 300,
+      },
+    },
+  },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/cache/redis.client', () => ({
+  redisClient: {
+    get: jest.fn(),
+    set: jest.fn(),
+  },
+}));
+
+import jwt from 'jsonwebtoken';
+import config from '../../src/config';
+import { redisClient } from '../../src/infrastructure/cache/redis.client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, EventBus } from '../../src/infrastructure/events/event-bus';
+import { ErrorCode } from '../../src/shared/errors/custom-errors';
+import { EntitlementTokenService } from '../../src/modules/access/entitlement-token.service';
+
+const mockClient = {
+  subscriptionSeat: { findMany: jest.fn() },
+};
+
+const seat = (overrides: Record<string, unknown> = {}) => ({
+  id: 'seat-1',
+  expiresAt: null,
+  subscription: {
+    id: 'sub-1',
+    status: 'ACTIVE',
+    currentPeriodEnd: new Date(Date.now() + 30 * 24 * 3600 * 1000),
+    trialEnd: null,
+    application: { slug: 'healos' },
+  },
+  ...overrides,
+});
+
+describe('EntitlementTokenService', () => {
+  let service: EntitlementTokenService;
+
+  beforeEach(() => {
+    service = new EntitlementTokenService();
+    config.auth.entitlementToken.algorithm = 'HS256';
+    config.auth.entitlementToken.privateKey = undefined;
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: null });
+    (redisClient.set as jest.Mock).mockResolvedValue({ success: true, data: 'OK' });
+  });
+
+  describe('issue', () => {
+    it('should list only active seats on granting subscriptions in the organization', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([seat()]);
+
+      const issued = await service.issue('user-1', 'org-1');
+
+      expect(mockClient.subscriptionSeat.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            status: 'ACTIVE',
+            OR: [{ expiresAt: null }, { expiresAt: { gt: expect.any(Date) } }],
+            user: { status: 'ACTIVE', deletedAt: null },
+            subscription: {
+              organizationId: 'org-1',
+              status: { in: ['ACTIVE', 'TRIALING'] },
+              organization: { status: 'ACTIVE', deletedAt: null },
+            },
+          },
+        })
+      );
+      expect(issued.tokenType).toBe('Bearer');
+      expect(issued.entitlements).toEqual([
+        { app: 'healos', subscriptionId: 'sub-1', seatId: 'seat-1', status: 'ACTIVE' },
+      ]);
+
+      const decoded = jwt.decode(issued.token, { complete: true }) as jwt.Jwt;
+      expect(decoded.header).toMatchObject({ alg: 'HS256', kid: 'test-key' });
+      expect(decoded.payload).toMatchObject({
+        sub: 'user-1',
+        org: 'org-1',
+        iss: 'billing-service',
+        aud: 'product-apps',
+      });
+    });
+
+    it('should expire after the configured TTL when the period ends later', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([seat()]);
+
+      const issued = await service.issue('user-1', 'org-1');
+      const claims = jwt.decode(issued.token) as jwt.JwtPayload;
+
+      expect(claims.exp! - claims.iat!).toBe(300);
+    });
+
+    it('should cap expiry at the trial end of a trialing subscription', async () => {
+      const trialEnd = new Date(Date.now() + 60 * 1000);
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([
+        seat({ subscription: { ...seat().subscription, status: 'TRIALING', trialEnd } }),
+      ]);
+
+      const issued = await service.issue('user-1', 'org-1');
+
+      expect(issued.expiresAt.getTime()).toBe(Math.floor(trialEnd.getTime() / 1000) * 1000);
+    });
+
+    it('should leave out seats that are past their expiry', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([]);
+      const before = Date.now();
+
+      await service.issue('user-1', 'org-1');
+
+      const { where } = mockClient.subscriptionSeat.findMany.mock.calls[0][0];
+      expect(where.OR[1].expiresAt.gt.getTime()).toBeGreaterThanOrEqual(before);
+      expect(where.OR[1].expiresAt.gt.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should list no seats in a suspended or deleted organization', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([]);
+
+      const issued = await service.issue('user-1', 'org-1');
+
+      const { where } = mockClient.subscriptionSeat.findMany.mock.calls[0][0];
+      expect(where.subscription.organization).toEqual({ status: 'ACTIVE', deletedAt: null });
+      expect(issued.entitlements).toEqual([]);
+    });
+
+    it('should cap expiry at the earliest expiry of the listed seats', async () => {
+      const expiresAt = new Date(Date.now() + 90 * 1000);
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([
+        seat({ expiresAt: new Date(Date.now() + 120 * 1000) }),
+        seat({ id: 'seat-2', expiresAt }),
+      ]);
+
+      const issued = await service.issue('user-1', 'org-1');
+
+      expect(issued.expiresAt.getTime()).toBe(Math.floor(expiresAt.getTime() / 1000) * 1000);
+    });
+
+    it('should issue a token with no entitlements when the user has no seats', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([]);
+
+      const issued = await service.issue('user-1', 'org-1');
+
+      expect(issued.entitlements).toEqual([]);
+    });
+  });
+
+  describe('verify', () => {
+    it('should return the claims of a valid token', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([seat()]);
+      const { token } = await service.issue('user-1', 'org-1');
+
+      const claims = await service.verify(token);
+
+      expect(claims.ent).toHaveLength(1);
+      expect(redisClient.get).toHaveBeenCalledWith('entitlement-token:revoked:org-1:user-1');
+      expect(redisClient.get).toHaveBeenCalledWith('entitlement-token:revoked:org-1');
+    });
+
+    it('should reject an expired token with TOKEN_EXPIRED', async () => {
+      const token = jwt.sign(
+        { sub: 'user-1', org: 'org-1', ent: [], exp: Math.floor(Date.now() / 1000) - 10 },
+        config.auth.jwtSecret,
+        { algorithm: 'HS256', issuer: 'billing-service', audience: 'product-apps' }
+      );
+
+      await expect(service.verify(token)).rejects.toMatchObject({ code: ErrorCode.TOKEN_EXPIRED });
+    });
+
+    it('should reject a token signed with another key with INVALID_TOKEN', async () => {
+      const token = jwt.sign({ sub: 'user-1', org: 'org-1', ent: [] }, 'another-secret', {
+        algorithm: 'HS256',
+        issuer: 'billing-service',
+        audience: 'product-apps',
+      });
+
+      await expect(service.verify(token)).rejects.toMatchObject({ code: ErrorCode.INVALID_TOKEN });
+    });
+
+    it('should reject a token issued before a revocation watermark', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([seat()]);
+      const { token } = await service.issue('user-1', 'org-1');
+      (redisClient.get as jest.Mock).mockImplementation(async (key: string) => ({
+        success: true,
+        data: key === 'entitlement-token:revoked:org-1:user-1' ? String(Date.now()) : null,
+      }));
+
+      await expect(service.verify(token)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_TOKEN,
+        message: 'Entitlement token revoked',
+      });
+    });
+  });
+
+  describe('introspect', () => {
+    it('should report inactive tokens without throwing', async () => {
+      const result = await service.introspect('not-a-token');
+
+      expect(result).toEqual({ active: false, reason: 'Invalid entitlement token' });
+    });
+  });
+
+  describe('revocation', () => {
+    it('should write per-user watermarks that live as long as a token', async () => {
+      await service.revoke({ organizationId: 'org-1', applicationSlug: 'healos', userIds: ['user-1', 'user-2'] });
+
+      expect(redisClient.set).toHaveBeenCalledWith('entitlement-token:revoked:org-1:user-1', expect.any(String), 300);
+      expect(redisClient.set).toHaveBeenCalledWith('entitlement-token:revoked:org-1:user-2', expect.any(String), 300);
+    });
+
+    it('should write an organization watermark when no user is given', async () => {
+      await service.revoke({ organizationId: 'org-1' });
+
+      expect(redisClient.set).toHaveBeenCalledWith('entitlement-token:revoked:org-1', expect.any(String), 300);
+    });
+
+    it('should revoke on seat removal events', async () => {
+      const bus = new EventBus();
+      service.registerRevocationHandlers(bus);
+
+      await bus.publish(BillingEvents.SEAT_REMOVED, { organizationId: 'org-1', userId: 'user-1' });
+
+      expect(redisClient.set).toHaveBeenCalledWith('entitlement-token:revoked:org-1:user-1', expect.any(String), 300);
+    });
+
+    it('should revoke when a user is deactivated', async () => {
+      const bus = new EventBus();
+      service.registerRevocationHandlers(bus);
+
+      await bus.publish(BillingEvents.USER_DEACTIVATED, { organizationId: 'org-1', userId: 'user-1' });
+
+      expect(redisClient.set).toHaveBeenCalledWith('entitlement-token:revoked:org-1:user-1', expect.any(String), 300);
+    });
+  });
+
+  describe('getJwks', () => {
+    it('should publish no keys for HS256', () => {
+      expect(service.getJwks()).toEqual({ keys: [] });
+    });
+
+    it('should publish the RS256 public key and verify tokens signed with it', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      config.auth.entitlementToken.algorithm = 'RS256';
+      config.auth.entitlementToken.privateKey = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([seat()]);
+
+      const jwks = service.getJwks();
+      const { token } = await service.issue('user-1', 'org-1');
+
+      expect(jwks.keys).toHaveLength(1);
+      expect(jwks.keys[0]).toMatchObject({ kty: 'RSA', kid: 'test-key', alg: 'RS256', use: 'sig' });
+      expect(jwks.keys[0]).not.toHaveProperty('d');
+      await expect(service.verify(token)).resolves.toMatchObject({ sub: 'user-1' });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * External Organization Mapping Service Tests
+ *
+ * Unit tests for attaching and removing product organization IDs, the
+ * unique (application, external ID) conflict, and cached resolution of
+ * X-External-Org-Id to our organization.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { redis: { ttl: 300 } },
+}));
+
+jest.mock('../../src/infrastructure/cache/redis.client', () => ({
+  redisClient: { get: jest.fn(), set: jest.fn(), delete: jest.fn() },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+import { Prisma } from '@prisma/client';
+import { redisClient } from '../../src/infrastructure/cache/redis.client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { ExternalOrgMappingService } from '../../src/modules/organizations/external-org-mapping.service';
+
+const mockClient = {
+  organization: { findFirst: jest.fn() },
+  application: { findUnique: jest.fn() },
+  externalOrgMapping: { create: jest.fn(), findFirst: jest.fn(), findMany: jest.fn(), delete: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'user-1' };
+
+const storedMapping = (overrides: Record<string, unknown> = {}) => ({
+  id: 'map-1',
+  organizationId: 'org-1',
+  applicationId: 'app-1',
+  externalOrgId: 'hosp_48213',
+  externalOrgKey: 'hospital_id',
+  metadata: null,
+  application: { slug: 'healos' },
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ExternalOrgMappingService', () => {
+  let service: ExternalOrgMappingService;
+
+  beforeEach(() => {
+    service = new ExternalOrgMappingService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: null });
+    (redisClient.set as jest.Mock).mockResolvedValue({ success: true });
+    (redisClient.delete as jest.Mock).mockResolvedValue({ success: true });
+    mockClient.organization.findFirst.mockResolvedValue({ id: 'org-1' });
+    mockClient.application.findUnique.mockResolvedValue({ id: 'app-1', slug: 'healos' });
+    mockClient.externalOrgMapping.create.mockImplementation(async ({ data }) => storedMapping(data));
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('attach', () => {
+    it('should map the external ID for the application and audit it', async () => {
+      const mapping = await service.attach(
+        'org-1',
+        { applicationSlug: 'healos', externalOrgId: 'hosp_48213', externalOrgKey: 'hospital_id' },
+        actor
+      );
+
+      expect(mapping).toMatchObject({ organizationId: 'org-1', applicationSlug: 'healos', externalOrgId: 'hosp_48213' });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entityType: 'external_org_mapping', action: 'created', organizationId: 'org-1' }),
+      });
+    });
+
+    it('should surface the unique (application, external ID) constraint as a conflict', async () => {
+      mockClient.externalOrgMapping.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['applicationId', 'externalOrgId'] },
+        })
+      );
+
+      await expect(
+        service.attach('org-1', { applicationSlug: 'healos', externalOrgId: 'hosp_48213' }, actor)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should reject unknown applications', async () => {
+      mockClient.application.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.attach('org-1', { applicationSlug: 'nope', externalOrgId: 'x' }, actor)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('resolveOrganizationId', () => {
+    it('should resolve through the database and cache the result', async () => {
+      mockClient.externalOrgMapping.findFirst.mockResolvedValue({ organizationId: 'org-1' });
+
+      await expect(service.resolveOrganizationId('healos', 'hosp_48213')).resolves.toBe('org-1');
+
+      expect(mockClient.externalOrgMapping.findFirst.mock.calls[0][0].where).toEqual({
+        externalOrgId: 'hosp_48213',
+        application: { slug: 'healos' },
+        organization: { deletedAt: null },
+      });
+      expect(redisClient.set).toHaveBeenCalledWith('external-org:healos:hosp_48213', 'org-1', 300);
+    });
+
+    it('should use the cached organization ID', async () => {
+      (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data: 'org-1' });
+
+      await expect(service.resolveOrganizationId('healos', 'hosp_48213')).resolves.toBe('org-1');
+      expect(mockClient.externalOrgMapping.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should fail for unmapped IDs', async () => {
+      mockClient.externalOrgMapping.findFirst.mockResolvedValue(null);
+
+      await expect(service.resolveOrganizationId('healos', 'unknown')).rejects.toMatchObject({ statusCode: 404 });
+      expect(redisClient.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the mapping and drop its cached resolution', async () => {
+      mockClient.externalOrgMapping.findFirst.mockResolvedValue(storedMapping());
+
+      await service.remove('org-1', 'map-1', actor);
+
+      expect(mockClient.externalOrgMapping.delete).toHaveBeenCalledWith({ where: { id: 'map-1' } });
+      expect(redisClient.delete).toHaveBeenCalledWith('external-org:healos:hosp_48213');
+    });
+
+    it('should not remove another organization\'s mapping', async () => {
+      mockClient.externalOrgMapping.findFirst.mockResolvedValue(null);
+
+      await expect(service.remove('org-2', 'map-1', actor)).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockClient.externalOrgMapping.delete).not.toHaveBeenCalled();
+    });
+  });
+});
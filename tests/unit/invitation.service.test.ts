@@ -0,0 +1,253 @@
+/**
+ * Invitation Service Tests
+ *
+ * Unit tests for invitation tokens, expiry, replacement of pending
+ * invitations, revocation and acceptance checks, and the seats reserved
+ * for invitations.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { auth: { invitationTtl: 604800 }, frontendUrl: 'https://app.test' },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+import { createHash } from 'crypto';
+import { SeatStatus, UserRole } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { InvitationService } from '../../src/modules/users/invitation.service';
+import { InvitationStatus } from '../../src/modules/users/dto';
+
+const mockClient = {
+  organization: { findFirst: jest.fn() },
+  user: { findFirst: jest.fn(), update: jest.fn() },
+  userInvitation: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  subscriptionSeat: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'owner-1', ipAddress: '10.0.0.1' };
+
+const storedInvitation = (overrides: Record<string, unknown> = {}) => ({
+  id: 'inv-1',
+  organizationId: 'org-1',
+  email: 'jane@acme.com',
+  role: UserRole.MEMBER,
+  tokenHash: 'hash',
+  invitedByUserId: 'owner-1',
+  expiresAt: new Date(Date.now() + 60_000),
+  acceptedAt: null,
+  acceptedUserId: null,
+  revokedAt: null,
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+
+  beforeEach(() => {
+    service = new InvitationService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.organization.findFirst.mockResolvedValue({ id: 'org-1' });
+    mockClient.user.findFirst.mockResolvedValue(null);
+    mockClient.userInvitation.findMany.mockResolvedValue([]);
+    mockClient.userInvitation.updateMany.mockResolvedValue({ count: 0 });
+    mockClient.subscriptionSeat.findMany.mockResolvedValue([]);
+    mockClient.subscriptionSeat.findUnique.mockResolvedValue(null);
+    mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 0 });
+    mockClient.userInvitation.create.mockImplementation(async ({ data }) => storedInvitation(data));
+    mockClient.userInvitation.update.mockImplementation(async ({ data }) => storedInvitation(data));
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('invite', () => {
+    it('should store only the token hash and return the token once', async () => {
+      const invitation = await service.invite('org-1', { email: 'Jane@Acme.com', role: UserRole.ADMIN }, actor);
+
+      const { data } = mockClient.userInvitation.create.mock.calls[0][0];
+      expect(data).toMatchObject({ organizationId: 'org-1', email: 'jane@acme.com', role: UserRole.ADMIN });
+      expect(data.tokenHash).toBe(createHash('sha256').update(invitation.token).digest('hex'));
+      expect(data.expiresAt.getTime() - Date.now()).toBeGreaterThan(604790 * 1000);
+      expect(invitation.acceptUrl).toBe(
+        `https://app.test/invitations/accept?token=${encodeURIComponent(invitation.token)}`
+      );
+      expect(invitation.status).toBe(InvitationStatus.PENDING);
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_INVITED,
+        expect.objectContaining({ organizationId: 'org-1', email: 'jane@acme.com' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should revoke previous pending invitations for the email', async () => {
+      await service.invite('org-1', { email: 'jane@acme.com' }, actor);
+
+      expect(mockClient.userInvitation.updateMany).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1', email: 'jane@acme.com', acceptedAt: null, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should move seats reserved for the replaced invitation to the new one', async () => {
+      const later = new Date(Date.now() + 30 * 86_400_000);
+      mockClient.userInvitation.findMany.mockResolvedValue([{ id: 'inv-0', expiresAt: later }]);
+      mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 2 });
+
+      await service.invite('org-1', { email: 'jane@acme.com' }, actor);
+
+      expect(mockClient.userInvitation.create.mock.calls[0][0].data.expiresAt).toEqual(later);
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { invitationId: { in: ['inv-0'] }, status: SeatStatus.PENDING_INVITE },
+        data: { invitationId: 'inv-1', expiresAt: later },
+      });
+    });
+
+    it('should refuse emails that are already members', async () => {
+      mockClient.user.findFirst.mockResolvedValue({ id: 'user-2' });
+
+      await expect(service.invite('org-1', { email: 'jane@acme.com' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockClient.userInvitation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('should derive status and filter on it', async () => {
+      mockClient.userInvitation.findMany.mockResolvedValue([
+        storedInvitation(),
+        storedInvitation({ id: 'inv-2', expiresAt: new Date(Date.now() - 1000) }),
+        storedInvitation({ id: 'inv-3', revokedAt: new Date() }),
+      ]);
+
+      const expired = await service.list('org-1', InvitationStatus.EXPIRED);
+
+      expect(expired.map((invitation) => invitation.id)).toEqual(['inv-2']);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should refuse invitations that are no longer pending', async () => {
+      mockClient.userInvitation.findFirst.mockResolvedValue(storedInvitation({ acceptedAt: new Date() }));
+
+      await expect(service.revoke('org-1', 'inv-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.userInvitation.update).not.toHaveBeenCalled();
+    });
+
+    it('should release the seats reserved for the invitation', async () => {
+      mockClient.userInvitation.findFirst.mockResolvedValue(storedInvitation());
+      mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.revoke('org-1', 'inv-1', actor);
+
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { invitationId: 'inv-1', status: SeatStatus.PENDING_INVITE },
+        data: { status: SeatStatus.REMOVED, removedAt: expect.any(Date), statusReason: 'Invitation revoked' },
+      });
+    });
+  });
+
+  describe('accept', () => {
+    beforeEach(() => {
+      mockClient.userInvitation.findUnique.mockResolvedValue(storedInvitation());
+      mockClient.user.findFirst.mockResolvedValue({ id: 'user-2', email: 'Jane@acme.com', organization: null });
+    });
+
+    it('should join the user to the organization with the invited role', async () => {
+      const invitation = await service.accept('token', 'user-2', actor);
+
+      expect(mockClient.userInvitation.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: createHash('sha256').update('token').digest('hex') },
+      });
+      expect(mockClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-2' },
+        data: { organizationId: 'org-1', role: UserRole.MEMBER },
+      });
+      expect(invitation.status).toBe(InvitationStatus.ACCEPTED);
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_ADDED_TO_ORG,
+        { organizationId: 'org-1', userId: 'user-2' },
+        expect.any(Object)
+      );
+    });
+
+    it('should turn the seats reserved for the invitation into active seats', async () => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValueOnce([
+        { id: 'seat-1', subscriptionId: 'sub-1', assignedBy: 'owner-1' },
+        { id: 'seat-2', subscriptionId: 'sub-2', assignedBy: 'owner-1' },
+      ]);
+      mockClient.subscriptionSeat.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'seat-old', status: SeatStatus.REMOVED });
+
+      await service.accept('token', 'user-2', actor);
+
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith({
+        where: { id: 'seat-1' },
+        data: expect.objectContaining({ status: SeatStatus.ACTIVE, userId: 'user-2', invitationId: 'inv-1', expiresAt: null }),
+      });
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith({
+        where: { id: 'seat-2' },
+        data: expect.objectContaining({ status: SeatStatus.REMOVED, statusReason: 'Invitation accepted' }),
+      });
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith({
+        where: { id: 'seat-old' },
+        data: expect.objectContaining({ status: SeatStatus.ACTIVE, invitationId: 'inv-1' }),
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'accepted',
+          changes: expect.objectContaining({ seatIds: ['seat-1', 'seat-old'] }),
+        }),
+      });
+    });
+
+    it('should refuse a different email', async () => {
+      mockClient.user.findFirst.mockResolvedValue({ id: 'user-3', email: 'other@acme.com', organization: null });
+
+      await expect(service.accept('token', 'user-3', actor)).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockClient.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired invitations', async () => {
+      mockClient.userInvitation.findUnique.mockResolvedValue(
+        storedInvitation({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(service.accept('token', 'user-2', actor)).rejects.toThrow('Invitation is expired');
+    });
+
+    it('should refuse users who belong to another organization', async () => {
+      mockClient.user.findFirst.mockResolvedValue({
+        id: 'user-2',
+        email: 'jane@acme.com',
+        organization: { id: 'org-2', deletedAt: null },
+      });
+
+      await expect(service.accept('token', 'user-2', actor)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Money Utility Tests
+ *
+ * Unit tests for converting between stored major-unit amounts and the
+ * integer minor units used by Stripe and the API.
+ */
+
+import { Prisma } from '@prisma/client';
+import { currencyDecimals, fromCents, toCents } from '../../src/shared/utils/money.util';
+
+describe('money.util', () => {
+  describe('currencyDecimals', () => {
+    it('should follow Stripe for zero-, two- and three-decimal currencies', () => {
+      expect(currencyDecimals('USD')).toBe(2);
+      expect(currencyDecimals('eur')).toBe(2);
+      expect(currencyDecimals('JPY')).toBe(0);
+      expect(currencyDecimals('krw')).toBe(0);
+      expect(currencyDecimals('KWD')).toBe(3);
+    });
+  });
+
+  describe('toCents', () => {
+    it('should convert a Decimal dollar amount to integer cents', () => {
+      expect(toCents(new Prisma.Decimal('990.00'), 'USD')).toBe(99000);
+      expect(toCents(new Prisma.Decimal('19.99'), 'USD')).toBe(1999);
+      expect(toCents(new Prisma.Decimal('0'), 'USD')).toBe(0);
+    });
+
+    it('should accept numbers and strings', () => {
+      expect(toCents(12.5, 'USD')).toBe(1250);
+      expect(toCents('0.01', 'USD')).toBe(1);
+    });
+
+    it('should avoid floating point drift', () => {
+      // 0.1 + 0.2 and 1.005 * 100 are not exact in binary floating point
+      expect(toCents(0.1 + 0.2, 'USD')).toBe(30);
+      expect(toCents(1.005, 'USD')).toBe(101);
+      expect(toCents(4.35, 'USD')).toBe(435);
+    });
+
+    it('should round fractions of a cent half up', () => {
+      expect(toCents('10.125', 'USD')).toBe(1013);
+      expect(toCents('10.124', 'USD')).toBe(1012);
+    });
+
+    it('should keep whole units for zero-decimal currencies', () => {
+      expect(toCents(new Prisma.Decimal('1500.00'), 'JPY')).toBe(1500);
+      expect(toCents('990', 'krw')).toBe(990);
+    });
+  });
+
+  describe('fromCents', () => {
+    it('should convert integer cents to a two-place Decimal', () => {
+      const amount = fromCents(1999, 'USD');
+
+      expect(amount).toBeInstanceOf(Prisma.Decimal);
+      expect(amount.toFixed(2)).toBe('19.99');
+      expect(fromCents(5, 'USD').toFixed(2)).toBe('0.05');
+      expect(fromCents(0, 'USD').toFixed(2)).toBe('0.00');
+    });
+
+    it('should store whole units for zero-decimal currencies', () => {
+      expect(fromCents(1500, 'JPY').toFixed(2)).toBe('1500.00');
+    });
+
+    it('should round trip with toCents', () => {
+      for (const currency of ['USD', 'JPY']) {
+        for (const cents of [0, 1, 99, 1999, 99000, 12345678]) {
+          expect(toCents(fromCents(cents, currency), currency)).toBe(cents);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Organization Service Tests
+ *
+ * Unit tests for organization creation and ownership, slug handling,
+ * profile metadata, pagination, status transitions, ownership transfer,
+ * soft deletion and audit logging.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { redis: { ttl: 300 } },
+}));
+
+jest.mock('../../src/infrastructure/cache/redis.client', () => ({
+  redisClient: { get: jest.fn(), set: jest.fn(), delete: jest.fn() },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+import { OrganizationStatus, Prisma, UserRole } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { OrganizationService } from '../../src/modules/organizations/organization.service';
+
+const mockClient = {
+  user: { findFirst: jest.fn(), update: jest.fn() },
+  organization: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+  },
+  organizationSubscription: { count: jest.fn() },
+  application: { findUnique: jest.fn() },
+  externalOrgMapping: { create: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'user-1', ipAddress: '10.0.0.1' };
+
+const storedOrganization = (overrides: Record<string, unknown> = {}) => ({
+  id: 'org-1',
+  name: 'Acme Corp',
+  slug: 'acme-corp',
+  ownerUserId: 'user-1',
+  billingEmail: 'billing@acme.com',
+  taxId: null,
+  address: null,
+  metadata: { region: 'us', profile: { website: 'https://acme.com' } },
+  stripeCustomerId: null,
+  status: OrganizationStatus.ACTIVE,
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  deletedAt: null,
+  ...overrides,
+});
+
+describe('OrganizationService', () => {
+  let service: OrganizationService;
+
+  beforeEach(() => {
+    service = new OrganizationService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.user.findFirst.mockResolvedValue({ id: 'user-1', email: 'owner@acme.com', organization: null });
+    mockClient.organization.findUnique.mockResolvedValue(null);
+    mockClient.organization.findFirst.mockResolvedValue(storedOrganization());
+    mockClient.organization.create.mockImplementation(async ({ data }) => storedOrganization({ ...data, id: 'org-new' }));
+    mockClient.organization.update.mockImplementation(async ({ data }) =>
+      storedOrganization(Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)))
+    );
+    mockClient.organizationSubscription.count.mockResolvedValue(0);
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('create', () => {
+    it('should make the creating user the OWNER and derive slug and billing email', async () => {
+      const organization = await service.create({ name: 'Acme Corp!', website: 'https://acme.com' }, 'user-1', actor);
+
+      const { data } = mockClient.organization.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        slug: 'acme-corp',
+        ownerUserId: 'user-1',
+        billingEmail: 'owner@acme.com',
+        metadata: { profile: { website: 'https://acme.com' } },
+      });
+      expect(mockClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { organizationId: 'org-new', role: UserRole.OWNER },
+      });
+      expect(organization).toMatchObject({ id: 'org-new', website: 'https://acme.com', isActive: true });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.ORGANIZATION_CREATED,
+        { organizationId: 'org-new' },
+        expect.any(Object)
+      );
+    });
+
+    it('should write an audit entry', async () => {
+      await service.create({ name: 'Acme Corp' }, 'user-1', actor);
+
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entityType: 'organization', action: 'created', actorUserId: 'user-1' }),
+      });
+    });
+
+    it('should attach external organization mappings in the same transaction', async () => {
+      mockClient.application.findUnique.mockResolvedValue({ id: 'app-1', slug: 'healos' });
+      mockClient.externalOrgMapping.create.mockImplementation(async ({ data }) => ({
+        ...data,
+        id: 'map-1',
+        metadata: null,
+        application: { slug: 'healos' },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+
+      const organization = await service.create(
+        { name: 'Acme Corp', externalMappings: [{ applicationSlug: 'healos', externalOrgId: 'hosp_1' }] },
+        'user-1',
+        actor
+      );
+
+      expect(mockClient.externalOrgMapping.create.mock.calls[0][0].data).toMatchObject({
+        organizationId: 'org-new',
+        applicationId: 'app-1',
+        externalOrgId: 'hosp_1',
+      });
+      expect(organization.externalMappings).toEqual([
+        expect.objectContaining({ applicationSlug: 'healos', externalOrgId: 'hosp_1' }),
+      ]);
+    });
+
+    it('should refuse users who already belong to an organization', async () => {
+      mockClient.user.findFirst.mockResolvedValue({
+        id: 'user-1',
+        email: 'owner@acme.com',
+        organization: { id: 'org-1', deletedAt: null },
+      });
+
+      await expect(service.create({ name: 'Acme Corp' }, 'user-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.organization.create).not.toHaveBeenCalled();
+    });
+
+    it('should turn a slug unique violation into a conflict', async () => {
+      mockClient.organization.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['slug'] },
+        })
+      );
+
+      await expect(
+        service.create({ name: 'Acme Corp', slug: 'acme-corp' }, 'user-1', actor)
+      ).rejects.toMatchObject({ statusCode: 409, message: "Organization slug 'acme-corp' is already taken" });
+    });
+  });
+
+  describe('update', () => {
+    it('should merge profile fields and metadata and audit the changed columns', async () => {
+      const organization = await service.update('org-1', { industry: 'Healthcare', metadata: { tier: 'gold' } }, actor);
+
+      const { data } = mockClient.organization.update.mock.calls[0][0];
+      expect(data.metadata).toEqual({
+        region: 'us',
+        tier: 'gold',
+        profile: { website: 'https://acme.com', industry: 'Healthcare' },
+      });
+      expect(organization).toMatchObject({ industry: 'Healthcare', metadata: { region: 'us', tier: 'gold' } });
+      expect(mockClient.auditLog.create.mock.calls[0][0].data.changes).toEqual({
+        metadata: expect.objectContaining({ to: data.metadata }),
+      });
+    });
+
+    it('should not find deleted organizations', async () => {
+      mockClient.organization.findFirst.mockResolvedValue(null);
+
+      await expect(service.update('org-1', { name: 'x' }, actor)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('list', () => {
+    it('should page through non-deleted organizations', async () => {
+      mockClient.organization.findMany.mockResolvedValue([storedOrganization()]);
+      mockClient.organization.count.mockResolvedValue(45);
+
+      const result = await service.list({ page: 2, limit: 20, search: 'acme', sortBy: 'password' });
+
+      const query = mockClient.organization.findMany.mock.calls[0][0];
+      expect(query).toMatchObject({ skip: 20, take: 20, orderBy: { createdAt: 'desc' } });
+      expect(query.where).toMatchObject({ deletedAt: null });
+      expect(result.meta).toMatchObject({ page: 2, total: 45, totalPages: 3, hasPrevious: true, hasNext: true, nextPage: 3 });
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should suspend an active organization and publish the suspension', async () => {
+      const organization = await service.suspend('org-1', { reason: 'Unpaid invoices' }, actor);
+
+      expect(organization.status).toBe(OrganizationStatus.SUSPENDED);
+      expect(mockClient.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'suspended',
+        metadata: { reason: 'Unpaid invoices' },
+      });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.ORGANIZATION_SUSPENDED,
+        { organizationId: 'org-1' },
+        expect.any(Object)
+      );
+    });
+
+    it('should only reactivate suspended organizations', async () => {
+      await expect(service.reactivate('org-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+
+      mockClient.organization.findFirst.mockResolvedValue(storedOrganization({ status: OrganizationStatus.SUSPENDED }));
+      const organization = await service.reactivate('org-1', actor);
+
+      expect(organization.isActive).toBe(true);
+    });
+  });
+
+  describe('softDelete', () => {
+    it('should set deletedAt and DELETED status', async () => {
+      const organization = await service.softDelete('org-1', actor);
+
+      expect(mockClient.organization.update.mock.calls[0][0].data).toEqual({
+        status: OrganizationStatus.DELETED,
+        deletedAt: expect.any(Date),
+      });
+      expect(organization.status).toBe(OrganizationStatus.DELETED);
+      expect(mockClient.auditLog.create.mock.calls[0][0].data.action).toBe('deleted');
+    });
+
+    it('should refuse while subscriptions are live', async () => {
+      mockClient.organizationSubscription.count.mockResolvedValue(1);
+
+      await expect(service.softDelete('org-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.organization.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transferOwnership', () => {
+    beforeEach(() => {
+      mockClient.user.findFirst.mockResolvedValue({ id: 'user-2', organizationId: 'org-1', status: 'ACTIVE' });
+    });
+
+    it('should move ownerUserId and both roles in one transaction', async () => {
+      const organization = await service.transferOwnership(
+        'org-1',
+        { newOwnerUserId: 'user-2', previousOwnerRole: UserRole.BILLING_ADMIN },
+        actor
+      );
+
+      expect(databaseManager.executeTransaction).toHaveBeenCalledTimes(1);
+      expect(mockClient.organization.update).toHaveBeenCalledWith({
+        where: { id: 'org-1' },
+        data: { ownerUserId: 'user-2' },
+      });
+      expect(mockClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { role: UserRole.BILLING_ADMIN },
+      });
+      expect(mockClient.user.update).toHaveBeenCalledWith({ where: { id: 'user-2' }, data: { role: UserRole.OWNER } });
+      expect(organization.ownerUserId).toBe('user-2');
+      expect(mockClient.auditLog.create.mock.calls[0][0].data.action).toBe('ownership_transferred');
+    });
+
+    it('should demote the previous owner to ADMIN by default', async () => {
+      await service.transferOwnership('org-1', { newOwnerUserId: 'user-2' }, actor);
+
+      expect(mockClient.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { role: UserRole.ADMIN } });
+    });
+
+    it('should only let the current owner transfer', async () => {
+      await expect(
+        service.transferOwnership('org-1', { newOwnerUserId: 'user-2' }, { actorUserId: 'user-3' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockClient.organization.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse inactive or non-member new owners', async () => {
+      mockClient.user.findFirst.mockResolvedValueOnce({ id: 'user-2', organizationId: 'org-1', status: 'SUSPENDED' });
+      await expect(
+        service.transferOwnership('org-1', { newOwnerUserId: 'user-2' }, actor)
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      mockClient.user.findFirst.mockResolvedValueOnce(null);
+      await expect(
+        service.transferOwnership('org-1', { newOwnerUserId: 'user-9' }, actor)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockClient.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
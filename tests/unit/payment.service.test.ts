@@ -0,0 +1,244 @@
+/**
+ * Payment Service Tests
+ *
+ * Unit tests for recording Stripe invoice payments in the Payment ledger
+ * and the subscription status changes they cause.
+ */
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/infrastructure/stripe/stripe.client', () => ({
+  getStripe: jest.fn(),
+  withStripe: jest.fn(),
+}));
+
+import Stripe from 'stripe';
+import { Payment, PaymentStatus, Prisma, SubscriptionStatus } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { withStripe } from '../../src/infrastructure/stripe/stripe.client';
+import { PaymentService } from '../../src/modules/payments/payment.service';
+
+const mockClient = {
+  organizationSubscription: { findUnique: jest.fn(), update: jest.fn() },
+  organization: { findUnique: jest.fn() },
+  payment: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn(), upsert: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const mockStripe = { paymentIntents: { retrieve: jest.fn() } };
+
+const localSubscription = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sub-1',
+  organizationId: 'org-1',
+  applicationId: 'app-1',
+  stripeSubscriptionId: 'sub_stripe_1',
+  status: SubscriptionStatus.ACTIVE,
+  application: { slug: 'healos' },
+  ...overrides,
+});
+
+const invoice = (overrides: Record<string, unknown> = {}) => ({
+  id: 'in_1',
+  customer: 'cus_1',
+  subscription: 'sub_stripe_1',
+  payment_intent: 'pi_1',
+  charge: 'ch_1',
+  amount_due: 4995,
+  amount_paid: 4995,
+  currency: 'usd',
+  number: 'INV-0001',
+  billing_reason: 'subscription_cycle',
+  hosted_invoice_url: 'https://invoice.stripe.com/i/in_1',
+  attempt_count: 1,
+  status_transitions: { paid_at: 1705276800 },
+  last_finalization_error: null,
+  ...overrides,
+}) as unknown as Stripe.Invoice;
+
+const paymentIntent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'pi_1',
+  payment_method_types: ['card'],
+  last_payment_error: null,
+  latest_charge: {
+    id: 'ch_1',
+    receipt_url: 'https://pay.stripe.com/receipts/ch_1',
+    failure_message: null,
+    payment_method_details: { type: 'card' },
+  },
+  ...overrides,
+});
+
+const paymentRow = (data: Record<string, unknown>) => ({ id: 'pay-1', createdAt: new Date(), ...data });
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+
+  beforeEach(() => {
+    service = new PaymentService();
+
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    (withStripe as jest.Mock).mockImplementation((op) => op(mockStripe));
+
+    mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent());
+    mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription());
+    mockClient.payment.findFirst.mockResolvedValue(null);
+    mockClient.payment.create.mockImplementation(({ data }) => Promise.resolve(paymentRow(data)));
+    mockClient.payment.update.mockImplementation(({ data }) => Promise.resolve(paymentRow(data)));
+    mockClient.payment.upsert.mockImplementation(({ create }) => Promise.resolve(paymentRow(create)));
+  });
+
+  describe('recordInvoicePayment', () => {
+    it('should record a successful payment in dollars', async () => {
+      await service.recordInvoicePayment(invoice(), true, 'evt_1');
+
+      expect(mockStripe.paymentIntents.retrieve).toHaveBeenCalledWith('pi_1', { expand: ['latest_charge'] });
+
+      const { where, create: data, update } = mockClient.payment.upsert.mock.calls[0][0];
+      expect(where).toEqual({ stripePaymentIntentId: 'pi_1' });
+      expect(update).toBe(data);
+      expect(data).toMatchObject({
+        subscriptionId: 'sub-1',
+        organizationId: 'org-1',
+        stripePaymentIntentId: 'pi_1',
+        stripeInvoiceId: 'in_1',
+        stripeChargeId: 'ch_1',
+        currency: 'USD',
+        status: PaymentStatus.SUCCEEDED,
+        paymentMethod: 'card',
+        receiptUrl: 'https://pay.stripe.com/receipts/ch_1',
+        failureReason: null,
+        paidAt: new Date(1705276800 * 1000),
+      });
+      expect(data.amount.toFixed(2)).toBe('49.95');
+
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.PAYMENT_SUCCEEDED,
+        expect.objectContaining({ paymentId: 'pay-1', amount: 4995, currency: 'USD' }),
+        expect.objectContaining({ organizationId: 'org-1', causationId: 'evt_1' })
+      );
+    });
+
+    it('should record a failed payment and move the subscription to PAST_DUE', async () => {
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent({
+        last_payment_error: { message: 'Your card was declined.' },
+      }));
+
+      await service.recordInvoicePayment(invoice({ amount_paid: 0 }), false, 'evt_2');
+
+      const data = mockClient.payment.upsert.mock.calls[0][0].create;
+      expect(data).toMatchObject({ status: PaymentStatus.FAILED, failureReason: 'Your card was declined.', paidAt: null });
+      expect(data.amount.toFixed(2)).toBe('49.95');
+
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { status: SubscriptionStatus.PAST_DUE },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ entityType: 'subscription', action: 'payment_failed' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_UPDATED,
+        expect.objectContaining({ subscriptionId: 'sub-1', status: SubscriptionStatus.PAST_DUE }),
+        expect.anything()
+      );
+    });
+
+    it('should update the failed payment and reactivate the subscription when a retry succeeds', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(
+        localSubscription({ status: SubscriptionStatus.PAST_DUE })
+      );
+      mockClient.payment.findFirst.mockResolvedValue(paymentRow({ status: PaymentStatus.FAILED }));
+
+      await service.recordInvoicePayment(invoice({ attempt_count: 2 }), true, 'evt_3');
+
+      expect(mockClient.payment.upsert).not.toHaveBeenCalled();
+      expect(mockClient.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay-1' },
+        data: expect.objectContaining({ status: PaymentStatus.SUCCEEDED, failureReason: null }),
+      });
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { status: SubscriptionStatus.ACTIVE },
+      });
+    });
+
+    it('should ignore a late failure for an invoice already paid', async () => {
+      mockClient.payment.findFirst.mockResolvedValue(paymentRow({ status: PaymentStatus.SUCCEEDED }));
+
+      await service.recordInvoicePayment(invoice(), false, 'evt_4');
+
+      expect(mockClient.payment.update).not.toHaveBeenCalled();
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should key zero-amount invoices on the invoice ID without calling Stripe', async () => {
+      await service.recordInvoicePayment(
+        invoice({ payment_intent: null, charge: null, amount_paid: 0, billing_reason: 'subscription_create' }),
+        true,
+        'evt_5'
+      );
+
+      expect(mockStripe.paymentIntents.retrieve).not.toHaveBeenCalled();
+      expect(mockClient.payment.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { stripeInvoiceId: 'in_1' } }));
+      expect(mockClient.payment.upsert).not.toHaveBeenCalled();
+      expect(mockClient.payment.create.mock.calls[0][0].data.amount.toFixed(2)).toBe('0.00');
+    });
+
+    it('should fall back to the customer for invoices without a subscription', async () => {
+      mockClient.organization.findUnique.mockResolvedValue({ id: 'org-1' });
+
+      await service.recordInvoicePayment(invoice({ subscription: null }), true, 'evt_6');
+
+      expect(mockClient.organization.findUnique).toHaveBeenCalledWith({ where: { stripeCustomerId: 'cus_1' }, select: { id: true } });
+      expect(mockClient.payment.upsert.mock.calls[0][0].create).toMatchObject({ organizationId: 'org-1', subscriptionId: null });
+    });
+
+    it('should skip invoices for unknown customers', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(null);
+      mockClient.organization.findUnique.mockResolvedValue(null);
+
+      await service.recordInvoicePayment(invoice(), true, 'evt_7');
+
+      expect(mockClient.payment.upsert).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toResponse', () => {
+    it('should present the stored dollar amount in cents', () => {
+      const response = service.toResponse({
+        id: 'pay-1',
+        subscriptionId: null,
+        organizationId: 'org-1',
+        stripePaymentIntentId: 'pi_1',
+        stripeInvoiceId: 'in_1',
+        stripeChargeId: null,
+        amount: new Prisma.Decimal('990.10'),
+        currency: 'USD',
+        status: PaymentStatus.SUCCEEDED,
+        paymentMethod: 'card',
+        failureReason: null,
+        receiptUrl: null,
+        paidAt: null,
+        createdAt: new Date('2024-01-15T10:30:00.000Z'),
+        metadata: null,
+      } as Payment);
+
+      expect(response).toMatchObject({ amount: 99010, invoiceId: 'in_1', subscriptionId: undefined, paidAt: undefined });
+    });
+  });
+});
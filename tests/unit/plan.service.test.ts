@@ -0,0 +1,215 @@
+/**
+ * Plan Service Tests
+ *
+ * Unit tests for plan validation, Stripe Product/Price creation, repricing
+ * and archive-instead-of-delete.
+ */
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/stripe/stripe.client', () => ({
+  getStripe: jest.fn(),
+  withStripe: jest.fn(),
+}));
+
+import { BillingInterval, Prisma } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { getStripe, withStripe } from '../../src/infrastructure/stripe/stripe.client';
+import { PlanService } from '../../src/modules/subscriptions/plan.service';
+import { ErrorCode } from '../../src/shared/errors/custom-errors';
+
+const mockClient = {
+  application: { findUnique: jest.fn() },
+  subscriptionPlan: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  organizationSubscription: { count: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const mockStripe = {
+  products: { create: jest.fn(), update: jest.fn() },
+  prices: { create: jest.fn(), retrieve: jest.fn(), update: jest.fn() },
+};
+
+const actor = { actorUserId: 'admin-1' };
+
+const storedPlan = (overrides: Record<string, unknown> = {}) => ({
+  id: 'plan-1',
+  applicationId: 'app-1',
+  name: 'Team',
+  slug: 'team',
+  description: null,
+  stripePriceId: 'price_old',
+  stripeProductId: 'prod_1',
+  pricePerSeat: new Prisma.Decimal('99.00'),
+  currency: 'USD',
+  billingInterval: BillingInterval.MONTHLY,
+  minSeats: 1,
+  maxSeats: null,
+  trialPeriodDays: 0,
+  features: null,
+  metadata: null,
+  isActive: true,
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+describe('PlanService', () => {
+  let service: PlanService;
+
+  beforeEach(() => {
+    service = new PlanService();
+    (getStripe as jest.Mock).mockReturnValue(mockStripe);
+    (withStripe as jest.Mock).mockImplementation((op) => op(mockStripe));
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.application.findUnique.mockResolvedValue({ id: 'app-1' });
+    mockClient.subscriptionPlan.findUnique.mockResolvedValue(null);
+    mockClient.subscriptionPlan.create.mockImplementation(async ({ data }) => storedPlan(data));
+    mockClient.subscriptionPlan.update.mockImplementation(async ({ data }) =>
+      storedPlan(Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)))
+    );
+    mockClient.subscriptionPlan.delete.mockResolvedValue(storedPlan());
+    mockClient.organizationSubscription.count.mockResolvedValue(0);
+    mockClient.auditLog.create.mockResolvedValue({});
+    mockStripe.products.create.mockResolvedValue({ id: 'prod_new' });
+    mockStripe.prices.create.mockResolvedValue({ id: 'price_new' });
+  });
+
+  describe('create', () => {
+    const dto = {
+      applicationId: 'app-1',
+      name: 'Team Plan',
+      pricePerSeat: 9900,
+      billingInterval: BillingInterval.YEARLY,
+    };
+
+    it('should create the Stripe Product and Price and store dollars', async () => {
+      const plan = await service.create(dto, actor);
+
+      expect(mockStripe.prices.create).toHaveBeenCalledWith(expect.objectContaining({
+        product: 'prod_new',
+        unit_amount: 9900,
+        currency: 'usd',
+        recurring: { interval: 'year' },
+      }));
+      const { data } = mockClient.subscriptionPlan.create.mock.calls[0][0];
+      expect(data).toMatchObject({ slug: 'team-plan', stripePriceId: 'price_new', stripeProductId: 'prod_new' });
+      expect(data.pricePerSeat.toString()).toBe('99');
+      expect(plan.pricePerSeat).toBe(9900);
+    });
+
+    it('should price zero-decimal currencies in whole units', async () => {
+      const plan = await service.create({ ...dto, pricePerSeat: 1500, currency: 'jpy' }, actor);
+
+      expect(mockStripe.prices.create).toHaveBeenCalledWith(expect.objectContaining({ unit_amount: 1500, currency: 'jpy' }));
+      const { data } = mockClient.subscriptionPlan.create.mock.calls[0][0];
+      expect(data.pricePerSeat.toString()).toBe('1500');
+      expect(plan.pricePerSeat).toBe(1500);
+    });
+
+    it('should refuse three-decimal currencies', async () => {
+      await expect(service.create({ ...dto, currency: 'KWD' }, actor)).rejects.toMatchObject({
+        statusCode: 400,
+        code: ErrorCode.INVALID_INPUT,
+      });
+      expect(mockStripe.products.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the plan business rules before calling Stripe', async () => {
+      await expect(service.create({ ...dto, minSeats: 10, maxSeats: 5 }, actor)).rejects.toMatchObject({
+        statusCode: 422,
+        validationDetails: { plan: ['Maximum seats cannot be less than minimum seats'] },
+      });
+      expect(mockStripe.products.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a linked Stripe price with different terms', async () => {
+      mockStripe.prices.retrieve.mockResolvedValue({
+        id: 'price_existing',
+        product: 'prod_existing',
+        unit_amount: 9900,
+        currency: 'usd',
+        recurring: { interval: 'month' },
+      });
+
+      await expect(service.create({ ...dto, stripePriceId: 'price_existing' }, actor)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockClient.subscriptionPlan.create).not.toHaveBeenCalled();
+    });
+
+    it('should archive the new Stripe objects when the plan cannot be stored', async () => {
+      mockClient.subscriptionPlan.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.create(dto, actor)).rejects.toThrow('connection lost');
+      expect(mockStripe.prices.update).toHaveBeenCalledWith('price_new', { active: false });
+      expect(mockStripe.products.update).toHaveBeenCalledWith('prod_new', { active: false });
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      mockClient.subscriptionPlan.findUnique.mockResolvedValue(storedPlan());
+    });
+
+    it('should create a new Stripe Price when the price changes and archive the old one', async () => {
+      const plan = await service.update('plan-1', { pricePerSeat: 10900 }, actor);
+
+      expect(mockStripe.prices.create).toHaveBeenCalledWith(expect.objectContaining({
+        product: 'prod_1',
+        unit_amount: 10900,
+        recurring: { interval: 'month' },
+      }));
+      expect(mockClient.subscriptionPlan.update.mock.calls[0][0].data.stripePriceId).toBe('price_new');
+      expect(mockStripe.prices.update).toHaveBeenCalledWith('price_old', { active: false });
+      expect(plan).toMatchObject({ pricePerSeat: 10900, stripePriceId: 'price_new' });
+    });
+
+    it('should only update the Stripe Product for a rename', async () => {
+      await service.update('plan-1', { name: 'Teams', pricePerSeat: 9900 }, actor);
+
+      expect(mockStripe.products.update).toHaveBeenCalledWith('prod_1', expect.objectContaining({ name: 'Teams' }));
+      expect(mockStripe.prices.create).not.toHaveBeenCalled();
+      expect(mockClient.subscriptionPlan.update.mock.calls[0][0].data.stripePriceId).toBeUndefined();
+    });
+  });
+
+  describe('remove', () => {
+    beforeEach(() => {
+      mockClient.subscriptionPlan.findUnique.mockResolvedValue(storedPlan());
+    });
+
+    it('should archive plans that still have subscriptions', async () => {
+      mockClient.organizationSubscription.count.mockResolvedValue(3);
+
+      const result = await service.remove('plan-1', actor);
+
+      expect(result.deleted).toBe(false);
+      expect(result.plan.isActive).toBe(false);
+      expect(mockClient.subscriptionPlan.delete).not.toHaveBeenCalled();
+      expect(mockStripe.products.update).toHaveBeenCalledWith('prod_1', { active: false });
+    });
+
+    it('should delete plans without subscriptions', async () => {
+      const result = await service.remove('plan-1', actor);
+
+      expect(result.deleted).toBe(true);
+      expect(mockClient.subscriptionPlan.delete).toHaveBeenCalledWith({ where: { id: 'plan-1' } });
+      expect(mockStripe.prices.update).toHaveBeenCalledWith('price_old', { active: false });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Polling Worker Tests
+ *
+ * Unit tests for the background polling shared by the seat schedule and
+ * Stripe webhook retry workers: interval runs, the overlap guard, error
+ * handling and stopping.
+ */
+
+jest.mock('../../src/shared/utils/logger.util', () => ({
+  logger: { info: jest.fn(), error: jest.fn() },
+}));
+
+import { PollingWorker } from '../../src/infrastructure/workers/polling-worker';
+import { logger } from '../../src/shared/utils/logger.util';
+
+describe('PollingWorker', () => {
+  let run: jest.Mock;
+  let worker: PollingWorker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    run = jest.fn().mockResolvedValue(undefined);
+    worker = new PollingWorker({ name: 'Test worker', interval: () => 1000, run });
+  });
+
+  afterEach(() => {
+    worker.stop();
+    jest.useRealTimers();
+  });
+
+  it('should run the task on every interval once started', async () => {
+    worker.start();
+
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(logger.info).toHaveBeenCalledWith('Test worker started', { intervalMs: 1000 });
+  });
+
+  it('should start only one timer when started twice', async () => {
+    worker.start();
+    worker.start();
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip a tick while the previous run is still going', async () => {
+    let finish: () => void = () => undefined;
+    run.mockImplementationOnce(() => new Promise<void>((resolve) => { finish = resolve; }));
+
+    const first = worker.tick();
+    await worker.tick();
+
+    expect(run).toHaveBeenCalledTimes(1);
+
+    finish();
+    await first;
+    await worker.tick();
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log a failed run and run again on the next tick', async () => {
+    run.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await worker.tick();
+    await worker.tick();
+
+    expect(logger.error).toHaveBeenCalledWith('Test worker run failed', { error: 'database unavailable' });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop running once stopped, and can be started again', async () => {
+    worker.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    worker.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(run).toHaveBeenCalledTimes(1);
+
+    worker.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
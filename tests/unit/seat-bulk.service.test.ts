@@ -0,0 +1,213 @@
+/**
+ * Seat Bulk Service Tests
+ *
+ * Unit tests for planning and applying bulk seat imports: row validation,
+ * duplicates, capacity shortfalls, invitations with reserved seats and
+ * per-row failures.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { business: { seatExpiryNoticeDays: 7 } },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/seats/seat.service', () => ({
+  ...jest.requireActual('../../src/modules/seats/seat.service'),
+  seatService: { assign: jest.fn(), reserveSeats: jest.fn() },
+}));
+
+import { SeatStatus, SubscriptionStatus, UserStatus } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { ConflictError, ErrorCode } from '../../src/shared/errors/custom-errors';
+import { BulkSeatRowOutcome } from '../../src/modules/seats/dto';
+import { SeatBulkService } from '../../src/modules/seats/seat-bulk.service';
+import { seatService } from '../../src/modules/seats/seat.service';
+
+const mockClient = {
+  organizationSubscription: { findMany: jest.fn() },
+  user: { findMany: jest.fn() },
+  subscriptionSeat: { findMany: jest.fn() },
+};
+
+const actor = { actorUserId: 'admin-1' };
+const apply = { dryRun: false, canInvite: true };
+const preview = { dryRun: true, canInvite: true };
+
+const member = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  email: `${id}@stmarys.test`,
+  organizationId: 'org-1',
+  status: UserStatus.ACTIVE,
+  ...overrides,
+});
+
+const row = (email: string, applicationSlug = 'healos', role?: string) => ({ email, applicationSlug, role });
+
+describe('SeatBulkService', () => {
+  let service: SeatBulkService;
+
+  beforeEach(() => {
+    service = new SeatBulkService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.organizationSubscription.findMany.mockResolvedValue([{
+      id: 'sub-1',
+      organizationId: 'org-1',
+      quantity: 3,
+      scheduledQuantity: null,
+      status: SubscriptionStatus.ACTIVE,
+      application: { slug: 'healos' },
+    }]);
+    mockClient.user.findMany.mockResolvedValue([member('user-1'), member('user-2'), member('user-3')]);
+    mockClient.subscriptionSeat.findMany.mockResolvedValue([{ subscriptionId: 'sub-1', userId: 'user-1' }]);
+    (seatService.assign as jest.Mock).mockImplementation(async (_org, dto) => ({ id: `seat-${dto.userId}` }));
+    (seatService.reserveSeats as jest.Mock).mockImplementation(async (_org, subscriptionIds, dto) => ({
+      invitation: { id: `inv-${dto.email}`, acceptUrl: `https://app.test/invitations/accept?token=${dto.email}` },
+      seats: subscriptionIds.map((subscriptionId: string) => ({ id: `seat-${dto.email}`, subscriptionId })),
+    }));
+  });
+
+  it('should report what would happen without changing anything in a dry run', async () => {
+    mockClient.organizationSubscription.findMany.mockResolvedValue([{
+      id: 'sub-1',
+      organizationId: 'org-1',
+      quantity: 4,
+      scheduledQuantity: 3,
+      status: SubscriptionStatus.ACTIVE,
+      application: { slug: 'healos' },
+    }]);
+
+    const report = await service.importRows('org-1', [
+      row('user-1@stmarys.test'),
+      row('USER-2@stmarys.test'),
+      row('new.nurse@stmarys.test', 'healos', 'member'),
+      row('user-3@stmarys.test'),
+    ], preview, actor);
+
+    expect(report).toMatchObject({ dryRun: true, total: 4, assigned: 1, invited: 1, skipped: 1, failed: 1 });
+    expect(report.rows.map((result) => result.outcome)).toEqual([
+      BulkSeatRowOutcome.SKIPPED,
+      BulkSeatRowOutcome.ASSIGNED,
+      BulkSeatRowOutcome.INVITED,
+      BulkSeatRowOutcome.FAILED,
+    ]);
+    expect(report.rows[3]).toMatchObject({ row: 4, code: ErrorCode.NO_SEATS_AVAILABLE });
+    expect(report.capacity).toEqual([
+      { applicationSlug: 'healos', subscriptionId: 'sub-1', capacity: 3, assigned: 1, requested: 3, shortfall: 1 },
+    ]);
+    expect(mockClient.subscriptionSeat.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        subscriptionId: { in: ['sub-1'] },
+        status: { in: [SeatStatus.ACTIVE, SeatStatus.SCHEDULED, SeatStatus.PENDING_INVITE] },
+      },
+    }));
+    expect(seatService.assign).not.toHaveBeenCalled();
+    expect(seatService.reserveSeats).not.toHaveBeenCalled();
+  });
+
+  it('should show the shortfall when the rows need more seats than remain', async () => {
+    mockClient.user.findMany.mockResolvedValue([member('user-2'), member('user-3'), member('user-4'), member('user-5')]);
+
+    const report = await service.importRows('org-1', [
+      row('user-2@stmarys.test'),
+      row('user-3@stmarys.test'),
+      row('user-4@stmarys.test'),
+      row('user-5@stmarys.test'),
+    ], preview, actor);
+
+    expect(report.capacity[0]).toMatchObject({ capacity: 3, assigned: 1, requested: 4, shortfall: 2 });
+    expect(report.failed).toBe(2);
+  });
+
+  it('should validate rows and skip duplicates', async () => {
+    const report = await service.importRows('org-1', [
+      row('not-an-email'),
+      { email: 'user-2@stmarys.test' },
+      row('user-2@stmarys.test', 'healos', 'OWNER'),
+      row('user-2@stmarys.test'),
+      row('user-2@stmarys.test'),
+      row('user-2@stmarys.test', 'unknown-app'),
+    ], preview, actor);
+
+    expect(report.rows.map((result) => [result.outcome, result.code])).toEqual([
+      [BulkSeatRowOutcome.FAILED, ErrorCode.VALIDATION_ERROR],
+      [BulkSeatRowOutcome.FAILED, ErrorCode.VALIDATION_ERROR],
+      [BulkSeatRowOutcome.FAILED, ErrorCode.VALIDATION_ERROR],
+      [BulkSeatRowOutcome.ASSIGNED, undefined],
+      [BulkSeatRowOutcome.SKIPPED, undefined],
+      [BulkSeatRowOutcome.FAILED, ErrorCode.NOT_FOUND],
+    ]);
+  });
+
+  it('should assign seats and reserve seats for invited emails', async () => {
+    const report = await service.importRows('org-1', [
+      row('user-2@stmarys.test'),
+      row('new.nurse@stmarys.test', 'healos', 'BILLING_ADMIN'),
+    ], apply, actor);
+
+    expect(seatService.assign).toHaveBeenCalledWith('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor);
+    expect(seatService.reserveSeats).toHaveBeenCalledWith(
+      'org-1',
+      ['sub-1'],
+      { email: 'new.nurse@stmarys.test', role: 'BILLING_ADMIN' },
+      actor
+    );
+    expect(report).toMatchObject({ dryRun: false, assigned: 1, invited: 1 });
+    expect(report.rows[0].seatId).toBe('seat-user-2');
+    expect(report.rows[1]).toMatchObject({
+      invitationId: 'inv-new.nurse@stmarys.test',
+      acceptUrl: expect.any(String),
+      seatId: 'seat-new.nurse@stmarys.test',
+    });
+  });
+
+  it('should skip emails that already have a seat reserved', async () => {
+    mockClient.subscriptionSeat.findMany.mockResolvedValue([
+      { subscriptionId: 'sub-1', userId: null, invitation: { email: 'new.nurse@stmarys.test' } },
+    ]);
+
+    const report = await service.importRows('org-1', [row('New.Nurse@stmarys.test')], apply, actor);
+
+    expect(report.rows[0]).toMatchObject({ outcome: BulkSeatRowOutcome.SKIPPED });
+    expect(seatService.reserveSeats).not.toHaveBeenCalled();
+  });
+
+  it('should report a row that fails while applying and carry on', async () => {
+    (seatService.assign as jest.Mock)
+      .mockRejectedValueOnce(new ConflictError('All 3 seats on this subscription are assigned', ErrorCode.NO_SEATS_AVAILABLE))
+      .mockImplementation(async (_org, dto) => ({ id: `seat-${dto.userId}` }));
+
+    const report = await service.importRows('org-1', [row('user-2@stmarys.test'), row('user-3@stmarys.test')], apply, actor);
+
+    expect(report.rows[0]).toMatchObject({ outcome: BulkSeatRowOutcome.FAILED, code: ErrorCode.NO_SEATS_AVAILABLE });
+    expect(report.rows[1]).toMatchObject({ outcome: BulkSeatRowOutcome.ASSIGNED, seatId: 'seat-user-3' });
+  });
+
+  it('should refuse to invite without users:manage and members of other organizations', async () => {
+    mockClient.user.findMany.mockResolvedValue([member('user-9', { organizationId: 'org-2' })]);
+
+    const report = await service.importRows(
+      'org-1',
+      [row('new.nurse@stmarys.test'), row('user-9@stmarys.test')],
+      { dryRun: false, canInvite: false },
+      actor
+    );
+
+    expect(report.rows[0]).toMatchObject({ outcome: BulkSeatRowOutcome.FAILED, code: ErrorCode.INSUFFICIENT_PERMISSIONS });
+    expect(report.rows[1]).toMatchObject({ outcome: BulkSeatRowOutcome.FAILED, code: ErrorCode.CONFLICT });
+    expect(seatService.reserveSeats).not.toHaveBeenCalled();
+  });
+
+  it('should refuse empty and oversized imports', async () => {
+    await expect(service.importRows('org-1', [], apply, actor)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.importRows('org-1', Array.from({ length: 501 }, () => row('user-2@stmarys.test')), apply, actor))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * Seat Service Tests
+ *
+ * Unit tests for assigning, releasing and reassigning seats, including the
+ * subscription row lock and the capacity check, for seats reserved for
+ * invited emails, and for the scheduler that starts, expires and warns
+ * about time-boxed seats.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { business: { seatExpiryNoticeDays: 7, seatReservationDays: 7 } },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/users/invitation.service', () => ({
+  invitationService: { createPending: jest.fn(), publishCreated: jest.fn(), withToken: jest.fn() },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+import { SeatStatus, SubscriptionStatus, UserStatus } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { ErrorCode } from '../../src/shared/errors/custom-errors';
+import { SeatService } from '../../src/modules/seats/seat.service';
+import { invitationService } from '../../src/modules/users/invitation.service';
+
+const mockClient = {
+  $queryRaw: jest.fn(),
+  organizationSubscription: { findFirst: jest.fn() },
+  user: { findFirst: jest.fn() },
+  subscriptionSeat: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'admin-1' };
+
+const subscription = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sub-1',
+  organizationId: 'org-1',
+  applicationId: 'app-1',
+  subscriptionPlanId: 'plan-1',
+  quantity: 5,
+  scheduledQuantity: null,
+  status: SubscriptionStatus.ACTIVE,
+  application: { slug: 'healos' },
+  ...overrides,
+});
+
+const seat = (overrides: Record<string, unknown> = {}) => ({
+  id: 'seat-1',
+  subscriptionId: 'sub-1',
+  userId: 'user-1',
+  status: SeatStatus.ACTIVE,
+  statusReason: null,
+  assignedAt: new Date('2024-01-15T00:00:00Z'),
+  expiresAt: null,
+  expiryNotifiedAt: null,
+  removedAt: null,
+  assignedBy: 'admin-1',
+  metadata: null,
+  ...overrides,
+});
+
+const withRelations = (row: Record<string, unknown>) => ({
+  ...row,
+  user: { id: row.userId, email: `${row.userId}@acme.test`, fullName: 'Jane Doe' },
+  subscription: { id: 'sub-1', organizationId: 'org-1', subscriptionPlanId: 'plan-1', status: SubscriptionStatus.ACTIVE },
+});
+
+const scheduled = (row: Record<string, unknown>) => ({
+  ...row,
+  user: { email: `${row.userId}@acme.test` },
+  subscription: {
+    id: 'sub-1',
+    organizationId: 'org-1',
+    applicationId: 'app-1',
+    application: { slug: 'healos' },
+    organization: { ownerUserId: 'owner-1', owner: { email: 'owner@acme.test' } },
+  },
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('SeatService', () => {
+  let service: SeatService;
+
+  beforeEach(() => {
+    service = new SeatService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeWrite as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.$queryRaw.mockResolvedValue([{ id: 'sub-1' }]);
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(subscription());
+    mockClient.user.findFirst.mockResolvedValue({ status: UserStatus.ACTIVE });
+    mockClient.subscriptionSeat.findUnique.mockResolvedValue(null);
+    mockClient.subscriptionSeat.count.mockResolvedValue(3);
+    mockClient.subscriptionSeat.create.mockImplementation(async ({ data }) => withRelations({ ...seat(), id: 'seat-new', ...data }));
+    mockClient.subscriptionSeat.update.mockImplementation(async ({ where, data }) => withRelations({ ...seat(), id: where.id, ...data }));
+    mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 1 });
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('assign', () => {
+    it('should lock the subscription, create the seat and record who assigned it', async () => {
+      const result = await service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor);
+
+      expect(mockClient.$queryRaw.mock.invocationCallOrder[0])
+        .toBeLessThan(mockClient.subscriptionSeat.count.mock.invocationCallOrder[0]);
+      expect(mockClient.subscriptionSeat.count).toHaveBeenCalledWith({
+        where: { subscriptionId: 'sub-1', status: { in: [SeatStatus.ACTIVE, SeatStatus.SCHEDULED, SeatStatus.PENDING_INVITE] } },
+      });
+      expect(mockClient.subscriptionSeat.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ subscriptionId: 'sub-1', userId: 'user-2', status: SeatStatus.ACTIVE, assignedBy: 'admin-1' }),
+      }));
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ entityType: 'subscription_seat', entityId: 'seat-new', action: 'assigned' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_ASSIGNED,
+        expect.objectContaining({ organizationId: 'org-1', applicationSlug: 'healos', userId: 'user-2' }),
+        expect.objectContaining({ userId: 'admin-1' })
+      );
+      expect(result).toMatchObject({ id: 'seat-new', userId: 'user-2', assignedBy: 'admin-1', subscription: { planId: 'plan-1' } });
+    });
+
+    it('should reactivate the user\'s released seat instead of creating another', async () => {
+      mockClient.subscriptionSeat.findUnique.mockResolvedValue(seat({
+        id: 'seat-old',
+        userId: 'user-2',
+        status: SeatStatus.REMOVED,
+        removedAt: new Date('2024-01-20T00:00:00Z'),
+      }));
+
+      await service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor);
+
+      expect(mockClient.subscriptionSeat.create).not.toHaveBeenCalled();
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'seat-old' },
+        data: expect.objectContaining({ status: SeatStatus.ACTIVE, removedAt: null, assignedBy: 'admin-1' }),
+      }));
+    });
+
+    it('should reserve a seat that starts in the future without announcing it', async () => {
+      const startsAt = new Date(Date.now() + 2 * DAY);
+      const expiresAt = new Date(Date.now() + 30 * DAY);
+
+      const result = await service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2', assignedAt: startsAt, expiresAt }, actor);
+
+      expect(mockClient.subscriptionSeat.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: SeatStatus.SCHEDULED, assignedAt: startsAt, expiresAt }),
+      }));
+      expect(eventBus.publish).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ status: SeatStatus.SCHEDULED, assignedAt: startsAt, expiresAt });
+    });
+
+    it('should refuse an expiry that is not after the seat starts', async () => {
+      const startsAt = new Date(Date.now() + 2 * DAY);
+
+      await expect(service.assign(
+        'org-1',
+        { subscriptionId: 'sub-1', userId: 'user-2', assignedAt: startsAt, expiresAt: new Date(Date.now() + DAY) },
+        actor
+      )).rejects.toMatchObject({ statusCode: 400, code: ErrorCode.INVALID_INPUT });
+      expect(mockClient.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the assignment when every seat is taken', async () => {
+      mockClient.subscriptionSeat.count.mockResolvedValue(5);
+
+      await expect(service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+        code: ErrorCode.NO_SEATS_AVAILABLE,
+      });
+      expect(mockClient.subscriptionSeat.create).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should count against a scheduled reduction', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(subscription({ scheduledQuantity: 3 }));
+
+      await expect(service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor)).rejects.toMatchObject({
+        code: ErrorCode.NO_SEATS_AVAILABLE,
+      });
+    });
+
+    it('should refuse users who already hold a seat or are not active', async () => {
+      mockClient.subscriptionSeat.findUnique.mockResolvedValue(seat({ userId: 'user-2' }));
+      await expect(service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+
+      mockClient.user.findFirst.mockResolvedValue({ status: UserStatus.SUSPENDED });
+      await expect(service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-3' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+
+      expect(mockClient.subscriptionSeat.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse subscriptions that are not active or belong to another organization', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(subscription({ status: SubscriptionStatus.CANCELED }));
+      await expect(service.assign('org-1', { subscriptionId: 'sub-1', userId: 'user-2' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(null);
+      await expect(service.assign('org-2', { subscriptionId: 'sub-1', userId: 'user-2' }, actor)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('reserve', () => {
+    const invitation = { id: 'inv-1', organizationId: 'org-1', email: 'new.nurse@acme.test', expiresAt: new Date(Date.now() + 7 * DAY) };
+
+    beforeEach(() => {
+      mockClient.subscriptionSeat.findMany.mockResolvedValueOnce([]).mockResolvedValue([
+        {
+          ...withRelations(seat({ id: 'seat-new', userId: null, status: SeatStatus.PENDING_INVITE, invitationId: 'inv-1' })),
+          user: null,
+          invitation: { email: invitation.email },
+        },
+      ]);
+      (invitationService.createPending as jest.Mock).mockResolvedValue({ invitation, token: 'token' });
+      (invitationService.withToken as jest.Mock).mockImplementation((created, token) => ({ id: created.id, token }));
+    });
+
+    it('should invite the email and hold a seat for it until the invitation expires', async () => {
+      const result = await service.reserve('org-1', 'sub-1', { email: 'New.Nurse@acme.test' }, actor);
+
+      expect(mockClient.subscriptionSeat.count).toHaveBeenCalledWith({
+        where: { subscriptionId: 'sub-1', status: { in: [SeatStatus.ACTIVE, SeatStatus.SCHEDULED, SeatStatus.PENDING_INVITE] } },
+      });
+      expect(invitationService.createPending).toHaveBeenCalledWith(
+        mockClient,
+        'org-1',
+        { email: 'new.nurse@acme.test', role: undefined },
+        actor,
+        expect.any(Date)
+      );
+      expect(mockClient.subscriptionSeat.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          subscriptionId: 'sub-1',
+          invitationId: 'inv-1',
+          status: SeatStatus.PENDING_INVITE,
+          expiresAt: invitation.expiresAt,
+        }),
+      });
+      expect(invitationService.publishCreated).toHaveBeenCalledWith(invitation, actor);
+      expect(result.invitation).toEqual({ id: 'inv-1', token: 'token' });
+      expect(result.seats[0]).toMatchObject({ id: 'seat-new', status: SeatStatus.PENDING_INVITE, invitedEmail: invitation.email });
+    });
+
+    it('should refuse the reservation when every seat is taken', async () => {
+      mockClient.subscriptionSeat.count.mockResolvedValue(5);
+
+      await expect(service.reserve('org-1', 'sub-1', { email: 'new.nurse@acme.test' }, actor)).rejects.toMatchObject({
+        code: ErrorCode.NO_SEATS_AVAILABLE,
+      });
+      expect(invitationService.createPending).not.toHaveBeenCalled();
+    });
+
+    it('should resend the invitation without another seat when one is already reserved', async () => {
+      mockClient.subscriptionSeat.findMany.mockReset().mockResolvedValueOnce([{ subscriptionId: 'sub-1' }]).mockResolvedValue([]);
+
+      await service.reserve('org-1', 'sub-1', { email: 'new.nurse@acme.test' }, actor);
+
+      expect(mockClient.subscriptionSeat.count).not.toHaveBeenCalled();
+      expect(invitationService.createPending).toHaveBeenCalled();
+      expect(mockClient.subscriptionSeat.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unassign', () => {
+    it('should release the seat and publish the removal', async () => {
+      mockClient.subscriptionSeat.findFirst.mockResolvedValue(seat());
+
+      const result = await service.unassign('org-1', 'sub-1', 'seat-1', actor);
+
+      expect(mockClient.$queryRaw).toHaveBeenCalled();
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'seat-1' },
+        data: { status: SeatStatus.REMOVED, removedAt: expect.any(Date) },
+      }));
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'unassigned', entityId: 'seat-1' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_REMOVED,
+        expect.objectContaining({ seatId: 'seat-1', userId: 'user-1' }),
+        expect.any(Object)
+      );
+      expect(result.status).toBe(SeatStatus.REMOVED);
+    });
+
+    it('should refuse seats that are already released', async () => {
+      mockClient.subscriptionSeat.findFirst.mockResolvedValue(seat({ status: SeatStatus.REMOVED }));
+
+      await expect(service.unassign('org-1', 'sub-1', 'seat-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.subscriptionSeat.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should change the expiry and warn about the new one again', async () => {
+      mockClient.subscriptionSeat.findFirst.mockResolvedValue(seat({
+        expiresAt: new Date(Date.now() + DAY),
+        expiryNotifiedAt: new Date(),
+      }));
+      const expiresAt = new Date(Date.now() + 30 * DAY);
+
+      const result = await service.update('org-1', 'sub-1', 'seat-1', { expiresAt, statusReason: 'Contract extended' }, actor);
+
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'seat-1' },
+        data: expect.objectContaining({ expiresAt, expiryNotifiedAt: null, statusReason: 'Contract extended' }),
+      }));
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'updated' }),
+      }));
+      expect(result.expiresAt).toEqual(expiresAt);
+    });
+
+    it('should remove the expiry when it is null', async () => {
+      mockClient.subscriptionSeat.findFirst.mockResolvedValue(seat({ expiresAt: new Date(Date.now() + DAY) }));
+
+      await service.update('org-1', 'sub-1', 'seat-1', { expiresAt: null }, actor);
+
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ expiresAt: null, expiryNotifiedAt: null }),
+      }));
+    });
+  });
+
+  describe('reassign', () => {
+    beforeEach(() => {
+      mockClient.subscriptionSeat.findFirst.mockResolvedValue(seat());
+    });
+
+    it('should move the seat to another member without a capacity check', async () => {
+      mockClient.subscriptionSeat.count.mockResolvedValue(5);
+
+      const result = await service.reassign('org-1', 'sub-1', 'seat-1', { userId: 'user-2' }, actor);
+
+      expect(mockClient.subscriptionSeat.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'seat-1' },
+        data: { status: SeatStatus.REMOVED, removedAt: expect.any(Date) },
+      }));
+      expect(mockClient.subscriptionSeat.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ userId: 'user-2', assignedBy: 'admin-1' }),
+      }));
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'reassigned', changes: { userId: { from: 'user-1', to: 'user-2' } } }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_REMOVED,
+        expect.objectContaining({ userId: 'user-1' }),
+        expect.any(Object)
+      );
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_ASSIGNED,
+        expect.objectContaining({ userId: 'user-2' }),
+        expect.any(Object)
+      );
+      expect(result.userId).toBe('user-2');
+    });
+
+    it('should refuse to reassign a seat to its current holder', async () => {
+      await expect(service.reassign('org-1', 'sub-1', 'seat-1', { userId: 'user-1' }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockClient.subscriptionSeat.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processSchedule', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    it('should expire due seats, announcing only the ones that were active', async () => {
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce([
+          scheduled(seat({ expiresAt: new Date('2024-05-31T00:00:00Z') })),
+          scheduled(seat({ id: 'seat-2', userId: 'user-2', status: SeatStatus.SCHEDULED, expiresAt: now })),
+        ])
+        .mockResolvedValue([]);
+
+      const run = await service.processSchedule(now);
+
+      expect(run).toEqual({ expired: 2, started: 0, notified: 0 });
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { id: 'seat-1', status: SeatStatus.ACTIVE, assignedAt: expect.any(Date), expiresAt: new Date('2024-05-31T00:00:00Z') },
+        data: { status: SeatStatus.REMOVED, removedAt: now, statusReason: 'Seat expired' },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'expired', actorType: 'SYSTEM', entityId: 'seat-1' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledTimes(1);
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_REMOVED,
+        expect.objectContaining({ seatId: 'seat-1' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should release reservations whose invitation was never accepted', async () => {
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce([scheduled(seat({ userId: null, status: SeatStatus.PENDING_INVITE, expiresAt: now }))])
+        .mockResolvedValue([]);
+
+      const run = await service.processSchedule(now);
+
+      expect(run.expired).toBe(1);
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { status: SeatStatus.REMOVED, removedAt: now, statusReason: 'Invitation expired' },
+      }));
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should start scheduled seats whose time has come', async () => {
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([scheduled(seat({ status: SeatStatus.SCHEDULED, assignedAt: now }))])
+        .mockResolvedValue([]);
+
+      const run = await service.processSchedule(now);
+
+      expect(run.started).toBe(1);
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: 'seat-1', status: SeatStatus.SCHEDULED }),
+        data: { status: SeatStatus.ACTIVE },
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_ASSIGNED,
+        expect.objectContaining({ seatId: 'seat-1', applicationSlug: 'healos' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should skip seats an admin changed after they were found', async () => {
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce([scheduled(seat({ expiresAt: now }))])
+        .mockResolvedValue([]);
+      mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 0 });
+
+      const run = await service.processSchedule(now);
+
+      expect(run.expired).toBe(0);
+      expect(mockClient.auditLog.create).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should warn the owner once about seats expiring within the notice period', async () => {
+      const expiresAt = new Date(now.getTime() + 3 * DAY);
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([scheduled(seat({ expiresAt }))]);
+
+      const run = await service.processSchedule(now);
+
+      expect(run.notified).toBe(1);
+      expect(mockClient.subscriptionSeat.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ expiresAt: { gt: now, lte: new Date(now.getTime() + 7 * DAY) }, expiryNotifiedAt: null }),
+      }));
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { id: 'seat-1', expiresAt, expiryNotifiedAt: null },
+        data: { expiryNotifiedAt: now },
+      });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEAT_EXPIRING,
+        expect.objectContaining({
+          seatId: 'seat-1',
+          userEmail: 'user-1@acme.test',
+          expiresAt: expiresAt.toISOString(),
+          ownerUserId: 'owner-1',
+          ownerEmail: 'owner@acme.test',
+        }),
+        expect.objectContaining({ organizationId: 'org-1' })
+      );
+    });
+  });
+});
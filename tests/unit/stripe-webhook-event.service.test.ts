@@ -0,0 +1,192 @@
+/**
+ * Stripe Webhook Event Service Tests
+ *
+ * Unit tests for listing stored Stripe events, replaying them and the
+ * retry worker's selection of due events.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { webhooks: { retryInterval: 30000, timeout: 30000 } },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/webhooks/stripe-webhook.service', () => ({
+  stripeWebhookService: { process: jest.fn() },
+}));
+
+import { AuditActorType } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { StripeWebhookEventService } from '../../src/modules/webhooks/stripe-webhook-event.service';
+import { stripeWebhookService } from '../../src/modules/webhooks/stripe-webhook.service';
+
+const mockClient = {
+  stripeWebhookEvent: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'admin-1', actorType: AuditActorType.USER };
+
+const storedEvent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'row-1',
+  eventId: 'evt_1',
+  eventType: 'invoice.payment_failed',
+  payload: { id: 'evt_1', type: 'invoice.payment_failed', data: { object: { id: 'in_1' } } },
+  processed: false,
+  processedAt: null,
+  error: 'subscription not found',
+  retryCount: 3,
+  nextRetryAt: null,
+  deadLetteredAt: new Date('2024-01-15T00:10:00Z'),
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+describe('StripeWebhookEventService', () => {
+  let service: StripeWebhookEventService;
+
+  beforeEach(() => {
+    service = new StripeWebhookEventService();
+
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeWrite as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+
+    mockClient.stripeWebhookEvent.findUnique.mockResolvedValue(storedEvent());
+    mockClient.stripeWebhookEvent.update.mockImplementation(({ data }) => Promise.resolve(storedEvent(data)));
+    (stripeWebhookService.process as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('list', () => {
+    it('should translate the filters and omit payloads', async () => {
+      const from = new Date('2024-01-15T00:00:00Z');
+      mockClient.stripeWebhookEvent.findMany.mockResolvedValue([storedEvent()]);
+      mockClient.stripeWebhookEvent.count.mockResolvedValue(1);
+
+      const result = await service.list({ eventType: 'invoice.payment_failed', hasError: true, deadLettered: false, from });
+
+      expect(mockClient.stripeWebhookEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          eventType: 'invoice.payment_failed',
+          processed: undefined,
+          error: { not: null },
+          deadLetteredAt: null,
+          createdAt: { gte: from, lt: undefined },
+        },
+        orderBy: { createdAt: 'desc' },
+      }));
+      expect(result.meta.total).toBe(1);
+      expect(result.data[0].payload).toBeUndefined();
+    });
+  });
+
+  describe('replay', () => {
+    it('should requeue a dead-lettered event, audit the replay and process it', async () => {
+      const result = await service.replay('row-1', actor);
+
+      expect(mockClient.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'row-1' },
+        data: { retryCount: 0, nextRetryAt: null, deadLetteredAt: null },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          entityType: 'stripe_webhook_event',
+          entityId: 'row-1',
+          action: 'replayed',
+          actorUserId: 'admin-1',
+        }),
+      }));
+      expect(stripeWebhookService.process).toHaveBeenCalledWith(expect.objectContaining({ id: 'row-1', retryCount: 0 }));
+      expect(result.payload).toBeDefined();
+    });
+
+    it('should reject unknown events', async () => {
+      mockClient.stripeWebhookEvent.findUnique.mockResolvedValue(null);
+
+      await expect(service.replay('missing', actor)).rejects.toMatchObject({ statusCode: 404 });
+      expect(stripeWebhookService.process).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replayRange', () => {
+    const from = new Date('2024-01-15T00:00:00Z');
+    const to = new Date('2024-01-16T00:00:00Z');
+
+    it('should replay matching events oldest first and summarize the outcome', async () => {
+      mockClient.stripeWebhookEvent.findMany.mockResolvedValue([
+        storedEvent(),
+        storedEvent({ id: 'row-2', eventId: 'evt_2' }),
+      ]);
+      (stripeWebhookService.process as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const summary = await service.replayRange({ from, to }, actor);
+
+      expect(mockClient.stripeWebhookEvent.findMany).toHaveBeenCalledWith({
+        where: { createdAt: { gte: from, lt: to }, eventType: undefined, processed: false },
+        orderBy: { createdAt: 'asc' },
+        take: 501,
+      });
+      expect(summary).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+      expect(summary.results.map((result) => result.eventId)).toEqual(['evt_1', 'evt_2']);
+    });
+
+    it('should include events already applied only when asked to', async () => {
+      mockClient.stripeWebhookEvent.findMany.mockResolvedValue([]);
+
+      await service.replayRange({ from, to, eventType: 'customer.subscription.updated', includeProcessed: true }, actor);
+
+      expect(mockClient.stripeWebhookEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { createdAt: { gte: from, lt: to }, eventType: 'customer.subscription.updated', processed: undefined },
+      }));
+    });
+
+    it('should refuse an empty range', async () => {
+      await expect(service.replayRange({ from: to, to: from }, actor)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should refuse to replay more than 500 events at once', async () => {
+      mockClient.stripeWebhookEvent.findMany.mockResolvedValue(
+        Array.from({ length: 501 }, (_, i) => storedEvent({ id: `row-${i}` }))
+      );
+
+      await expect(service.replayRange({ from, to }, actor)).rejects.toMatchObject({ statusCode: 400 });
+      expect(stripeWebhookService.process).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryDue', () => {
+    it('should process due events it manages to claim', async () => {
+      const due = new Date('2024-01-15T00:05:00Z');
+      mockClient.stripeWebhookEvent.findMany.mockResolvedValue([
+        storedEvent({ retryCount: 1, deadLetteredAt: null, nextRetryAt: due }),
+        storedEvent({ id: 'row-2', retryCount: 1, deadLetteredAt: null, nextRetryAt: due }),
+      ]);
+      mockClient.stripeWebhookEvent.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      const run = await service.retryDue();
+
+      expect(mockClient.stripeWebhookEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ processed: false, deadLetteredAt: null }),
+      }));
+      expect(mockClient.stripeWebhookEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: 'row-1', processed: false, nextRetryAt: due },
+        data: { nextRetryAt: expect.any(Date) },
+      });
+      expect(stripeWebhookService.process).toHaveBeenCalledTimes(1);
+      expect(run).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Stripe Webhook Service Tests
+ *
+ * Unit tests for signature verification, event storage and deduplication,
+ * and recording of processing outcomes, retry backoff and dead-lettering.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: {
+    stripe: { webhookSecret: 'whsec_test_secret' },
+    business: { maxRetryAttempts: 3 },
+    webhooks: { retryDelay: 60000 },
+  },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/stripe/stripe.client', () => ({
+  getStripe: jest.fn(),
+  withStripe: jest.fn(),
+}));
+
+jest.mock('../../src/modules/subscriptions/subscription-sync.service', () => ({
+  subscriptionSyncService: { completeCheckout: jest.fn(), syncSubscription: jest.fn(), endSubscription: jest.fn() },
+}));
+
+jest.mock('../../src/modules/payments/payment.service', () => ({
+  paymentService: { recordInvoicePayment: jest.fn() },
+}));
+
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BaseError, DatabaseError } from '../../src/shared/errors/custom-errors';
+import { getStripe } from '../../src/infrastructure/stripe/stripe.client';
+import { paymentService } from '../../src/modules/payments/payment.service';
+import { subscriptionSyncService } from '../../src/modules/subscriptions/subscription-sync.service';
+import { StripeWebhookService } from '../../src/modules/webhooks/stripe-webhook.service';
+
+const stripe = new Stripe('sk_test_123', { apiVersion: '2022-11-15' });
+
+const mockClient = {
+  stripeWebhookEvent: { create: jest.fn(), update: jest.fn() },
+};
+
+const event = {
+  id: 'evt_1',
+  object: 'event',
+  type: 'customer.subscription.updated',
+  data: { object: { id: 'sub_1' } },
+};
+
+const payload = Buffer.from(JSON.stringify(event));
+
+const sign = (body: Buffer, secret = 'whsec_test_secret') =>
+  stripe.webhooks.generateTestHeaderString({ payload: body.toString('utf8'), secret });
+
+const storedEvent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'row-1',
+  eventId: 'evt_1',
+  eventType: event.type,
+  payload: event,
+  processed: false,
+  processedAt: null,
+  error: null,
+  retryCount: 0,
+  nextRetryAt: null,
+  deadLetteredAt: null,
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+const flushImmediate = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('StripeWebhookService', () => {
+  let service: StripeWebhookService;
+
+  beforeEach(() => {
+    service = new StripeWebhookService();
+    (getStripe as jest.Mock).mockReturnValue(stripe);
+    // Same wrapping as DatabaseManager.executeWrite, which cannot be loaded here
+    (databaseManager.executeWrite as jest.Mock).mockImplementation(async (op) => {
+      try {
+        return await op(mockClient);
+      } catch (error) {
+        if (error instanceof BaseError) {
+          throw error;
+        }
+        throw new DatabaseError('Write operation failed', undefined, error as Error);
+      }
+    });
+    mockClient.stripeWebhookEvent.create.mockResolvedValue(storedEvent());
+    mockClient.stripeWebhookEvent.update.mockResolvedValue({});
+  });
+
+  describe('receive', () => {
+    it('should store a verified event and process it after acknowledging', async () => {
+      const process = jest.spyOn(service, 'process').mockResolvedValue(true);
+
+      const result = await service.receive(payload, sign(payload));
+
+      expect(result).toEqual({ eventId: 'evt_1', eventType: event.type, duplicate: false });
+      expect(mockClient.stripeWebhookEvent.create).toHaveBeenCalledWith({
+        data: { eventId: 'evt_1', eventType: event.type, payload: expect.objectContaining({ id: 'evt_1' }) },
+      });
+      expect(process).not.toHaveBeenCalled();
+
+      await flushImmediate();
+      expect(process).toHaveBeenCalledWith(expect.objectContaining({ eventId: 'evt_1' }));
+    });
+
+    it('should acknowledge a redelivered event without processing it again', async () => {
+      const process = jest.spyOn(service, 'process').mockResolvedValue(true);
+      mockClient.stripeWebhookEvent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['eventId'] },
+        })
+      );
+
+      const result = await service.receive(payload, sign(payload));
+
+      expect(result.duplicate).toBe(true);
+      await flushImmediate();
+      expect(process).not.toHaveBeenCalled();
+    });
+
+    it('should fail deliveries that cannot be stored for any other reason', async () => {
+      mockClient.stripeWebhookEvent.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.receive(payload, sign(payload))).rejects.toBeInstanceOf(DatabaseError);
+    });
+
+    it('should reject a signature made with another secret', async () => {
+      await expect(service.receive(payload, sign(payload, 'whsec_other'))).rejects.toMatchObject({ statusCode: 401 });
+      expect(mockClient.stripeWebhookEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tampered body', async () => {
+      const signature = sign(payload);
+      const tampered = Buffer.from(JSON.stringify({ ...event, type: 'invoice.payment_succeeded' }));
+
+      await expect(service.receive(tampered, signature)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should require the stripe-signature header', async () => {
+      await expect(service.receive(payload, undefined)).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('process', () => {
+    it('should mark the event processed', async () => {
+      await expect(service.process(storedEvent())).resolves.toBe(true);
+
+      expect(mockClient.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'row-1' },
+        data: { processed: true, processedAt: expect.any(Date), error: null, nextRetryAt: null, deadLetteredAt: null },
+      });
+    });
+
+    it('should dispatch subscription lifecycle events to the sync service', async () => {
+      await service.process(storedEvent());
+      await service.process(storedEvent({
+        eventType: 'customer.subscription.deleted',
+        payload: { ...event, id: 'evt_2', type: 'customer.subscription.deleted' },
+      }));
+
+      expect(subscriptionSyncService.syncSubscription).toHaveBeenCalledWith({ id: 'sub_1' }, 'evt_1');
+      expect(subscriptionSyncService.endSubscription).toHaveBeenCalledWith({ id: 'sub_1' }, 'evt_2');
+    });
+
+    it('should dispatch invoice payment events to the payment service', async () => {
+      await service.process(storedEvent({
+        eventType: 'invoice.payment_failed',
+        payload: { ...event, id: 'evt_3', type: 'invoice.payment_failed', data: { object: { id: 'in_1' } } },
+      }));
+      await service.process(storedEvent({
+        eventType: 'invoice.payment_succeeded',
+        payload: { ...event, id: 'evt_4', type: 'invoice.payment_succeeded', data: { object: { id: 'in_1' } } },
+      }));
+
+      expect(paymentService.recordInvoicePayment).toHaveBeenNthCalledWith(1, { id: 'in_1' }, false, 'evt_3');
+      expect(paymentService.recordInvoicePayment).toHaveBeenNthCalledWith(2, { id: 'in_1' }, true, 'evt_4');
+    });
+
+    it('should record the error and schedule a retry with backoff when a handler fails', async () => {
+      (subscriptionSyncService.syncSubscription as jest.Mock).mockRejectedValue(new Error('subscription not found'));
+      const before = Date.now();
+
+      await expect(service.process(storedEvent({ retryCount: 1 }))).resolves.toBe(false);
+
+      expect(mockClient.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'row-1' },
+        data: {
+          error: 'subscription not found',
+          retryCount: { increment: 1 },
+          nextRetryAt: expect.any(Date),
+          deadLetteredAt: null,
+        },
+      });
+
+      // Second failure waits twice the base delay
+      const { nextRetryAt } = mockClient.stripeWebhookEvent.update.mock.calls[0][0].data;
+      expect(nextRetryAt.getTime() - before).toBeGreaterThanOrEqual(120000);
+      expect(nextRetryAt.getTime() - before).toBeLessThan(121000);
+    });
+
+    it('should dead-letter the event once retries are exhausted', async () => {
+      (subscriptionSyncService.syncSubscription as jest.Mock).mockRejectedValue(new Error('subscription not found'));
+
+      await expect(service.process(storedEvent({ retryCount: 2 }))).resolves.toBe(false);
+
+      expect(mockClient.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'row-1' },
+        data: {
+          error: 'subscription not found',
+          retryCount: { increment: 1 },
+          nextRetryAt: null,
+          deadLetteredAt: expect.any(Date),
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Subscription Sync Service Tests
+ *
+ * Unit tests for applying Stripe checkout and subscription events to
+ * local subscriptions, and for ending subscriptions canceled through the
+ * API.
+ */
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/infrastructure/stripe/stripe.client', () => ({
+  getStripe: jest.fn(),
+  withStripe: jest.fn(),
+}));
+
+import Stripe from 'stripe';
+import { AuditActorType, SeatStatus, SubscriptionStatus } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { withStripe } from '../../src/infrastructure/stripe/stripe.client';
+import { SubscriptionSyncService } from '../../src/modules/subscriptions/subscription-sync.service';
+
+const mockClient = {
+  organizationSubscription: { findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+  subscriptionSeat: { findMany: jest.fn(), updateMany: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const mockStripe = { subscriptions: { retrieve: jest.fn() } };
+
+const localSubscription = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sub-1',
+  organizationId: 'org-1',
+  applicationId: 'app-1',
+  subscriptionPlanId: 'plan-1',
+  stripeCustomerId: 'cus_1',
+  stripeSubscriptionId: null,
+  stripeItemId: null,
+  quantity: 5,
+  status: SubscriptionStatus.PENDING,
+  currentPeriodStart: null,
+  currentPeriodEnd: null,
+  trialStart: null,
+  trialEnd: null,
+  cancelAtPeriodEnd: false,
+  canceledAt: null,
+  endedAt: null,
+  scheduledQuantity: null,
+  scheduledChangeAt: null,
+  stripeScheduleId: null,
+  metadata: null,
+  application: { slug: 'healos' },
+  ...overrides,
+});
+
+const stripeSubscription = (overrides: Partial<Stripe.Subscription> = {}) => ({
+  id: 'sub_stripe_1',
+  status: 'active',
+  items: { data: [{ id: 'si_1', quantity: 5 }] },
+  current_period_start: 1705276800,
+  current_period_end: 1707955200,
+  trial_start: null,
+  trial_end: null,
+  cancel_at_period_end: false,
+  canceled_at: null,
+  ended_at: null,
+  schedule: null,
+  metadata: { subscriptionId: 'sub-1' },
+  ...overrides,
+}) as unknown as Stripe.Subscription;
+
+const auditEntry = () => mockClient.auditLog.create.mock.calls[0][0].data;
+
+describe('SubscriptionSyncService', () => {
+  let service: SubscriptionSyncService;
+
+  beforeEach(() => {
+    service = new SubscriptionSyncService();
+    (withStripe as jest.Mock).mockImplementation((op) => op(mockStripe));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.organizationSubscription.findUnique.mockResolvedValue(null);
+    mockClient.organizationSubscription.findFirst.mockResolvedValue(localSubscription());
+    mockClient.organizationSubscription.update.mockImplementation(async ({ data }) => ({
+      ...localSubscription(),
+      ...data,
+    }));
+    mockClient.subscriptionSeat.findMany.mockResolvedValue([]);
+    mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 0 });
+    mockClient.auditLog.create.mockResolvedValue({});
+    mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription({ status: 'trialing' }));
+  });
+
+  describe('completeCheckout', () => {
+    const session = {
+      id: 'cs_1',
+      mode: 'subscription',
+      subscription: 'sub_stripe_1',
+      client_reference_id: 'sub-1',
+      metadata: {},
+    } as unknown as Stripe.Checkout.Session;
+
+    it('should link and activate the PENDING subscription', async () => {
+      await service.completeCheckout(session, 'evt_1');
+
+      expect(mockStripe.subscriptions.retrieve).toHaveBeenCalledWith('sub_stripe_1');
+      expect(mockClient.organizationSubscription.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'sub-1', stripeSubscriptionId: null },
+      }));
+      expect(mockClient.organizationSubscription.update.mock.calls[0][0].data).toMatchObject({
+        stripeSubscriptionId: 'sub_stripe_1',
+        stripeItemId: 'si_1',
+        status: SubscriptionStatus.TRIALING,
+        currentPeriodEnd: new Date(1707955200 * 1000),
+      });
+      expect(auditEntry()).toMatchObject({
+        action: 'activated',
+        actorType: AuditActorType.WEBHOOK,
+        organizationId: 'org-1',
+        metadata: { stripeEventId: 'evt_1', stripeSubscriptionId: 'sub_stripe_1' },
+      });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_CREATED,
+        expect.objectContaining({ organizationId: 'org-1', applicationSlug: 'healos', status: SubscriptionStatus.TRIALING }),
+        expect.objectContaining({ causationId: 'evt_1' })
+      );
+    });
+
+    it('should ignore one-time payment sessions', async () => {
+      await service.completeCheckout({ ...session, mode: 'payment' } as Stripe.Checkout.Session, 'evt_1');
+
+      expect(mockStripe.subscriptions.retrieve).not.toHaveBeenCalled();
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncSubscription', () => {
+    beforeEach(() => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription({
+        stripeSubscriptionId: 'sub_stripe_1',
+        stripeItemId: 'si_1',
+        status: SubscriptionStatus.ACTIVE,
+        currentPeriodStart: new Date(1705276800 * 1000),
+        currentPeriodEnd: new Date(1707955200 * 1000),
+      }));
+    });
+
+    it('should copy quantity, status and cancellation from Stripe', async () => {
+      mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription({
+        status: 'past_due',
+        cancel_at_period_end: true,
+        items: { data: [{ id: 'si_1', quantity: 8 }] } as Stripe.ApiList<Stripe.SubscriptionItem>,
+      }));
+
+      await service.syncSubscription(stripeSubscription(), 'evt_2');
+
+      expect(auditEntry()).toMatchObject({
+        action: 'synced',
+        actorType: AuditActorType.WEBHOOK,
+        changes: {
+          quantity: { from: 5, to: 8 },
+          status: { from: SubscriptionStatus.ACTIVE, to: SubscriptionStatus.PAST_DUE },
+          cancelAtPeriodEnd: { from: false, to: true },
+        },
+      });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_UPDATED,
+        expect.objectContaining({ status: SubscriptionStatus.PAST_DUE }),
+        expect.any(Object)
+      );
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+        expect.objectContaining({ from: 5, to: 8 }),
+        expect.any(Object)
+      );
+    });
+
+    it('should apply the subscription as Stripe holds it now, not the event snapshot', async () => {
+      mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription());
+
+      await service.syncSubscription(stripeSubscription({ status: 'past_due' }), 'evt_old');
+
+      expect(mockStripe.subscriptions.retrieve).toHaveBeenCalledWith('sub_stripe_1');
+      expect(mockClient.auditLog.create).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should leave a subscription that has ended alone', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription({
+        stripeSubscriptionId: 'sub_stripe_1',
+        status: SubscriptionStatus.CANCELED,
+        endedAt: new Date(1707955200 * 1000),
+      }));
+      mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription());
+
+      await service.syncSubscription(stripeSubscription(), 'evt_replayed');
+
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not audit or publish when nothing changed', async () => {
+      mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription());
+
+      await service.syncSubscription(stripeSubscription(), 'evt_3');
+
+      expect(mockClient.auditLog.create).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should clear a scheduled reduction once Stripe releases its schedule', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription({
+        stripeSubscriptionId: 'sub_stripe_1',
+        stripeItemId: 'si_1',
+        status: SubscriptionStatus.ACTIVE,
+        scheduledQuantity: 4,
+        scheduledChangeAt: new Date(1707955200 * 1000),
+        stripeScheduleId: 'sub_sched_1',
+      }));
+
+      mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription({
+        current_period_start: 1707955200,
+        current_period_end: 1710460800,
+        items: { data: [{ id: 'si_1', quantity: 4 }] } as Stripe.ApiList<Stripe.SubscriptionItem>,
+      }));
+
+      await service.syncSubscription(stripeSubscription(), 'evt_5');
+
+      expect(mockClient.organizationSubscription.update.mock.calls[0][0].data).toMatchObject({
+        quantity: 4,
+        stripeScheduleId: null,
+        scheduledQuantity: null,
+        scheduledChangeAt: null,
+      });
+      expect(auditEntry().changes).toMatchObject({ quantity: { from: 5, to: 4 }, scheduledQuantity: { from: 4, to: null } });
+    });
+
+    it('should skip subscriptions that are not ours', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(null);
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(null);
+
+      mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription({ metadata: {} }));
+
+      await service.syncSubscription(stripeSubscription({ metadata: {} }), 'evt_4');
+
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endSubscription', () => {
+    beforeEach(() => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription({
+        stripeSubscriptionId: 'sub_stripe_1',
+        status: SubscriptionStatus.ACTIVE,
+      }));
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }]);
+    });
+
+    it('should cancel the subscription and release its seats', async () => {
+      await service.endSubscription(stripeSubscription({ status: 'canceled', ended_at: 1707955200 }), 'evt_5');
+
+      expect(mockClient.organizationSubscription.update.mock.calls[0][0].data).toMatchObject({
+        status: SubscriptionStatus.CANCELED,
+        endedAt: new Date(1707955200 * 1000),
+      });
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { subscriptionId: 'sub-1', status: { not: SeatStatus.REMOVED } },
+        data: { status: SeatStatus.REMOVED, removedAt: expect.any(Date) },
+      });
+      expect(auditEntry()).toMatchObject({ action: 'ended', actorType: AuditActorType.WEBHOOK });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_CANCELED,
+        expect.objectContaining({ organizationId: 'org-1', applicationSlug: 'healos', releasedSeats: 2 }),
+        expect.any(Object)
+      );
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEATS_BULK_REMOVED,
+        { organizationId: 'org-1', applicationSlug: 'healos', userIds: ['user-1', 'user-2'] },
+        expect.any(Object)
+      );
+    });
+
+    it('should do nothing for a subscription already ended by an immediate cancellation', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription({
+        stripeSubscriptionId: 'sub_stripe_1',
+        status: SubscriptionStatus.CANCELED,
+        endedAt: new Date(1705400000 * 1000),
+      }));
+
+      await service.endSubscription(stripeSubscription({ status: 'canceled' }), 'evt_6');
+
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(mockClient.subscriptionSeat.updateMany).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endCanceled', () => {
+    it('should end the subscription as the user who canceled it', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue(localSubscription({
+        stripeSubscriptionId: 'sub_stripe_1',
+        status: SubscriptionStatus.ACTIVE,
+      }));
+      mockClient.subscriptionSeat.findMany.mockResolvedValue([{ userId: 'user-1' }, { userId: null }]);
+
+      const released = await service.endCanceled(
+        stripeSubscription({ status: 'canceled', ended_at: 1705400000 }),
+        { actorUserId: 'owner-1' }
+      );
+
+      expect(released).toBe(1);
+      expect(auditEntry()).toMatchObject({ action: 'ended', actorUserId: 'owner-1' });
+      expect(auditEntry().metadata).toEqual({ stripeSubscriptionId: 'sub_stripe_1' });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_CANCELED,
+        expect.objectContaining({ subscriptionId: 'sub-1' }),
+        { organizationId: 'org-1', applicationId: 'app-1', userId: 'owner-1' }
+      );
+    });
+  });
+});
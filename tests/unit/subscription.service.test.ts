@@ -0,0 +1,910 @@
+/**
+ * Subscription Service Tests
+ *
+ * Unit tests for starting subscriptions through Stripe Checkout, adding or
+ * removing seats, and canceling and reactivating, run against an
+ * in-memory fake of the Stripe API.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { frontendUrl: 'https://app.test' },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/infrastructure/stripe/stripe.client', () => ({
+  getStripe: jest.fn(),
+  withStripe: jest.fn(),
+}));
+
+jest.mock('../../src/modules/subscriptions/subscription-sync.service', () => ({
+  subscriptionSyncService: { endCanceled: jest.fn() },
+}));
+
+import {
+  ApplicationStatus,
+  BillingInterval,
+  OrganizationStatus,
+  Prisma,
+  SubscriptionStatus
+} from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { withStripe } from '../../src/infrastructure/stripe/stripe.client';
+import { ErrorCode } from '../../src/shared/errors/custom-errors';
+import { ProrationBehavior, QuantityChangeTiming } from '../../src/modules/subscriptions/dto';
+import { SubscriptionService } from '../../src/modules/subscriptions/subscription.service';
+import { subscriptionSyncService } from '../../src/modules/subscriptions/subscription-sync.service';
+
+/**
+ * Just enough of the Stripe API for checkout, quantity changes and
+ * cancellation:
+ * customers are deduplicated by idempotency key like the real API, the
+ * upcoming invoice prorates the seat difference over half a period, and
+ * schedules created from a subscription start with its current period
+ */
+class FakeStripe {
+  public customersCreated: Array<Record<string, unknown>> = [];
+  public sessionsCreated: Array<Record<string, unknown>> = [];
+  public subscriptionUpdates: Array<{ id: string; params: Record<string, unknown>; idempotencyKey?: string }> = [];
+  public subscriptionsCanceled: Array<{ id: string; params: Record<string, unknown> }> = [];
+  public scheduleUpdates: Array<{ id: string; params: Record<string, unknown> }> = [];
+  public schedulesReleased: string[] = [];
+  public seatPrice = 2000;
+  public currentQuantity = 5;
+  private idempotent = new Map<string, { id: string }>();
+
+  customers = {
+    create: async (params: Record<string, unknown>, options?: { idempotencyKey?: string }) => {
+      const cached = options?.idempotencyKey && this.idempotent.get(options.idempotencyKey);
+      if (cached) {
+        return cached;
+      }
+
+      const customer = { id: `cus_${this.customersCreated.length + 1}`, ...params };
+      this.customersCreated.push(params);
+      if (options?.idempotencyKey) {
+        this.idempotent.set(options.idempotencyKey, customer);
+      }
+      return customer;
+    },
+  };
+
+  subscriptions = {
+    update: async (
+      id: string,
+      params: { items?: Array<{ id: string; quantity: number }>; cancel_at_period_end?: boolean } & Record<string, unknown>,
+      options?: { idempotencyKey?: string }
+    ) => {
+      this.subscriptionUpdates.push({ id, params, idempotencyKey: options?.idempotencyKey });
+      return {
+        id,
+        items: { data: params.items },
+        latest_invoice: 'in_proration',
+        cancel_at_period_end: params.cancel_at_period_end ?? false,
+        canceled_at: params.cancel_at_period_end ? 1705400000 : null,
+        current_period_end: 1707955200,
+      };
+    },
+    cancel: async (id: string, params: Record<string, unknown>) => {
+      this.subscriptionsCanceled.push({ id, params });
+      return { id, status: 'canceled', canceled_at: 1705400000, ended_at: 1705400000, metadata: {} };
+    },
+  };
+
+  subscriptionSchedules = {
+    create: async (params: { from_subscription: string }) => ({
+      id: 'sub_sched_1',
+      subscription: params.from_subscription,
+      status: 'active',
+      phases: [{
+        start_date: 1705276800,
+        end_date: 1707955200,
+        items: [{ price: 'price_1', quantity: this.currentQuantity }],
+      }],
+    }),
+    update: async (id: string, params: Record<string, unknown>) => {
+      this.scheduleUpdates.push({ id, params });
+      return { id, ...params };
+    },
+    retrieve: async (id: string) => ({ id, status: this.schedulesReleased.includes(id) ? 'released' : 'active' }),
+    release: async (id: string) => {
+      this.schedulesReleased.push(id);
+      return { id, status: 'released' };
+    },
+  };
+
+  invoices = {
+    retrieveUpcoming: async (params: {
+      subscription_items: Array<{ quantity: number }>;
+      subscription_proration_behavior: string;
+    }) => {
+      const quantity = params.subscription_items[0].quantity;
+      const prorated = params.subscription_proration_behavior === 'none'
+        ? []
+        : [
+          { amount: -(this.currentQuantity * this.seatPrice) / 2, proration: true },
+          { amount: (quantity * this.seatPrice) / 2, proration: true },
+        ];
+      const lines = [...prorated, { amount: quantity * this.seatPrice, proration: false }];
+
+      return {
+        currency: 'usd',
+        next_payment_attempt: 1707955200,
+        lines: { data: lines },
+        amount_due: lines.reduce((total, line) => total + line.amount, 0),
+      };
+    },
+  };
+
+  checkout = {
+    sessions: {
+      create: async (params: Record<string, unknown>) => {
+        this.sessionsCreated.push(params);
+        const id = `cs_test_${this.sessionsCreated.length}`;
+        return { id, url: `https://checkout.stripe.test/${id}`, expires_at: 1705400000, ...params };
+      },
+    },
+  };
+}
+
+const mockClient = {
+  organization: { findFirst: jest.fn(), updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  subscriptionPlan: { findUnique: jest.fn() },
+  organizationSubscription: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  subscriptionSeat: { findMany: jest.fn(), updateMany: jest.fn() },
+  auditLog: { create: jest.fn() },
+  $queryRaw: jest.fn(),
+};
+
+const actor = { actorUserId: 'owner-1' };
+
+const organization = (overrides: Record<string, unknown> = {}) => ({
+  id: 'org-1',
+  name: 'Acme Health',
+  billingEmail: 'billing@acme.test',
+  stripeCustomerId: null,
+  status: OrganizationStatus.ACTIVE,
+  ...overrides,
+});
+
+const plan = (overrides: Record<string, unknown> = {}) => ({
+  id: 'plan-1',
+  applicationId: 'app-1',
+  stripePriceId: 'price_team',
+  billingInterval: BillingInterval.MONTHLY,
+  minSeats: 2,
+  maxSeats: 50,
+  trialPeriodDays: 14,
+  isActive: true,
+  application: { id: 'app-1', name: 'HealOS', status: ApplicationStatus.ACTIVE },
+  ...overrides,
+});
+
+const activeSubscription = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sub-1',
+  organizationId: 'org-1',
+  applicationId: 'app-1',
+  stripeCustomerId: 'cus_1',
+  stripeSubscriptionId: 'sub_stripe_1',
+  stripeItemId: 'si_1',
+  quantity: 5,
+  status: SubscriptionStatus.ACTIVE,
+  cancelAtPeriodEnd: false,
+  scheduledQuantity: null,
+  scheduledChangeAt: null,
+  stripeScheduleId: null,
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  subscriptionPlan: plan(),
+  application: { slug: 'healos', name: 'HealOS' },
+  ...overrides,
+});
+
+const assignedSeats = (count: number) => Array.from({ length: count }, (_, i) => ({
+  id: `seat-${i + 1}`,
+  userId: `user-${i + 1}`,
+  user: { email: `user${i + 1}@acme.test` },
+}));
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+  let stripe: FakeStripe;
+
+  beforeEach(() => {
+    service = new SubscriptionService();
+    stripe = new FakeStripe();
+    (withStripe as jest.Mock).mockImplementation((op) => op(stripe));
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeWrite as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.organization.findFirst.mockResolvedValue(organization());
+    mockClient.organization.updateMany.mockResolvedValue({ count: 1 });
+    mockClient.subscriptionPlan.findUnique.mockResolvedValue(plan());
+    mockClient.organizationSubscription.findUnique.mockResolvedValue(null);
+    mockClient.organizationSubscription.create.mockImplementation(async ({ data }) => ({ id: 'sub-1', ...data }));
+    mockClient.organizationSubscription.update.mockImplementation(async ({ where, data }) => ({ id: where.id, ...data }));
+    mockClient.subscriptionSeat.findMany.mockResolvedValue(assignedSeats(3));
+    mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 0 });
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('startCheckout', () => {
+    it('should create the customer, a PENDING subscription and a checkout session', async () => {
+      const result = await service.startCheckout('org-1', { planId: 'plan-1', quantity: 5 }, actor);
+
+      expect(stripe.customersCreated).toEqual([
+        { name: 'Acme Health', email: 'billing@acme.test', metadata: { organizationId: 'org-1' } },
+      ]);
+      expect(mockClient.organization.updateMany).toHaveBeenCalledWith({
+        where: { id: 'org-1', stripeCustomerId: null },
+        data: { stripeCustomerId: 'cus_1' },
+      });
+      expect(mockClient.organizationSubscription.create.mock.calls[0][0].data).toMatchObject({
+        organizationId: 'org-1',
+        applicationId: 'app-1',
+        subscriptionPlanId: 'plan-1',
+        stripeCustomerId: 'cus_1',
+        quantity: 5,
+        status: SubscriptionStatus.PENDING,
+      });
+
+      const [session] = stripe.sessionsCreated;
+      expect(session).toMatchObject({
+        mode: 'subscription',
+        customer: 'cus_1',
+        client_reference_id: 'sub-1',
+        line_items: [{ price: 'price_team', quantity: 5 }],
+        subscription_data: { trial_period_days: 14, metadata: expect.objectContaining({ subscriptionId: 'sub-1' }) },
+        success_url: 'https://app.test/billing/success?session_id={CHECKOUT_SESSION_ID}',
+      });
+      expect(result).toEqual({
+        subscriptionId: 'sub-1',
+        checkoutSessionId: 'cs_test_1',
+        checkoutUrl: 'https://checkout.stripe.test/cs_test_1',
+        expiresAt: new Date(1705400000 * 1000),
+      });
+    });
+
+    it('should reuse an existing Stripe customer', async () => {
+      mockClient.organization.findFirst.mockResolvedValue(organization({ stripeCustomerId: 'cus_existing' }));
+
+      await service.startCheckout('org-1', { planId: 'plan-1', quantity: 5 }, actor);
+
+      expect(stripe.customersCreated).toHaveLength(0);
+      expect(stripe.sessionsCreated[0].customer).toBe('cus_existing');
+    });
+
+    it('should omit the trial when the plan has none', async () => {
+      mockClient.subscriptionPlan.findUnique.mockResolvedValue(plan({ trialPeriodDays: 0 }));
+
+      await service.startCheckout('org-1', { planId: 'plan-1', quantity: 5 }, actor);
+
+      expect(stripe.sessionsCreated[0].subscription_data).not.toHaveProperty('trial_period_days');
+    });
+
+    it('should refuse a second live subscription to the same application', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue({ id: 'sub-0', status: SubscriptionStatus.ACTIVE });
+
+      await expect(service.startCheckout('org-1', { planId: 'plan-1', quantity: 5 }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+        code: ErrorCode.DUPLICATE_SUBSCRIPTION,
+      });
+      expect(stripe.sessionsCreated).toHaveLength(0);
+    });
+
+    it('should report a concurrent checkout as a duplicate', async () => {
+      mockClient.organizationSubscription.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['organizationId', 'applicationId'] },
+        })
+      );
+
+      await expect(service.startCheckout('org-1', { planId: 'plan-1', quantity: 5 }, actor)).rejects.toMatchObject({
+        code: ErrorCode.DUPLICATE_SUBSCRIPTION,
+      });
+    });
+
+    it('should reuse an abandoned PENDING subscription', async () => {
+      mockClient.organizationSubscription.findUnique.mockResolvedValue({ id: 'sub-0', status: SubscriptionStatus.PENDING });
+
+      const result = await service.startCheckout('org-1', { planId: 'plan-1', quantity: 3 }, actor);
+
+      expect(mockClient.organizationSubscription.create).not.toHaveBeenCalled();
+      expect(mockClient.organizationSubscription.update.mock.calls[0][0]).toMatchObject({
+        where: { id: 'sub-0' },
+        data: { quantity: 3, status: SubscriptionStatus.PENDING },
+      });
+      expect(result.subscriptionId).toBe('sub-0');
+    });
+
+    it('should enforce the plan seat limits', async () => {
+      await expect(service.startCheckout('org-1', { planId: 'plan-1', quantity: 1 }, actor)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(stripe.customersCreated).toHaveLength(0);
+    });
+
+    it('should drop the PENDING subscription when Stripe rejects the session', async () => {
+      stripe.checkout.sessions.create = async () => {
+        throw new Error('No such price');
+      };
+
+      await expect(service.startCheckout('org-1', { planId: 'plan-1', quantity: 5 }, actor)).rejects.toThrow(
+        'No such price'
+      );
+      expect(mockClient.organizationSubscription.delete).toHaveBeenCalledWith({ where: { id: 'sub-1' } });
+    });
+  });
+
+  describe('previewQuantityChange', () => {
+    beforeEach(() => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription());
+    });
+
+    it('should price the added seats from the upcoming invoice', async () => {
+      const preview = await service.previewQuantityChange('org-1', 'sub-1', { quantity: 7, prorationDate: 1705314600 });
+
+      expect(mockClient.organizationSubscription.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'sub-1', organizationId: 'org-1' },
+      }));
+      expect(preview).toEqual({
+        subscriptionId: 'sub-1',
+        currentQuantity: 5,
+        quantity: 7,
+        prorationBehavior: ProrationBehavior.CREATE_PRORATIONS,
+        applyAt: QuantityChangeTiming.IMMEDIATELY,
+        prorationDate: 1705314600,
+        prorationAmount: 2000,
+        amountDueNow: 0,
+        nextInvoiceAmount: 16000,
+        nextInvoiceDate: new Date(1707955200 * 1000),
+        currency: 'USD',
+      });
+    });
+
+    it('should report the prorated charge as due now when invoicing immediately', async () => {
+      const preview = await service.previewQuantityChange('org-1', 'sub-1', {
+        quantity: 7,
+        prorationBehavior: ProrationBehavior.ALWAYS_INVOICE,
+      });
+
+      expect(preview).toMatchObject({ prorationAmount: 2000, amountDueNow: 2000, nextInvoiceAmount: 14000 });
+    });
+
+    it('should price a reduction from the next period without prorating by default', async () => {
+      const preview = await service.previewQuantityChange('org-1', 'sub-1', { quantity: 4 });
+
+      expect(preview).toMatchObject({
+        applyAt: QuantityChangeTiming.PERIOD_END,
+        prorationBehavior: ProrationBehavior.NONE,
+        prorationAmount: 0,
+        nextInvoiceAmount: 8000,
+      });
+    });
+
+    it('should report the credit for an immediate reduction', async () => {
+      const preview = await service.previewQuantityChange('org-1', 'sub-1', {
+        quantity: 4,
+        applyAt: QuantityChangeTiming.IMMEDIATELY,
+      });
+
+      expect(preview).toMatchObject({ applyAt: QuantityChangeTiming.IMMEDIATELY, prorationAmount: -1000 });
+    });
+  });
+
+  describe('changeQuantity', () => {
+    beforeEach(() => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription());
+      mockClient.organizationSubscription.findUniqueOrThrow.mockResolvedValue(activeSubscription());
+    });
+
+    it('should update Stripe first, then the local quantity', async () => {
+      const result = await service.changeQuantity('org-1', 'sub-1', { quantity: 7, prorationDate: 1705314600 }, actor);
+
+      expect(stripe.subscriptionUpdates).toEqual([{
+        id: 'sub_stripe_1',
+        params: {
+          items: [{ id: 'si_1', quantity: 7 }],
+          proration_behavior: 'create_prorations',
+          proration_date: 1705314600,
+        },
+        idempotencyKey: `subscription-quantity-sub-1-${new Date('2024-01-15T00:00:00Z').getTime()}-7`,
+      }]);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { quantity: 7, scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'quantity_changed', actorUserId: 'owner-1' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+        expect.objectContaining({ subscriptionId: 'sub-1', from: 5, to: 7 }),
+        expect.objectContaining({ organizationId: 'org-1' })
+      );
+      expect(result).toEqual({
+        subscriptionId: 'sub-1',
+        previousQuantity: 5,
+        quantity: 7,
+        prorationBehavior: ProrationBehavior.CREATE_PRORATIONS,
+        applyAt: QuantityChangeTiming.IMMEDIATELY,
+        effectiveAt: expect.any(Date),
+        releasedSeatIds: [],
+        invoiceId: undefined,
+      });
+    });
+
+    it('should charge the proration immediately without leaving an unpaid change', async () => {
+      const result = await service.changeQuantity(
+        'org-1',
+        'sub-1',
+        { quantity: 7, prorationBehavior: ProrationBehavior.ALWAYS_INVOICE },
+        actor
+      );
+
+      expect(stripe.subscriptionUpdates[0].params).toMatchObject({
+        proration_behavior: 'always_invoice',
+        payment_behavior: 'error_if_incomplete',
+      });
+      expect(result.invoiceId).toBe('in_proration');
+    });
+
+    it('should leave the local quantity untouched when Stripe rejects the change', async () => {
+      stripe.subscriptions.update = async () => {
+        throw new Error('Your card was declined.');
+      };
+
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 7 }, actor)).rejects.toThrow(
+        'Your card was declined.'
+      );
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not publish again when the webhook already synced the quantity', async () => {
+      mockClient.organizationSubscription.findUniqueOrThrow.mockResolvedValue(activeSubscription({ quantity: 7 }));
+
+      await service.changeQuantity('org-1', 'sub-1', { quantity: 7 }, actor);
+
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(mockClient.auditLog.create).toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['no change', 5],
+      ['above the plan maximum', 51],
+    ])('should reject %s', async (_, quantity) => {
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity }, actor)).rejects.toMatchObject({
+        statusCode: 400,
+        code: ErrorCode.INVALID_INPUT,
+      });
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+    });
+
+    it('should refuse changes to subscriptions that are not active or are set to cancel', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription({ status: SubscriptionStatus.PAST_DUE }));
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 7 }, actor)).rejects.toMatchObject({ statusCode: 409 });
+
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription({ cancelAtPeriodEnd: true }));
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 7 }, actor)).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+    });
+
+    it('should not find subscriptions of another organization', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(null);
+
+      await expect(service.changeQuantity('org-2', 'sub-1', { quantity: 7 }, actor)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('changeQuantity reductions', () => {
+    beforeEach(() => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription());
+      mockClient.organizationSubscription.findUniqueOrThrow.mockResolvedValue(activeSubscription());
+    });
+
+    it('should schedule a reduction for the end of the period by default', async () => {
+      const result = await service.changeQuantity('org-1', 'sub-1', { quantity: 4 }, actor);
+
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+      expect(stripe.scheduleUpdates).toEqual([{
+        id: 'sub_sched_1',
+        params: {
+          end_behavior: 'release',
+          proration_behavior: 'none',
+          phases: [
+            { items: [{ price: 'price_1', quantity: 5 }], start_date: 1705276800, end_date: 1707955200 },
+            { items: [{ price: 'price_1', quantity: 4 }], iterations: 1 },
+          ],
+        },
+      }]);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { scheduledQuantity: 4, scheduledChangeAt: new Date(1707955200 * 1000), stripeScheduleId: 'sub_sched_1' },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'quantity_reduction_scheduled' }),
+      }));
+      expect(eventBus.publish).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        previousQuantity: 5,
+        quantity: 4,
+        applyAt: QuantityChangeTiming.PERIOD_END,
+        prorationBehavior: ProrationBehavior.NONE,
+        effectiveAt: new Date(1707955200 * 1000),
+      });
+    });
+
+    it('should apply an immediate reduction with a prorated credit', async () => {
+      await service.changeQuantity('org-1', 'sub-1', { quantity: 4, applyAt: QuantityChangeTiming.IMMEDIATELY }, actor);
+
+      expect(stripe.subscriptionUpdates[0].params).toMatchObject({
+        items: [{ id: 'si_1', quantity: 4 }],
+        proration_behavior: 'create_prorations',
+      });
+      expect(stripe.scheduleUpdates).toHaveLength(0);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ quantity: 4 }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_QUANTITY_UPDATED,
+        expect.objectContaining({ from: 5, to: 4 }),
+        expect.anything()
+      );
+    });
+
+    it('should name the users to remove when the assigned seats do not fit', async () => {
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 2 }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+        code: ErrorCode.TOO_MANY_USERS_ASSIGNED,
+        details: {
+          filledSeats: 3,
+          requestedSeats: 2,
+          usersToRemove: 1,
+          assignedUsers: [
+            { seatId: 'seat-1', userId: 'user-1', email: 'user1@acme.test' },
+            { seatId: 'seat-2', userId: 'user-2', email: 'user2@acme.test' },
+            { seatId: 'seat-3', userId: 'user-3', email: 'user3@acme.test' },
+          ],
+        },
+      });
+      expect(mockClient.subscriptionSeat.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { subscriptionId: 'sub-1', status: { in: ['ACTIVE', 'SCHEDULED', 'PENDING_INVITE'] } },
+      }));
+      expect(stripe.scheduleUpdates).toHaveLength(0);
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+    });
+
+    it('should release the listed seats so the remaining users fit', async () => {
+      const result = await service.changeQuantity(
+        'org-1',
+        'sub-1',
+        { quantity: 2, releaseSeatIds: ['seat-3'], applyAt: QuantityChangeTiming.IMMEDIATELY },
+        actor
+      );
+
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['seat-3'] }, subscriptionId: 'sub-1', status: { in: ['ACTIVE', 'SCHEDULED', 'PENDING_INVITE'] } },
+        data: { status: 'REMOVED', removedAt: expect.any(Date) },
+      });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SEATS_BULK_REMOVED,
+        { organizationId: 'org-1', applicationSlug: 'healos', userIds: ['user-3'] },
+        expect.objectContaining({ userId: 'owner-1' })
+      );
+      expect(result.releasedSeatIds).toEqual(['seat-3']);
+    });
+
+    it('should keep the listed seats until a reduction at the period end applies', async () => {
+      const result = await service.changeQuantity('org-1', 'sub-1', { quantity: 2, releaseSeatIds: ['seat-3'] }, actor);
+
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['seat-3'] },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date(1707955200 * 1000) } }],
+        },
+        data: { expiresAt: new Date(1707955200 * 1000), expiryNotifiedAt: null },
+      });
+      expect(eventBus.publish).not.toHaveBeenCalled();
+      expect(result.releasedSeatIds).toEqual(['seat-3']);
+    });
+
+    it('should count the seats again under the subscription lock and undo the Stripe change when they no longer fit', async () => {
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce(assignedSeats(3))
+        .mockResolvedValueOnce(assignedSeats(4));
+
+      await expect(service.changeQuantity(
+        'org-1',
+        'sub-1',
+        { quantity: 3, applyAt: QuantityChangeTiming.IMMEDIATELY, prorationBehavior: ProrationBehavior.ALWAYS_INVOICE },
+        actor
+      )).rejects.toMatchObject({ statusCode: 409, code: ErrorCode.TOO_MANY_USERS_ASSIGNED });
+
+      expect(mockClient.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(stripe.subscriptionUpdates.map((update) => update.params)).toEqual([
+        expect.objectContaining({ items: [{ id: 'si_1', quantity: 3 }] }),
+        { items: [{ id: 'si_1', quantity: 5 }], proration_behavior: 'create_prorations' },
+      ]);
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+      expect(mockClient.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should release the new schedule when the seats no longer fit a reduction at the period end', async () => {
+      mockClient.subscriptionSeat.findMany
+        .mockResolvedValueOnce(assignedSeats(3))
+        .mockResolvedValueOnce(assignedSeats(5));
+
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 4 }, actor)).rejects.toMatchObject({
+        code: ErrorCode.TOO_MANY_USERS_ASSIGNED,
+      });
+      expect(stripe.schedulesReleased).toEqual(['sub_sched_1']);
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['seats not assigned on the subscription', { quantity: 2, releaseSeatIds: ['seat-9'] }],
+      ['releasing seats without a reduction', { quantity: 7, releaseSeatIds: ['seat-1'] }],
+    ])('should reject %s', async (_, dto) => {
+      await expect(service.changeQuantity('org-1', 'sub-1', dto, actor)).rejects.toMatchObject({
+        statusCode: 400,
+        code: ErrorCode.INVALID_INPUT,
+      });
+      expect(mockClient.subscriptionSeat.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a scheduled reduction when the current quantity is requested', async () => {
+      const scheduled = activeSubscription({
+        scheduledQuantity: 4,
+        scheduledChangeAt: new Date(1707955200 * 1000),
+        stripeScheduleId: 'sub_sched_0',
+      });
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(scheduled);
+      mockClient.organizationSubscription.findUniqueOrThrow.mockResolvedValue(scheduled);
+
+      const result = await service.changeQuantity('org-1', 'sub-1', { quantity: 5 }, actor);
+
+      expect(stripe.schedulesReleased).toEqual(['sub_sched_0']);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { quantity: 5, scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null },
+      });
+      // Seats it was to release keep their seats
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: {
+          subscriptionId: 'sub-1',
+          status: { in: ['ACTIVE', 'SCHEDULED', 'PENDING_INVITE'] },
+          expiresAt: new Date(1707955200 * 1000),
+        },
+        data: { expiresAt: null, expiryNotifiedAt: null },
+      });
+      expect(result.applyAt).toBe(QuantityChangeTiming.IMMEDIATELY);
+    });
+
+    it('should clear the replaced reduction when Stripe rejects the new change', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription({
+        scheduledQuantity: 4,
+        scheduledChangeAt: new Date(1707955200 * 1000),
+        stripeScheduleId: 'sub_sched_0',
+      }));
+      stripe.subscriptions.update = async () => {
+        throw new Error('Your card was declined.');
+      };
+
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 7 }, actor)).rejects.toThrow(
+        'Your card was declined.'
+      );
+      expect(stripe.schedulesReleased).toEqual(['sub_sched_0']);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledTimes(1);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null },
+      });
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ expiresAt: new Date(1707955200 * 1000) }),
+        data: { expiresAt: null, expiryNotifiedAt: null },
+      }));
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should release the new schedule when Stripe rejects its phases', async () => {
+      stripe.subscriptionSchedules.update = async () => {
+        throw new Error('Invalid phase');
+      };
+
+      await expect(service.changeQuantity('org-1', 'sub-1', { quantity: 4 }, actor)).rejects.toThrow('Invalid phase');
+      expect(stripe.schedulesReleased).toEqual(['sub_sched_1']);
+      expect(mockClient.organizationSubscription.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    beforeEach(() => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(
+        activeSubscription({ metadata: { checkoutSessionId: 'cs_test_1' } })
+      );
+      mockClient.organizationSubscription.update.mockImplementation(async ({ where, data }) => ({
+        ...activeSubscription(),
+        id: where.id,
+        ...data,
+      }));
+      (subscriptionSyncService.endCanceled as jest.Mock).mockResolvedValue(3);
+    });
+
+    it('should cancel at the end of the period by default and keep the seats', async () => {
+      const result = await service.cancel('org-1', 'sub-1', { reason: 'Switching providers' }, actor);
+
+      expect(stripe.subscriptionUpdates).toEqual([{
+        id: 'sub_stripe_1',
+        params: { cancel_at_period_end: true, cancellation_details: { comment: 'Switching providers' } },
+        idempotencyKey: `subscription-cancel-sub-1-${new Date('2024-01-15T00:00:00Z').getTime()}-true`,
+      }]);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          canceledAt: new Date(1705400000 * 1000),
+          metadata: {
+            checkoutSessionId: 'cs_test_1',
+            cancellation: {
+              reason: 'Switching providers',
+              cancelAtPeriodEnd: true,
+              requestedBy: 'owner-1',
+              requestedAt: expect.any(String),
+            },
+          },
+          cancelAtPeriodEnd: true,
+          scheduledQuantity: null,
+          scheduledChangeAt: null,
+          stripeScheduleId: null,
+        },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'cancellation_scheduled', actorUserId: 'owner-1' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_UPDATED,
+        expect.objectContaining({ subscriptionId: 'sub-1', cancelAtPeriodEnd: true }),
+        expect.objectContaining({ organizationId: 'org-1', userId: 'owner-1' })
+      );
+      expect(subscriptionSyncService.endCanceled).not.toHaveBeenCalled();
+      expect(mockClient.subscriptionSeat.updateMany).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        subscriptionId: 'sub-1',
+        status: SubscriptionStatus.ACTIVE,
+        cancelAtPeriodEnd: true,
+        canceledAt: new Date(1705400000 * 1000),
+        endsAt: new Date(1707955200 * 1000),
+        reason: 'Switching providers',
+        releasedSeats: 0,
+      });
+    });
+
+    it('should release a scheduled reduction before canceling at the period end', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(
+        activeSubscription({ scheduledQuantity: 4, stripeScheduleId: 'sub_sched_0' })
+      );
+
+      await service.cancel('org-1', 'sub-1', {}, actor);
+
+      expect(stripe.schedulesReleased).toEqual(['sub_sched_0']);
+      expect(stripe.subscriptionUpdates[0].params).toEqual({ cancel_at_period_end: true });
+    });
+
+    it('should clear the released reduction when Stripe rejects the cancellation', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription({
+        scheduledQuantity: 4,
+        scheduledChangeAt: new Date(1707955200 * 1000),
+        stripeScheduleId: 'sub_sched_0',
+      }));
+      stripe.subscriptions.update = async () => {
+        throw new Error('Stripe is unavailable');
+      };
+
+      await expect(service.cancel('org-1', 'sub-1', {}, actor)).rejects.toThrow('Stripe is unavailable');
+      expect(stripe.schedulesReleased).toEqual(['sub_sched_0']);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { scheduledQuantity: null, scheduledChangeAt: null, stripeScheduleId: null },
+      });
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { expiresAt: null, expiryNotifiedAt: null },
+      }));
+      expect(mockClient.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should end the subscription and release its seats when canceling immediately', async () => {
+      const result = await service.cancel('org-1', 'sub-1', { cancelAtPeriodEnd: false }, actor);
+
+      expect(stripe.subscriptionsCanceled).toEqual([{ id: 'sub_stripe_1', params: {} }]);
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+      expect(subscriptionSyncService.endCanceled).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'sub_stripe_1', status: 'canceled' }),
+        actor
+      );
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'canceled' }),
+      }));
+      expect(result).toMatchObject({
+        status: SubscriptionStatus.CANCELED,
+        cancelAtPeriodEnd: false,
+        endsAt: new Date(1705400000 * 1000),
+        releasedSeats: 3,
+      });
+    });
+
+    it('should refuse subscriptions that have ended or are already set to cancel', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription({ cancelAtPeriodEnd: true }));
+      await expect(service.cancel('org-1', 'sub-1', {}, actor)).rejects.toMatchObject({ statusCode: 409 });
+
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(
+        activeSubscription({ status: SubscriptionStatus.CANCELED })
+      );
+      await expect(service.cancel('org-1', 'sub-1', { cancelAtPeriodEnd: false }, actor)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+      expect(stripe.subscriptionsCanceled).toHaveLength(0);
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should undo a pending cancellation in Stripe and locally', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription({
+        cancelAtPeriodEnd: true,
+        metadata: { checkoutSessionId: 'cs_test_1', cancellation: { reason: 'Too expensive' } },
+      }));
+
+      const result = await service.reactivate('org-1', 'sub-1', actor);
+
+      expect(stripe.subscriptionUpdates).toEqual([{
+        id: 'sub_stripe_1',
+        params: { cancel_at_period_end: false },
+        idempotencyKey: `subscription-reactivate-sub-1-${new Date('2024-01-15T00:00:00Z').getTime()}`,
+      }]);
+      expect(mockClient.organizationSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { cancelAtPeriodEnd: false, canceledAt: null, metadata: { checkoutSessionId: 'cs_test_1' } },
+      });
+      expect(mockClient.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'reactivated' }),
+      }));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.SUBSCRIPTION_REACTIVATED,
+        expect.objectContaining({ subscriptionId: 'sub-1' }),
+        expect.any(Object)
+      );
+      expect(result).toMatchObject({ subscriptionId: 'sub-1', cancelAtPeriodEnd: false });
+    });
+
+    it('should refuse subscriptions that are not set to cancel', async () => {
+      mockClient.organizationSubscription.findFirst.mockResolvedValue(activeSubscription());
+
+      await expect(service.reactivate('org-1', 'sub-1', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(stripe.subscriptionUpdates).toHaveLength(0);
+    });
+  });
+});
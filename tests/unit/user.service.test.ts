@@ -0,0 +1,341 @@
+/**
+ * User Service Tests
+ *
+ * Unit tests for adding members, profile metadata, role and status
+ * changes, owner protection, soft deletion with seat release and Clerk
+ * account synchronization.
+ */
+
+jest.mock('../../src/config', () => ({
+  __esModule: true,
+  default: { auth: { invitationTtl: 604800 }, frontendUrl: 'https://app.test' },
+}));
+
+jest.mock('../../src/infrastructure/database/database-manager', () => ({
+  databaseManager: {
+    executeRead: jest.fn(),
+    executeWrite: jest.fn(),
+    executeTransaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/infrastructure/events/event-bus', () => ({
+  ...jest.requireActual('../../src/infrastructure/events/event-bus'),
+  eventBus: { publish: jest.fn() },
+}));
+
+import { Prisma, SeatStatus, UserRole, UserStatus } from '@prisma/client';
+import { databaseManager } from '../../src/infrastructure/database/database-manager';
+import { BillingEvents, eventBus } from '../../src/infrastructure/events/event-bus';
+import { UserService } from '../../src/modules/users/user.service';
+
+const mockClient = {
+  organization: { findFirst: jest.fn() },
+  user: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+  },
+  userInvitation: { findFirst: jest.fn(), update: jest.fn() },
+  subscriptionSeat: { findMany: jest.fn(), updateMany: jest.fn() },
+  auditLog: { create: jest.fn() },
+};
+
+const actor = { actorUserId: 'owner-1', ipAddress: '10.0.0.1' };
+
+const storedUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-2',
+  clerkUserId: 'user_2abc',
+  email: 'jane@acme.com',
+  fullName: 'Jane Doe',
+  organizationId: 'org-1',
+  role: UserRole.MEMBER,
+  status: UserStatus.ACTIVE,
+  metadata: { theme: 'dark', profile: { department: 'Engineering' } },
+  createdAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  deletedAt: null,
+  ...overrides,
+});
+
+describe('UserService', () => {
+  let service: UserService;
+
+  beforeEach(() => {
+    service = new UserService();
+    (databaseManager.executeRead as jest.Mock).mockImplementation((op) => op(mockClient));
+    (databaseManager.executeTransaction as jest.Mock).mockImplementation((op) => op(mockClient));
+    mockClient.organization.findFirst.mockResolvedValue({ id: 'org-1' });
+    mockClient.user.findFirst.mockResolvedValue(storedUser());
+    mockClient.user.create.mockImplementation(async ({ data }) => storedUser({ ...data, id: 'user-new' }));
+    mockClient.user.update.mockImplementation(async ({ data }) =>
+      storedUser(Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)))
+    );
+    mockClient.subscriptionSeat.findMany.mockResolvedValue([]);
+    mockClient.subscriptionSeat.updateMany.mockResolvedValue({ count: 2 });
+    mockClient.auditLog.create.mockResolvedValue({});
+  });
+
+  describe('create', () => {
+    it('should add the account as a MEMBER with profile fields in metadata', async () => {
+      const user = await service.create(
+        'org-1',
+        { email: 'Jane@Acme.com', fullName: 'Jane Doe', clerkUserId: 'user_2abc', jobTitle: 'Engineer' },
+        actor
+      );
+
+      expect(mockClient.user.create.mock.calls[0][0].data).toMatchObject({
+        email: 'jane@acme.com',
+        organizationId: 'org-1',
+        role: UserRole.MEMBER,
+        metadata: { profile: { jobTitle: 'Engineer' } },
+      });
+      expect(user).toMatchObject({ id: 'user-new', jobTitle: 'Engineer', isActive: true });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_ADDED_TO_ORG,
+        { organizationId: 'org-1', userId: 'user-new' },
+        expect.any(Object)
+      );
+    });
+
+    it('should turn a unique violation into a conflict', async () => {
+      mockClient.user.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '6.0.0',
+          meta: { target: ['email'] },
+        })
+      );
+
+      await expect(
+        service.create('org-1', { email: 'jane@acme.com', fullName: 'Jane', clerkUserId: 'user_2abc' }, actor)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('list', () => {
+    it('should page through the organization\'s non-deleted members', async () => {
+      mockClient.user.findMany.mockResolvedValue([storedUser()]);
+      mockClient.user.count.mockResolvedValue(21);
+
+      const result = await service.list('org-1', { page: 2, limit: 20, search: 'jane', role: UserRole.MEMBER });
+
+      const { where, skip } = mockClient.user.findMany.mock.calls[0][0];
+      expect(where).toMatchObject({ organizationId: 'org-1', deletedAt: null, role: UserRole.MEMBER });
+      expect(where.OR).toHaveLength(2);
+      expect(skip).toBe(20);
+      expect(result.meta).toMatchObject({ total: 21, page: 2, totalPages: 2 });
+    });
+  });
+
+  describe('update', () => {
+    it('should merge profile fields into the stored metadata', async () => {
+      await service.update('org-1', 'user-2', { timezone: 'Europe/Paris' }, actor);
+
+      expect(mockClient.user.update.mock.calls[0][0].data.metadata).toEqual({
+        theme: 'dark',
+        profile: { department: 'Engineering', timezone: 'Europe/Paris' },
+      });
+    });
+  });
+
+  describe('changeRole', () => {
+    it('should change the role and audit it', async () => {
+      const user = await service.changeRole('org-1', 'user-2', { role: UserRole.BILLING_ADMIN }, actor);
+
+      expect(user.role).toBe(UserRole.BILLING_ADMIN);
+      expect(mockClient.auditLog.create.mock.calls[0][0].data).toMatchObject({
+        action: 'role_changed',
+        changes: { role: { from: UserRole.MEMBER, to: UserRole.BILLING_ADMIN } },
+      });
+    });
+
+    it('should refuse to change the owner', async () => {
+      mockClient.user.findFirst.mockResolvedValue(storedUser({ role: UserRole.OWNER }));
+
+      await expect(
+        service.changeRole('org-1', 'user-2', { role: UserRole.ADMIN }, actor)
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeStatus', () => {
+    it('should publish USER_SUSPENDED when suspending', async () => {
+      const user = await service.changeStatus(
+        'org-1',
+        'user-2',
+        { status: UserStatus.SUSPENDED, reason: 'Policy' },
+        actor
+      );
+
+      expect(user.isActive).toBe(false);
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_SUSPENDED,
+        { organizationId: 'org-1', userId: 'user-2' },
+        expect.any(Object)
+      );
+      expect(mockClient.auditLog.create.mock.calls[0][0].data.metadata).toEqual({ reason: 'Policy' });
+    });
+
+    it('should publish USER_DEACTIVATED when deactivating', async () => {
+      await service.changeStatus('org-1', 'user-2', { status: UserStatus.INACTIVE }, actor);
+
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_DEACTIVATED,
+        { organizationId: 'org-1', userId: 'user-2' },
+        expect.any(Object)
+      );
+    });
+
+    it('should publish USER_REACTIVATED when reactivating', async () => {
+      mockClient.user.findFirst.mockResolvedValue(storedUser({ status: UserStatus.SUSPENDED }));
+
+      await service.changeStatus('org-1', 'user-2', { status: UserStatus.ACTIVE }, actor);
+
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_REACTIVATED,
+        { organizationId: 'org-1', userId: 'user-2' },
+        expect.any(Object)
+      );
+    });
+
+    it('should refuse a no-op change', async () => {
+      await expect(
+        service.changeStatus('org-1', 'user-2', { status: UserStatus.ACTIVE }, actor)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('softDelete', () => {
+    it('should release the user\'s seats and set deletedAt', async () => {
+      const user = await service.softDelete('org-1', 'user-2', actor);
+
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-2', status: { not: SeatStatus.REMOVED } },
+        data: { status: SeatStatus.REMOVED, removedAt: expect.any(Date) },
+      });
+      expect(mockClient.user.update.mock.calls[0][0].data).toEqual({
+        status: UserStatus.INACTIVE,
+        deletedAt: expect.any(Date),
+      });
+      expect(user.status).toBe(UserStatus.INACTIVE);
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_REMOVED_FROM_ORG,
+        { organizationId: 'org-1', userId: 'user-2', releasedSeats: 2 },
+        expect.any(Object)
+      );
+    });
+
+    it('should refuse to delete the owner', async () => {
+      mockClient.user.findFirst.mockResolvedValue(storedUser({ role: UserRole.OWNER }));
+
+      await expect(service.softDelete('org-1', 'user-2', actor)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockClient.subscriptionSeat.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncClerkAccount', () => {
+    const account = { clerkUserId: 'user_new', email: 'New@Acme.com', fullName: 'New Person' };
+
+    it('should leave an unchanged known Clerk account alone', async () => {
+      mockClient.user.findUnique.mockResolvedValue(storedUser({ email: 'new@acme.com', fullName: 'New Person' }));
+
+      const user = await service.syncClerkAccount(account, actor);
+
+      expect(user.id).toBe('user-2');
+      expect(mockClient.user.create).not.toHaveBeenCalled();
+      expect(mockClient.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refresh the email and name of a known Clerk account', async () => {
+      mockClient.user.findUnique.mockResolvedValue(storedUser());
+
+      const user = await service.syncClerkAccount(account, actor);
+
+      expect(mockClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-2' },
+        data: { email: 'new@acme.com', fullName: 'New Person' },
+      });
+      expect(user.email).toBe('new@acme.com');
+      expect(mockClient.auditLog.create.mock.calls[0][0].data.changes).toMatchObject({
+        email: { from: 'jane@acme.com', to: 'new@acme.com' },
+      });
+    });
+
+    it('should not touch deleted users', async () => {
+      mockClient.user.findUnique.mockResolvedValue(storedUser({ deletedAt: new Date() }));
+
+      await service.syncClerkAccount(account, actor);
+
+      expect(mockClient.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should create the user without an organization when nobody invited them', async () => {
+      mockClient.user.findUnique.mockResolvedValue(null);
+      mockClient.user.create.mockImplementation(async ({ data }) =>
+        storedUser({ ...data, id: 'user-new', organizationId: null, metadata: null })
+      );
+      mockClient.userInvitation.findFirst.mockResolvedValue(null);
+
+      const user = await service.syncClerkAccount(account, actor);
+
+      expect(mockClient.user.create.mock.calls[0][0].data.email).toBe('new@acme.com');
+      expect(user.organizationId).toBeNull();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should accept a pending invitation for the email', async () => {
+      const invitation = { id: 'inv-1', organizationId: 'org-1', email: 'new@acme.com', role: UserRole.ADMIN };
+      mockClient.user.findUnique.mockResolvedValue(null);
+      mockClient.user.create.mockImplementation(async ({ data }) =>
+        storedUser({ ...data, id: 'user-new', organizationId: null })
+      );
+      mockClient.userInvitation.findFirst.mockResolvedValue(invitation);
+      mockClient.userInvitation.update.mockResolvedValue({ ...invitation, acceptedAt: new Date() });
+      mockClient.user.findUniqueOrThrow.mockResolvedValue(
+        storedUser({ id: 'user-new', organizationId: 'org-1', role: UserRole.ADMIN })
+      );
+
+      const user = await service.syncClerkAccount(account, actor);
+
+      expect(mockClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-new' },
+        data: { organizationId: 'org-1', role: UserRole.ADMIN },
+      });
+      expect(user).toMatchObject({ organizationId: 'org-1', role: UserRole.ADMIN });
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_ADDED_TO_ORG,
+        { organizationId: 'org-1', userId: 'user-new' },
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('removeClerkAccount', () => {
+    it('should soft delete the user and free their seats', async () => {
+      const user = await service.removeClerkAccount('user_2abc', actor);
+
+      expect(mockClient.user.findFirst).toHaveBeenCalledWith({ where: { clerkUserId: 'user_2abc', deletedAt: null } });
+      expect(mockClient.subscriptionSeat.updateMany).toHaveBeenCalled();
+      expect(user?.deletedAt).toEqual(expect.any(Date));
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        BillingEvents.USER_REMOVED_FROM_ORG,
+        { organizationId: 'org-1', userId: 'user-2', releasedSeats: 2 },
+        expect.any(Object)
+      );
+    });
+
+    it('should ignore unknown or already deleted accounts', async () => {
+      mockClient.user.findFirst.mockResolvedValue(null);
+
+      await expect(service.removeClerkAccount('user_gone', actor)).resolves.toBeNull();
+      expect(mockClient.subscriptionSeat.updateMany).not.toHaveBeenCalled();
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+});